@@ -0,0 +1,92 @@
+import React from 'react';
+import { DateSource } from '../utils/project';
+
+// バッチ画像ごとの区画と撮影日（date は "YYYY-MM-DD"、未設定は空文字）
+export interface BatchAssignment {
+  plotId: string;
+  date: string;
+}
+
+// バッチ画像の区画・撮影日の割り当て（時系列用）
+const BatchAssignments: React.FC<{
+  files: File[];
+  assignments: BatchAssignment[];
+  dateSource: DateSource;
+  filenamePattern: string;
+  onDateSourceChange: (source: DateSource) => void;
+  onFilenamePatternChange: (pattern: string) => void;
+  onChange: (assignments: BatchAssignment[]) => void;
+  t: any;
+}> = ({ files, assignments, dateSource, filenamePattern, onDateSourceChange, onFilenamePatternChange, onChange, t }) => {
+  const update = (index: number, patch: Partial<BatchAssignment>) =>
+    onChange(assignments.map((assignment, i) => i === index ? { ...assignment, ...patch } : assignment));
+
+  return (
+    <div className="space-y-2">
+      <label className="block text-sm font-medium">{t.timeSeries.assignments}</label>
+      <div className="flex flex-wrap items-center gap-4 text-sm">
+        {(['exif', 'filename', 'manual'] as DateSource[]).map(key => (
+          <label key={key} className="flex items-center">
+            <input
+              type="radio"
+              value={key}
+              checked={dateSource === key}
+              onChange={() => onDateSourceChange(key)}
+              className="mr-2"
+            />
+            {t.timeSeries.dateSources[key]}
+          </label>
+        ))}
+        <label className="flex items-center gap-1">
+          {t.timeSeries.filenamePattern}
+          <input
+            type="text"
+            value={filenamePattern}
+            onChange={(e) => onFilenamePatternChange(e.target.value)}
+            placeholder="{plot}_{yyyy}{mm}{dd}*"
+            className="w-56 p-1 border rounded font-mono"
+          />
+        </label>
+      </div>
+      <p className="text-xs text-gray-500">{t.timeSeries.patternHelp}</p>
+      {files.length > 0 && (
+        <div className="max-h-64 overflow-y-auto border rounded">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-100 sticky top-0">
+              <tr>
+                <th className="p-1 text-left">{t.timeSeries.file}</th>
+                <th className="p-1 text-left">{t.plots.plotId}</th>
+                <th className="p-1 text-left">{t.timeSeries.date}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {files.map((file, i) => (
+                <tr key={`${file.name}-${i}`} className="border-t">
+                  <td className="p-1 truncate">{file.name}</td>
+                  <td className="p-1">
+                    <input
+                      type="text"
+                      value={assignments[i]?.plotId ?? ''}
+                      onChange={(e) => update(i, { plotId: e.target.value })}
+                      className="w-28 p-0.5 border rounded"
+                    />
+                  </td>
+                  <td className="p-1">
+                    <input
+                      type="date"
+                      value={assignments[i]?.date ?? ''}
+                      onChange={(e) => update(i, { date: e.target.value })}
+                      className="p-0.5 border rounded"
+                    />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BatchAssignments;
@@ -0,0 +1,205 @@
+import React, { useState, useRef } from 'react';
+import {
+  AnalysisOptions,
+  Calibration,
+  Region,
+  colorCheckerPatches,
+  computeCalibration,
+  regionPolygon
+} from '../engine';
+import { getImageData } from '../utils/image';
+import { CalibrationMode, CalibrationSettings } from '../utils/project';
+
+// 解析オプションに渡す補正
+export const calibrationOptions = (settings: CalibrationSettings): Pick<AnalysisOptions, 'calibration' | 'calibrationReference'> => {
+  if (settings.mode === 'none' || !settings.region) return {};
+  if (settings.perImage) return { calibrationReference: { method: settings.mode, region: settings.region } };
+  return settings.calibration ? { calibration: settings.calibration } : {};
+};
+
+const toPointsAttribute = (points: Array<[number, number]>) =>
+  points.map(([x, y]) => `${x},${y}`).join(' ');
+
+// 色補正の参照（白・灰色パネルまたはカラーチェッカー）の指定
+const CalibrationPanel: React.FC<{
+  image: HTMLImageElement | null;
+  settings: CalibrationSettings;
+  onChange: (settings: CalibrationSettings) => void;
+  t: any;
+}> = ({ image, settings, onChange, t }) => {
+  const [draft, setDraft] = useState<Array<[number, number]>>([]);
+  const [error, setError] = useState('');
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dragStartRef = useRef<[number, number] | null>(null);
+
+  const toPoint = (event: React.MouseEvent): [number, number] => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    const x = Math.min(1, Math.max(0, (event.clientX - rect.left) / rect.width));
+    const y = Math.min(1, Math.max(0, (event.clientY - rect.top) / rect.height));
+    return [x, y];
+  };
+
+  // 参照を決めたら現在の画像から補正を求める
+  const setRegion = (region: Region | null, mode = settings.mode) => {
+    let calibration: Calibration | null = null;
+    setError('');
+    if (region && image && mode !== 'none') {
+      try {
+        const { data, width, height } = getImageData(image);
+        calibration = computeCalibration(data, width, height, { method: mode, region });
+      } catch (e) {
+        setError(e instanceof Error ? e.message : String(e));
+      }
+    }
+    onChange({ ...settings, mode, region, calibration });
+  };
+
+  const handleModeChange = (mode: CalibrationMode) => {
+    setDraft([]);
+    setRegion(null, mode);
+  };
+
+  const handleMouseDown = (event: React.MouseEvent) => {
+    if (settings.mode !== 'whiteBalance') return;
+    const point = toPoint(event);
+    dragStartRef.current = point;
+    setDraft([point, point]);
+  };
+
+  const handleMouseMove = (event: React.MouseEvent) => {
+    if (settings.mode !== 'whiteBalance' || !dragStartRef.current) return;
+    setDraft([dragStartRef.current, toPoint(event)]);
+  };
+
+  const handleMouseUp = (event: React.MouseEvent) => {
+    if (settings.mode !== 'whiteBalance' || !dragStartRef.current) return;
+    const [x0, y0] = dragStartRef.current;
+    const [x1, y1] = toPoint(event);
+    dragStartRef.current = null;
+    setDraft([]);
+    if (Math.abs(x1 - x0) > 0.005 && Math.abs(y1 - y0) > 0.005) {
+      setRegion({ shape: 'rectangle', points: [[x0, y0], [x1, y1]] });
+    }
+  };
+
+  // カラーチェッカーは暗い肌色のパッチの角から、6パッチの辺に沿って四隅をクリックする
+  const handleClick = (event: React.MouseEvent) => {
+    if (settings.mode !== 'colorChecker') return;
+    const points = [...draft, toPoint(event)];
+    if (points.length < 4) {
+      setDraft(points);
+      return;
+    }
+    setDraft([]);
+    setRegion({ shape: 'polygon', points });
+  };
+
+  const patches = settings.mode === 'colorChecker' && settings.region ? colorCheckerPatches(settings.region.points) : [];
+  const draftPolygon = settings.mode === 'whiteBalance' && draft.length === 2
+    ? regionPolygon({ shape: 'rectangle', points: draft })
+    : draft;
+
+  return (
+    <div className="space-y-2">
+      <label className="block text-sm font-medium">{t.calibration.label}</label>
+      <div className="flex flex-wrap items-center gap-4 text-sm">
+        {(['none', 'whiteBalance', 'colorChecker'] as CalibrationMode[]).map(key => (
+          <label key={key} className="flex items-center">
+            <input
+              type="radio"
+              value={key}
+              checked={settings.mode === key}
+              onChange={() => handleModeChange(key)}
+              className="mr-2"
+            />
+            {t.calibration.modes[key]}
+          </label>
+        ))}
+        {settings.mode !== 'none' && (
+          <label className="flex items-center">
+            <input
+              type="checkbox"
+              checked={settings.perImage}
+              onChange={(e) => onChange({ ...settings, perImage: e.target.checked })}
+              className="mr-2"
+            />
+            {t.calibration.perImage}
+          </label>
+        )}
+      </div>
+
+      {settings.mode !== 'none' && (
+        <>
+          <p className="text-xs text-gray-500">
+            {settings.mode === 'whiteBalance' ? t.calibration.whiteBalanceHelp : t.calibration.colorCheckerHelp}
+          </p>
+          {!image && <p className="text-sm text-gray-500">{t.calibration.noImage}</p>}
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          {settings.calibration && (
+            <div className="text-sm">
+              <p>{t.calibration.matrix} (RMSE {settings.calibration.rmse.toFixed(2)})</p>
+              <table className="font-mono text-xs">
+                <tbody>
+                  {[0, 1, 2].map(row => (
+                    <tr key={row}>
+                      {settings.calibration!.matrix.slice(row * 3, row * 3 + 3).map((value, i) => (
+                        <td key={i} className="pr-3 text-right">{value.toFixed(4)}</td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+          {image && (
+            <div className="relative max-w-md">
+              <img src={image.src} alt="Calibration reference" className="w-full h-auto rounded shadow-md select-none" draggable={false} />
+              <svg
+                ref={svgRef}
+                viewBox="0 0 1 1"
+                preserveAspectRatio="none"
+                className="absolute inset-0 w-full h-full cursor-crosshair"
+                onMouseDown={handleMouseDown}
+                onMouseMove={handleMouseMove}
+                onMouseUp={handleMouseUp}
+                onClick={handleClick}
+              >
+                {settings.region && (
+                  <polygon
+                    points={toPointsAttribute(regionPolygon(settings.region))}
+                    fill="none"
+                    stroke="rgb(234, 88, 12)"
+                    strokeWidth={2}
+                    vectorEffect="non-scaling-stroke"
+                  />
+                )}
+                {patches.map((patch, i) => (
+                  <polygon
+                    key={i}
+                    points={toPointsAttribute(patch.points)}
+                    fill="none"
+                    stroke="rgb(250, 204, 21)"
+                    strokeWidth={1}
+                    vectorEffect="non-scaling-stroke"
+                  />
+                ))}
+                {draftPolygon.length > 0 && (
+                  <polyline
+                    points={toPointsAttribute(settings.mode === 'whiteBalance' ? [...draftPolygon, draftPolygon[0]] : draftPolygon)}
+                    fill="none"
+                    stroke="rgb(234, 88, 12)"
+                    strokeWidth={2}
+                    strokeDasharray="4 2"
+                    vectorEffect="non-scaling-stroke"
+                  />
+                )}
+              </svg>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CalibrationPanel;
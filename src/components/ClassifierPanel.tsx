@@ -0,0 +1,299 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  AnalysisOptions,
+  ClassifierStroke,
+  PixelClassifier,
+  RGB,
+  TrainingClass,
+  applyCalibration,
+  computeCalibration,
+  parseClassifier,
+  toCssColor,
+  trainClassifier
+} from '../engine';
+import { downloadBlob } from '../utils/download';
+import { getImageData } from '../utils/image';
+
+// クラスの表示色（追加した順に使う）
+const CLASS_COLORS: RGB[] = [
+  [34, 197, 94], [146, 64, 14], [234, 179, 8], [59, 130, 246], [168, 85, 247], [236, 72, 153], [20, 184, 166], [100, 116, 139]
+];
+
+const toPointsAttribute = (points: Array<[number, number]>) =>
+  (points.length === 1 ? [points[0], points[0]] : points).map(([x, y]) => `${x},${y}`).join(' ');
+
+// 元画像に植生・土などを塗って画素分類器を学習する（学習した分類器が閾値の代わりになる）
+const ClassifierPanel: React.FC<{
+  image: HTMLImageElement | null;
+  // 解析と同じ色補正を学習する画素にも適用する
+  calibration: Pick<AnalysisOptions, 'calibration' | 'calibrationReference'>;
+  classifier: PixelClassifier | null;
+  onChange: (classifier: PixelClassifier | null) => void;
+  t: any;
+}> = ({ image, calibration, classifier, onChange, t }) => {
+  const [classes, setClasses] = useState<TrainingClass[]>(() => classifier
+    ? classifier.classes.map(({ name, vegetation, color }) => ({ name, vegetation, color }))
+    : (t.classifier.defaultClasses as string[]).map((name, k) => ({ name, vegetation: k === 0, color: CLASS_COLORS[k] })));
+  const [active, setActive] = useState(0);
+  const [brushSize, setBrushSize] = useState(8);
+  const [strokes, setStrokes] = useState<ClassifierStroke[]>([]);
+  const [draft, setDraft] = useState<ClassifierStroke | null>(null);
+  const [newName, setNewName] = useState('');
+  const [error, setError] = useState('');
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  // 塗った線は画像ごと（別の画像を読み込んだら消す）
+  useEffect(() => {
+    setStrokes([]);
+    setDraft(null);
+  }, [image]);
+
+  const toPoint = (event: React.MouseEvent): [number, number] => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    const x = Math.min(1, Math.max(0, (event.clientX - rect.left) / rect.width));
+    const y = Math.min(1, Math.max(0, (event.clientY - rect.top) / rect.height));
+    return [x * image!.width, y * image!.height];
+  };
+
+  const handleMouseDown = (event: React.MouseEvent) => {
+    if (active >= classes.length) return;
+    setDraft({ classIndex: active, size: brushSize, points: [toPoint(event)] });
+  };
+
+  const handleMouseMove = (event: React.MouseEvent) => {
+    if (!draft) return;
+    setDraft({ ...draft, points: [...draft.points, toPoint(event)] });
+  };
+
+  const finishStroke = () => {
+    if (!draft) return;
+    setStrokes(prev => [...prev, draft]);
+    setDraft(null);
+  };
+
+  const updateClass = (index: number, changes: Partial<TrainingClass>) => {
+    setClasses(prev => prev.map((item, k) => k === index ? { ...item, ...changes } : item));
+  };
+
+  const addClass = () => {
+    const name = newName.trim();
+    if (!name) return;
+    setClasses(prev => [...prev, { name, vegetation: false, color: CLASS_COLORS[prev.length % CLASS_COLORS.length] }]);
+    setActive(classes.length);
+    setNewName('');
+  };
+
+  // クラスを削除したらそのクラスの線も消し、後ろのクラスの番号を詰める
+  const removeClass = (index: number) => {
+    setClasses(prev => prev.filter((_, k) => k !== index));
+    setStrokes(prev => prev
+      .filter(stroke => stroke.classIndex !== index)
+      .map(stroke => stroke.classIndex > index ? { ...stroke, classIndex: stroke.classIndex - 1 } : stroke));
+    setActive(prev => Math.max(0, prev > index ? prev - 1 : prev === index ? 0 : prev));
+  };
+
+  const train = () => {
+    if (!image) return;
+    try {
+      const { data, width, height } = getImageData(image);
+      const applied = calibration.calibrationReference
+        ? computeCalibration(data, width, height, calibration.calibrationReference)
+        : calibration.calibration;
+      onChange(trainClassifier(applied ? applyCalibration(data, applied) : data, width, height, classes, strokes));
+      setError('');
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const saveModel = () => {
+    if (!classifier) return;
+    downloadBlob(new Blob([JSON.stringify(classifier, null, 2)], { type: 'application/json' }), 'vegetation_classifier.json');
+  };
+
+  const loadModel = async (file: File) => {
+    try {
+      const loaded = parseClassifier(JSON.parse(await file.text()));
+      setClasses(loaded.classes.map(({ name, vegetation, color }) => ({ name, vegetation, color })));
+      setStrokes([]);
+      setActive(0);
+      setError('');
+      onChange(loaded);
+    } catch (e) {
+      console.error('Classifier import error:', e);
+      setError(`${t.classifier.loadError}: ${e instanceof Error ? e.message : e}`);
+    }
+  };
+
+  const paintedCounts = classes.map((_, k) => strokes.filter(stroke => stroke.classIndex === k).length);
+
+  return (
+    <div className="space-y-2">
+      <label className="block text-sm font-medium">{t.classifier.label}</label>
+      <p className="text-xs text-gray-500">{t.classifier.help}</p>
+
+      <div className="space-y-1 text-sm">
+        {classes.map((item, k) => (
+          <div key={k} className="flex flex-wrap items-center gap-2">
+            <input
+              type="radio"
+              checked={active === k}
+              onChange={() => setActive(k)}
+            />
+            <span className="inline-block w-4 h-4 rounded" style={{ backgroundColor: toCssColor(item.color) }} />
+            <input
+              type="text"
+              value={item.name}
+              onChange={(e) => updateClass(k, { name: e.target.value })}
+              className="w-32 p-1 border rounded"
+            />
+            <label className="flex items-center">
+              <input
+                type="checkbox"
+                checked={item.vegetation}
+                onChange={(e) => updateClass(k, { vegetation: e.target.checked })}
+                className="mr-1"
+              />
+              {t.classifier.vegetation}
+            </label>
+            <span className="text-gray-600">{t.classifier.strokes}: {paintedCounts[k]}</span>
+            <button
+              onClick={() => removeClass(k)}
+              disabled={classes.length <= 2}
+              className="text-red-600 hover:underline disabled:text-gray-400"
+            >
+              {t.classifier.removeClass}
+            </button>
+          </div>
+        ))}
+        <div className="flex items-center gap-2">
+          <input
+            type="text"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder={t.classifier.className}
+            className="w-32 p-1 border rounded"
+          />
+          <button
+            onClick={addClass}
+            disabled={!newName.trim()}
+            className="py-1 px-3 bg-gray-100 rounded hover:bg-gray-200 disabled:text-gray-400"
+          >
+            {t.classifier.addClass}
+          </button>
+        </div>
+      </div>
+
+      {!image && <p className="text-sm text-gray-500">{t.classifier.noImage}</p>}
+      {image && (
+        <>
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <label className="flex items-center gap-1">
+              {t.classifier.brushSize}
+              <input
+                type="number"
+                min={1}
+                value={brushSize}
+                onChange={(e) => setBrushSize(Math.max(1, parseInt(e.target.value, 10) || 1))}
+                className="w-16 p-1 border rounded"
+              />
+              px
+            </label>
+            <button
+              onClick={() => setStrokes(prev => prev.slice(0, -1))}
+              disabled={strokes.length === 0}
+              className="py-1 px-3 bg-gray-100 rounded hover:bg-gray-200 disabled:text-gray-400"
+            >
+              {t.classifier.undo}
+            </button>
+            <button
+              onClick={() => setStrokes([])}
+              disabled={strokes.length === 0}
+              className="py-1 px-3 bg-gray-100 rounded hover:bg-gray-200 disabled:text-gray-400"
+            >
+              {t.classifier.clear}
+            </button>
+            <button
+              onClick={train}
+              disabled={strokes.length === 0}
+              className="py-1 px-3 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:bg-gray-300"
+            >
+              {t.classifier.train}
+            </button>
+          </div>
+          <div className="relative max-w-md">
+            <img src={image.src} alt="Training samples" className="w-full h-auto rounded shadow-md select-none" draggable={false} />
+            <svg
+              ref={svgRef}
+              viewBox={`0 0 ${image.width} ${image.height}`}
+              preserveAspectRatio="none"
+              className="absolute inset-0 w-full h-full cursor-crosshair"
+              onMouseDown={handleMouseDown}
+              onMouseMove={handleMouseMove}
+              onMouseUp={finishStroke}
+              onMouseLeave={finishStroke}
+            >
+              {[...strokes, ...(draft ? [draft] : [])].map((stroke, i) => (
+                <polyline
+                  key={i}
+                  points={toPointsAttribute(stroke.points)}
+                  fill="none"
+                  stroke={toCssColor(classes[stroke.classIndex]?.color ?? [128, 128, 128])}
+                  strokeOpacity={0.7}
+                  strokeWidth={stroke.size}
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                />
+              ))}
+            </svg>
+          </div>
+        </>
+      )}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {classifier && (
+        <div className="text-sm">
+          <p>{t.classifier.trained} ({classifier.features.length} {t.classifier.features})</p>
+          <ul className="text-gray-600">
+            {classifier.classes.map((item, k) => (
+              <li key={k}>
+                {item.name}{item.vegetation ? ` (${t.classifier.vegetation})` : ''}: {item.samples.toLocaleString()} px
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {!classifier && <p className="text-sm text-amber-700">{t.classifier.untrained}</p>}
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <button
+          onClick={saveModel}
+          disabled={!classifier}
+          className="py-1 px-3 bg-blue-50 text-blue-700 rounded hover:bg-blue-100 disabled:text-gray-400"
+        >
+          {t.classifier.save}
+        </button>
+        <button
+          onClick={() => onChange(null)}
+          disabled={!classifier}
+          className="py-1 px-3 bg-gray-100 rounded hover:bg-gray-200 disabled:text-gray-400"
+        >
+          {t.classifier.discard}
+        </button>
+        <label className="text-gray-600">{t.classifier.load}</label>
+        <input
+          type="file"
+          accept=".json,application/json"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) loadModel(file);
+            e.target.value = '';
+          }}
+          className="text-sm text-gray-500 file:mr-2 file:py-1 file:px-3 file:rounded-full file:border-0
+            file:text-sm file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100"
+        />
+      </div>
+    </div>
+  );
+};
+
+export default ClassifierPanel;
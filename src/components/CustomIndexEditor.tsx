@@ -0,0 +1,141 @@
+import React, { useState } from 'react';
+import { CustomIndex, FORMULA_FUNCTIONS, InputSpace, UndefinedPixelHandling, validateCustomIndex } from '../engine';
+
+const EMPTY_DRAFT: CustomIndex = { key: '', name: '', formula: '', input: 'chromatic' };
+
+// ユーザー定義の植生指数の作成・削除
+const CustomIndexEditor: React.FC<{
+  customIndices: CustomIndex[];
+  onChange: (customIndices: CustomIndex[]) => void;
+  t: any;
+}> = ({ customIndices, onChange, t }) => {
+  const [draft, setDraft] = useState<CustomIndex>(EMPTY_DRAFT);
+  const [rangeText, setRangeText] = useState<[string, string]>(['', '']);
+
+  // 範囲は両方入力した場合のみ使う
+  const range: [number, number] | undefined = rangeText[0] !== '' && rangeText[1] !== ''
+    ? [parseFloat(rangeText[0]), parseFloat(rangeText[1])]
+    : undefined;
+  const definition: CustomIndex = { ...draft, key: draft.key.trim(), name: draft.name.trim(), range };
+  const validation = validateCustomIndex(definition, customIndices);
+  const isEmpty = !draft.key && !draft.name && !draft.formula;
+
+  const addIndex = () => {
+    if (validation) return;
+    onChange([...customIndices, definition]);
+    setDraft(EMPTY_DRAFT);
+    setRangeText(['', '']);
+  };
+
+  return (
+    <div className="space-y-2">
+      <label className="block text-sm font-medium">{t.customIndex.title}</label>
+      {customIndices.length > 0 && (
+        <ul className="text-sm space-y-1">
+          {customIndices.map(index => (
+            <li key={index.key} className="flex items-center gap-2">
+              <span className="font-mono">{index.key}</span>
+              <span>{index.name}</span>
+              <span className="font-mono text-gray-600">= {index.formula}</span>
+              <span className="text-gray-500">({t.customIndex.inputs[index.input]})</span>
+              <button
+                onClick={() => onChange(customIndices.filter(item => item.key !== index.key))}
+                className="py-0.5 px-2 bg-gray-100 rounded hover:bg-gray-200"
+              >
+                {t.customIndex.delete}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <input
+          type="text"
+          value={draft.key}
+          onChange={(e) => setDraft({ ...draft, key: e.target.value })}
+          placeholder={t.customIndex.key}
+          className="w-24 p-1 border rounded font-mono"
+        />
+        <input
+          type="text"
+          value={draft.name}
+          onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+          placeholder={t.customIndex.name}
+          className="p-1 border rounded"
+        />
+        <input
+          type="text"
+          value={draft.formula}
+          onChange={(e) => setDraft({ ...draft, formula: e.target.value })}
+          placeholder="(2*g - r - b) / (r + g + b)"
+          className="flex-1 min-w-[16rem] p-1 border rounded font-mono"
+        />
+      </div>
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <select
+          value={draft.input}
+          onChange={(e) => setDraft({ ...draft, input: e.target.value as InputSpace })}
+          className="p-1 border rounded"
+        >
+          {(['chromatic', 'scaled', 'raw'] as InputSpace[]).map(key => (
+            <option key={key} value={key}>{t.customIndex.inputs[key]}</option>
+          ))}
+        </select>
+        <select
+          value={draft.undefinedPixels ?? 'skip'}
+          onChange={(e) => setDraft({ ...draft, undefinedPixels: e.target.value as UndefinedPixelHandling })}
+          className="p-1 border rounded"
+        >
+          {(['skip', 'clamp'] as UndefinedPixelHandling[]).map(key => (
+            <option key={key} value={key}>{t.customIndex.undefinedPixels[key]}</option>
+          ))}
+        </select>
+        <label className="flex items-center gap-1">
+          {t.customIndex.range}
+          <input
+            type="number"
+            value={rangeText[0]}
+            onChange={(e) => setRangeText([e.target.value, rangeText[1]])}
+            placeholder="-1"
+            className="w-20 p-1 border rounded"
+          />
+          〜
+          <input
+            type="number"
+            value={rangeText[1]}
+            onChange={(e) => setRangeText([rangeText[0], e.target.value])}
+            placeholder="1"
+            className="w-20 p-1 border rounded"
+          />
+        </label>
+        <label className="flex items-center">
+          <input
+            type="checkbox"
+            checked={draft.vegetationLow ?? false}
+            onChange={(e) => setDraft({ ...draft, vegetationLow: e.target.checked })}
+            className="mr-1"
+          />
+          {t.customIndex.vegetationLow}
+        </label>
+        <button
+          onClick={addIndex}
+          disabled={validation !== null}
+          className="py-1 px-3 bg-blue-50 text-blue-700 rounded hover:bg-blue-100 disabled:text-gray-400"
+        >
+          {t.customIndex.add}
+        </button>
+      </div>
+      {validation && !isEmpty && (
+        <p className="text-sm text-red-600">
+          {t.customIndex.errors[validation.problem]}
+          {validation.message && `: ${validation.message}`}
+        </p>
+      )}
+      <p className="text-xs text-gray-500">
+        {t.customIndex.help} {FORMULA_FUNCTIONS.join(', ')}
+      </p>
+    </div>
+  );
+};
+
+export default CustomIndexEditor;
@@ -0,0 +1,113 @@
+import React from 'react';
+import { ExclusionOptions, ShadowMethod } from '../engine';
+
+// 有効にしたときの初期値
+const DEFAULT_SATURATED = 250;
+const DEFAULT_DARK = 15;
+const DEFAULT_SHADOW_THRESHOLD: Record<ShadowMethod, number> = { hsv: 0.3, lab: 1 };
+
+// 白飛び・黒つぶれ・影の除外の設定
+const ExclusionControls: React.FC<{
+  exclusions: ExclusionOptions;
+  onChange: (exclusions: ExclusionOptions) => void;
+  t: any;
+}> = ({ exclusions, onChange, t }) => {
+  const toggle = <K extends keyof ExclusionOptions>(key: K, enabled: boolean, value: ExclusionOptions[K]) => {
+    const next = { ...exclusions };
+    if (enabled) {
+      next[key] = value;
+    } else {
+      delete next[key];
+    }
+    onChange(next);
+  };
+  const readNumber = (value: string, fallback: number) => {
+    const number = parseFloat(value);
+    return Number.isFinite(number) ? number : fallback;
+  };
+
+  return (
+    <div className="space-y-2">
+      <label className="block text-sm font-medium">{t.exclusion.label}</label>
+      <div className="flex flex-wrap items-center gap-x-6 gap-y-2 text-sm">
+        <label className="flex items-center gap-1">
+          <input
+            type="checkbox"
+            checked={exclusions.saturated !== undefined}
+            onChange={(e) => toggle('saturated', e.target.checked, DEFAULT_SATURATED)}
+            className="mr-1"
+          />
+          {t.exclusion.saturated}
+          <input
+            type="number"
+            min={1}
+            max={255}
+            value={exclusions.saturated ?? DEFAULT_SATURATED}
+            disabled={exclusions.saturated === undefined}
+            onChange={(e) => onChange({ ...exclusions, saturated: readNumber(e.target.value, DEFAULT_SATURATED) })}
+            className="w-16 p-1 border rounded"
+          />
+        </label>
+        <label className="flex items-center gap-1">
+          <input
+            type="checkbox"
+            checked={exclusions.dark !== undefined}
+            onChange={(e) => toggle('dark', e.target.checked, DEFAULT_DARK)}
+            className="mr-1"
+          />
+          {t.exclusion.dark}
+          <input
+            type="number"
+            min={0}
+            max={254}
+            value={exclusions.dark ?? DEFAULT_DARK}
+            disabled={exclusions.dark === undefined}
+            onChange={(e) => onChange({ ...exclusions, dark: readNumber(e.target.value, DEFAULT_DARK) })}
+            className="w-16 p-1 border rounded"
+          />
+        </label>
+        <label className="flex items-center gap-1">
+          <input
+            type="checkbox"
+            checked={exclusions.shadow !== undefined}
+            onChange={(e) => toggle('shadow', e.target.checked, { method: 'lab', threshold: DEFAULT_SHADOW_THRESHOLD.lab })}
+            className="mr-1"
+          />
+          {t.exclusion.shadow}
+        </label>
+        {exclusions.shadow && (
+          <>
+            <select
+              value={exclusions.shadow.method}
+              onChange={(e) => {
+                const method = e.target.value as ShadowMethod;
+                onChange({ ...exclusions, shadow: { method, threshold: DEFAULT_SHADOW_THRESHOLD[method] } });
+              }}
+              className="p-1 border rounded"
+            >
+              {(['lab', 'hsv'] as ShadowMethod[]).map(method => (
+                <option key={method} value={method}>{t.exclusion.shadowMethods[method]}</option>
+              ))}
+            </select>
+            <label className="flex items-center gap-1">
+              {exclusions.shadow.method === 'lab' ? t.exclusion.labThreshold : t.exclusion.hsvThreshold}
+              <input
+                type="number"
+                step={0.05}
+                value={exclusions.shadow.threshold}
+                onChange={(e) => onChange({
+                  ...exclusions,
+                  shadow: { ...exclusions.shadow!, threshold: readNumber(e.target.value, DEFAULT_SHADOW_THRESHOLD[exclusions.shadow!.method]) }
+                })}
+                className="w-20 p-1 border rounded"
+              />
+            </label>
+          </>
+        )}
+      </div>
+      <p className="text-xs text-gray-500">{t.exclusion.help}</p>
+    </div>
+  );
+};
+
+export default ExclusionControls;
@@ -0,0 +1,46 @@
+import React from 'react';
+import { ExportFormat, ExportOptions, Precision } from '../utils/export';
+
+const FORMATS: ExportFormat[] = ['csv', 'csvLong', 'json', 'xlsx'];
+
+// 結果の出力形式（CSV・縦長 CSV・JSON・XLSX）と CSV の BOM・数値の桁数
+const ExportControls: React.FC<{
+  format: ExportFormat;
+  options: ExportOptions;
+  onChange: (format: ExportFormat, options: ExportOptions) => void;
+  t: any;
+}> = ({ format, options, onChange, t }) => (
+  <div className="space-y-2">
+    <label className="block text-sm font-medium">{t.export.label}</label>
+    <div className="flex flex-wrap items-center gap-4 text-sm">
+      <select
+        value={format}
+        onChange={(e) => onChange(e.target.value as ExportFormat, options)}
+        className="p-1 border rounded"
+      >
+        {FORMATS.map(key => (
+          <option key={key} value={key}>{t.export.formats[key]}</option>
+        ))}
+      </select>
+      <select
+        value={options.precision}
+        onChange={(e) => onChange(format, { ...options, precision: e.target.value as Precision })}
+        className="p-1 border rounded"
+      >
+        <option value="full">{t.export.full}</option>
+        <option value="rounded">{t.export.rounded}</option>
+      </select>
+      <label className="flex items-center">
+        <input
+          type="checkbox"
+          checked={options.bom}
+          onChange={(e) => onChange(format, { ...options, bom: e.target.checked })}
+          className="mr-2"
+        />
+        {t.export.bom}
+      </label>
+    </div>
+  </div>
+);
+
+export default ExportControls;
@@ -0,0 +1,195 @@
+import React, { useRef, useState } from 'react';
+import {
+  Algorithm,
+  AnalysisCancelledError,
+  AnalysisOptions,
+  AnalysisResult,
+  DEFAULT_TILE_SIZE,
+  GeoTiffImage,
+  analyzeTiled,
+  openGeoTiff
+} from '../engine';
+import { baseName, downloadBlob } from '../utils/download';
+import { blobSource, createGeoTiffBuilder } from '../utils/geotiff';
+
+// 解析結果の GeoTIFF（マスクと指数）
+interface Outputs {
+  mask: Blob;
+  index: Blob | null;
+  indexKey: string;
+}
+
+// 大きな GeoTIFF（オルソ画像）をタイルごとに解析し、マスクと指数を位置情報付きの GeoTIFF で出力する
+const GeoTiffPanel: React.FC<{
+  // 現在の設定の解析オプション（GSD は画像の位置情報または手入力の値を使う）
+  options: AnalysisOptions;
+  // 手入力の GSD（cm/画素）
+  manualGsd?: number;
+  indexKeys: string[];
+  algorithms: Record<string, Algorithm>;
+  disabled: boolean;
+  onResult: (filename: string, result: AnalysisResult) => void;
+  t: any;
+}> = ({ options, manualGsd, indexKeys, algorithms, disabled, onResult, t }) => {
+  const [file, setFile] = useState<File | null>(null);
+  const [image, setImage] = useState<GeoTiffImage | null>(null);
+  const [indexKey, setIndexKey] = useState('');
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [outputs, setOutputs] = useState<Outputs | null>(null);
+  const cancelRef = useRef(false);
+
+  // タイルごとの解析では使えない設定（使わずに解析する）
+  const ignored = [
+    options.morphology && options.morphology.length > 0 ? t.geotiff.ignored.morphology : null,
+    options.objects ? t.geotiff.ignored.objects : null,
+    options.calibrationReference ? t.geotiff.ignored.calibration : null
+  ].filter((item): item is string => item !== null);
+  const activeIndexKey = indexKey === '' || indexKeys.includes(indexKey) ? indexKey : '';
+  const gsd = manualGsd ?? (image?.geo.metersPerPixel ? image.geo.metersPerPixel * 100 : undefined);
+
+  const openFile = async (selected: File) => {
+    setFile(null);
+    setImage(null);
+    setOutputs(null);
+    try {
+      setImage(await openGeoTiff(blobSource(selected)));
+      setFile(selected);
+    } catch (error) {
+      console.error('GeoTIFF open error:', error);
+      alert(`${t.geotiff.openError}: ${error instanceof Error ? error.message : error}`);
+    }
+  };
+
+  const analyze = async () => {
+    if (!file || !image) return;
+    const { morphology, objects, calibrationReference, ...supported } = options;
+    const spec = { width: image.width, height: image.height, tileSize: DEFAULT_TILE_SIZE, geo: image.geo };
+    const mask = createGeoTiffBuilder({ ...spec, sampleType: 'uint8' });
+    const index = activeIndexKey ? createGeoTiffBuilder({ ...spec, sampleType: 'float32', noData: 'nan' }) : null;
+    cancelRef.current = false;
+    setOutputs(null);
+    setProgress({ done: 0, total: 1 });
+    try {
+      const result = await analyzeTiled(image, { ...supported, gsd }, {
+        tileSize: DEFAULT_TILE_SIZE,
+        indexKey: activeIndexKey || undefined,
+        onTile: tile => {
+          mask.add(tile.mask, tile.width, tile.height);
+          if (index && tile.index) index.add(tile.index, tile.width, tile.height);
+        },
+        onProgress: (done, total) => {
+          if (cancelRef.current) throw new AnalysisCancelledError();
+          setProgress({ done, total });
+        }
+      });
+      setOutputs({ mask: mask.toBlob(), index: index?.toBlob() ?? null, indexKey: activeIndexKey });
+      onResult(file.name, result);
+    } catch (error) {
+      if (!(error instanceof AnalysisCancelledError)) {
+        console.error('GeoTIFF analysis error:', error);
+        alert(`${t.geotiff.analysisError}: ${error instanceof Error ? error.message : error}`);
+      }
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const transform = image?.geo.transform;
+
+  return (
+    <div>
+      <h3 className="text-lg font-medium mb-2">{t.geotiff.title}</h3>
+      <p className="text-sm text-gray-600 mb-2">{t.geotiff.help}</p>
+      <input
+        type="file"
+        accept=".tif,.tiff,image/tiff"
+        onChange={(e) => {
+          const selected = e.target.files?.[0];
+          if (selected) openFile(selected);
+          e.target.value = '';
+        }}
+        className="block w-full text-sm text-gray-500 mb-2
+          file:mr-4 file:py-2 file:px-4
+          file:rounded-full file:border-0
+          file:text-sm file:font-semibold
+          file:bg-blue-50 file:text-blue-700
+          hover:file:bg-blue-100"
+      />
+
+      {file && image && (
+        <div className="space-y-2 text-sm">
+          <p>
+            {file.name}: {image.width.toLocaleString()} × {image.height.toLocaleString()} px
+            {' / '}{image.geo.epsg !== null ? `EPSG:${image.geo.epsg}` : t.geotiff.noCrs}
+            {image.geo.metersPerPixel !== null && ` / ${(image.geo.metersPerPixel * 100).toFixed(2)} cm/px`}
+          </p>
+          {transform && (
+            <p className="font-mono text-xs text-gray-600">
+              {t.geotiff.origin}: {transform[0]}, {transform[3]} / {t.geotiff.pixelSize}: {transform[1]}, {transform[5]}
+            </p>
+          )}
+          {!transform && <p className="text-amber-700">{t.geotiff.noGeoreference}</p>}
+          {ignored.length > 0 && (
+            <p className="text-amber-700">{t.geotiff.ignoredSettings}: {ignored.join(', ')}</p>
+          )}
+          <label className="flex items-center gap-2">
+            {t.geotiff.indexRaster}
+            <select
+              value={activeIndexKey}
+              onChange={(e) => setIndexKey(e.target.value)}
+              className="p-1 border rounded"
+            >
+              <option value="">{t.geotiff.noIndexRaster}</option>
+              {indexKeys.map(key => (
+                <option key={key} value={key}>{algorithms[key]?.name ?? key}</option>
+              ))}
+            </select>
+          </label>
+          <div className="flex gap-2">
+            <button
+              onClick={analyze}
+              disabled={disabled || progress !== null}
+              className="flex-1 py-2 px-4 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:bg-gray-300"
+            >
+              {progress ? t.geotiff.processing : t.geotiff.start}
+            </button>
+            {progress && (
+              <button
+                onClick={() => { cancelRef.current = true; }}
+                className="py-2 px-4 bg-gray-100 rounded hover:bg-gray-200"
+              >
+                {t.batchProcessing.cancel}
+              </button>
+            )}
+          </div>
+          {progress && (
+            <div className="w-full h-2 bg-gray-200 rounded">
+              <div className="h-2 bg-blue-500 rounded" style={{ width: `${(progress.done / progress.total) * 100}%` }} />
+            </div>
+          )}
+          {outputs && (
+            <div className="flex flex-wrap gap-2">
+              <button
+                onClick={() => downloadBlob(outputs.mask, `${baseName(file.name)}_mask.tif`)}
+                className="py-1 px-3 bg-blue-50 text-blue-700 rounded hover:bg-blue-100"
+              >
+                {t.geotiff.downloadMask}
+              </button>
+              {outputs.index && (
+                <button
+                  onClick={() => downloadBlob(outputs.index!, `${baseName(file.name)}_${outputs.indexKey}.tif`)}
+                  className="py-1 px-3 bg-blue-50 text-blue-700 rounded hover:bg-blue-100"
+                >
+                  {t.geotiff.downloadIndex} ({algorithms[outputs.indexKey]?.name ?? outputs.indexKey})
+                </button>
+              )}
+            </div>
+          )}
+          {outputs && <p className="text-xs text-gray-600">{t.geotiff.maskValues}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GeoTiffPanel;
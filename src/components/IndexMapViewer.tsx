@@ -0,0 +1,187 @@
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import {
+  COLOR_RAMPS,
+  Calibration,
+  CustomIndex,
+  applyCalibration,
+  computeIndexMap,
+  maskOutline,
+  maskToRGBA,
+  percentileRange,
+  rampGradient,
+  renderIndexMap,
+  renderOutlineOverlay
+} from '../engine';
+import { baseName, downloadBlob } from '../utils/download';
+import { getImageData } from '../utils/image';
+
+type View = 'index' | 'original' | 'mask';
+
+const OUTLINE_COLOR: [number, number, number] = [255, 0, 255];
+
+// 画素ごとの指数マップ・輪郭の重ね合わせ・2値画像の表示と PNG 出力
+const IndexMapViewer: React.FC<{
+  image: HTMLImageElement;
+  mask: Uint8Array | null;
+  indexKeys: string[];
+  customIndices: CustomIndex[];
+  // 解析で適用した色補正（指数マップと元画像の表示にも適用する）
+  calibration?: Calibration;
+  fileName: string;
+  t: any;
+}> = ({ image, mask, indexKeys, customIndices, calibration, fileName, t }) => {
+  const [view, setView] = useState<View>('index');
+  const [indexKey, setIndexKey] = useState('ExG');
+  const [rampKey, setRampKey] = useState('RdYlGn');
+  const [stretch, setStretch] = useState<[number, number]>([0, 1]);
+  const [showOutline, setShowOutline] = useState(false);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  const activeKey = indexKeys.includes(indexKey) ? indexKey : indexKeys[0];
+  const pixels = useMemo(() => {
+    const imageData = getImageData(image);
+    return calibration
+      ? { width: imageData.width, height: imageData.height, data: applyCalibration(imageData.data, calibration) }
+      : imageData;
+  }, [image, calibration]);
+  const values = useMemo(
+    () => activeKey ? computeIndexMap(pixels.data, pixels.width, pixels.height, activeKey, customIndices) : null,
+    [pixels, activeKey, customIndices]
+  );
+  const outline = useMemo(
+    () => mask && mask.length === pixels.width * pixels.height ? maskOutline(mask, pixels.width, pixels.height) : null,
+    [mask, pixels]
+  );
+
+  // 指数を切り替えたら表示範囲を自動調整する
+  useEffect(() => {
+    if (values) setStretch(percentileRange(values));
+  }, [values]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    const { width, height } = pixels;
+    let rgba: Uint8ClampedArray;
+    if (view === 'index' && values) {
+      rgba = renderIndexMap(values, COLOR_RAMPS[rampKey], stretch[0], stretch[1]);
+    } else if (view === 'mask' && mask) {
+      rgba = maskToRGBA(mask);
+    } else {
+      rgba = pixels.data;
+    }
+    if (showOutline && outline && view !== 'mask') {
+      rgba = renderOutlineOverlay(rgba, outline, OUTLINE_COLOR);
+    }
+
+    canvas.width = width;
+    canvas.height = height;
+    const imageData = ctx.createImageData(width, height);
+    imageData.data.set(rgba);
+    ctx.putImageData(imageData, 0, 0);
+  }, [view, values, rampKey, stretch, showOutline, outline, mask, pixels]);
+
+  const exportPNG = () => {
+    canvasRef.current?.toBlob(blob => {
+      if (!blob) return;
+      const suffix = view === 'index' ? activeKey : view;
+      downloadBlob(blob, `${baseName(fileName) || 'image'}_${suffix}.png`);
+    }, 'image/png');
+  };
+
+  const step = Math.abs(stretch[1] - stretch[0]) / 100 || 0.01;
+
+  return (
+    <div className="space-y-2">
+      <h3 className="text-lg font-medium">{t.indexMap.title}</h3>
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        {(['index', 'original', 'mask'] as View[]).map(key => (
+          <label key={key} className="flex items-center">
+            <input
+              type="radio"
+              value={key}
+              checked={view === key}
+              onChange={() => setView(key)}
+              className="mr-1"
+            />
+            {t.indexMap.views[key]}
+          </label>
+        ))}
+        {view !== 'mask' && (
+          <label className="flex items-center">
+            <input
+              type="checkbox"
+              checked={showOutline}
+              onChange={(e) => setShowOutline(e.target.checked)}
+              disabled={!outline}
+              className="mr-1 rounded"
+            />
+            {t.indexMap.outline}
+          </label>
+        )}
+        <button
+          onClick={exportPNG}
+          className="py-1 px-3 bg-blue-50 text-blue-700 rounded hover:bg-blue-100"
+        >
+          {t.indexMap.exportPNG}
+        </button>
+      </div>
+
+      {view === 'index' && (
+        <div className="flex flex-wrap items-center gap-3 text-sm">
+          <select value={activeKey} onChange={(e) => setIndexKey(e.target.value)} className="p-1 border rounded">
+            {indexKeys.map(key => (
+              <option key={key} value={key}>{key}</option>
+            ))}
+          </select>
+          <select value={rampKey} onChange={(e) => setRampKey(e.target.value)} className="p-1 border rounded">
+            {Object.entries(COLOR_RAMPS).map(([key, ramp]) => (
+              <option key={key} value={key}>{ramp.name}</option>
+            ))}
+          </select>
+          <label className="flex items-center gap-1">
+            {t.indexMap.min}
+            <input
+              type="number"
+              step={step}
+              value={Number(stretch[0].toFixed(4))}
+              onChange={(e) => setStretch([parseFloat(e.target.value) || 0, stretch[1]])}
+              className="w-24 p-1 border rounded"
+            />
+          </label>
+          <label className="flex items-center gap-1">
+            {t.indexMap.max}
+            <input
+              type="number"
+              step={step}
+              value={Number(stretch[1].toFixed(4))}
+              onChange={(e) => setStretch([stretch[0], parseFloat(e.target.value) || 0])}
+              className="w-24 p-1 border rounded"
+            />
+          </label>
+          <button
+            onClick={() => values && setStretch(percentileRange(values))}
+            className="py-1 px-3 bg-gray-100 rounded hover:bg-gray-200"
+          >
+            {t.indexMap.autoStretch}
+          </button>
+        </div>
+      )}
+
+      <canvas ref={canvasRef} className="w-full h-auto rounded shadow-md" />
+
+      {view === 'index' && (
+        <div className="flex items-center gap-2 text-xs">
+          <span className="font-medium">{activeKey}</span>
+          <span>{stretch[0].toFixed(3)}</span>
+          <div className="flex-1 h-3 rounded" style={{ background: rampGradient(COLOR_RAMPS[rampKey]) }} />
+          <span>{stretch[1].toFixed(3)}</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default IndexMapViewer;
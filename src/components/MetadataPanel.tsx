@@ -0,0 +1,57 @@
+import React from 'react';
+import { ExifData } from '../engine';
+
+// 項目ごとの値の型
+type ExifValues = { [K in keyof ExifData]-?: NonNullable<ExifData[K]> };
+
+// 表示する項目と書式（単位は書式に含める。表示はこの順）
+const FORMATTERS: { [K in keyof ExifValues]: (value: ExifValues[K]) => string } = {
+  dateTimeOriginal: value => value.replace('T', ' '),
+  make: value => value,
+  model: value => value,
+  focalLength: value => `${value.toFixed(1)} mm`,
+  focalLength35mm: value => `${value} mm`,
+  exposureTime: value => value < 1 ? `1/${Math.round(1 / value)} s` : `${value} s`,
+  fNumber: value => `f/${value.toFixed(1)}`,
+  iso: String,
+  exposureBias: value => `${value > 0 ? '+' : ''}${value.toFixed(1)} EV`,
+  latitude: value => value.toFixed(6),
+  longitude: value => value.toFixed(6),
+  altitude: value => `${value.toFixed(1)} m`,
+  relativeAltitude: value => `${value.toFixed(1)} m`,
+  gimbalPitch: value => `${value.toFixed(1)}°`,
+  gimbalRoll: value => `${value.toFixed(1)}°`,
+  gimbalYaw: value => `${value.toFixed(1)}°`,
+  flightYaw: value => `${value.toFixed(1)}°`
+};
+
+const FIELDS = Object.keys(FORMATTERS) as Array<keyof ExifData>;
+
+const formatField = <K extends keyof ExifValues>(key: K, value: ExifValues[K]): string => FORMATTERS[key](value);
+
+// 撮影情報（EXIF / XMP）
+const MetadataPanel: React.FC<{
+  metadata: ExifData;
+  t: any;
+}> = ({ metadata, t }) => {
+  const rows = FIELDS.filter(key => metadata[key] !== undefined);
+  return (
+    <div className="p-2 bg-gray-50 rounded text-sm">
+      <p className="font-medium mb-1">{t.metadata.title}</p>
+      {rows.length === 0 ? (
+        <p className="text-gray-500">{t.metadata.none}</p>
+      ) : (
+        <dl className="grid grid-cols-2 gap-x-4 gap-y-0.5">
+          {rows.map(key => (
+            <React.Fragment key={key}>
+              <dt className="text-gray-600">{t.metadata[key]}</dt>
+              <dd>{formatField(key, metadata[key]!)}</dd>
+            </React.Fragment>
+          ))}
+        </dl>
+      )}
+    </div>
+  );
+};
+
+export default MetadataPanel;
@@ -0,0 +1,92 @@
+import React from 'react';
+import { MorphologyOperation, MorphologyStep } from '../engine';
+
+const OPERATIONS: MorphologyOperation[] = ['open', 'close', 'erode', 'dilate', 'fillHoles', 'removeSmall'];
+
+// 追加したときの初期値（構造要素の一辺、または面積の画素数）
+const DEFAULT_SIZES: Record<MorphologyOperation, number> = {
+  erode: 3,
+  dilate: 3,
+  open: 3,
+  close: 3,
+  fillHoles: 0,
+  removeSmall: 50
+};
+
+// 2値化マスクの後処理の手順
+const MorphologyControls: React.FC<{
+  steps: MorphologyStep[];
+  onChange: (steps: MorphologyStep[]) => void;
+  t: any;
+}> = ({ steps, onChange, t }) => {
+  const update = (index: number, patch: Partial<MorphologyStep>) =>
+    onChange(steps.map((step, i) => i === index ? { ...step, ...patch } : step));
+  const move = (index: number, offset: number) => {
+    const next = [...steps];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-2">
+      <label className="block text-sm font-medium">{t.morphology.label}</label>
+      {steps.map((step, i) => (
+        <div key={i} className="flex flex-wrap items-center gap-2 text-sm">
+          <span className="w-5 text-right text-gray-500">{i + 1}.</span>
+          <select
+            value={step.operation}
+            onChange={(e) => {
+              const operation = e.target.value as MorphologyOperation;
+              update(i, { operation, size: DEFAULT_SIZES[operation] });
+            }}
+            className="p-1 border rounded"
+          >
+            {OPERATIONS.map(operation => (
+              <option key={operation} value={operation}>{t.morphology.operations[operation]}</option>
+            ))}
+          </select>
+          <label className="flex items-center gap-1">
+            {step.operation === 'fillHoles' ? t.morphology.maxHoleArea : step.operation === 'removeSmall' ? t.morphology.minArea : t.morphology.kernelSize}
+            <input
+              type="number"
+              min={step.operation === 'fillHoles' ? 0 : 1}
+              step={step.operation === 'fillHoles' || step.operation === 'removeSmall' ? 1 : 2}
+              value={step.size}
+              onChange={(e) => update(i, { size: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+              className="w-20 p-1 border rounded"
+            />
+          </label>
+          <button
+            onClick={() => move(i, -1)}
+            disabled={i === 0}
+            className="px-2 bg-gray-100 rounded hover:bg-gray-200 disabled:text-gray-400"
+          >
+            ↑
+          </button>
+          <button
+            onClick={() => move(i, 1)}
+            disabled={i === steps.length - 1}
+            className="px-2 bg-gray-100 rounded hover:bg-gray-200 disabled:text-gray-400"
+          >
+            ↓
+          </button>
+          <button
+            onClick={() => onChange(steps.filter((_, j) => j !== i))}
+            className="px-2 text-red-600 hover:underline"
+          >
+            {t.morphology.remove}
+          </button>
+        </div>
+      ))}
+      <button
+        onClick={() => onChange([...steps, { operation: 'open', size: DEFAULT_SIZES.open }])}
+        className="py-1 px-3 text-sm bg-blue-50 text-blue-700 rounded hover:bg-blue-100"
+      >
+        {t.morphology.add}
+      </button>
+      <p className="text-xs text-gray-500">{t.morphology.help}</p>
+    </div>
+  );
+};
+
+export default MorphologyControls;
@@ -0,0 +1,73 @@
+import React from 'react';
+import { DEFAULT_MIN_DISTANCE, ObjectOptions } from '../engine';
+
+// 植生の領域（株）の検出と計測の設定（null は検出しない）
+const ObjectControls: React.FC<{
+  options: ObjectOptions | null;
+  onChange: (options: ObjectOptions | null) => void;
+  t: any;
+}> = ({ options, onChange, t }) => {
+  const readNumber = (value: string) => Math.max(0, parseInt(value, 10) || 0);
+
+  return (
+    <div className="space-y-2">
+      <label className="flex items-center text-sm font-medium">
+        <input
+          type="checkbox"
+          checked={options !== null}
+          onChange={(e) => onChange(e.target.checked ? { split: false, minDistance: DEFAULT_MIN_DISTANCE, minArea: 0, maxArea: 0 } : null)}
+          className="mr-2"
+        />
+        {t.objects.label}
+      </label>
+      {options && (
+        <div className="flex flex-wrap items-center gap-4 text-sm">
+          <label className="flex items-center gap-1">
+            {t.objects.minArea}
+            <input
+              type="number"
+              min={0}
+              value={options.minArea ?? 0}
+              onChange={(e) => onChange({ ...options, minArea: readNumber(e.target.value) })}
+              className="w-20 p-1 border rounded"
+            />
+          </label>
+          <label className="flex items-center gap-1">
+            {t.objects.maxArea}
+            <input
+              type="number"
+              min={0}
+              value={options.maxArea ?? 0}
+              onChange={(e) => onChange({ ...options, maxArea: readNumber(e.target.value) })}
+              className="w-24 p-1 border rounded"
+            />
+          </label>
+          <label className="flex items-center">
+            <input
+              type="checkbox"
+              checked={options.split ?? false}
+              onChange={(e) => onChange({ ...options, split: e.target.checked })}
+              className="mr-2"
+            />
+            {t.objects.split}
+          </label>
+          {options.split && (
+            <label className="flex items-center gap-1">
+              {t.objects.minDistance}
+              <input
+                type="number"
+                min={1}
+                value={options.minDistance ?? DEFAULT_MIN_DISTANCE}
+                onChange={(e) => onChange({ ...options, minDistance: Math.max(1, readNumber(e.target.value)) })}
+                className="w-16 p-1 border rounded"
+              />
+            </label>
+          )}
+        </div>
+      )}
+      {options && <p className="text-xs text-gray-500">{t.objects.help}</p>}
+    </div>
+  );
+};
+
+export default ObjectControls;
@@ -0,0 +1,94 @@
+import React from 'react';
+import { GridSpec, PlotIdFormat } from '../engine';
+import { PlotMode } from '../utils/project';
+
+// 区画（グリッド／境界ファイル）の設定
+const PlotControls: React.FC<{
+  mode: PlotMode;
+  gridSpec: GridSpec;
+  importedCount: number;
+  onModeChange: (mode: PlotMode) => void;
+  onGridSpecChange: (spec: GridSpec) => void;
+  onImport: (file: File) => void;
+  t: any;
+}> = ({ mode, gridSpec, importedCount, onModeChange, onGridSpecChange, onImport, t }) => (
+  <div className="space-y-2">
+    <label className="block text-sm font-medium">{t.plots.label}</label>
+    <div className="flex flex-wrap gap-4 text-sm">
+      {(['none', 'grid', 'import'] as PlotMode[]).map(key => (
+        <label key={key} className="flex items-center">
+          <input
+            type="radio"
+            value={key}
+            checked={mode === key}
+            onChange={() => onModeChange(key)}
+            className="mr-2"
+          />
+          {t.plots[key]}
+        </label>
+      ))}
+    </div>
+    {mode === 'grid' && (
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <label className="flex items-center gap-1">
+          {t.plots.rows}
+          <input
+            type="number"
+            min={1}
+            max={50}
+            value={gridSpec.rows}
+            onChange={(e) => onGridSpecChange({ ...gridSpec, rows: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+            className="w-16 p-1 border rounded"
+          />
+        </label>
+        <label className="flex items-center gap-1">
+          {t.plots.cols}
+          <input
+            type="number"
+            min={1}
+            max={50}
+            value={gridSpec.cols}
+            onChange={(e) => onGridSpecChange({ ...gridSpec, cols: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+            className="w-16 p-1 border rounded"
+          />
+        </label>
+        <label className="flex items-center gap-1">
+          {t.plots.prefix}
+          <input
+            type="text"
+            value={gridSpec.prefix}
+            onChange={(e) => onGridSpecChange({ ...gridSpec, prefix: e.target.value })}
+            className="w-20 p-1 border rounded"
+          />
+        </label>
+        <select
+          value={gridSpec.idFormat}
+          onChange={(e) => onGridSpecChange({ ...gridSpec, idFormat: e.target.value as PlotIdFormat })}
+          className="p-1 border rounded"
+        >
+          <option value="rowcol">{t.plots.idRowCol}</option>
+          <option value="sequential">{t.plots.idSequential}</option>
+        </select>
+        <span className="text-gray-600">{t.plots.gridHint}</span>
+      </div>
+    )}
+    {mode === 'import' && (
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <input
+          type="file"
+          accept=".json,.geojson,application/json"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onImport(file);
+            e.target.value = '';
+          }}
+          className="text-sm text-gray-500 file:mr-2 file:py-1 file:px-3 file:rounded-full file:border-0
+            file:text-sm file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100"
+        />
+        <span className="text-gray-600">{t.plots.imported}: {importedCount}</span>
+      </div>
+    )}
+  </div>
+);
+
+export default PlotControls;
@@ -0,0 +1,57 @@
+import React from 'react';
+import { COLOR_RAMPS, Plot, PlotResult, rampColor, rampGradient, regionPolygon, toCssColor } from '../engine';
+
+const ramp = COLOR_RAMPS.RdYlGn;
+
+// 区画ごとの植生被覆率のヒートマップ
+const PlotHeatmap: React.FC<{
+  image: string;
+  plots: Plot[];
+  results: PlotResult[];
+  t: any;
+}> = ({ image, plots, results, t }) => (
+  <div className="space-y-2">
+    <h4 className="font-medium">{t.plots.heatmap}</h4>
+    <div className="relative">
+      <img src={image} alt="Plots" className="w-full h-auto rounded opacity-40" />
+      <svg viewBox="0 0 1 1" preserveAspectRatio="none" className="absolute inset-0 w-full h-full">
+        {plots.map((plot, i) => {
+          const coverage = results[i]?.vegetationCoverage ?? 0;
+          return (
+            <polygon
+              key={plot.id}
+              points={regionPolygon(plot.region).map(([x, y]) => `${x},${y}`).join(' ')}
+              fill={toCssColor(rampColor(ramp, coverage / 100))}
+              fillOpacity={0.75}
+              stroke="white"
+              strokeWidth={1}
+              vectorEffect="non-scaling-stroke"
+            />
+          );
+        })}
+      </svg>
+      {plots.map((plot, i) => {
+        const polygon = regionPolygon(plot.region);
+        const cx = polygon.reduce((sum, [x]) => sum + x, 0) / polygon.length;
+        const cy = polygon.reduce((sum, [, y]) => sum + y, 0) / polygon.length;
+        return (
+          <div
+            key={plot.id}
+            className="absolute text-xs text-center leading-tight pointer-events-none"
+            style={{ left: `${cx * 100}%`, top: `${cy * 100}%`, transform: 'translate(-50%, -50%)', textShadow: '0 0 2px white' }}
+          >
+            <div className="font-medium">{plot.id}</div>
+            <div>{(results[i]?.vegetationCoverage ?? 0).toFixed(1)}%</div>
+          </div>
+        );
+      })}
+    </div>
+    <div className="flex items-center gap-2 text-xs">
+      <span>0%</span>
+      <div className="flex-1 h-3 rounded" style={{ background: rampGradient(ramp) }} />
+      <span>100%</span>
+    </div>
+  </div>
+);
+
+export default PlotHeatmap;
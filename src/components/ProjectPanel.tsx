@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { downloadBlob } from '../utils/download';
+import { Preset, ProjectSettings, createProjectFile, parseProjectFile, restoreSettings } from '../utils/project';
+import { STORAGE_KEYS, loadJSON, saveJSON } from '../utils/storage';
+
+// 名前付きプリセットとプロジェクトファイルの入出力
+const ProjectPanel: React.FC<{
+  settings: ProjectSettings;
+  settingsHash: string;
+  // 現在の設定と一致するプリセット名（変更後は空）
+  activePreset: string;
+  onLoad: (name: string, settings: ProjectSettings) => void;
+  onSave: (name: string) => void;
+  t: any;
+}> = ({ settings, settingsHash, activePreset, onLoad, onSave, t }) => {
+  const [presets, setPresets] = useState<Preset[]>(() => loadJSON(STORAGE_KEYS.presets, []));
+  const [presetName, setPresetName] = useState('');
+
+  const updatePresets = (next: Preset[]) => {
+    setPresets(next);
+    saveJSON(STORAGE_KEYS.presets, next);
+  };
+
+  const savePreset = () => {
+    const name = presetName.trim();
+    if (!name) return;
+    updatePresets([...presets.filter(preset => preset.name !== name), { name, settings }]);
+    setPresetName('');
+    onSave(name);
+  };
+
+  const loadPreset = (preset: Preset) => {
+    try {
+      onLoad(preset.name, restoreSettings(preset.settings));
+    } catch (error) {
+      console.error('Preset load error:', error);
+      alert(`${t.project.settingsError}: ${error instanceof Error ? error.message : error}`);
+    }
+  };
+
+  const exportProject = () => {
+    const name = activePreset || 'project';
+    const json = JSON.stringify(createProjectFile(activePreset, settings, settingsHash), null, 2);
+    downloadBlob(new Blob([json], { type: 'application/json' }), `vegetation_${name.replace(/[^\w-]+/g, '_')}.json`);
+  };
+
+  // 読み込んだプロジェクトは同じ名前のプリセットとしても保存する
+  const importProject = async (file: File) => {
+    try {
+      const project = parseProjectFile(await file.text());
+      const name = project.name || file.name.replace(/\.json$/i, '');
+      updatePresets([...presets.filter(preset => preset.name !== name), { name, settings: project.settings }]);
+      onLoad(name, project.settings);
+    } catch (error) {
+      console.error('Project import error:', error);
+      alert(`${t.project.importError}: ${error instanceof Error ? error.message : error}`);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <label className="block text-sm font-medium">{t.project.label}</label>
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <select
+          value=""
+          onChange={(e) => {
+            const preset = presets.find(item => item.name === e.target.value);
+            if (preset) loadPreset(preset);
+          }}
+          className="p-1 border rounded"
+        >
+          <option value="">{t.project.loadPreset}</option>
+          {presets.map(preset => (
+            <option key={preset.name} value={preset.name}>{preset.name}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={presetName}
+          onChange={(e) => setPresetName(e.target.value)}
+          placeholder={t.project.presetName}
+          className="p-1 border rounded"
+        />
+        <button
+          onClick={savePreset}
+          disabled={!presetName.trim()}
+          className="py-1 px-3 bg-blue-50 text-blue-700 rounded hover:bg-blue-100 disabled:text-gray-400"
+        >
+          {t.project.savePreset}
+        </button>
+        {presets.length > 0 && (
+          <select
+            value=""
+            onChange={(e) => updatePresets(presets.filter(preset => preset.name !== e.target.value))}
+            className="p-1 border rounded"
+          >
+            <option value="">{t.project.deletePreset}</option>
+            {presets.map(preset => (
+              <option key={preset.name} value={preset.name}>{preset.name}</option>
+            ))}
+          </select>
+        )}
+      </div>
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <button
+          onClick={exportProject}
+          className="py-1 px-3 bg-blue-50 text-blue-700 rounded hover:bg-blue-100"
+        >
+          {t.project.export}
+        </button>
+        <label className="text-gray-600">{t.project.import}</label>
+        <input
+          type="file"
+          accept=".json,application/json"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) importProject(file);
+            e.target.value = '';
+          }}
+          className="text-sm text-gray-500 file:mr-2 file:py-1 file:px-3 file:rounded-full file:border-0
+            file:text-sm file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100"
+        />
+      </div>
+      <p className="text-xs text-gray-600">
+        {t.project.current}: {activePreset || t.project.unsaved} / {t.project.hash}: <span className="font-mono">{settingsHash}</span>
+      </p>
+    </div>
+  );
+};
+
+export default ProjectPanel;
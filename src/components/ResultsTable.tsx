@@ -0,0 +1,198 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { Algorithm } from '../engine';
+import { SortKey, visibleResults } from '../utils/resultList';
+import { StoredResult } from '../utils/resultStore';
+
+// 保存した解析結果の一覧（並べ替え・絞り込み・比較・CSV の再出力）
+const ResultsTable: React.FC<{
+  records: StoredResult[];
+  algorithms: Record<string, Algorithm>;
+  onOpen: (record: StoredResult) => void;
+  onLoadSettings: (record: StoredResult) => void;
+  onDelete: (ids: number[]) => void;
+  onExport: (records: StoredResult[]) => void;
+  t: any;
+}> = ({ records, algorithms, onOpen, onLoadSettings, onDelete, onExport, t }) => {
+  const [sortKey, setSortKey] = useState<SortKey>('savedAt');
+  const [descending, setDescending] = useState(true);
+  const [filter, setFilter] = useState('');
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+
+  // サムネイルの URL は一覧が変わったら作り直して古いものを解放する
+  const thumbnails = useMemo(
+    () => new Map(records.map(record => [record.id, URL.createObjectURL(record.thumbnail)])),
+    [records]
+  );
+  useEffect(() => () => thumbnails.forEach(url => URL.revokeObjectURL(url)), [thumbnails]);
+
+  const visible = visibleResults(records, filter, sortKey, descending);
+  const selectedRecords = visible.filter(record => selected.has(record.id));
+  const allSelected = visible.length > 0 && selectedRecords.length === visible.length;
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setDescending(prev => !prev);
+    } else {
+      setSortKey(key);
+      setDescending(false);
+    }
+  };
+
+  const toggle = (id: number) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const handleDelete = () => {
+    onDelete(selectedRecords.map(record => record.id));
+    setSelected(new Set());
+  };
+
+  // 比較する指数（選択した結果のいずれかにある指数）
+  const compareKeys = Object.keys(algorithms)
+    .filter(key => selectedRecords.some(record => record.result.indices.vegetation[key] !== undefined));
+
+  const header = (key: SortKey, label: string) => (
+    <th className="p-1 cursor-pointer select-none" onClick={() => handleSort(key)}>
+      {label}{sortKey === key ? (descending ? ' ▼' : ' ▲') : ''}
+    </th>
+  );
+
+  return (
+    <div className="p-4 bg-gray-50 rounded space-y-2">
+      <h3 className="text-lg font-medium">{t.history.title}</h3>
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <input
+          type="text"
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+          placeholder={t.history.filter}
+          className="p-1 border rounded"
+        />
+        <span className="text-gray-600">
+          {visible.length} / {records.length}
+          {selectedRecords.length > 0 && ` (${t.history.selected}: ${selectedRecords.length})`}
+        </span>
+        <button
+          onClick={() => onExport(selectedRecords.length > 0 ? selectedRecords : visible)}
+          disabled={visible.length === 0}
+          className="py-1 px-3 bg-blue-50 text-blue-700 rounded hover:bg-blue-100 disabled:text-gray-400"
+        >
+          {selectedRecords.length > 0 ? t.history.exportSelected : t.history.exportVisible}
+        </button>
+        <button
+          onClick={handleDelete}
+          disabled={selectedRecords.length === 0}
+          className="py-1 px-3 bg-red-50 text-red-700 rounded hover:bg-red-100 disabled:text-gray-400"
+        >
+          {t.history.deleteSelected}
+        </button>
+      </div>
+
+      <div className="max-h-96 overflow-y-auto border rounded bg-white">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-100 sticky top-0">
+            <tr className="text-left">
+              <th className="p-1">
+                <input
+                  type="checkbox"
+                  checked={allSelected}
+                  onChange={() => setSelected(allSelected ? new Set() : new Set(visible.map(record => record.id)))}
+                />
+              </th>
+              <th className="p-1" />
+              {header('filename', t.history.filename)}
+              {header('savedAt', t.history.savedAt)}
+              {header('plot', t.history.plot)}
+              {header('date', t.history.date)}
+              {header('coverage', t.results.coverage)}
+              {header('plantCount', t.results.plantCount)}
+              {header('preset', t.history.preset)}
+              <th className="p-1">{t.project.hash}</th>
+              <th className="p-1" />
+            </tr>
+          </thead>
+          <tbody>
+            {visible.map(record => (
+              <tr key={record.id} className="border-t">
+                <td className="p-1">
+                  <input type="checkbox" checked={selected.has(record.id)} onChange={() => toggle(record.id)} />
+                </td>
+                <td className="p-1">
+                  <img src={thumbnails.get(record.id)} alt={record.filename} className="h-10 w-auto rounded" />
+                </td>
+                <td className="p-1">{record.filename}</td>
+                <td className="p-1 whitespace-nowrap">{new Date(record.savedAt).toLocaleString()}</td>
+                <td className="p-1">{record.plot}</td>
+                <td className="p-1">{record.date}</td>
+                <td className="p-1">{record.result.vegetationCoverage.toFixed(2)}%</td>
+                <td className="p-1">{record.result.plantCount?.toLocaleString()}</td>
+                <td className="p-1">{record.preset}</td>
+                <td className="p-1 font-mono text-xs">{record.settingsHash}</td>
+                <td className="p-1 whitespace-nowrap">
+                  <button onClick={() => onOpen(record)} className="px-2 text-blue-700 hover:underline">
+                    {t.history.open}
+                  </button>
+                  <button onClick={() => onLoadSettings(record)} className="px-2 text-blue-700 hover:underline">
+                    {t.history.loadSettings}
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {selectedRecords.length >= 2 && (
+        <div className="overflow-x-auto">
+          <h4 className="font-medium mb-1">{t.history.compare}</h4>
+          <table className="text-sm border bg-white">
+            <thead className="bg-gray-100">
+              <tr className="text-left">
+                <th className="p-1" />
+                {selectedRecords.map(record => (
+                  <th key={record.id} className="p-1">{record.filename}{record.plot ? ` (${record.plot})` : ''}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              <tr className="border-t">
+                <td className="p-1">{t.results.coverage}</td>
+                {selectedRecords.map(record => <td key={record.id} className="p-1">{record.result.vegetationCoverage.toFixed(2)}%</td>)}
+              </tr>
+              <tr className="border-t">
+                <td className="p-1">{t.results.vegetationPixels}</td>
+                {selectedRecords.map(record => <td key={record.id} className="p-1">{record.result.vegetationPixels.toLocaleString()}</td>)}
+              </tr>
+              <tr className="border-t">
+                <td className="p-1">{t.results.threshold}</td>
+                {selectedRecords.map(record => (
+                  <td key={record.id} className="p-1">
+                    {record.result.segmentationIndex} {record.result.threshold.toFixed(4)} ({t.thresholdMethod[record.result.thresholdMethod]})
+                  </td>
+                ))}
+              </tr>
+              {compareKeys.map(key => (
+                <tr key={key} className="border-t">
+                  <td className="p-1">{algorithms[key].name}</td>
+                  {selectedRecords.map(record => (
+                    <td key={record.id} className="p-1">{record.result.indices.vegetation[key]?.toFixed(4)}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ResultsTable;
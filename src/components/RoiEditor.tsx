@@ -0,0 +1,233 @@
+import React, { useState, useRef } from 'react';
+import { Plot, Region, regionPolygon } from '../engine';
+import { STORAGE_KEYS, loadJSON, saveJSON } from '../utils/storage';
+
+type DrawMode = 'rectangle' | 'polygon';
+
+interface RoiTemplate {
+  name: string;
+  regions: Region[];
+}
+
+const toPointsAttribute = (points: Array<[number, number]>) =>
+  points.map(([x, y]) => `${x},${y}`).join(' ');
+
+// 解析対象領域（ROI）の編集
+const RoiEditor: React.FC<{
+  image: string | null;
+  regions: Region[];
+  // 区画の境界（表示のみ）
+  plots?: Plot[];
+  onChange: (regions: Region[]) => void;
+  t: any;
+}> = ({ image, regions, plots = [], onChange, t }) => {
+  const [mode, setMode] = useState<DrawMode>('rectangle');
+  const [draft, setDraft] = useState<Array<[number, number]>>([]);
+  const [templates, setTemplates] = useState<RoiTemplate[]>(() => loadJSON(STORAGE_KEYS.roiTemplates, []));
+  const [templateName, setTemplateName] = useState('');
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dragStartRef = useRef<[number, number] | null>(null);
+
+  // マウス位置を画像に対する 0〜1 の座標に変換
+  const toPoint = (event: React.MouseEvent): [number, number] => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    const x = Math.min(1, Math.max(0, (event.clientX - rect.left) / rect.width));
+    const y = Math.min(1, Math.max(0, (event.clientY - rect.top) / rect.height));
+    return [x, y];
+  };
+
+  const updateTemplates = (next: RoiTemplate[]) => {
+    setTemplates(next);
+    saveJSON(STORAGE_KEYS.roiTemplates, next);
+  };
+
+  const handleMouseDown = (event: React.MouseEvent) => {
+    if (mode !== 'rectangle') return;
+    const point = toPoint(event);
+    dragStartRef.current = point;
+    setDraft([point, point]);
+  };
+
+  const handleMouseMove = (event: React.MouseEvent) => {
+    if (mode !== 'rectangle' || !dragStartRef.current) return;
+    setDraft([dragStartRef.current, toPoint(event)]);
+  };
+
+  const handleMouseUp = (event: React.MouseEvent) => {
+    if (mode !== 'rectangle' || !dragStartRef.current) return;
+    const [x0, y0] = dragStartRef.current;
+    const [x1, y1] = toPoint(event);
+    dragStartRef.current = null;
+    setDraft([]);
+    if (Math.abs(x1 - x0) > 0.005 && Math.abs(y1 - y0) > 0.005) {
+      onChange([...regions, { shape: 'rectangle', points: [[x0, y0], [x1, y1]] }]);
+    }
+  };
+
+  const handleClick = (event: React.MouseEvent) => {
+    if (mode !== 'polygon') return;
+    setDraft(prev => [...prev, toPoint(event)]);
+  };
+
+  const finishPolygon = () => {
+    // ダブルクリックで追加された重複頂点を除く
+    const points = draft.filter(([x, y], i) =>
+      i === 0 || Math.abs(x - draft[i - 1][0]) > 1e-3 || Math.abs(y - draft[i - 1][1]) > 1e-3
+    );
+    setDraft([]);
+    if (points.length >= 3) {
+      onChange([...regions, { shape: 'polygon', points }]);
+    }
+  };
+
+  const saveTemplate = () => {
+    const name = templateName.trim();
+    if (!name || regions.length === 0) return;
+    updateTemplates([...templates.filter(template => template.name !== name), { name, regions }]);
+    setTemplateName('');
+  };
+
+  const draftPolygon = mode === 'rectangle' && draft.length === 2
+    ? regionPolygon({ shape: 'rectangle', points: draft })
+    : draft;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        {(['rectangle', 'polygon'] as DrawMode[]).map(key => (
+          <label key={key} className="flex items-center">
+            <input
+              type="radio"
+              value={key}
+              checked={mode === key}
+              onChange={() => {
+                setMode(key);
+                setDraft([]);
+              }}
+              className="mr-1"
+            />
+            {t.roi[key]}
+          </label>
+        ))}
+        {mode === 'polygon' && (
+          <button
+            onClick={finishPolygon}
+            disabled={draft.length < 3}
+            className="py-1 px-3 bg-gray-100 rounded hover:bg-gray-200 disabled:text-gray-400"
+          >
+            {t.roi.finishPolygon}
+          </button>
+        )}
+        <button
+          onClick={() => onChange(regions.slice(0, -1))}
+          disabled={regions.length === 0}
+          className="py-1 px-3 bg-gray-100 rounded hover:bg-gray-200 disabled:text-gray-400"
+        >
+          {t.roi.undo}
+        </button>
+        <button
+          onClick={() => onChange([])}
+          disabled={regions.length === 0}
+          className="py-1 px-3 bg-gray-100 rounded hover:bg-gray-200 disabled:text-gray-400"
+        >
+          {t.roi.clear}
+        </button>
+        <span className="text-gray-600">
+          {regions.length > 0 ? `${t.roi.count}: ${regions.length}` : t.roi.wholeImage}
+        </span>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <select
+          value=""
+          onChange={(e) => {
+            const template = templates.find(item => item.name === e.target.value);
+            if (template) onChange(template.regions);
+          }}
+          className="p-1 border rounded"
+        >
+          <option value="">{t.roi.loadTemplate}</option>
+          {templates.map(template => (
+            <option key={template.name} value={template.name}>{template.name}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={templateName}
+          onChange={(e) => setTemplateName(e.target.value)}
+          placeholder={t.roi.templateName}
+          className="p-1 border rounded"
+        />
+        <button
+          onClick={saveTemplate}
+          disabled={!templateName.trim() || regions.length === 0}
+          className="py-1 px-3 bg-blue-50 text-blue-700 rounded hover:bg-blue-100 disabled:text-gray-400"
+        >
+          {t.roi.saveTemplate}
+        </button>
+        {templates.length > 0 && (
+          <select
+            value=""
+            onChange={(e) => updateTemplates(templates.filter(template => template.name !== e.target.value))}
+            className="p-1 border rounded"
+          >
+            <option value="">{t.roi.deleteTemplate}</option>
+            {templates.map(template => (
+              <option key={template.name} value={template.name}>{template.name}</option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {image && (
+        <div className="relative">
+          <img src={image} alt="Original" className="w-full h-auto rounded shadow-md select-none" draggable={false} />
+          <svg
+            ref={svgRef}
+            viewBox="0 0 1 1"
+            preserveAspectRatio="none"
+            className="absolute inset-0 w-full h-full cursor-crosshair"
+            onMouseDown={handleMouseDown}
+            onMouseMove={handleMouseMove}
+            onMouseUp={handleMouseUp}
+            onClick={handleClick}
+            onDoubleClick={finishPolygon}
+          >
+            {regions.map((region, i) => (
+              <polygon
+                key={i}
+                points={toPointsAttribute(regionPolygon(region))}
+                fill="rgba(59, 130, 246, 0.15)"
+                stroke="rgb(59, 130, 246)"
+                strokeWidth={2}
+                vectorEffect="non-scaling-stroke"
+              />
+            ))}
+            {plots.map(plot => (
+              <polygon
+                key={plot.id}
+                points={toPointsAttribute(regionPolygon(plot.region))}
+                fill="none"
+                stroke="rgb(250, 204, 21)"
+                strokeWidth={1}
+                vectorEffect="non-scaling-stroke"
+              />
+            ))}
+            {draftPolygon.length > 0 && (
+              <polyline
+                points={toPointsAttribute(mode === 'rectangle' ? [...draftPolygon, draftPolygon[0]] : draftPolygon)}
+                fill="none"
+                stroke="rgb(234, 88, 12)"
+                strokeWidth={2}
+                strokeDasharray="4 2"
+                vectorEffect="non-scaling-stroke"
+              />
+            )}
+          </svg>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RoiEditor;
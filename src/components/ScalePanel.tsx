@@ -0,0 +1,183 @@
+import React, { useState, useRef } from 'react';
+import { ExifData, gsdFromCamera, gsdFromLine } from '../engine';
+import { ScaleMode, ScaleSettings } from '../utils/project';
+
+type Line = NonNullable<ScaleSettings['line']>;
+
+// 画像ごとの GSD（cm/画素、求められない場合は undefined）
+export const resolveGsd = (
+  settings: ScaleSettings,
+  image: { width: number; height: number },
+  metadata: ExifData | null | undefined
+): number | undefined => {
+  switch (settings.mode) {
+    case 'gsd':
+      return settings.gsd > 0 ? settings.gsd : undefined;
+    case 'camera':
+      return gsdFromCamera({
+        imageWidth: image.width,
+        imageHeight: image.height,
+        altitude: settings.altitude > 0 ? settings.altitude : metadata?.relativeAltitude ?? 0,
+        focalLength: metadata?.focalLength,
+        sensorWidth: settings.sensorWidth > 0 ? settings.sensorWidth : undefined,
+        focalLength35mm: metadata?.focalLength35mm
+      }) ?? undefined;
+    case 'line':
+      return settings.line ? gsdFromLine(settings.line, image.width, image.height, settings.lineLength) ?? undefined : undefined;
+    default:
+      return undefined;
+  }
+};
+
+// 面積の表示（cm² と m²）
+export const formatArea = (area: number): string => `${area.toFixed(1)} cm² (${(area / 10000).toFixed(4)} m²)`;
+
+// 地上画素寸法（GSD）の設定
+const ScalePanel: React.FC<{
+  image: HTMLImageElement | null;
+  metadata: ExifData | null;
+  settings: ScaleSettings;
+  onChange: (settings: ScaleSettings) => void;
+  t: any;
+}> = ({ image, metadata, settings, onChange, t }) => {
+  const [draft, setDraft] = useState<Line | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const update = (patch: Partial<ScaleSettings>) => onChange({ ...settings, ...patch });
+  const readNumber = (value: string) => Math.max(0, parseFloat(value) || 0);
+
+  const toPoint = (event: React.MouseEvent): [number, number] => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    const x = Math.min(1, Math.max(0, (event.clientX - rect.left) / rect.width));
+    const y = Math.min(1, Math.max(0, (event.clientY - rect.top) / rect.height));
+    return [x, y];
+  };
+
+  const handleMouseUp = (event: React.MouseEvent) => {
+    if (!draft) return;
+    const line: Line = [draft[0], toPoint(event)];
+    setDraft(null);
+    if (Math.hypot(line[1][0] - line[0][0], line[1][1] - line[0][1]) > 0.005) update({ line });
+  };
+
+  const currentGsd = image ? resolveGsd(settings, image, metadata) : undefined;
+  const shownLine = draft ?? settings.line;
+
+  return (
+    <div className="space-y-2">
+      <label className="block text-sm font-medium">{t.scale.label}</label>
+      <div className="flex flex-wrap items-center gap-4 text-sm">
+        {(['none', 'gsd', 'camera', 'line'] as ScaleMode[]).map(key => (
+          <label key={key} className="flex items-center">
+            <input
+              type="radio"
+              value={key}
+              checked={settings.mode === key}
+              onChange={() => update({ mode: key })}
+              className="mr-2"
+            />
+            {t.scale.modes[key]}
+          </label>
+        ))}
+      </div>
+
+      {settings.mode === 'gsd' && (
+        <label className="flex items-center gap-1 text-sm">
+          {t.scale.gsd}
+          <input
+            type="number"
+            min={0}
+            step={0.01}
+            value={settings.gsd}
+            onChange={(e) => update({ gsd: readNumber(e.target.value) })}
+            className="w-24 p-1 border rounded"
+          />
+        </label>
+      )}
+
+      {settings.mode === 'camera' && (
+        <div className="space-y-1 text-sm">
+          <div className="flex flex-wrap items-center gap-4">
+            <label className="flex items-center gap-1">
+              {t.scale.sensorWidth}
+              <input
+                type="number"
+                min={0}
+                step={0.1}
+                value={settings.sensorWidth}
+                onChange={(e) => update({ sensorWidth: readNumber(e.target.value) })}
+                className="w-20 p-1 border rounded"
+              />
+            </label>
+            <label className="flex items-center gap-1">
+              {t.scale.altitude}
+              <input
+                type="number"
+                min={0}
+                step={0.1}
+                value={settings.altitude}
+                onChange={(e) => update({ altitude: readNumber(e.target.value) })}
+                className="w-20 p-1 border rounded"
+              />
+            </label>
+          </div>
+          <p className="text-xs text-gray-500">{t.scale.cameraHelp}</p>
+        </div>
+      )}
+
+      {settings.mode === 'line' && (
+        <div className="space-y-1 text-sm">
+          <label className="flex items-center gap-1">
+            {t.scale.lineLength}
+            <input
+              type="number"
+              min={0}
+              step={0.1}
+              value={settings.lineLength}
+              onChange={(e) => update({ lineLength: readNumber(e.target.value) })}
+              className="w-24 p-1 border rounded"
+            />
+          </label>
+          <p className="text-xs text-gray-500">{image ? t.scale.lineHelp : t.scale.noImage}</p>
+          {image && (
+            <div className="relative max-w-md">
+              <img src={image.src} alt="Scale reference" className="w-full h-auto rounded shadow-md select-none" draggable={false} />
+              <svg
+                ref={svgRef}
+                viewBox="0 0 1 1"
+                preserveAspectRatio="none"
+                className="absolute inset-0 w-full h-full cursor-crosshair"
+                onMouseDown={(event) => {
+                  const point = toPoint(event);
+                  setDraft([point, point]);
+                }}
+                onMouseMove={(event) => draft && setDraft([draft[0], toPoint(event)])}
+                onMouseUp={handleMouseUp}
+              >
+                {shownLine && (
+                  <line
+                    x1={shownLine[0][0]}
+                    y1={shownLine[0][1]}
+                    x2={shownLine[1][0]}
+                    y2={shownLine[1][1]}
+                    stroke="rgb(234, 88, 12)"
+                    strokeWidth={2}
+                    strokeDasharray={draft ? '4 2' : undefined}
+                    vectorEffect="non-scaling-stroke"
+                  />
+                )}
+              </svg>
+            </div>
+          )}
+        </div>
+      )}
+
+      {settings.mode !== 'none' && image && (
+        <p className="text-sm">
+          {t.scale.current}: {currentGsd !== undefined ? `${currentGsd.toFixed(4)} cm/px` : t.scale.unavailable}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ScalePanel;
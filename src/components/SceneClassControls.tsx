@@ -0,0 +1,172 @@
+import React from 'react';
+import { COLOR_FEATURES, ClassCondition, SceneClass } from '../engine';
+
+// 既定のクラスの条件と表示色（名前は翻訳の defaultClasses と同じ順: 影・緑の植生・枯れた植生・残渣・土）
+const DEFAULT_CLASSES: Array<Omit<SceneClass, 'name'>> = [
+  { color: [30, 41, 59], conditions: [{ feature: 'V', max: 0.2 }] },
+  { color: [34, 197, 94], conditions: [{ feature: 'H', min: 65, max: 170 }, { feature: 'ExG', min: 0.05 }] },
+  { color: [234, 179, 8], conditions: [{ feature: 'H', min: 35, max: 65 }, { feature: 'S', min: 0.3 }] },
+  { color: [250, 204, 150], conditions: [{ feature: 'S', max: 0.3 }, { feature: 'V', min: 0.6 }] },
+  { color: [146, 64, 14], conditions: [] }
+];
+
+const toHex = (color: SceneClass['color']) => `#${color.map(value => value.toString(16).padStart(2, '0')).join('')}`;
+
+const fromHex = (hex: string): SceneClass['color'] =>
+  [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16)) as SceneClass['color'];
+
+// 空欄は制限なし
+const readLimit = (value: string): number | undefined => {
+  const number = parseFloat(value);
+  return Number.isFinite(number) ? number : undefined;
+};
+
+// 多クラス分類（緑の植生・枯れた植生・土・残渣・影など）の設定（null は分類しない）
+const SceneClassControls: React.FC<{
+  classes: SceneClass[] | null;
+  // 条件に使える指数のキー
+  indexKeys: string[];
+  onChange: (classes: SceneClass[] | null) => void;
+  t: any;
+}> = ({ classes, indexKeys, onChange, t }) => {
+  const defaults = (): SceneClass[] =>
+    DEFAULT_CLASSES.map((item, k) => ({ name: t.scene.defaultClasses[k], ...item }));
+  const features = [...COLOR_FEATURES, ...indexKeys];
+
+  const updateClass = (index: number, changes: Partial<SceneClass>) => {
+    onChange(classes!.map((item, k) => k === index ? { ...item, ...changes } : item));
+  };
+
+  const updateCondition = (index: number, conditionIndex: number, changes: Partial<ClassCondition>) => {
+    updateClass(index, {
+      conditions: classes![index].conditions.map((condition, c) => c === conditionIndex ? { ...condition, ...changes } : condition)
+    });
+  };
+
+  // 判定は上のクラスから行うため並べ替えられるようにする
+  const moveClass = (index: number, offset: number) => {
+    const moved = [...classes!];
+    [moved[index], moved[index + offset]] = [moved[index + offset], moved[index]];
+    onChange(moved);
+  };
+
+  return (
+    <div className="space-y-2">
+      <label className="flex items-center text-sm font-medium">
+        <input
+          type="checkbox"
+          checked={classes !== null}
+          onChange={(e) => onChange(e.target.checked ? defaults() : null)}
+          className="mr-2"
+        />
+        {t.scene.label}
+      </label>
+      {classes && (
+        <div className="space-y-2 text-sm">
+          {classes.map((item, k) => (
+            <div key={k} className="p-2 border rounded space-y-1">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="text-gray-500 w-5">{k + 1}.</span>
+                <input
+                  type="color"
+                  value={toHex(item.color)}
+                  onChange={(e) => updateClass(k, { color: fromHex(e.target.value) })}
+                  className="w-8 h-6 p-0 border rounded"
+                />
+                <input
+                  type="text"
+                  value={item.name}
+                  onChange={(e) => updateClass(k, { name: e.target.value })}
+                  className="w-40 p-1 border rounded"
+                />
+                <button
+                  onClick={() => moveClass(k, -1)}
+                  disabled={k === 0}
+                  className="px-2 bg-gray-100 rounded hover:bg-gray-200 disabled:text-gray-400"
+                >
+                  ↑
+                </button>
+                <button
+                  onClick={() => moveClass(k, 1)}
+                  disabled={k === classes.length - 1}
+                  className="px-2 bg-gray-100 rounded hover:bg-gray-200 disabled:text-gray-400"
+                >
+                  ↓
+                </button>
+                <button
+                  onClick={() => onChange(classes.filter((_, i) => i !== k))}
+                  disabled={classes.length <= 1}
+                  className="text-red-600 hover:underline disabled:text-gray-400"
+                >
+                  {t.scene.removeClass}
+                </button>
+              </div>
+              {item.conditions.length === 0 && <p className="ml-7 text-gray-500">{t.scene.catchAll}</p>}
+              {item.conditions.map((condition, c) => (
+                <div key={c} className="ml-7 flex flex-wrap items-center gap-2">
+                  <input
+                    type="number"
+                    step="any"
+                    value={condition.min ?? ''}
+                    placeholder="−∞"
+                    onChange={(e) => updateCondition(k, c, { min: readLimit(e.target.value) })}
+                    className="w-20 p-1 border rounded"
+                  />
+                  ≤
+                  <select
+                    value={condition.feature}
+                    onChange={(e) => updateCondition(k, c, { feature: e.target.value })}
+                    className="p-1 border rounded"
+                  >
+                    {(features.includes(condition.feature) ? features : [condition.feature, ...features]).map(feature => (
+                      <option key={feature} value={feature}>{feature}</option>
+                    ))}
+                  </select>
+                  ≤
+                  <input
+                    type="number"
+                    step="any"
+                    value={condition.max ?? ''}
+                    placeholder="∞"
+                    onChange={(e) => updateCondition(k, c, { max: readLimit(e.target.value) })}
+                    className="w-20 p-1 border rounded"
+                  />
+                  <button
+                    onClick={() => updateClass(k, { conditions: item.conditions.filter((_, i) => i !== c) })}
+                    className="text-red-600 hover:underline"
+                  >
+                    {t.scene.removeCondition}
+                  </button>
+                </div>
+              ))}
+              <button
+                onClick={() => updateClass(k, { conditions: [...item.conditions, { feature: 'ExG', min: 0 }] })}
+                className="ml-7 text-blue-600 hover:underline"
+              >
+                {t.scene.addCondition}
+              </button>
+            </div>
+          ))}
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={() => onChange([...classes, { name: `${t.scene.className} ${classes.length + 1}`, color: [100, 116, 139], conditions: [] }])}
+              disabled={classes.length >= 255}
+              className="py-1 px-3 bg-gray-100 rounded hover:bg-gray-200 disabled:text-gray-400"
+            >
+              {t.scene.addClass}
+            </button>
+            <button
+              onClick={() => onChange(defaults())}
+              className="py-1 px-3 bg-gray-100 rounded hover:bg-gray-200"
+            >
+              {t.scene.reset}
+            </button>
+          </div>
+          <p className="text-xs text-gray-500">{t.scene.help}</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SceneClassControls;
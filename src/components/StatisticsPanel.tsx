@@ -0,0 +1,95 @@
+import React from 'react';
+import { Algorithm, IndexClassStatistics, IndexStatistics } from '../engine';
+
+const VEGETATION_COLOR = 'rgb(34, 139, 34)';
+const BACKGROUND_COLOR = 'rgb(160, 110, 60)';
+
+const STAT_KEYS: Array<keyof Omit<IndexStatistics, 'count' | 'histogram'>> = [
+  'mean', 'std', 'min', 'p5', 'p25', 'median', 'p75', 'p95', 'max'
+];
+
+// 植生・非植生のヒストグラム（それぞれの画素数で正規化して重ねる）
+const HistogramChart: React.FC<{ stats: IndexClassStatistics }> = ({ stats }) => {
+  const { vegetation, background } = stats;
+  const bins = vegetation.histogram.counts.length;
+  const density = (s: IndexStatistics) => s.histogram.counts.map(count => (s.count > 0 ? count / s.count : 0));
+  const series = [
+    { color: VEGETATION_COLOR, values: density(vegetation) },
+    { color: BACKGROUND_COLOR, values: density(background) }
+  ];
+  const peak = Math.max(...series.flatMap(item => item.values), 1e-9);
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${bins} 40`} preserveAspectRatio="none" className="w-full h-16 bg-white rounded border">
+        {series.map(({ color, values }) => values.map((value, i) => (
+          <rect
+            key={`${color}-${i}`}
+            x={i + 0.05}
+            width={0.9}
+            y={40 - (value / peak) * 38}
+            height={(value / peak) * 38}
+            fill={color}
+            fillOpacity={0.5}
+          />
+        )))}
+      </svg>
+      <div className="flex justify-between text-xs text-gray-500">
+        <span>{vegetation.histogram.min.toFixed(3)}</span>
+        <span>{vegetation.histogram.max.toFixed(3)}</span>
+      </div>
+    </div>
+  );
+};
+
+// 指数ごとの詳細統計とヒストグラム
+const StatisticsPanel: React.FC<{
+  statistics: Record<string, IndexClassStatistics>;
+  // 指数名の表示用（ユーザー定義の指数を含む）
+  algorithms: Record<string, Algorithm>;
+  t: any;
+}> = ({ statistics, algorithms, t }) => (
+  <div className="space-y-3">
+    <div className="flex items-center gap-4">
+      <h4 className="font-medium">{t.statistics.title}</h4>
+      <span className="flex items-center gap-1 text-xs">
+        <span className="inline-block w-3 h-3 rounded" style={{ background: VEGETATION_COLOR }} />
+        {t.statistics.vegetation}
+      </span>
+      <span className="flex items-center gap-1 text-xs">
+        <span className="inline-block w-3 h-3 rounded" style={{ background: BACKGROUND_COLOR }} />
+        {t.statistics.background}
+      </span>
+    </div>
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      {Object.entries(statistics).map(([key, stats]) => (
+        <div key={key} className="space-y-1">
+          <p className="text-sm font-medium">{algorithms[key]?.name ?? key}</p>
+          <HistogramChart stats={stats} />
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-gray-500">
+                <th />
+                {STAT_KEYS.map(stat => <th key={stat} className="text-right font-normal">{t.statistics[stat]}</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {(['vegetation', 'background'] as const).map(group => (
+                <tr key={group}>
+                  <td style={{ color: group === 'vegetation' ? VEGETATION_COLOR : BACKGROUND_COLOR }}>
+                    {t.statistics[group]}
+                  </td>
+                  {STAT_KEYS.map(stat => (
+                    <td key={stat} className="text-right tabular-nums">{stats[group][stat].toFixed(3)}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ))}
+    </div>
+  </div>
+);
+
+export default StatisticsPanel;
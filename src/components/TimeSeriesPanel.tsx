@@ -0,0 +1,224 @@
+import React, { useState, useRef } from 'react';
+import {
+  Algorithm,
+  AnalysisResult,
+  COLOR_RAMPS,
+  buildTimeSeries,
+  csvField,
+  daysBetween,
+  growthMetrics,
+  rampColor,
+  toCssColor
+} from '../engine';
+import { downloadBlob } from '../utils/download';
+
+// 区画・撮影日ごとの解析結果
+export interface TimeSeriesEntry {
+  plotId: string;
+  date: string;
+  result: AnalysisResult;
+}
+
+// 'coverage' または '<指数>:vegetation' / '<指数>:whole'
+type Metric = string;
+
+const WIDTH = 640;
+const HEIGHT = 280;
+const MARGIN = { top: 12, right: 16, bottom: 32, left: 48 };
+// 被覆率が 50% に達するまでの日数を求める
+const COVER_LEVEL = 50;
+
+const metricValue = (metric: Metric, result: AnalysisResult): number => {
+  if (metric === 'coverage') return result.vegetationCoverage;
+  const [key, area] = metric.split(':');
+  return (area === 'vegetation' ? result.indices.vegetation : result.indices.whole)[key] ?? NaN;
+};
+
+const formatNumber = (value: number | null, digits = 4) => value === null ? '' : value.toFixed(digits);
+
+// 区画ごとの被覆率・指数の推移と生育指標
+const TimeSeriesPanel: React.FC<{
+  entries: TimeSeriesEntry[];
+  indexKeys: string[];
+  algorithms: Record<string, Algorithm>;
+  t: any;
+}> = ({ entries, indexKeys, algorithms, t }) => {
+  const [metric, setMetric] = useState<Metric>('coverage');
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  const activeMetric = metric === 'coverage' || indexKeys.includes(metric.split(':')[0]) ? metric : 'coverage';
+  const metricLabel = (key: Metric) => {
+    if (key === 'coverage') return t.results.coverage;
+    const [index, area] = key.split(':');
+    return `${algorithms[index]?.name ?? index} (${area === 'vegetation' ? t.statistics.vegetation : t.timeSeries.whole})`;
+  };
+
+  const series = buildTimeSeries(entries.map(({ plotId, date, result }) => ({
+    plotId: plotId || t.timeSeries.unassigned,
+    date,
+    value: metricValue(activeMetric, result)
+  })));
+  const metrics = series.map(s => growthMetrics(s, COVER_LEVEL));
+  const isCoverage = activeMetric === 'coverage';
+
+  // 軸の範囲（日付は全区画で共通）
+  const allPoints = series.flatMap(s => s.points);
+  const firstDate = allPoints.reduce((min, point) => point.date < min ? point.date : min, allPoints[0]?.date ?? '');
+  const lastDay = Math.max(1, ...allPoints.map(point => daysBetween(firstDate, point.date)));
+  const valueMin = Math.min(...allPoints.map(point => point.value));
+  const valueMax = Math.max(...allPoints.map(point => point.value));
+  const [yMin, yMax]: [number, number] = isCoverage
+    ? [0, 100]
+    : !Number.isFinite(valueMin) ? [0, 1] : valueMax > valueMin ? [valueMin, valueMax] : [valueMin - 1, valueMin + 1];
+  const x = (date: string) => MARGIN.left + (daysBetween(firstDate, date) / lastDay) * (WIDTH - MARGIN.left - MARGIN.right);
+  const y = (value: number) => HEIGHT - MARGIN.bottom - ((value - yMin) / (yMax - yMin)) * (HEIGHT - MARGIN.top - MARGIN.bottom);
+  const color = (i: number) => toCssColor(rampColor(COLOR_RAMPS.viridis, series.length > 1 ? i / (series.length - 1) * 0.9 : 0));
+  const yTicks = Array.from({ length: 5 }, (_, i) => yMin + ((yMax - yMin) * i) / 4);
+
+  const downloadMetricsCSV = () => {
+    const headers = [
+      'Plot ID',
+      'Metric',
+      'Observations',
+      'First Date',
+      'Last Date',
+      'Max Growth Rate (per day)',
+      'Mean Growth Rate (per day)',
+      ...(isCoverage ? [`Days to ${COVER_LEVEL}% Cover`, `Date at ${COVER_LEVEL}% Cover`] : [])
+    ];
+    const rows = metrics.map(m => [
+      m.plotId,
+      activeMetric,
+      m.observations,
+      m.firstDate,
+      m.lastDate,
+      formatNumber(m.maxGrowthRate),
+      formatNumber(m.meanGrowthRate),
+      ...(isCoverage ? [formatNumber(m.daysToLevel, 1), m.dateAtLevel ?? ''] : [])
+    ]);
+    const pointRows = series.flatMap(s => s.points.map(point => [s.plotId, activeMetric, point.date, point.day, point.value.toFixed(4), point.count]));
+    const csvContent = [
+      headers.map(csvField).join(','),
+      ...rows.map(row => row.map(csvField).join(',')),
+      '',
+      ['Plot ID', 'Metric', 'Date', 'Days', 'Value', 'Images'].join(','),
+      ...pointRows.map(row => row.map(csvField).join(','))
+    ].join('\r\n');
+    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+    downloadBlob(blob, `vegetation_timeseries_${activeMetric.replace(':', '_')}.csv`);
+  };
+
+  const downloadChartSVG = () => {
+    if (!svgRef.current) return;
+    const source = new XMLSerializer().serializeToString(svgRef.current);
+    downloadBlob(new Blob([source], { type: 'image/svg+xml' }), `vegetation_timeseries_${activeMetric.replace(':', '_')}.svg`);
+  };
+
+  return (
+    <div className="p-4 bg-gray-50 rounded space-y-3">
+      <div className="flex flex-wrap items-center gap-3">
+        <h3 className="text-lg font-medium">{t.timeSeries.title}</h3>
+        <select
+          value={activeMetric}
+          onChange={(e) => setMetric(e.target.value)}
+          className="p-1 border rounded text-sm"
+        >
+          {['coverage', ...indexKeys.flatMap(key => [`${key}:vegetation`, `${key}:whole`])].map(key => (
+            <option key={key} value={key}>{metricLabel(key)}</option>
+          ))}
+        </select>
+        <button
+          onClick={downloadMetricsCSV}
+          className="py-1 px-3 text-sm bg-blue-50 text-blue-700 rounded hover:bg-blue-100"
+        >
+          {t.timeSeries.downloadCSV}
+        </button>
+        <button
+          onClick={downloadChartSVG}
+          className="py-1 px-3 text-sm bg-blue-50 text-blue-700 rounded hover:bg-blue-100"
+        >
+          {t.timeSeries.downloadSVG}
+        </button>
+      </div>
+
+      <svg ref={svgRef} xmlns="http://www.w3.org/2000/svg" viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto bg-white rounded">
+        {yTicks.map(tick => (
+          <g key={tick}>
+            <line x1={MARGIN.left} x2={WIDTH - MARGIN.right} y1={y(tick)} y2={y(tick)} stroke="#e5e7eb" />
+            <text x={MARGIN.left - 4} y={y(tick) + 4} fontSize={10} textAnchor="end">{isCoverage ? tick.toFixed(0) : tick.toFixed(2)}</text>
+          </g>
+        ))}
+        <line x1={MARGIN.left} x2={WIDTH - MARGIN.right} y1={HEIGHT - MARGIN.bottom} y2={HEIGHT - MARGIN.bottom} stroke="#6b7280" />
+        {firstDate && (
+          <>
+            <text x={MARGIN.left} y={HEIGHT - 8} fontSize={10}>{firstDate}</text>
+            <text x={WIDTH - MARGIN.right} y={HEIGHT - 8} fontSize={10} textAnchor="end">+{lastDay} {t.timeSeries.days}</text>
+          </>
+        )}
+        {isCoverage && (
+          <line
+            x1={MARGIN.left}
+            x2={WIDTH - MARGIN.right}
+            y1={y(COVER_LEVEL)}
+            y2={y(COVER_LEVEL)}
+            stroke="#9ca3af"
+            strokeDasharray="4 3"
+          />
+        )}
+        {series.map((s, i) => (
+          <g key={s.plotId}>
+            <polyline
+              points={s.points.map(point => `${x(point.date)},${y(point.value)}`).join(' ')}
+              fill="none"
+              stroke={color(i)}
+              strokeWidth={2}
+            />
+            {s.points.map(point => (
+              <circle key={point.date} cx={x(point.date)} cy={y(point.value)} r={3} fill={color(i)} />
+            ))}
+          </g>
+        ))}
+      </svg>
+
+      <div className="flex flex-wrap gap-3 text-xs">
+        {series.map((s, i) => (
+          <span key={s.plotId} className="flex items-center gap-1">
+            <span className="inline-block w-3 h-3 rounded" style={{ background: color(i) }} />
+            {s.plotId}
+          </span>
+        ))}
+      </div>
+
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left">
+            <th className="p-1">{t.plots.plotId}</th>
+            <th className="p-1">{t.timeSeries.observations}</th>
+            <th className="p-1">{t.timeSeries.period}</th>
+            <th className="p-1">{t.timeSeries.maxGrowthRate}</th>
+            <th className="p-1">{t.timeSeries.meanGrowthRate}</th>
+            {isCoverage && <th className="p-1">{t.timeSeries.daysTo50}</th>}
+          </tr>
+        </thead>
+        <tbody>
+          {metrics.map(m => (
+            <tr key={m.plotId} className="border-t">
+              <td className="p-1">{m.plotId}</td>
+              <td className="p-1">{m.observations}</td>
+              <td className="p-1">{m.firstDate} – {m.lastDate}</td>
+              <td className="p-1">{formatNumber(m.maxGrowthRate, isCoverage ? 2 : 4)}</td>
+              <td className="p-1">{formatNumber(m.meanGrowthRate, isCoverage ? 2 : 4)}</td>
+              {isCoverage && (
+                <td className="p-1">
+                  {m.daysToLevel === null ? t.timeSeries.notReached : `${m.daysToLevel.toFixed(1)} (${m.dateAtLevel})`}
+                </td>
+              )}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default TimeSeriesPanel;
@@ -1,127 +1,108 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import {
+  ALGORITHMS,
+  Algorithm,
+  AnalysisCancelledError,
+  AnalysisResult,
+  CustomIndex,
+  EXCLUSION_REASONS,
+  ExclusionOptions,
+  ExifData,
+  GridSpec,
+  MorphologyStep,
+  ObjectOptions,
+  PixelClassifier,
+  Plot,
+  Region,
+  SceneClass,
+  SelectedIndices,
+  THRESHOLD_METHODS,
+  ThresholdMethod,
+  WorkerPool,
+  createGridPlots,
+  createWorkerPool,
+  labelOutline,
+  maskToRGBA,
+  parseFilenamePattern,
+  parsePlotBoundaries,
+  regionsBounds,
+  renderOutlineOverlay,
+  renderSceneClasses,
+  resolveAlgorithms,
+  settingsHash,
+  toCssColor
+} from '../engine';
+import { analyzedPixels, indexMapBlob, overlayBlob } from '../utils/artifacts';
+import {
+  DEFAULT_EXPORT_OPTIONS,
+  ExportFormat,
+  ExportInput,
+  ExportOptions,
+  ExportResult,
+  SettingsRecord,
+  exportFile,
+  objectsFile
+} from '../utils/export';
+import { downloadBlob, uniqueBaseNames } from '../utils/download';
+import { blobToDataURL, canvasToBlob, getImageData, loadImage, readImageExif, rgbaToBlob, thumbnailBlob } from '../utils/image';
+import { createPreviewQueue } from '../utils/previewQueue';
+import {
+  CalibrationSettings,
+  DateSource,
+  PlotMode,
+  ProjectSettings,
+  ScaleSettings,
+  completeSettings,
+  createProjectFile,
+  restoreSettings,
+  tiledSettings
+} from '../utils/project';
+import { StoredResult, deleteResults, listResults, saveResult } from '../utils/resultStore';
+import { createZipBuilder } from '../utils/zip';
+import { STORAGE_KEYS, loadJSON, saveJSON } from '../utils/storage';
+import BatchAssignments, { BatchAssignment } from './BatchAssignments';
+import CalibrationPanel, { calibrationOptions } from './CalibrationPanel';
+import ClassifierPanel from './ClassifierPanel';
+import CustomIndexEditor from './CustomIndexEditor';
+import ExclusionControls from './ExclusionControls';
+import ExportControls from './ExportControls';
+import GeoTiffPanel from './GeoTiffPanel';
+import IndexMapViewer from './IndexMapViewer';
+import MetadataPanel from './MetadataPanel';
+import MorphologyControls from './MorphologyControls';
+import ObjectControls from './ObjectControls';
+import PlotControls from './PlotControls';
+import PlotHeatmap from './PlotHeatmap';
+import SceneClassControls from './SceneClassControls';
+import ProjectPanel from './ProjectPanel';
+import ResultsTable from './ResultsTable';
+import RoiEditor from './RoiEditor';
+import ScalePanel, { formatArea, resolveGsd } from './ScalePanel';
+import StatisticsPanel from './StatisticsPanel';
+import TimeSeriesPanel, { TimeSeriesEntry } from './TimeSeriesPanel';
 
-// types
-interface SelectedIndices {
-  [key: string]: boolean;
+type Language = 'ja' | 'en';
+// 解析に使った設定のプリセット名（一致するプリセットがない場合は空）とハッシュ
+type SettingsTag = { preset: string; settingsHash: string };
+// 再読み込み後に復元する状態
+interface Session {
+  settings: Partial<ProjectSettings>;
+  // 設定と一致するプリセットの名前とハッシュ
+  preset: { name: string; hash: string } | null;
+  language: Language;
 }
 
-interface AnalysisResult {
-  vegetationCoverage: number;
-  vegetationPixels: number;
-  totalPixels: number;
-  indices: {
-    vegetation: Record<string, number>;
-    whole: Record<string, number>;
-  };
-}
+// 2値化画像に描く領域の輪郭の色
+const OBJECT_OUTLINE_COLOR: [number, number, number] = [0, 200, 255];
 
-interface Algorithm {
-    name: string;
-    calculate: (r: number, g: number, b: number) => number;
-  }
+// 設定の変更から再解析までの待ち時間（ms）
+const PREVIEW_DELAY = 300;
 
-type ThresholdMethod = 'otsu' | 'exg';
-type Language = 'ja' | 'en';
-
-// 植生指数の計算アルゴリズム
-const ALGORITHMS: Record<string, Algorithm> = {
-  INT: {
-    name: "Intensity",
-    calculate: (r: number, g: number, b: number) => (r + g + b) / 3
-  },
-  NRI: {
-    name: "Normalized Red Index",
-    calculate: (r: number, g: number, b: number) => {
-      const total = r + g + b;
-      return total > 0 ? r / total : 0;
-    }
-  },
-  NGI: {
-    name: "Normalized Green Index",
-    calculate: (r: number, g: number, b: number) => {
-      const total = r + g + b;
-      return total > 0 ? g / total : 0;
-    }
-  },
-  NBI: {
-    name: "Normalized Blue Index",
-    calculate: (r: number, g: number, b: number) => {
-      const total = r + g + b;
-      return total > 0 ? b / total : 0;
-    }
-  },
-  RGRI: {
-    name: "Red Green Ratio Index",
-    calculate: (r: number, g: number, b: number) => g > 0 ? r / g : 0
-  },
-  ExR: {
-    name: "Excess Red Index",
-    calculate: (r: number, g: number, b: number) => 1.4 * r - g
-  },
-  ExG: {
-    name: "Excess Green Index",
-    calculate: (r: number, g: number, b: number) => 2 * g - r - b
-  },
-  ExB: {
-    name: "Excess Blue Index",
-    calculate: (r: number, g: number, b: number) => 1.4 * b - g
-  },
-  ExGR: {
-    name: "Excess Green minus Red Index",
-    calculate: (r: number, g: number, b: number) => (2 * g - r - b) - (1.4 * r - g)
-  },
-  GRVI: {
-    name: "Green Red Vegetation Index",
-    calculate: (r: number, g: number, b: number) => {
-      const denom = g + r;
-      return denom > 0 ? (g - r) / denom : 0;
-    }
-  },
-  VARI: {
-    name: "Visible Atmospherically Resistant Index",
-    calculate: (r: number, g: number, b: number) => {
-      const denom = g + r - b;
-      return denom !== 0 ? (g - r) / denom : 0;
-    }
-  },
-  GLI: {
-    name: "Green Leaf Index",
-    calculate: (r: number, g: number, b: number) => {
-      const denom = 2 * g + r + b;
-      return denom !== 0 ? (2 * g - r - b) / denom : 0;
-    }
-  },
-  GLA: {
-    name: "Green Leaf Algorithm",
-    calculate: (r: number, g: number, b: number) => {
-      const denom = 2 * g + r + b;
-      return denom !== 0 ? (2 * g - r - b) / denom : 0;
-    }
-  },
-  MGRVI: {
-    name: "Modified Green Red Vegetation Index",
-    calculate: (r: number, g: number, b: number) => {
-      const g2 = g * g;
-      const r2 = r * r;
-      return (g2 - r2) / (g2 + r2);
-    }
-  },
-  RGBVI: {
-    name: "Red Green Blue Vegetation Index",
-    calculate: (r: number, g: number, b: number) => {
-      const g2 = g * g;
-      const rb = r * b;
-      return (g2 - rb) / (g2 + rb);
-    }
-  },
-  VEG: {
-    name: "Vegetativen",
-    calculate: (r: number, g: number, b: number) => {
-      const a = 0.667;
-      return g / (Math.pow(r, a) * Math.pow(b, (1 - a)));
-    }
-  }
-};
+interface BatchProgress {
+  completed: number;
+  total: number;
+  currentFile: string;
+}
 
 // 言語設定
 const translations = {
@@ -130,9 +111,16 @@ const translations = {
     thresholdMethod: {
       label: "2値化方法",
       otsu: "大津の方法（自動）",
-      exg: "ExGによる閾値指定"
+      triangle: "三角法（自動）",
+      kapur: "Kapurのエントロピー法（自動）",
+      isodata: "ISODATA法（自動）",
+      kmeans: "k-means法（自動）",
+      exgr: "ExG−ExR > 0（閾値不要）",
+      classifier: "画素分類器（塗った画素から学習）",
+      manual: "閾値指定（手動）"
     },
-    threshold: "ExG閾値",
+    segmentationIndex: "2値化に使う指数",
+    threshold: "閾値",
     algorithm: {
       label: "植生指数",
       ...Object.fromEntries(Object.entries(ALGORITHMS).map(([key, algo]) => [key, algo.name]))
@@ -141,24 +129,351 @@ const translations = {
     batchProcessing: {
       title: "バッチ処理",
       start: "バッチ処理開始",
-      processing: "処理中..."
+      processing: "処理中...",
+      cancel: "キャンセル",
+      cancelled: "バッチ処理をキャンセルしました",
+      downloadPartial: "完了分の結果をダウンロード",
+      zip: "2値化画像・重ね合わせ画像・CSV・設定を ZIP にまとめて保存",
+      zipIndexMaps: "選択した指数の指数マップも含める"
+    },
+    timeSeries: {
+      title: "時系列",
+      assignments: "区画と撮影日",
+      dateSources: {
+        exif: "撮影日をEXIFから",
+        filename: "撮影日をファイル名から",
+        manual: "撮影日を手入力"
+      },
+      filenamePattern: "ファイル名のパターン",
+      patternHelp: "{plot} 区画ID、{yyyy} {yy} {mm} {dd} 日付、* 任意の文字列（例: {plot}_{yyyy}{mm}{dd}*）。区画IDはどの方法でもパターンから読み取ります",
+      file: "ファイル",
+      date: "撮影日",
+      whole: "画像全体",
+      unassigned: "（区画未指定）",
+      days: "日",
+      observations: "観測数",
+      period: "期間",
+      maxGrowthRate: "最大増加速度（/日）",
+      meanGrowthRate: "平均増加速度（/日）",
+      daysTo50: "被覆率50%までの日数",
+      notReached: "未到達",
+      downloadCSV: "指標をCSVでダウンロード",
+      downloadSVG: "グラフをSVGで保存"
+    },
+    metadata: {
+      title: "撮影情報",
+      none: "EXIF / XMP の情報はありません",
+      dateTimeOriginal: "撮影日時",
+      make: "メーカー",
+      model: "機種",
+      focalLength: "焦点距離",
+      focalLength35mm: "35mm判換算",
+      exposureTime: "露出時間",
+      fNumber: "F値",
+      iso: "ISO感度",
+      exposureBias: "露出補正",
+      latitude: "緯度",
+      longitude: "経度",
+      altitude: "高度（海抜）",
+      relativeAltitude: "相対高度",
+      gimbalPitch: "ジンバル ピッチ",
+      gimbalRoll: "ジンバル ロール",
+      gimbalYaw: "ジンバル ヨー",
+      flightYaw: "機体 ヨー"
+    },
+    morphology: {
+      label: "マスクの後処理",
+      operations: {
+        open: "オープニング（小さな点を除く）",
+        close: "クロージング（隙間をつなぐ）",
+        erode: "収縮",
+        dilate: "膨張",
+        fillHoles: "穴埋め",
+        removeSmall: "小さな領域の除去"
+      },
+      kernelSize: "サイズ（画素）",
+      maxHoleArea: "最大面積（画素、0はすべて）",
+      minArea: "最小面積（画素）",
+      add: "処理を追加",
+      remove: "削除",
+      help: "2値化した後に上から順に適用します。変更すると現在の画像を再解析して2値化画像に反映します"
+    },
+    objects: {
+      label: "株（植生の連結領域）を数えて計測する",
+      title: "株ごとの計測値",
+      area: "面積（画素）",
+      physicalArea: "面積（cm²）",
+      perimeter: "周囲長（画素）",
+      minArea: "最小面積（画素）",
+      maxArea: "最大面積（画素、0は上限なし）",
+      split: "接した株を分割する（距離変換の watershed）",
+      minDistance: "株の中心の最小間隔（画素）",
+      help: "2値化画像に領域の輪郭と番号を表示します。面積の範囲外の領域は数えません",
+      downloadCSV: "株ごとのCSVをダウンロード",
+      downloadBatchCSV: "バッチの株ごとのCSVをダウンロード"
+    },
+    scene: {
+      label: "多クラス分類（緑の植生・枯れた植生・土・残渣・影）",
+      defaultClasses: ["影", "緑の植生", "枯れた植生", "残渣", "土"],
+      className: "クラス",
+      addClass: "クラスを追加",
+      removeClass: "削除",
+      addCondition: "条件を追加",
+      removeCondition: "削除",
+      catchAll: "条件なし（残りの画素すべて）",
+      reset: "既定のクラスに戻す",
+      help: "解析対象の有効画素を、すべての条件を満たす上のクラスから順に分類します。H は色相（0〜360）、S・V は彩度・明度（0〜1）、L・a・b は CIE L*a*b*、そのほかは指数の値です。空欄の側は制限しません。処理画像はクラスの色で表示し、CSV にクラスごとの列を出力します",
+      title: "クラスごとの結果",
+      pixels: "画素数",
+      percentage: "割合",
+      area: "面積",
+      unclassified: "分類なし"
+    },
+    scale: {
+      label: "面積の換算（地上画素寸法 GSD）",
+      modes: {
+        none: "画素数のみ",
+        gsd: "GSD を入力",
+        camera: "カメラと撮影高度から",
+        line: "長さのわかる線を引く"
+      },
+      gsd: "GSD（cm/画素）",
+      sensorWidth: "センサーの横幅（mm、0はEXIFの35mm判換算）",
+      altitude: "撮影高度（m、0はXMPの相対高度）",
+      cameraHelp: "焦点距離はEXIFから読み取ります。バッチでは画像ごとのEXIFとXMPから求めます",
+      lineLength: "線の実際の長さ（cm）",
+      lineHelp: "画像上でスケールバーなどの両端をドラッグでつなぎます。バッチのすべての画像に同じ GSD を使います",
+      noImage: "線を引くには画像を読み込んでください",
+      current: "この画像の GSD",
+      unavailable: "求められません（EXIF の焦点距離や高度がありません）"
+    },
+    exclusion: {
+      label: "除外する画素",
+      saturated: "白飛び・鏡面反射（いずれかのチャンネルが次の値以上）",
+      dark: "黒つぶれ・黒い縁（最大のチャンネルが次の値以下）",
+      shadow: "影",
+      shadowMethods: {
+        lab: "Lab（L* が平均 − k×標準偏差 未満）",
+        hsv: "HSV（(S − V) / (S + V) が閾値より大きい）"
+      },
+      labThreshold: "k",
+      hsvThreshold: "閾値",
+      help: "除外した画素は2値化画像に赤で表示され、被覆率と指数値の計算から除かれます（被覆率の分母は有効ピクセル数）",
+      saturatedPixels: "白飛び",
+      darkPixels: "黒つぶれ",
+      shadowPixels: "影"
+    },
+    calibration: {
+      label: "色補正",
+      title: "色補正",
+      modes: {
+        none: "補正しない",
+        whiteBalance: "白・灰色パネル（ホワイトバランス）",
+        colorChecker: "カラーチェッカー（3×3行列）"
+      },
+      perImage: "画像ごとに同じ位置の参照から補正を求める",
+      whiteBalanceHelp: "画像上で白または灰色の参照パネルをドラッグで囲みます。チェックしない場合は、この画像から求めた補正をバッチのすべての画像に適用します",
+      colorCheckerHelp: "カラーチェッカー（24色）の四隅を、暗い肌色のパッチの角から6色の辺に沿って順にクリックします。チェックしない場合は、この画像から求めた補正をバッチのすべての画像に適用します",
+      noImage: "参照を指定するには画像を読み込んでください",
+      matrix: "補正係数"
     },
     images: {
       original: "元画像",
       processed: "2値化画像"
     },
+    indexMap: {
+      title: "指数マップ",
+      views: {
+        index: "指数マップ",
+        original: "元画像",
+        mask: "2値画像"
+      },
+      outline: "植生の輪郭を重ねる",
+      min: "最小",
+      max: "最大",
+      autoStretch: "自動調整（2〜98%）",
+      exportPNG: "PNGで保存"
+    },
+    statistics: {
+      title: "詳細統計",
+      vegetation: "植生",
+      background: "非植生",
+      mean: "平均",
+      std: "標準偏差",
+      min: "最小",
+      p5: "5%",
+      p25: "25%",
+      median: "中央値",
+      p75: "75%",
+      p95: "95%",
+      max: "最大"
+    },
+    customIndex: {
+      title: "ユーザー定義の植生指数",
+      key: "略称",
+      name: "名前",
+      inputs: {
+        chromatic: "正規化RGB（r+g+b=1）",
+        scaled: "0〜1 に換算した値",
+        raw: "画素値（0〜255）"
+      },
+      undefinedPixels: {
+        skip: "0除算の画素は除外",
+        clamp: "±∞ は範囲の端に置換"
+      },
+      range: "閾値の範囲",
+      vegetationLow: "値が小さいほど植生",
+      add: "追加",
+      delete: "削除",
+      help: "r, g, b、数値、+ - * / ^、括弧と次の関数が使えます:",
+      errors: {
+        key: "略称は英字で始まる英数字と _ で入力してください",
+        duplicateKey: "同じ略称の指数がすでにあります",
+        name: "名前を入力してください",
+        formula: "数式に誤りがあります",
+        range: "範囲の最小値は最大値より小さくしてください"
+      }
+    },
+    export: {
+      label: "結果の出力形式",
+      formats: {
+        csv: "CSV（画像・区画ごとに1行）",
+        csvLong: "CSV（縦長形式: 画像・区画 × 指数 × 統計量ごとに1行）",
+        json: "JSON（解析結果をすべて含む）",
+        xlsx: "Excel（XLSX、設定シートつき）"
+      },
+      full: "数値を丸めない",
+      rounded: "数値を丸める（小数4桁など）",
+      bom: "CSV に BOM を付ける（Excel で文字化けしないように）"
+    },
+    project: {
+      label: "プリセット・プロジェクト",
+      loadPreset: "プリセットを読み込む",
+      presetName: "プリセット名",
+      savePreset: "プリセットとして保存",
+      deletePreset: "プリセットを削除",
+      export: "プロジェクトファイルを保存",
+      import: "プロジェクトファイルを読み込む",
+      importError: "プロジェクトファイルを読み込めませんでした",
+      settingsError: "設定を読み込めませんでした",
+      current: "現在の設定",
+      unsaved: "（保存していない設定）",
+      hash: "設定ハッシュ"
+    },
+    classifier: {
+      label: "画素分類器",
+      help: "クラスを選んで元画像の上を塗り、「学習」を押すと、塗った画素の RGB・HSV・L*a*b* と各指数の値から分類器（ガウシアン・ナイーブベイズ）を学習します。植生にチェックしたクラスの確率が 0.5 より大きい画素を植生とします。紫色の葉・麦わら・湿った土など ExG で分けられない場合に使います",
+      defaultClasses: ["植生", "土", "残渣"],
+      vegetation: "植生",
+      strokes: "線",
+      removeClass: "削除",
+      className: "クラス名",
+      addClass: "クラスを追加",
+      noImage: "画像を読み込むと、その上に塗って学習できます",
+      brushSize: "線の太さ",
+      undo: "最後の線を取り消す",
+      clear: "線をすべて消す",
+      train: "学習",
+      trained: "学習済みの分類器",
+      features: "個の特徴量",
+      untrained: "分類器がまだありません。学習するか保存した分類器を読み込むまで解析できません",
+      save: "分類器を保存（JSON）",
+      load: "分類器を読み込む",
+      discard: "分類器を破棄",
+      loadError: "分類器を読み込めませんでした"
+    },
+    geotiff: {
+      title: "GeoTIFF（オルソ画像）の解析",
+      help: "大きな GeoTIFF をタイルごとに読み込んで解析し、2値化画像と指数を元の座標系・位置情報のまま GeoTIFF で出力します（8ビット RGB・グレースケール、非圧縮・LZW・Deflate・PackBits に対応）",
+      noCrs: "座標系なし",
+      noGeoreference: "位置情報がありません。出力する GeoTIFF にも位置情報は付きません",
+      origin: "原点",
+      pixelSize: "画素サイズ",
+      indexRaster: "指数の GeoTIFF",
+      noIndexRaster: "出力しない",
+      ignoredSettings: "タイルごとの解析では使えないため無視する設定",
+      ignored: {
+        morphology: "2値化画像の整形",
+        objects: "株の検出",
+        calibration: "画像ごとの色補正"
+      },
+      start: "GeoTIFF を解析",
+      processing: "解析中...",
+      downloadMask: "2値化画像（GeoTIFF）を保存",
+      downloadIndex: "指数（GeoTIFF）を保存",
+      maskValues: "2値化画像の値: 1 = 植生、0 = 非植生、2 = 解析領域外、3 = 除外した画素",
+      openError: "GeoTIFF を読み込めませんでした",
+      analysisError: "GeoTIFF を解析できませんでした"
+    },
+    history: {
+      title: "保存した解析結果",
+      filter: "ファイル名・区画・撮影日・プリセットで絞り込み",
+      selected: "選択",
+      exportSelected: "選択した結果を出力",
+      exportVisible: "表示中の結果を出力",
+      deleteSelected: "選択した結果を削除",
+      filename: "ファイル名",
+      savedAt: "解析日時",
+      plot: "区画",
+      date: "撮影日",
+      preset: "プリセット",
+      open: "開く",
+      loadSettings: "設定を読み込む",
+      compare: "選択した結果の比較",
+      store: "この結果を保存"
+    },
+    roi: {
+      title: "解析領域（ROI）",
+      rectangle: "矩形",
+      polygon: "多角形",
+      finishPolygon: "多角形を確定",
+      undo: "1つ戻す",
+      clear: "すべて消去",
+      count: "領域数",
+      wholeImage: "画像全体を解析",
+      loadTemplate: "テンプレートを読み込む",
+      templateName: "テンプレート名",
+      saveTemplate: "テンプレートとして保存",
+      deleteTemplate: "テンプレートを削除"
+    },
+    plots: {
+      label: "区画（マルチプロット）",
+      none: "なし（画像全体）",
+      grid: "グリッド分割",
+      import: "境界ファイルを読み込む",
+      rows: "行数",
+      cols: "列数",
+      prefix: "IDの接頭辞",
+      idRowCol: "行・列（R1C1）",
+      idSequential: "通し番号（1, 2, ...）",
+      gridHint: "ROIを描いた場合はその外接矩形を分割します",
+      imported: "読み込んだ区画数",
+      heatmap: "区画ごとの植生被覆率",
+      plotId: "区画ID"
+    },
     results: {
       title: "解析結果",
       coverage: "植生被覆率",
       vegetationPixels: "植生ピクセル数",
       totalPixels: "総ピクセル数",
+      validPixels: "有効ピクセル数（被覆率の分母）",
+      beforeCleaning: "後処理前の植生被覆率（植生ピクセル数）",
+      plantCount: "株数（領域数）",
+      vegetationArea: "植生面積",
+      excludedPixels: "除外したピクセル数",
+      method: "2値化方法",
+      threshold: "適用した閾値",
       indices: "植生指数値",
       vegetationIndices: "植生部分の指数値",
-      wholeIndices: "画像全体の指数値"
+      wholeIndices: "画像全体の指数値",
+      skippedPixels: "値が定義されず除外した画素数",
+      downloadCSV: "結果をダウンロード"
     },
     errors: {
       processing: "画像の処理中にエラーが発生しました",
-      batch: "バッチ処理中にエラーが発生しました"
+      plotImport: "区画境界ファイルを読み込めませんでした",
+      batch: "バッチ処理中にエラーが発生しました",
+      batchSkipped: "次の画像は処理できなかったため飛ばしました:"
     },
     description: {
       title: "このツールについて",
@@ -170,9 +485,23 @@ const translations = {
         title: "使い方",
         steps: [
           "使用したい植生指数のチェックボックスを選択します",
-          "2値化方法を選択します（大津の方法：自動、ExG：手動閾値設定）",
-          "画像をアップロードすると自動で解析が開始されます",
-          "複数の画像を一括処理する場合は、バッチ処理機能を使用してください"
+          "2値化に使う指数と2値化方法を選択します（大津の方法などの自動閾値、ExG−ExR > 0、手動の閾値指定）",
+          "画像をアップロードすると自動で解析が開始され、設定を変更するとその画像がすぐに再解析されます",
+          "必要に応じて元画像上に矩形・多角形で解析領域を描き、テンプレートとして保存できます",
+          "1枚の画像に複数の区画がある場合は、グリッド分割または境界ファイルで区画ごとの結果を出力できます",
+          "土のノイズや葉の縁の乱れは、オープニング・クロージング・穴埋め・小さな領域の除去で2値化画像を整えてから集計できます",
+          "出芽数の調査などでは、植生の連結領域を株として数え、株ごとの面積・重心・外接矩形・周囲長・指数値をCSVで出力できます",
+          "GSD を入力するか、カメラと撮影高度、または長さのわかる線から求めると、植生面積を cm²・m² で出力できます",
+          "白飛び・黒つぶれ・影の画素は除外でき、被覆率は残りの有効ピクセルに対して計算されます",
+          "撮影日で照明やホワイトバランスが異なる場合は、白・灰色パネルまたはカラーチェッカーで色補正してから指数を計算できます",
+          "複数の画像を一括処理する場合は、バッチ処理機能を使用してください。2値化画像・重ね合わせ画像・指数マップを CSV・設定とともに ZIP で保存できます",
+          "結果は CSV（横長・縦長）、JSON、Excel（XLSX）で出力できます。数値は丸めずに出力でき、Excel 用に BOM を付けることもできます",
+          "解析結果はブラウザーに保存され、一覧から並べ替え・絞り込み・比較・CSV の再出力ができます",
+          "設定はプリセットとして保存したり、プロジェクトファイル（JSON）で共有したりできます。CSV にはプリセット名と設定ハッシュが出力されます",
+          "バッチ画像に区画と撮影日を割り当てると、区画ごとの被覆率・指数の推移を時系列で確認できます",
+          "ドローンのオルソ画像などの大きな GeoTIFF はタイルごとに解析でき、2値化画像と指数を位置情報付きの GeoTIFF で保存できます",
+          "ExG でうまく分けられない場合は、画像に植生・土などを塗って画素分類器を学習できます。分類器は JSON で保存でき、設定とともにバッチ処理にも使われます",
+          "多クラス分類を有効にすると、色相・ExG などの条件で緑の植生・枯れた植生・土・残渣・影に分け、クラスごとの割合と指数を出力します"
         ]
       }
     }
@@ -182,9 +511,16 @@ const translations = {
     thresholdMethod: {
       label: "Thresholding Method",
       otsu: "Otsu's Method (Automatic)",
-      exg: "ExG Threshold"
+      triangle: "Triangle (Automatic)",
+      kapur: "Kapur Entropy (Automatic)",
+      isodata: "IsoData (Automatic)",
+      kmeans: "k-means (Automatic)",
+      exgr: "ExG−ExR > 0 (No Threshold)",
+      classifier: "Pixel Classifier (Trained from Painted Pixels)",
+      manual: "Manual Threshold"
     },
-    threshold: "ExG Threshold",
+    segmentationIndex: "Segmentation Index",
+    threshold: "Threshold",
     algorithm: {
       label: "Vegetation Index",
       ...Object.fromEntries(Object.entries(ALGORITHMS).map(([key, algo]) => [key, algo.name]))
@@ -193,24 +529,351 @@ const translations = {
     batchProcessing: {
       title: "Batch Processing",
       start: "Start Batch Processing",
-      processing: "Processing..."
+      processing: "Processing...",
+      cancel: "Cancel",
+      cancelled: "Batch processing was cancelled",
+      downloadPartial: "Download results of finished files",
+      zip: "Save masks, overlays, CSV and settings together as a ZIP",
+      zipIndexMaps: "Include index maps for the selected indices"
+    },
+    timeSeries: {
+      title: "Time Series",
+      assignments: "Plots and Capture Dates",
+      dateSources: {
+        exif: "Date from EXIF",
+        filename: "Date from file name",
+        manual: "Enter dates manually"
+      },
+      filenamePattern: "File name pattern",
+      patternHelp: "{plot} plot ID, {yyyy} {yy} {mm} {dd} date, * any text (e.g. {plot}_{yyyy}{mm}{dd}*). Plot IDs are read from the pattern with every date source",
+      file: "File",
+      date: "Capture date",
+      whole: "Whole image",
+      unassigned: "(no plot)",
+      days: "days",
+      observations: "Observations",
+      period: "Period",
+      maxGrowthRate: "Max growth rate (/day)",
+      meanGrowthRate: "Mean growth rate (/day)",
+      daysTo50: "Days to 50% cover",
+      notReached: "Not reached",
+      downloadCSV: "Download metrics CSV",
+      downloadSVG: "Save chart as SVG"
+    },
+    metadata: {
+      title: "Capture Information",
+      none: "No EXIF / XMP information",
+      dateTimeOriginal: "Capture time",
+      make: "Make",
+      model: "Model",
+      focalLength: "Focal length",
+      focalLength35mm: "35mm equivalent",
+      exposureTime: "Exposure time",
+      fNumber: "F-number",
+      iso: "ISO",
+      exposureBias: "Exposure bias",
+      latitude: "Latitude",
+      longitude: "Longitude",
+      altitude: "Altitude (above sea level)",
+      relativeAltitude: "Relative altitude",
+      gimbalPitch: "Gimbal pitch",
+      gimbalRoll: "Gimbal roll",
+      gimbalYaw: "Gimbal yaw",
+      flightYaw: "Aircraft yaw"
+    },
+    morphology: {
+      label: "Mask Cleaning",
+      operations: {
+        open: "Opening (remove specks)",
+        close: "Closing (bridge gaps)",
+        erode: "Erosion",
+        dilate: "Dilation",
+        fillHoles: "Fill holes",
+        removeSmall: "Remove small objects"
+      },
+      kernelSize: "Size (px)",
+      maxHoleArea: "Max area (px, 0 = all)",
+      minArea: "Min area (px)",
+      add: "Add step",
+      remove: "Remove",
+      help: "Applied from top to bottom after thresholding. Changes re-analyse the current image and update the binary image"
+    },
+    objects: {
+      label: "Count and measure plants (connected vegetation objects)",
+      title: "Objects",
+      area: "Area (px)",
+      physicalArea: "Area (cm²)",
+      perimeter: "Perimeter (px)",
+      minArea: "Min area (px)",
+      maxArea: "Max area (px, 0 = no limit)",
+      split: "Split touching plants (distance-transform watershed)",
+      minDistance: "Min distance between plant centres (px)",
+      help: "Object outlines and numbers are drawn on the binary image. Objects outside the area range are not counted",
+      downloadCSV: "Download per-object CSV",
+      downloadBatchCSV: "Download per-object CSV for the batch"
+    },
+    scene: {
+      label: "Multi-class Scene (green vegetation, senescent vegetation, soil, residue, shadow)",
+      defaultClasses: ["Shadow", "Green vegetation", "Senescent vegetation", "Residue", "Soil"],
+      className: "Class",
+      addClass: "Add Class",
+      removeClass: "Remove",
+      addCondition: "Add condition",
+      removeCondition: "Remove",
+      catchAll: "No conditions (all remaining pixels)",
+      reset: "Reset to Default Classes",
+      help: "Valid pixels are assigned to the first class, from the top, whose conditions all hold. H is hue (0–360), S and V are saturation and value (0–1), L, a and b are CIE L*a*b*, and the rest are index values. An empty limit is unbounded. The processed image shows each class in its colour and the CSV gets columns per class",
+      title: "Classes",
+      pixels: "Pixels",
+      percentage: "Share",
+      area: "Area",
+      unclassified: "Unclassified"
+    },
+    scale: {
+      label: "Physical Area (ground sampling distance, GSD)",
+      modes: {
+        none: "Pixels only",
+        gsd: "Enter GSD",
+        camera: "From camera and altitude",
+        line: "Draw a line of known length"
+      },
+      gsd: "GSD (cm/px)",
+      sensorWidth: "Sensor width (mm, 0 = use the EXIF 35mm equivalent)",
+      altitude: "Altitude (m, 0 = XMP relative altitude)",
+      cameraHelp: "The focal length is read from EXIF. In a batch, the GSD is computed from each image's EXIF and XMP",
+      lineLength: "Real length of the line (cm)",
+      lineHelp: "Drag between the ends of a scale bar or other known distance. The same GSD is used for every image in a batch",
+      noImage: "Load an image to draw the line",
+      current: "GSD of this image",
+      unavailable: "Not available (missing focal length or altitude in EXIF)"
+    },
+    exclusion: {
+      label: "Excluded Pixels",
+      saturated: "Clipped highlights / specular (any channel at or above)",
+      dark: "Deep shadows / black borders (brightest channel at or below)",
+      shadow: "Shadows",
+      shadowMethods: {
+        lab: "Lab (L* below mean − k × SD)",
+        hsv: "HSV ((S − V) / (S + V) above threshold)"
+      },
+      labThreshold: "k",
+      hsvThreshold: "Threshold",
+      help: "Excluded pixels are shown in red in the binary image and left out of coverage and index values (coverage is computed over valid pixels)",
+      saturatedPixels: "Clipped highlights",
+      darkPixels: "Deep shadows",
+      shadowPixels: "Shadows"
+    },
+    calibration: {
+      label: "Colour Calibration",
+      title: "Colour Calibration",
+      modes: {
+        none: "No calibration",
+        whiteBalance: "White / grey panel (white balance)",
+        colorChecker: "ColorChecker (3×3 matrix)"
+      },
+      perImage: "Compute the correction per image from the reference at the same position",
+      whiteBalanceHelp: "Drag a rectangle over a white or grey reference panel. Unless checked, the correction computed from this image is applied to every image in a batch",
+      colorCheckerHelp: "Click the four corners of a 24-patch ColorChecker, starting at the corner of the dark skin patch and going along the 6-patch edge. Unless checked, the correction computed from this image is applied to every image in a batch",
+      noImage: "Load an image to mark the reference",
+      matrix: "Correction coefficients"
     },
     images: {
       original: "Original Image",
       processed: "Binary Image"
     },
+    indexMap: {
+      title: "Index Map",
+      views: {
+        index: "Index Map",
+        original: "Original",
+        mask: "Binary"
+      },
+      outline: "Overlay vegetation outline",
+      min: "Min",
+      max: "Max",
+      autoStretch: "Auto (2–98%)",
+      exportPNG: "Export PNG"
+    },
+    statistics: {
+      title: "Detailed Statistics",
+      vegetation: "Vegetation",
+      background: "Non-vegetation",
+      mean: "Mean",
+      std: "SD",
+      min: "Min",
+      p5: "P5",
+      p25: "P25",
+      median: "Median",
+      p75: "P75",
+      p95: "P95",
+      max: "Max"
+    },
+    customIndex: {
+      title: "Custom Vegetation Indices",
+      key: "Abbreviation",
+      name: "Name",
+      inputs: {
+        chromatic: "Normalized RGB (r+g+b=1)",
+        scaled: "Values scaled to 0-1",
+        raw: "Pixel values (0-255)"
+      },
+      undefinedPixels: {
+        skip: "Skip pixels with division by zero",
+        clamp: "Clamp ±∞ to the range"
+      },
+      range: "Threshold range",
+      vegetationLow: "Lower values are vegetation",
+      add: "Add",
+      delete: "Delete",
+      help: "Use r, g, b, numbers, + - * / ^, parentheses and these functions:",
+      errors: {
+        key: "The abbreviation must start with a letter and contain only letters, digits and _",
+        duplicateKey: "An index with this abbreviation already exists",
+        name: "Enter a name",
+        formula: "The formula is invalid",
+        range: "The range minimum must be less than the maximum"
+      }
+    },
+    export: {
+      label: "Export Format",
+      formats: {
+        csv: "CSV (one row per image / plot)",
+        csvLong: "CSV, long format (one row per image / plot × index × statistic)",
+        json: "JSON (complete analysis results)",
+        xlsx: "Excel (XLSX with a settings sheet)"
+      },
+      full: "Full precision",
+      rounded: "Rounded (e.g. 4 decimals)",
+      bom: "Add a UTF-8 BOM to CSV (for Excel)"
+    },
+    project: {
+      label: "Presets and Project",
+      loadPreset: "Load Preset",
+      presetName: "Preset name",
+      savePreset: "Save as Preset",
+      deletePreset: "Delete Preset",
+      export: "Export Project File",
+      import: "Import project file",
+      importError: "Failed to import the project file",
+      settingsError: "Failed to load the settings",
+      current: "Current settings",
+      unsaved: "(unsaved settings)",
+      hash: "Settings hash"
+    },
+    classifier: {
+      label: "Pixel Classifier",
+      help: "Pick a class, paint over the original image and press Train: a Gaussian naive Bayes classifier is trained on the RGB, HSV and L*a*b* values and index values of the painted pixels. Pixels whose probability of the classes marked as vegetation exceeds 0.5 are vegetation. Use it when ExG fails, e.g. on purple leaves, straw residue or wet soil",
+      defaultClasses: ["Vegetation", "Soil", "Residue"],
+      vegetation: "vegetation",
+      strokes: "Strokes",
+      removeClass: "Remove",
+      className: "Class name",
+      addClass: "Add Class",
+      noImage: "Load an image to paint training samples on it",
+      brushSize: "Brush size",
+      undo: "Undo Stroke",
+      clear: "Clear Strokes",
+      train: "Train",
+      trained: "Trained classifier",
+      features: "features",
+      untrained: "No classifier yet. Images are not analysed until you train one or load a saved one",
+      save: "Save Classifier (JSON)",
+      load: "Load classifier",
+      discard: "Discard Classifier",
+      loadError: "Failed to load the classifier"
+    },
+    geotiff: {
+      title: "GeoTIFF (Orthomosaic) Analysis",
+      help: "Large GeoTIFFs are read and analysed tile by tile; the mask and index are written back as GeoTIFFs with the original geotransform and CRS (8-bit RGB or greyscale; uncompressed, LZW, Deflate or PackBits)",
+      noCrs: "no CRS",
+      noGeoreference: "The file has no georeferencing, so the output GeoTIFFs will not have any either",
+      origin: "Origin",
+      pixelSize: "Pixel size",
+      indexRaster: "Index GeoTIFF",
+      noIndexRaster: "None",
+      ignoredSettings: "Ignored because tiled analysis does not support them",
+      ignored: {
+        morphology: "mask cleaning",
+        objects: "object detection",
+        calibration: "per-image calibration"
+      },
+      start: "Analyse GeoTIFF",
+      processing: "Analysing...",
+      downloadMask: "Save Mask (GeoTIFF)",
+      downloadIndex: "Save Index (GeoTIFF)",
+      maskValues: "Mask values: 1 = vegetation, 0 = non-vegetation, 2 = outside the analysis area, 3 = excluded",
+      openError: "Failed to read the GeoTIFF",
+      analysisError: "Failed to analyse the GeoTIFF"
+    },
+    history: {
+      title: "Stored Results",
+      filter: "Filter by file, plot, date or preset",
+      selected: "selected",
+      exportSelected: "Export Selected",
+      exportVisible: "Export Shown",
+      deleteSelected: "Delete Selected",
+      filename: "File",
+      savedAt: "Analyzed",
+      plot: "Plot",
+      date: "Date",
+      preset: "Preset",
+      open: "Open",
+      loadSettings: "Load settings",
+      compare: "Comparison of selected results",
+      store: "Store This Result"
+    },
+    roi: {
+      title: "Region of Interest (ROI)",
+      rectangle: "Rectangle",
+      polygon: "Polygon",
+      finishPolygon: "Finish Polygon",
+      undo: "Undo",
+      clear: "Clear All",
+      count: "Regions",
+      wholeImage: "Analyzing the whole image",
+      loadTemplate: "Load Template",
+      templateName: "Template name",
+      saveTemplate: "Save as Template",
+      deleteTemplate: "Delete Template"
+    },
+    plots: {
+      label: "Plots (Multi-plot Mode)",
+      none: "None (whole image)",
+      grid: "Grid",
+      import: "Import Boundaries",
+      rows: "Rows",
+      cols: "Columns",
+      prefix: "ID prefix",
+      idRowCol: "Row/column (R1C1)",
+      idSequential: "Sequential (1, 2, ...)",
+      gridHint: "If an ROI is drawn, the grid spans its bounding box",
+      imported: "Imported plots",
+      heatmap: "Vegetation Coverage per Plot",
+      plotId: "Plot ID"
+    },
     results: {
       title: "Analysis Results",
       coverage: "Vegetation Coverage",
       vegetationPixels: "Vegetation Pixels",
       totalPixels: "Total Pixels",
+      validPixels: "Valid Pixels (coverage denominator)",
+      beforeCleaning: "Coverage before cleaning (vegetation pixels)",
+      plantCount: "Plant count (objects)",
+      vegetationArea: "Vegetation area",
+      excludedPixels: "Excluded Pixels",
+      method: "Thresholding Method",
+      threshold: "Applied Threshold",
       indices: "Vegetation Indices",
       vegetationIndices: "Indices (Vegetation Area)",
-      wholeIndices: "Indices (Whole Image)"
+      wholeIndices: "Indices (Whole Image)",
+      skippedPixels: "Pixels skipped because the index is undefined",
+      downloadCSV: "Download Results"
     },
     errors: {
       processing: "An error occurred while processing the image",
-      batch: "An error occurred during batch processing"
+      plotImport: "Could not read the plot boundary file",
+      batch: "An error occurred during batch processing",
+      batchSkipped: "The following images could not be processed and were skipped:"
     },
     description: {
       title: "About This Tool",
@@ -222,9 +885,23 @@ const translations = {
         title: "How to Use",
         steps: [
           "Select the vegetation indices you want to calculate",
-          "Choose the thresholding method (Otsu: automatic, ExG: manual threshold)",
-          "Upload an image to start automatic analysis",
-          "For multiple images, use the batch processing feature"
+          "Choose the segmentation index and thresholding method (automatic methods such as Otsu, ExG−ExR > 0, or a manual threshold)",
+          "Upload an image to start automatic analysis; changing any setting re-analyses it right away",
+          "Optionally draw rectangles or polygons on the original image to limit the analysis, and save them as a template",
+          "If one image covers several plots, use a grid or imported boundaries to get results per plot",
+          "Soil speckle and ragged leaf edges can be cleaned with opening, closing, hole filling and small-object removal before counting",
+          "For emergence counts, connected vegetation objects can be counted as plants and their area, centroid, bounding box, perimeter and index values exported as CSV",
+          "Enter a GSD, or derive it from the camera and altitude or from a line of known length, to report vegetation area in cm² and m²",
+          "Clipped highlights, deep shadows and shadowed pixels can be excluded; coverage is then computed over the remaining valid pixels",
+          "If lighting or white balance differs between shooting days, calibrate colours with a white / grey panel or a ColorChecker before indices are computed",
+          "For multiple images, use the batch processing feature; masks, overlays and index maps can be saved as a ZIP together with the CSV and settings",
+          "Results can be exported as CSV (wide or long), JSON or Excel (XLSX), at full precision and optionally with a BOM for Excel",
+          "Results are stored in the browser; the results table can sort, filter, compare and re-export them as CSV",
+          "Save settings as a preset or share them as a project file (JSON); the CSV records the preset name and a settings hash",
+          "Assign plots and capture dates to batch images to follow coverage and indices per plot over time",
+          "Large GeoTIFFs such as drone orthomosaics are analysed tile by tile, and the mask and index can be saved as georeferenced GeoTIFFs",
+          "If ExG cannot separate vegetation, paint vegetation, soil and other classes on an image to train a pixel classifier; it can be saved as JSON and is used for batches together with the other settings",
+          "Enable the multi-class scene to split pixels into green vegetation, senescent vegetation, soil, residue and shadow by hue, ExG and other rules, with shares and indices per class"
         ]
       }
     }
@@ -233,18 +910,19 @@ const translations = {
 
 // Helper Components
 const IndicesSelector: React.FC<{
+  algorithms: Record<string, Algorithm>;
   selectedIndices: SelectedIndices;
   onSelect: (indices: SelectedIndices) => void;
   t: any;
-}> = ({ selectedIndices, onSelect, t }) => (
+}> = ({ algorithms, selectedIndices, onSelect, t }) => (
   <div className="space-y-2">
     <label className="block text-sm font-medium">{t.algorithm.label}</label>
     <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
-      {Object.entries(ALGORITHMS).map(([key, algo]) => (
+      {Object.entries(algorithms).map(([key, algo]) => (
         <label key={key} className="flex items-center space-x-2">
           <input
             type="checkbox"
-            checked={selectedIndices[key]}
+            checked={selectedIndices[key] ?? false}
             onChange={(e) => {
               onSelect({
                 ...selectedIndices,
@@ -261,48 +939,59 @@ const IndicesSelector: React.FC<{
 );
 
 const ThresholdControls: React.FC<{
+  algorithms: Record<string, Algorithm>;
+  segmentationIndex: string;
   method: ThresholdMethod;
   threshold: number;
+  onSegmentationIndexChange: (key: string) => void;
   onMethodChange: (method: ThresholdMethod) => void;
   onThresholdChange: (value: number) => void;
   t: any;
-}> = ({ method, threshold, onMethodChange, onThresholdChange, t }) => (
+}> = ({ algorithms, segmentationIndex, method, threshold, onSegmentationIndexChange, onMethodChange, onThresholdChange, t }) => {
+  const [min, max] = algorithms[segmentationIndex]?.range ?? [-1, 1];
+  return (
   <div className="space-y-4">
+    {!THRESHOLD_METHODS[method].fixed && (
+    <div className="space-y-2">
+      <label className="block text-sm font-medium">{t.segmentationIndex}</label>
+      <select
+        value={segmentationIndex}
+        onChange={(e) => onSegmentationIndexChange(e.target.value)}
+        className="block w-full md:w-1/2 p-2 border rounded text-sm"
+      >
+        {Object.entries(algorithms).map(([key, algo]) => (
+          <option key={key} value={key}>{key} — {algo.name}</option>
+        ))}
+      </select>
+    </div>
+    )}
     <div className="space-y-2">
       <label className="block text-sm font-medium">{t.thresholdMethod.label}</label>
-      <div className="flex gap-4">
-        <label className="flex items-center">
-          <input
-            type="radio"
-            value="otsu"
-            checked={method === 'otsu'}
-            onChange={(e) => onMethodChange(e.target.value as ThresholdMethod)}
-            className="mr-2"
-          />
-          {t.thresholdMethod.otsu}
-        </label>
-        <label className="flex items-center">
-          <input
-            type="radio"
-            value="exg"
-            checked={method === 'exg'}
-            onChange={(e) => onMethodChange(e.target.value as ThresholdMethod)}
-            className="mr-2"
-          />
-          {t.thresholdMethod.exg}
-        </label>
+      <div className="flex flex-wrap gap-x-4 gap-y-2">
+        {(Object.keys(THRESHOLD_METHODS) as ThresholdMethod[]).map(key => (
+          <label key={key} className="flex items-center">
+            <input
+              type="radio"
+              value={key}
+              checked={method === key}
+              onChange={(e) => onMethodChange(e.target.value as ThresholdMethod)}
+              className="mr-2"
+            />
+            {t.thresholdMethod[key]}
+          </label>
+        ))}
       </div>
     </div>
-    {method === 'exg' && (
+    {method === 'manual' && (
       <div className="space-y-2">
         <label className="block text-sm font-medium">
-          {t.threshold}: {threshold.toFixed(2)}
+          {segmentationIndex} {t.threshold}: {threshold.toFixed(2)}
         </label>
         <input
           type="range"
-          min="-1"
-          max="1"
-          step="0.01"
+          min={min}
+          max={max}
+          step={(max - min) / 200}
           value={threshold}
           onChange={(e) => onThresholdChange(parseFloat(e.target.value))}
           className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
@@ -310,248 +999,414 @@ const ThresholdControls: React.FC<{
       </div>
     )}
   </div>
-);
+  );
+};
 
 // Main Component
 const VegetationAnalysis: React.FC = () => {
   // State
+  // 前回の設定（ユーザー定義指数は以前の保存先からも読む）
+  const [session] = useState<Session>(() => loadJSON(STORAGE_KEYS.session, {
+    settings: { customIndices: loadJSON(STORAGE_KEYS.customIndices, []) },
+    preset: null,
+    language: 'ja'
+  }));
+  // 保存した設定が解析できない場合（数式の誤ったユーザー定義指数など）は既定の設定で始める
+  const [initialSettings] = useState(() => {
+    try {
+      return restoreSettings(session.settings);
+    } catch (error) {
+      console.error('Saved settings are invalid:', error);
+      return completeSettings({});
+    }
+  });
   const [originalImage, setOriginalImage] = useState<string | null>(null);
   const [processedImage, setProcessedImage] = useState<string | null>(null);
-  const [threshold, setThreshold] = useState(0.2);
-  const [thresholdMethod, setThresholdMethod] = useState<ThresholdMethod>('otsu');
+  const [segmentationIndex, setSegmentationIndex] = useState(initialSettings.segmentationIndex);
+  const [threshold, setThreshold] = useState(initialSettings.threshold);
+  const [classifier, setClassifier] = useState<PixelClassifier | null>(initialSettings.classifier);
+  const [sceneClasses, setSceneClasses] = useState<SceneClass[] | null>(initialSettings.sceneClasses);
+  const [regions, setRegions] = useState<Region[]>(initialSettings.regions);
+  const [exclusions, setExclusions] = useState<ExclusionOptions>(initialSettings.exclusions);
+  const [morphology, setMorphology] = useState<MorphologyStep[]>(initialSettings.morphology);
+  const [objectOptions, setObjectOptions] = useState<ObjectOptions | null>(initialSettings.objects);
+  const [scaleSettings, setScaleSettings] = useState<ScaleSettings>(initialSettings.scale);
+  const [calibrationSettings, setCalibrationSettings] = useState<CalibrationSettings>(initialSettings.calibration);
+  const [plotMode, setPlotMode] = useState<PlotMode>(initialSettings.plotMode);
+  const [gridSpec, setGridSpec] = useState<GridSpec>(initialSettings.gridSpec);
+  const [importedPlots, setImportedPlots] = useState<Plot[]>(initialSettings.importedPlots);
+  const [analyzedPlots, setAnalyzedPlots] = useState<Plot[]>([]);
+  const [originalFileName, setOriginalFileName] = useState('');
+  const [loadedImage, setLoadedImage] = useState<HTMLImageElement | null>(null);
+  const [analysisMask, setAnalysisMask] = useState<Uint8Array | null>(null);
+  const [thresholdMethod, setThresholdMethod] = useState<ThresholdMethod>(initialSettings.thresholdMethod);
   const [isProcessing, setIsProcessing] = useState(false);
   const [batchFiles, setBatchFiles] = useState<File[]>([]);
+  const [batchProgress, setBatchProgress] = useState<BatchProgress | null>(null);
+  const [partialResults, setPartialResults] = useState<ExportResult[] | null>(null);
+  const [batchResults, setExportResults] = useState<ExportResult[]>([]);
+  const [batchAssignments, setBatchAssignments] = useState<BatchAssignment[]>([]);
+  const [dateSource, setDateSource] = useState<DateSource>(initialSettings.dateSource);
+  const [filenamePattern, setFilenamePattern] = useState(initialSettings.filenamePattern);
+  // 結果の出力形式
+  const [exportSettings, setExportSettings] = useState<{ format: ExportFormat; options: ExportOptions }>(
+    () => loadJSON(STORAGE_KEYS.exportSettings, { format: 'csv', options: DEFAULT_EXPORT_OPTIONS })
+  );
+  const { format: exportFormat, options: exportOptions } = exportSettings;
+  // バッチの結果を画像とともに ZIP で保存する
+  const [zipExport, setZipExport] = useState(false);
+  const [zipIndexMaps, setZipIndexMaps] = useState(false);
   const [analysisResult, setAnalysisResult] = useState<AnalysisResult | null>(null);
-  const [language, setLanguage] = useState<Language>('ja');
-  const [selectedIndices, setSelectedIndices] = useState<SelectedIndices>(() => {
-    return Object.keys(ALGORITHMS).reduce((acc, key) => {
-      acc[key] = true;
-      return acc;
-    }, {} as SelectedIndices);
-  });
+  const [analysisTag, setAnalysisTag] = useState<SettingsTag | null>(null);
+  const [analysisSettings, setAnalysisSettings] = useState<ProjectSettings | null>(null);
+  const [storedResults, setStoredResults] = useState<StoredResult[]>([]);
+  const [imageMetadata, setImageMetadata] = useState<ExifData | null>(null);
+  const [language, setLanguage] = useState<Language>(session.language);
+  const [customIndices, setCustomIndices] = useState<CustomIndex[]>(initialSettings.customIndices);
+  const [selectedIndices, setSelectedIndices] = useState<SelectedIndices>(initialSettings.selectedIndices);
+  const [activePreset, setActivePreset] = useState(session.preset);
 
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const originalCanvasRef = useRef<HTMLCanvasElement>(null);
+  // 読み込んだ画像の画素（設定を変えて再解析するたびに読み直さない）
+  const pixelCacheRef = useRef<{ image: HTMLImageElement; imageData: ImageData } | null>(null);
+  // このセッションで解析に使った設定（出力に設定を含めるため）
+  const knownSettingsRef = useRef(new Map<string, SettingsRecord>());
+  // 最後に開始した単画像の解析の番号（古い解析の結果は表示しない）
+  const analysisSeqRef = useRef(0);
+  const poolRef = useRef<WorkerPool | null>(null);
+  const cancelRequestedRef = useRef(false);
 
   const t = translations[language];
 
-  // Continue with the rest of the implementation...
-  // I'll provide the remaining code in the next part due to length limitations
-
-    // 画像読み込みヘルパー関数
-    const loadImage = (file: File): Promise<HTMLImageElement> => {
-    return new Promise((resolve, reject) => {
-        const reader = new FileReader();
-        reader.onload = (e) => {
-        const img = new Image();
-        img.onload = () => resolve(img);
-        img.onerror = reject;
-        img.src = e.target?.result as string;
-        };
-        reader.onerror = reject;
-        reader.readAsDataURL(file);
-    });
-    };
+  // 組み込みとユーザー定義の指数
+  const algorithms = useMemo(() => resolveAlgorithms(customIndices), [customIndices]);
 
-    // 大津の方法による閾値計算
-    const calculateOtsuThreshold = (data: Uint8ClampedArray): number => {
-    const histogram = new Array(256).fill(0);
-    for (let i = 0; i < data.length; i += 4) {
-        const r = data[i];
-        const g = data[i + 1];
-        const b = data[i + 2];
-        const exg = ((2 * g - r - b) + 510) / 4;
-        histogram[Math.round(exg)]++;
-    }
+  // 現在の設定とそのハッシュ
+  const projectSettings = useMemo((): ProjectSettings => ({
+    selectedIndices,
+    customIndices,
+    segmentationIndex,
+    thresholdMethod,
+    threshold,
+    classifier,
+    sceneClasses,
+    regions,
+    plotMode,
+    gridSpec,
+    importedPlots,
+    exclusions,
+    morphology,
+    objects: objectOptions,
+    scale: scaleSettings,
+    calibration: calibrationSettings,
+    dateSource,
+    filenamePattern
+  }), [
+    selectedIndices, customIndices, segmentationIndex, thresholdMethod, threshold, classifier, sceneClasses, regions, plotMode, gridSpec,
+    importedPlots, exclusions, morphology, objectOptions, scaleSettings, calibrationSettings, dateSource, filenamePattern
+  ]);
+  const currentHash = useMemo(() => settingsHash(projectSettings), [projectSettings]);
+  // 設定を変更した後はプリセット名を出力しない
+  const presetName = activePreset && activePreset.hash === currentHash ? activePreset.name : '';
+  const settingsTag: SettingsTag = { preset: presetName, settingsHash: currentHash };
 
-    let sumB = 0;
-    let wB = 0;
-    let wF = 0;
-    let maxVar = 0;
-    let threshold = 0;
-    const total = histogram.reduce((acc, val) => acc + val, 0);
-    const sum = histogram.reduce((acc, val, idx) => acc + idx * val, 0);
-
-    for (let t = 0; t < 256; t++) {
-        wB += histogram[t];
-        if (wB === 0) continue;
-        wF = total - wB;
-        if (wF === 0) break;
-
-        sumB += t * histogram[t];
-        const mB = sumB / wB;
-        const mF = (sum - sumB) / wF;
-        const variance = wB * wF * Math.pow(mB - mF, 2);
-
-        if (variance > maxVar) {
-        maxVar = variance;
-        threshold = t;
-        }
+  // 設定・言語を変更したら保存する
+  const sessionRef = useRef<Session>(session);
+  sessionRef.current = { settings: projectSettings, preset: activePreset, language };
+  useEffect(() => {
+    saveJSON(STORAGE_KEYS.session, sessionRef.current);
+  }, [currentHash, activePreset, language]);
+
+  // 画素分類器を選んで学習する前は解析しない（画像は塗るために読み込む）
+  const classifierMissing = thresholdMethod === 'classifier' && !classifier;
+
+  // 解析に使う区画
+  const plots: Plot[] = plotMode === 'grid'
+    ? createGridPlots(gridSpec, regionsBounds(regions))
+    : plotMode === 'import' ? importedPlots : [];
+
+  // Worker プールは初回使用時に生成し、アンマウント時に破棄する
+  const getPool = (): WorkerPool => {
+    if (!poolRef.current) {
+      poolRef.current = createWorkerPool();
     }
+    return poolRef.current;
+  };
 
-    return (threshold * 4 - 510) / 510;
+  useEffect(() => () => {
+    poolRef.current?.terminate();
+    poolRef.current = null;
+  }, []);
+
+  // 保存した解析結果を読み込む
+  useEffect(() => {
+    listResults()
+      .then(setStoredResults)
+      .catch(error => console.error('Failed to read stored results:', error));
+  }, []);
+
+  // バッチ画像の区画・撮影日を割り当てる（手入力の撮影日は残す）
+  useEffect(() => {
+    let cancelled = false;
+    const pattern = filenamePattern.trim();
+    Promise.all(batchFiles.map(async (file): Promise<BatchAssignment> => {
+      const parsed = pattern ? parseFilenamePattern(pattern, file.name) : null;
+      let date = '';
+      if (dateSource === 'filename') {
+        date = parsed?.date ?? '';
+      } else if (dateSource === 'exif') {
+        date = (await readImageExif(file).catch(() => ({ dateTimeOriginal: undefined }))).dateTimeOriginal?.slice(0, 10) ?? '';
+      }
+      return { plotId: parsed?.plotId ?? '', date };
+    })).then(assignments => {
+      if (cancelled) return;
+      setBatchAssignments(prev => dateSource === 'manual'
+        ? assignments.map((assignment, i) => ({ ...assignment, date: prev[i]?.date ?? '' }))
+        : assignments);
+    });
+    return () => {
+      cancelled = true;
     };
+  }, [batchFiles, dateSource, filenamePattern]);
 
-    // CSVファイルのダウンロード
-    const downloadCSV = (results: Array<AnalysisResult & { filename: string }>) => {
-        const selectedKeys = Object.entries(selectedIndices)
-          .filter(([_, isSelected]) => isSelected)
-          .map(([key]) => key);
-        
-        // ヘッダーの修正
-        const headers = [
-          'Filename',
-          'Total Pixels',
-          'Vegetation Pixels',
-          'Vegetation Coverage (%)',
-          'Threshold Method',
-          'Threshold Value',
-          // 植生部分の指数
-          ...selectedKeys.map(key => `${ALGORITHMS[key as keyof typeof ALGORITHMS].name} (Vegetation)`),
-          // 画像全体の指数
-          ...selectedKeys.map(key => `${ALGORITHMS[key as keyof typeof ALGORITHMS].name} (Whole)`)
-        ];
-        
-        // データ行の修正
-        const rows = results.map(result => [
-          result.filename,
-          result.totalPixels,
-          result.vegetationPixels,
-          result.vegetationCoverage.toFixed(2),
-          thresholdMethod,
-          thresholdMethod === 'otsu' ? 'auto' : threshold.toFixed(3),
-          // 植生部分の指数値
-          ...selectedKeys.map(key => result.indices.vegetation[key].toFixed(4)),
-          // 画像全体の指数値
-          ...selectedKeys.map(key => result.indices.whole[key].toFixed(4))
-        ]);
-      
-        // CSVコンテンツの作成
-        const csvContent = [
-          headers.join(','),
-          ...rows.map(row => row.join(','))
-        ].join('\n');
-      
-        // ファイルのダウンロード
-        const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-        const link = document.createElement('a');
-        const date = new Date().toISOString().slice(0, 10);
-        link.href = URL.createObjectURL(blob);
-        link.download = `vegetation_analysis_${date}.csv`;
-        link.click();
+  // 撮影日のある結果を時系列に使う（区画ごとの結果がある画像は区画ごと）
+  const timeSeriesEntries = batchResults.flatMap((result): TimeSeriesEntry[] => {
+    if (!result.date) return [];
+    return result.plots && result.plots.length > 0
+      ? result.plots.map(plot => ({ plotId: plot.plotId, date: result.date!, result: plot }))
+      : [{ plotId: result.plot ?? '', date: result.date, result }];
+  });
+
+    // 結果に使った設定（ハッシュが同じ設定は1つにまとめる）
+    const settingsRecords = (results: ExportResult[]): SettingsRecord[] => {
+        const records = new Map<string, SettingsRecord>();
+        results.forEach(result => {
+        const hash = result.settingsHash;
+        if (!hash || records.has(hash)) return;
+        const known = knownSettingsRef.current.get(hash) ?? storedResults.find(record => record.settingsHash === hash);
+        if (known) records.set(hash, { preset: known.preset, settingsHash: hash, settings: known.settings });
+        });
+        return Array.from(records.values());
       };
 
-    // 正規化関数
-    const normalizeRGB = (r: number, g: number, b: number): [number, number, number] => {
-    const total = r + g + b;
-    if (total === 0) return [0, 0, 0];
-    return [r / total, g / total, b / total];
-    };
+    const exportInput = (results: ExportResult[]): ExportInput => ({
+        results,
+        indexKeys: Object.entries(selectedIndices)
+          .filter(([key, isSelected]) => isSelected && algorithms[key])
+          .map(([key]) => key),
+        algorithms,
+        settings: settingsRecords(results),
+        options: exportOptions
+      });
 
-    // メインの画像処理関数
-    const processImage = async (img: HTMLImageElement, forBatch = false): Promise<AnalysisResult | null> => {
+    // 選択した形式で結果をダウンロード
+    const downloadResults = (results: ExportResult[]) => {
+        const { blob, filename } = exportFile(exportFormat, exportInput(results));
+        downloadBlob(blob, filename);
+      };
+
+    // 領域（株）ごとの CSV
+    const downloadObjects = (results: ExportResult[]) => {
+        const { blob, filename } = objectsFile(exportInput(results));
+        downloadBlob(blob, filename);
+      };
+
+    // メインの画像処理関数（ピクセル処理は Worker で実行）
+    // metadata は GSD の計算に使う（読み込み直後は state がまだ更新されていないため引数で渡す）
+    const processImage = async (img: HTMLImageElement, metadata = imageMetadata): Promise<AnalysisResult | null> => {
     const canvas = canvasRef.current;
-    const originalCanvas = originalCanvasRef.current;
-    if (!canvas || !originalCanvas) return null;
-    
+    if (!canvas) return null;
+
     const ctx = canvas.getContext('2d');
-    const originalCtx = originalCanvas.getContext('2d');
-    if (!ctx || !originalCtx) return null;
-    
-    canvas.width = img.width;
-    canvas.height = img.height;
-    originalCanvas.width = img.width;
-    originalCanvas.height = img.height;
-    
-    originalCtx.drawImage(img, 0, 0);
-    const imageData = originalCtx.getImageData(0, 0, canvas.width, canvas.height);
-    const data = imageData.data;
-    
-    let vegetationPixels = 0;
-    const totalPixels = canvas.width * canvas.height;
-    const vegetationMask: boolean[] = new Array(totalPixels).fill(false);
-    
-    const currentThreshold = thresholdMethod === 'otsu' 
-        ? calculateOtsuThreshold(data)
-        : threshold;
-    
-    const binaryImageData = ctx.createImageData(canvas.width, canvas.height);
-    const binaryData = binaryImageData.data;
-
-    const vegetationIndices: Record<string, number> = {};
-    const wholeIndices: Record<string, number> = {};
-    Object.keys(selectedIndices).forEach(key => {
-        if (selectedIndices[key]) {
-        vegetationIndices[key] = 0;
-        wholeIndices[key] = 0;
-        }
+    if (!ctx) return null;
+
+    if (pixelCacheRef.current?.image !== img) {
+        pixelCacheRef.current = { image: img, imageData: getImageData(img) };
+    }
+    const { imageData } = pixelCacheRef.current;
+    const { width, height } = imageData;
+    const seq = ++analysisSeqRef.current;
+    // Worker に渡した配列は使えなくなるため複製を渡す
+    const { result, mask, objectLabels, classLabels } = await getPool().analyze(imageData.data.slice(), width, height, {
+        segmentationIndex,
+        thresholdMethod,
+        threshold,
+        classifier: classifier ?? undefined,
+        sceneClasses: sceneClasses ?? undefined,
+        selectedIndices,
+        customIndices,
+        regions,
+        plots,
+        exclusions,
+        morphology,
+        objects: objectOptions ?? undefined,
+        gsd: resolveGsd(scaleSettings, imageData, metadata),
+        ...calibrationOptions(calibrationSettings)
     });
+    if (seq !== analysisSeqRef.current) return null;
 
-    // 各ピクセルの処理
-    for (let i = 0; i < data.length; i += 4) {
-        const [r, g, b] = [data[i], data[i + 1], data[i + 2]];
-        const pixelIndex = i / 4;
-        
-        const [normalizedR, normalizedG, normalizedB] = normalizeRGB(r, g, b);
-
-        const exg = 2 * normalizedG - normalizedR - normalizedB;
-        const isVegetation = exg >= currentThreshold;
-        vegetationMask[pixelIndex] = isVegetation;
-
-        if (isVegetation) {
-        vegetationPixels++;
-        binaryData[i] = 255;
-        binaryData[i + 1] = 255;
-        binaryData[i + 2] = 255;
-        }
-        binaryData[i + 3] = 255;
-
-        Object.entries(selectedIndices).forEach(([key, isSelected]) => {
-        if (isSelected) {
-            const value = ALGORITHMS[key].calculate(normalizedR, normalizedG, normalizedB);
-            wholeIndices[key] += value;
-            if (isVegetation) {
-            vegetationIndices[key] += value;
-            }
-        }
+    canvas.width = width;
+    canvas.height = height;
+    const binaryImageData = ctx.createImageData(width, height);
+    // 多クラス分類の場合はクラスの色で表示する
+    const binaryRGBA = classLabels && sceneClasses ? renderSceneClasses(mask, classLabels, sceneClasses) : maskToRGBA(mask);
+    binaryImageData.data.set(objectLabels
+      ? renderOutlineOverlay(binaryRGBA, labelOutline(objectLabels, width, height), OBJECT_OUTLINE_COLOR)
+      : binaryRGBA);
+    ctx.putImageData(binaryImageData, 0, 0);
+    // 領域の番号
+    if (result.objects) {
+      ctx.font = `bold ${Math.max(10, Math.round(Math.max(width, height) / 80))}px sans-serif`;
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      ctx.lineWidth = 3;
+      ctx.strokeStyle = 'black';
+      ctx.fillStyle = 'rgb(250, 204, 21)';
+      result.objects.forEach(object => {
+        ctx.strokeText(String(object.id), object.centroidX, object.centroidY);
+        ctx.fillText(String(object.id), object.centroidX, object.centroidY);
+      });
+    }
+    setProcessedImage(canvas.toDataURL());
+    setAnalysisResult(result);
+    setAnalysisTag(settingsTag);
+    setAnalysisSettings(projectSettings);
+    knownSettingsRef.current.set(currentHash, { ...settingsTag, settings: projectSettings });
+    setAnalysisMask(mask);
+    setAnalyzedPlots(plots);
+
+    return result;
+    };
+
+    // 解析結果を設定・サムネイル・2値化画像とともに IndexedDB に保存する（失敗しても解析は続ける）
+    const storeResult = async (entry: ExportResult, settings: ProjectSettings, usedPlots: Plot[], img: HTMLImageElement, mask: Blob) => {
+    const { filename, plot, date, metadata, preset, settingsHash: hash, ...result } = entry;
+    try {
+        const record = await saveResult({
+        savedAt: new Date().toISOString(),
+        filename,
+        result,
+        plot,
+        date,
+        metadata,
+        preset: preset ?? '',
+        settingsHash: hash ?? '',
+        settings,
+        plots: usedPlots,
+        thumbnail: await thumbnailBlob(img),
+        mask
         });
+        setStoredResults(prev => [...prev, record]);
+    } catch (error) {
+        console.error('Failed to store the result:', error);
     }
+    };
+
+    // 表示中の解析結果を保存（再解析した結果など）
+    const storeCurrentResult = async () => {
+    if (!analysisResult || !analysisSettings || !loadedImage || !canvasRef.current) return;
+    const entry = { filename: originalFileName, ...analysisResult, metadata: imageMetadata ?? undefined, ...analysisTag };
+    await storeResult(entry, analysisSettings, analyzedPlots, loadedImage, await canvasToBlob(canvasRef.current));
+    };
 
-    // 平均値の計算
-    Object.keys(wholeIndices).forEach(key => {
-        wholeIndices[key] /= totalPixels;
-        vegetationIndices[key] = vegetationPixels > 0 ? 
-        vegetationIndices[key] / vegetationPixels : 0;
+    const toExportResult = (record: StoredResult): ExportResult => ({
+    filename: record.filename,
+    ...record.result,
+    plot: record.plot,
+    date: record.date,
+    metadata: record.metadata,
+    preset: record.preset,
+    settingsHash: record.settingsHash
     });
 
-    const result: AnalysisResult = {
-        vegetationCoverage: (vegetationPixels / totalPixels) * 100,
-        vegetationPixels,
-        totalPixels,
-        indices: {
-        vegetation: vegetationIndices,
-        whole: wholeIndices
-        }
+    // 保存した結果を表示する（元画像はサムネイルで表示し、再解析はできない）
+    const openStoredResult = async (record: StoredResult) => {
+    try {
+        const [thumbnail, mask] = await Promise.all([blobToDataURL(record.thumbnail), blobToDataURL(record.mask)]);
+        setLoadedImage(null);
+        setAnalysisMask(null);
+        setOriginalImage(thumbnail);
+        setProcessedImage(mask);
+        setOriginalFileName(record.filename);
+        setImageMetadata(record.metadata ?? null);
+        setAnalysisResult(record.result);
+        setAnalysisTag({ preset: record.preset, settingsHash: record.settingsHash });
+        setAnalysisSettings(record.settings);
+        setAnalyzedPlots(record.plots);
+    } catch (error) {
+        console.error('Failed to open the stored result:', error);
+    }
     };
 
-    if (!forBatch) {
-        ctx.putImageData(binaryImageData, 0, 0);
-        setProcessedImage(canvas.toDataURL());
-        setAnalysisResult(result);
-    }
+    // GeoTIFF の解析結果を表示する（元画像は大きいため表示しない）
+    const handleGeoTiffResult = (filename: string, result: AnalysisResult) => {
+    setLoadedImage(null);
+    setAnalysisMask(null);
+    setOriginalImage(null);
+    setProcessedImage(null);
+    setOriginalFileName(filename);
+    setImageMetadata(null);
+    setAnalysisResult(result);
+    // 使わなかった設定を除いたものを記録する
+    const settings = tiledSettings(projectSettings);
+    const hash = settingsHash(settings);
+    const tag: SettingsTag = { preset: activePreset && activePreset.hash === hash ? activePreset.name : '', settingsHash: hash };
+    setAnalysisTag(tag);
+    setAnalysisSettings(settings);
+    knownSettingsRef.current.set(hash, { ...tag, settings });
+    setAnalyzedPlots(plots);
+    };
 
-    return result;
+    const handleDeleteStored = (ids: number[]) => {
+    deleteResults(ids)
+        .then(() => setStoredResults(prev => prev.filter(record => !ids.includes(record.id))))
+        .catch(error => console.error('Failed to delete stored results:', error));
     };
 
     // イベントハンドラー
+    // 設定変更による再解析（1つずつ、画像の読み込み中は保留する）
+    const [previewQueue] = useState(() => createPreviewQueue(() => reanalyzeRef.current(), PREVIEW_DELAY));
+
     const handleImageUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
 
+    // 読み込んだ画像の解析と保存が終わるまで再解析しない
+    await previewQueue.hold(async () => {
     try {
         setIsProcessing(true);
         const img = await loadImage(file);
+        setLoadedImage(img);
         setOriginalImage(img.src);
+        setOriginalFileName(file.name);
+        const metadata = await readImageExif(file).catch((): ExifData => ({}));
+        setImageMetadata(metadata);
+        if (classifierMissing) {
+        setProcessedImage(null);
+        setAnalysisResult(null);
+        setAnalysisMask(null);
+        }
+        const result = classifierMissing ? null : await processImage(img, metadata);
+        if (result && canvasRef.current) {
+        const entry = { filename: file.name, ...result, metadata, ...settingsTag };
+        await storeResult(entry, projectSettings, plots, img, await canvasToBlob(canvasRef.current));
+        }
+    } catch (error) {
+        console.error('Image processing error:', error);
+        alert(t.errors.processing);
+    } finally {
+        setIsProcessing(false);
+    }
+    });
+    };
+
+    const reanalyzeCurrentImage = async () => {
+    const img = loadedImage;
+    // バッチ処理中・分類器の学習前は再解析しない
+    if (!img || batchProgress || classifierMissing) return;
+
+    try {
+        setIsProcessing(true);
         await processImage(img);
     } catch (error) {
         console.error('Image processing error:', error);
@@ -561,34 +1416,207 @@ const VegetationAnalysis: React.FC = () => {
     }
     };
 
+    // 解析の設定を変更したら現在の画像を再解析する
+    // 解析中・画像の読み込み中に変更した場合は、終わってから最新の設定でもう一度だけ解析する
+    const reanalyzeRef = useRef(reanalyzeCurrentImage);
+    reanalyzeRef.current = reanalyzeCurrentImage;
+    useEffect(() => {
+    previewQueue.schedule();
+    return () => previewQueue.cancel();
+    }, [previewQueue, 
+    selectedIndices, customIndices, segmentationIndex, thresholdMethod, threshold, classifier, sceneClasses, regions, plotMode, gridSpec,
+    importedPlots, exclusions, morphology, objectOptions, scaleSettings, calibrationSettings
+    ]);
+
+    const handlePlotImport = async (file: File) => {
+    try {
+        const img = loadedImage;
+        const imported = parsePlotBoundaries(await file.text(), img?.width ?? 0, img?.height ?? 0);
+        setImportedPlots(imported);
+    } catch (error) {
+        console.error('Plot import error:', error);
+        alert(`${t.errors.plotImport}: ${error instanceof Error ? error.message : error}`);
+    }
+    };
+
+    // 指数を切り替えたら手動閾値をその指数の範囲に収める
+    const handleSegmentationIndexChange = (key: string) => {
+    const [min, max] = algorithms[key]?.range ?? [-1, 1];
+    setSegmentationIndex(key);
+    setThreshold(prev => Math.min(max, Math.max(min, prev)));
+    };
+
+    // ユーザー定義指数の変更を保存し、追加した指数は選択状態にする
+    const handleCustomIndicesChange = (next: CustomIndex[]) => {
+    const nextKeys = next.map(index => index.key);
+    const removed = customIndices.filter(index => !nextKeys.includes(index.key)).map(index => index.key);
+    const added = nextKeys.filter(key => !customIndices.some(index => index.key === key));
+    setCustomIndices(next);
+    saveJSON(STORAGE_KEYS.customIndices, next);
+    setSelectedIndices(prev => {
+        const selected = { ...prev };
+        removed.forEach(key => delete selected[key]);
+        added.forEach(key => { selected[key] = true; });
+        return selected;
+    });
+    if (removed.includes(segmentationIndex)) {
+        setSegmentationIndex('ExG');
+    }
+    };
+
+    // プリセット・プロジェクトファイルの設定を反映する
+    const handleProjectLoad = (name: string, settings: ProjectSettings) => {
+    setSelectedIndices(settings.selectedIndices);
+    setCustomIndices(settings.customIndices);
+    saveJSON(STORAGE_KEYS.customIndices, settings.customIndices);
+    setSegmentationIndex(settings.segmentationIndex);
+    setThresholdMethod(settings.thresholdMethod);
+    setThreshold(settings.threshold);
+    setClassifier(settings.classifier);
+    setSceneClasses(settings.sceneClasses);
+    setRegions(settings.regions);
+    setPlotMode(settings.plotMode);
+    setGridSpec(settings.gridSpec);
+    setImportedPlots(settings.importedPlots);
+    setExclusions(settings.exclusions);
+    setMorphology(settings.morphology);
+    setObjectOptions(settings.objects);
+    setScaleSettings(settings.scale);
+    setCalibrationSettings(settings.calibration);
+    setDateSource(settings.dateSource);
+    setFilenamePattern(settings.filenamePattern);
+    setActivePreset({ name, hash: settingsHash(settings) });
+    };
+
     const handleBatchUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const files = Array.from(event.target.files || []);
     setBatchFiles(files);
     };
 
     const processBatchImages = async () => {
+    const pool = getPool();
+    const files = batchFiles;
+    const assignments = batchAssignments;
+    const tag = settingsTag;
+    const settings = projectSettings;
+    knownSettingsRef.current.set(tag.settingsHash, { ...tag, settings });
+    const usedPlots = plots;
+    const zip = zipExport ? createZipBuilder() : null;
+    // ZIP の中の画像の名前（同じ名前の画像の出力が重ならないようにする）
+    const zipNames = uniqueBaseNames(files.map(file => file.name));
+    const indexMapKeys = zipIndexMaps ? Object.keys(algorithms).filter(key => selectedIndices[key]) : [];
+    const options = {
+        segmentationIndex,
+        thresholdMethod,
+        threshold,
+        classifier: classifier ?? undefined,
+        sceneClasses: sceneClasses ?? undefined,
+        selectedIndices,
+        customIndices,
+        regions,
+        plots,
+        exclusions,
+        morphology,
+        objects: objectOptions ?? undefined,
+        ...calibrationOptions(calibrationSettings)
+    };
+    const results: Array<ExportResult | undefined> = new Array(files.length);
+    const finished = () => results.filter((result): result is ExportResult => result !== undefined);
+    // 読み込めなかったファイル（飛ばして残りの処理を続ける）
+    const failed: string[] = [];
+    let nextIndex = 0;
+    let completed = 0;
+
+    cancelRequestedRef.current = false;
+    setPartialResults(null);
     setIsProcessing(true);
-    const results: Array<AnalysisResult & { filename: string }> = [];
+    setBatchProgress({ completed: 0, total: files.length, currentFile: '' });
 
-    try {
-        for (const file of batchFiles) {
-        const img = await loadImage(file);
-        const result = await processImage(img, true);
-        if (result) {
-            results.push({
-            filename: file.name,
-            ...result
+    // 各レーンが次のファイルを取り出して Worker に渡す
+    const runLane = async () => {
+        while (nextIndex < files.length && !cancelRequestedRef.current) {
+        const index = nextIndex++;
+        const file = files[index];
+        setBatchProgress(prev => prev && { ...prev, currentFile: file.name });
+        try {
+            const img = await loadImage(file);
+            if (cancelRequestedRef.current) break;
+            const metadata = await readImageExif(file).catch((): ExifData => ({}));
+            const imageData = getImageData(img);
+            const { width, height } = imageData;
+            // ZIP に画像を出力する場合は Worker に複製を渡す（渡した配列は使えなくなるため）
+            const { result, mask, objectLabels, classLabels } = await pool.analyze(zip ? imageData.data.slice() : imageData.data, width, height, {
+                ...options,
+                gsd: resolveGsd(scaleSettings, imageData, metadata)
             });
+            const { plotId, date } = assignments[index] ?? { plotId: '', date: '' };
+            const entry = { filename: file.name, ...result, plot: plotId || undefined, date: date || undefined, metadata, ...tag };
+            const maskRGBA = classLabels && options.sceneClasses ? renderSceneClasses(mask, classLabels, options.sceneClasses) : maskToRGBA(mask);
+            const maskBlob = await rgbaToBlob(objectLabels
+                ? renderOutlineOverlay(maskRGBA, labelOutline(objectLabels, width, height), OBJECT_OUTLINE_COLOR)
+                : maskRGBA, width, height);
+            await storeResult(entry, settings, usedPlots, img, maskBlob);
+            if (zip) {
+                const base = zipNames[index];
+                const pixels = analyzedPixels(imageData, result.calibration);
+                await zip.add(`masks/${base}.png`, maskBlob);
+                await zip.add(`overlays/${base}.png`, await overlayBlob(pixels, mask, width, height));
+                for (const key of indexMapKeys) {
+                await zip.add(`index_maps/${key}/${base}.png`, await indexMapBlob(pixels, width, height, key, customIndices));
+                }
+            }
+            results[index] = entry;
+        } catch (error) {
+            if (error instanceof AnalysisCancelledError || cancelRequestedRef.current) throw error;
+            console.error(`Batch processing error (${file.name}):`, error);
+            failed.push(file.name);
         }
+        const done = ++completed;
+        setBatchProgress(prev => prev && { ...prev, completed: done });
         }
-        downloadCSV(results);
+    };
+
+    try {
+        await Promise.all(Array.from({ length: Math.min(pool.size, files.length) }, runLane));
+        if (cancelRequestedRef.current) throw new AnalysisCancelledError();
+        setExportResults(finished());
+        if (zip) {
+        // 結果の表と解析に使った設定も同じ ZIP に入れる
+        const results = exportFile(exportFormat, exportInput(finished()));
+        await zip.add(results.filename, results.blob);
+        if (finished().some(result => result.objects)) {
+            const objects = objectsFile(exportInput(finished()));
+            await zip.add(objects.filename, objects.blob);
+        }
+        await zip.add('settings.json', JSON.stringify(createProjectFile(tag.preset, settings, tag.settingsHash), null, 2));
+        downloadBlob(zip.toBlob(), `vegetation_batch_${new Date().toISOString().slice(0, 10)}.zip`);
+        } else {
+        downloadResults(finished());
+        }
+        if (failed.length > 0) alert(`${t.errors.batchSkipped}\n${failed.join('\n')}`);
     } catch (error) {
+        if (error instanceof AnalysisCancelledError) {
+        setPartialResults(finished());
+        setExportResults(finished());
+        } else {
+        cancelRequestedRef.current = true;
+        pool.cancel();
+        setPartialResults(finished());
+        setExportResults(finished());
         console.error('Batch processing error:', error);
         alert(t.errors.batch);
+        }
     } finally {
         setIsProcessing(false);
+        setBatchProgress(null);
     }
     };
+
+    const cancelBatch = () => {
+    cancelRequestedRef.current = true;
+    poolRef.current?.cancel();
+    };
+
     return (
         <div className="w-full max-w-6xl mx-auto p-4 space-y-6 bg-white rounded-lg shadow">
           <div className="flex justify-between items-center">
@@ -620,19 +1648,108 @@ const VegetationAnalysis: React.FC = () => {
               </div>
             </div>
     
+            <ProjectPanel
+              settings={projectSettings}
+              settingsHash={currentHash}
+              activePreset={presetName}
+              onLoad={handleProjectLoad}
+              onSave={(name) => setActivePreset({ name, hash: currentHash })}
+              t={t}
+            />
+
+            <ExportControls
+              format={exportFormat}
+              options={exportOptions}
+              onChange={(format, options) => {
+                setExportSettings({ format, options });
+                saveJSON(STORAGE_KEYS.exportSettings, { format, options });
+              }}
+              t={t}
+            />
+
             <IndicesSelector
+              algorithms={algorithms}
               selectedIndices={selectedIndices}
               onSelect={setSelectedIndices}
               t={t}
             />
+
+            <CustomIndexEditor
+              customIndices={customIndices}
+              onChange={handleCustomIndicesChange}
+              t={t}
+            />
     
             <ThresholdControls
+              algorithms={algorithms}
+              segmentationIndex={segmentationIndex}
               method={thresholdMethod}
               threshold={threshold}
+              onSegmentationIndexChange={handleSegmentationIndexChange}
               onMethodChange={setThresholdMethod}
               onThresholdChange={setThreshold}
               t={t}
             />
+
+            {thresholdMethod === 'classifier' && (
+              <ClassifierPanel
+                image={loadedImage}
+                calibration={calibrationOptions(calibrationSettings)}
+                classifier={classifier}
+                onChange={setClassifier}
+                t={t}
+              />
+            )}
+
+            <PlotControls
+              mode={plotMode}
+              gridSpec={gridSpec}
+              importedCount={importedPlots.length}
+              onModeChange={setPlotMode}
+              onGridSpecChange={setGridSpec}
+              onImport={handlePlotImport}
+              t={t}
+            />
+
+            <MorphologyControls
+              steps={morphology}
+              onChange={setMorphology}
+              t={t}
+            />
+
+            <ObjectControls
+              options={objectOptions}
+              onChange={setObjectOptions}
+              t={t}
+            />
+
+            <SceneClassControls
+              classes={sceneClasses}
+              indexKeys={Object.keys(algorithms)}
+              onChange={setSceneClasses}
+              t={t}
+            />
+
+            <ScalePanel
+              image={loadedImage}
+              metadata={imageMetadata}
+              settings={scaleSettings}
+              onChange={setScaleSettings}
+              t={t}
+            />
+
+            <ExclusionControls
+              exclusions={exclusions}
+              onChange={setExclusions}
+              t={t}
+            />
+
+            <CalibrationPanel
+              image={loadedImage}
+              settings={calibrationSettings}
+              onChange={setCalibrationSettings}
+              t={t}
+            />
     
             <div className="space-y-4">
               <div>
@@ -664,27 +1781,134 @@ const VegetationAnalysis: React.FC = () => {
                     file:bg-blue-50 file:text-blue-700
                     hover:file:bg-blue-100"
                 />
-                <button
-                  onClick={processBatchImages}
-                  disabled={isProcessing || batchFiles.length === 0}
-                  className="w-full py-2 px-4 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:bg-gray-300"
-                >
-                  {isProcessing ? t.batchProcessing.processing : t.batchProcessing.start}
-                </button>
+                <div className="mb-2 flex flex-wrap items-center gap-4 text-sm">
+                  <label className="flex items-center">
+                    <input
+                      type="checkbox"
+                      checked={zipExport}
+                      onChange={(e) => setZipExport(e.target.checked)}
+                      className="mr-2"
+                    />
+                    {t.batchProcessing.zip}
+                  </label>
+                  {zipExport && (
+                    <label className="flex items-center">
+                      <input
+                        type="checkbox"
+                        checked={zipIndexMaps}
+                        onChange={(e) => setZipIndexMaps(e.target.checked)}
+                        className="mr-2"
+                      />
+                      {t.batchProcessing.zipIndexMaps}
+                    </label>
+                  )}
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    onClick={processBatchImages}
+                    disabled={isProcessing || batchFiles.length === 0 || classifierMissing}
+                    className="flex-1 py-2 px-4 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:bg-gray-300"
+                  >
+                    {isProcessing ? t.batchProcessing.processing : t.batchProcessing.start}
+                  </button>
+                  {batchProgress && (
+                    <button
+                      onClick={cancelBatch}
+                      className="py-2 px-4 bg-gray-100 rounded hover:bg-gray-200"
+                    >
+                      {t.batchProcessing.cancel}
+                    </button>
+                  )}
+                </div>
+                {batchProgress && (
+                  <div className="mt-2 space-y-1">
+                    <div className="w-full h-2 bg-gray-200 rounded">
+                      <div
+                        className="h-2 bg-blue-500 rounded"
+                        style={{ width: `${batchProgress.total > 0 ? (batchProgress.completed / batchProgress.total) * 100 : 0}%` }}
+                      />
+                    </div>
+                    <p className="text-sm text-gray-600">
+                      {batchProgress.completed} / {batchProgress.total}
+                      {batchProgress.currentFile && ` — ${batchProgress.currentFile}`}
+                    </p>
+                  </div>
+                )}
+                {partialResults && (
+                  <div className="mt-2 flex items-center justify-between text-sm">
+                    <span>{t.batchProcessing.cancelled} ({partialResults.length} / {batchFiles.length})</span>
+                    <button
+                      onClick={() => downloadResults(partialResults)}
+                      disabled={partialResults.length === 0}
+                      className="py-1 px-3 bg-blue-50 text-blue-700 rounded hover:bg-blue-100 disabled:text-gray-400"
+                    >
+                      {t.batchProcessing.downloadPartial}
+                    </button>
+                  </div>
+                )}
+                {!batchProgress && batchResults.some(result => result.objects) && (
+                  <button
+                    onClick={() => downloadObjects(batchResults)}
+                    className="mt-2 py-1 px-3 text-sm bg-blue-50 text-blue-700 rounded hover:bg-blue-100"
+                  >
+                    {t.objects.downloadBatchCSV}
+                  </button>
+                )}
+                <div className="mt-4">
+                  <BatchAssignments
+                    files={batchFiles}
+                    assignments={batchAssignments}
+                    dateSource={dateSource}
+                    filenamePattern={filenamePattern}
+                    onDateSourceChange={setDateSource}
+                    onFilenamePatternChange={setFilenamePattern}
+                    onChange={setBatchAssignments}
+                    t={t}
+                  />
+                </div>
               </div>
+
+              <GeoTiffPanel
+                options={{
+                  segmentationIndex,
+                  thresholdMethod,
+                  threshold,
+                  classifier: classifier ?? undefined,
+                  sceneClasses: sceneClasses ?? undefined,
+                  selectedIndices,
+                  customIndices,
+                  regions,
+                  plots,
+                  exclusions,
+                  morphology,
+                  objects: objectOptions ?? undefined,
+                  ...calibrationOptions(calibrationSettings)
+                }}
+                manualGsd={scaleSettings.mode === 'gsd' && scaleSettings.gsd > 0 ? scaleSettings.gsd : undefined}
+                indexKeys={Object.keys(algorithms).filter(key => selectedIndices[key])}
+                algorithms={algorithms}
+                disabled={isProcessing || classifierMissing}
+                onResult={handleGeoTiffResult}
+                t={t}
+              />
             </div>
     
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              {originalImage && (
-                <div>
-                  <h3 className="text-lg font-medium mb-2">{t.images.original}</h3>
-                  <img
-                    src={originalImage}
-                    alt="Original"
-                    className="w-full h-auto rounded shadow-md"
-                  />
-                </div>
-              )}
+              <div>
+                <h3 className="text-lg font-medium mb-2">{originalImage ? t.images.original : t.roi.title}</h3>
+                <RoiEditor
+                  image={originalImage}
+                  regions={regions}
+                  plots={plots}
+                  onChange={setRegions}
+                  t={t}
+                />
+                {originalImage && imageMetadata && (
+                  <div className="mt-2">
+                    <MetadataPanel metadata={imageMetadata} t={t} />
+                  </div>
+                )}
+              </div>
               {processedImage && (
                 <div>
                   <h3 className="text-lg font-medium mb-2">{t.images.processed}</h3>
@@ -697,6 +1921,18 @@ const VegetationAnalysis: React.FC = () => {
               )}
             </div>
     
+            {loadedImage && analysisResult && (
+              <IndexMapViewer
+                image={loadedImage}
+                mask={analysisMask}
+                indexKeys={Object.keys(algorithms).filter(key => selectedIndices[key])}
+                customIndices={customIndices}
+                calibration={analysisResult.calibration}
+                fileName={originalFileName}
+                t={t}
+              />
+            )}
+
             {analysisResult && (
               <div className="p-4 bg-gray-50 rounded">
                 <h3 className="text-lg font-medium mb-2">{t.results.title}</h3>
@@ -704,7 +1940,33 @@ const VegetationAnalysis: React.FC = () => {
                   <div>
                     <p>{t.results.coverage}: {analysisResult.vegetationCoverage.toFixed(2)}%</p>
                     <p>{t.results.vegetationPixels}: {analysisResult.vegetationPixels.toLocaleString()}</p>
+                    {analysisResult.gsd !== undefined && analysisResult.vegetationArea !== undefined && (
+                      <p>
+                        {t.results.vegetationArea}: {formatArea(analysisResult.vegetationArea)}
+                        {' '}(GSD {analysisResult.gsd.toFixed(4)} cm/px)
+                      </p>
+                    )}
+                    {analysisResult.plantCount !== undefined && (
+                      <p>{t.results.plantCount}: {analysisResult.plantCount.toLocaleString()}</p>
+                    )}
+                    {analysisResult.beforeCleaning && (
+                      <p>
+                        {t.results.beforeCleaning}: {analysisResult.beforeCleaning.vegetationCoverage.toFixed(2)}%
+                        {' '}({analysisResult.beforeCleaning.vegetationPixels.toLocaleString()})
+                      </p>
+                    )}
                     <p>{t.results.totalPixels}: {analysisResult.totalPixels.toLocaleString()}</p>
+                    {analysisResult.exclusions && (
+                      <>
+                        <p>
+                          {t.results.excludedPixels}: {analysisResult.excludedPixels.toLocaleString()}
+                          {' '}({EXCLUSION_REASONS.map(reason => `${t.exclusion[`${reason}Pixels`]} ${analysisResult.exclusions![reason].toLocaleString()}`).join(', ')})
+                        </p>
+                        <p>{t.results.validPixels}: {analysisResult.validPixels.toLocaleString()}</p>
+                      </>
+                    )}
+                    <p>{t.results.method}: {t.thresholdMethod[analysisResult.thresholdMethod]}</p>
+                    <p>{t.results.threshold}: {analysisResult.segmentationIndex} {algorithms[analysisResult.segmentationIndex]?.vegetationLow ? '<' : THRESHOLD_METHODS[analysisResult.thresholdMethod].fixed?.strict ? '>' : '≥'} {analysisResult.threshold.toFixed(4)}</p>
                   </div>
     
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -714,7 +1976,7 @@ const VegetationAnalysis: React.FC = () => {
                         .filter(([key]) => selectedIndices[key])
                         .map(([key, value]) => (
                           <p key={key} className="text-sm">
-                            {ALGORITHMS[key].name}: {value.toFixed(4)}
+                            {algorithms[key]?.name ?? key}: {value.toFixed(4)}
                           </p>
                         ))}
                     </div>
@@ -725,18 +1987,186 @@ const VegetationAnalysis: React.FC = () => {
                         .filter(([key]) => selectedIndices[key])
                         .map(([key, value]) => (
                           <p key={key} className="text-sm">
-                            {ALGORITHMS[key].name}: {value.toFixed(4)}
+                            {algorithms[key]?.name ?? key}: {value.toFixed(4)}
                           </p>
                         ))}
                     </div>
                   </div>
+
+                  {Object.entries(analysisResult.skippedPixels).some(([key, count]) => selectedIndices[key] && count > 0) && (
+                    <div>
+                      <h4 className="font-medium mb-2">{t.results.skippedPixels}</h4>
+                      {Object.entries(analysisResult.skippedPixels)
+                        .filter(([key, count]) => selectedIndices[key] && count > 0)
+                        .map(([key, count]) => (
+                          <p key={key} className="text-sm">
+                            {algorithms[key]?.name ?? key}: {count.toLocaleString()}
+                          </p>
+                        ))}
+                    </div>
+                  )}
+
+                  {analysisResult.calibration && (
+                    <div>
+                      <h4 className="font-medium mb-2">{t.calibration.title}</h4>
+                      <p className="text-sm">
+                        {t.calibration.modes[analysisResult.calibration.method]} (RMSE {analysisResult.calibration.rmse.toFixed(2)})
+                      </p>
+                      <p className="text-sm font-mono">
+                        [{[0, 1, 2].map(row => analysisResult.calibration!.matrix.slice(row * 3, row * 3 + 3).map(value => value.toFixed(4)).join(' ')).join('; ')}]
+                      </p>
+                    </div>
+                  )}
+
+                  {analysisResult.objects && analysisResult.objects.length > 0 && (
+                    <div>
+                      <h4 className="font-medium mb-2">{t.objects.title}</h4>
+                      <div className="max-h-48 overflow-y-auto border rounded">
+                        <table className="w-full text-sm">
+                          <thead className="bg-gray-100 sticky top-0">
+                            <tr className="text-left">
+                              <th className="p-1">#</th>
+                              <th className="p-1">{t.objects.area}</th>
+                              {analysisResult.gsd !== undefined && <th className="p-1">{t.objects.physicalArea}</th>}
+                              <th className="p-1">{t.objects.perimeter}</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {analysisResult.objects.map(object => (
+                              <tr key={object.id} className="border-t">
+                                <td className="p-1">{object.id}</td>
+                                <td className="p-1">{object.area.toLocaleString()}</td>
+                                {analysisResult.gsd !== undefined && <td className="p-1">{object.physicalArea?.toFixed(2)}</td>}
+                                <td className="p-1">{object.perimeter.toLocaleString()}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    </div>
+                  )}
+
+                  {analysisResult.sceneClasses && (
+                    <div>
+                      <h4 className="font-medium mb-2">{t.scene.title}</h4>
+                      <div className="overflow-x-auto border rounded">
+                        <table className="w-full text-sm">
+                          <thead className="bg-gray-100">
+                            <tr className="text-left">
+                              <th className="p-1"></th>
+                              <th className="p-1">{t.scene.pixels}</th>
+                              <th className="p-1">{t.scene.percentage}</th>
+                              {analysisResult.gsd !== undefined && <th className="p-1">{t.scene.area}</th>}
+                              {Object.keys(algorithms).filter(key => selectedIndices[key]).map(key => (
+                                <th key={key} className="p-1">{key}</th>
+                              ))}
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {analysisResult.sceneClasses.map((item, k) => (
+                              <tr key={k} className="border-t">
+                                <td className="p-1">
+                                  {analysisSettings?.sceneClasses?.[k] && (
+                                    <span
+                                      className="inline-block w-3 h-3 mr-1 rounded align-middle"
+                                      style={{ backgroundColor: toCssColor(analysisSettings.sceneClasses[k].color) }}
+                                    />
+                                  )}
+                                  {item.name}
+                                </td>
+                                <td className="p-1">{item.pixels.toLocaleString()}</td>
+                                <td className="p-1">{item.percentage.toFixed(2)}%</td>
+                                {analysisResult.gsd !== undefined && <td className="p-1">{item.area !== undefined && formatArea(item.area)}</td>}
+                                {Object.keys(algorithms).filter(key => selectedIndices[key]).map(key => (
+                                  <td key={key} className="p-1">{item.indices[key]?.toFixed(4)}</td>
+                                ))}
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                      {analysisResult.unclassifiedPixels !== undefined && analysisResult.unclassifiedPixels > 0 && (
+                        <p className="text-sm text-gray-600">{t.scene.unclassified}: {analysisResult.unclassifiedPixels.toLocaleString()}</p>
+                      )}
+                    </div>
+                  )}
+
+                  {analysisResult.statistics && (
+                    <StatisticsPanel
+                      statistics={Object.fromEntries(
+                        Object.entries(analysisResult.statistics).filter(([key]) => selectedIndices[key])
+                      )}
+                      algorithms={algorithms}
+                      t={t}
+                    />
+                  )}
+
+                  {analysisResult.plots && processedImage && (
+                    <PlotHeatmap
+                      image={processedImage}
+                      plots={analyzedPlots}
+                      results={analysisResult.plots}
+                      t={t}
+                    />
+                  )}
+
+                  <button
+                    onClick={() => downloadResults([{ filename: originalFileName, ...analysisResult, metadata: imageMetadata ?? undefined, ...analysisTag }])}
+                    className="py-1 px-3 text-sm bg-blue-50 text-blue-700 rounded hover:bg-blue-100"
+                  >
+                    {t.results.downloadCSV}
+                  </button>
+                  {analysisResult.objects && (
+                    <button
+                      onClick={() => downloadObjects([{ filename: originalFileName, ...analysisResult, ...analysisTag }])}
+                      className="ml-2 py-1 px-3 text-sm bg-blue-50 text-blue-700 rounded hover:bg-blue-100"
+                    >
+                      {t.objects.downloadCSV}
+                    </button>
+                  )}
+                  {loadedImage && (
+                    <button
+                      onClick={storeCurrentResult}
+                      disabled={isProcessing}
+                      className="ml-2 py-1 px-3 text-sm bg-blue-50 text-blue-700 rounded hover:bg-blue-100 disabled:text-gray-400"
+                    >
+                      {t.history.store}
+                    </button>
+                  )}
                 </div>
               </div>
             )}
+
+            {storedResults.length > 0 && (
+              <ResultsTable
+                records={storedResults}
+                algorithms={algorithms}
+                onOpen={openStoredResult}
+                onLoadSettings={(record) => {
+                  try {
+                    handleProjectLoad(record.preset, restoreSettings(record.settings));
+                  } catch (error) {
+                    console.error('Stored settings load error:', error);
+                    alert(`${t.project.settingsError}: ${error instanceof Error ? error.message : error}`);
+                  }
+                }}
+                onDelete={handleDeleteStored}
+                onExport={(records) => downloadResults(records.map(toExportResult))}
+                t={t}
+              />
+            )}
+
+            {timeSeriesEntries.length > 0 && (
+              <TimeSeriesPanel
+                entries={timeSeriesEntries}
+                indexKeys={Object.keys(algorithms).filter(key => selectedIndices[key])}
+                algorithms={algorithms}
+                t={t}
+              />
+            )}
           </div>
     
           <canvas ref={canvasRef} style={{ display: 'none' }} />
-          <canvas ref={originalCanvasRef} style={{ display: 'none' }} />
         </div>
       );
     };
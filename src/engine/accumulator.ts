@@ -0,0 +1,83 @@
+import { AnalysisResult } from './types';
+
+// 画素ごとの指数値の合計（平均値の計算用）。値が定義されない画素は指数ごとに件数から除く
+export interface Accumulator {
+  totalPixels: number;
+  excludedPixels: number;
+  vegetationPixels: number;
+  vegetation: Float64Array;
+  whole: Float64Array;
+  vegetationCounts: Float64Array;
+  wholeCounts: Float64Array;
+}
+
+export type AccumulatedResult = Pick<AnalysisResult, 'vegetationCoverage' | 'vegetationPixels' | 'totalPixels' | 'excludedPixels' | 'validPixels' | 'indices' | 'skippedPixels'>;
+
+export const createAccumulator = (keyCount: number): Accumulator => ({
+  totalPixels: 0,
+  excludedPixels: 0,
+  vegetationPixels: 0,
+  vegetation: new Float64Array(keyCount),
+  whole: new Float64Array(keyCount),
+  vegetationCounts: new Float64Array(keyCount),
+  wholeCounts: new Float64Array(keyCount)
+});
+
+// values は keys と同じ順序の指数値
+export const addPixel = (acc: Accumulator, values: ArrayLike<number>, isVegetation: boolean): void => {
+  acc.totalPixels++;
+  if (isVegetation) acc.vegetationPixels++;
+  for (let k = 0; k < values.length; k++) {
+    const value = values[k];
+    if (!Number.isFinite(value)) continue;
+    acc.whole[k] += value;
+    acc.wholeCounts[k]++;
+    if (isVegetation) {
+      acc.vegetation[k] += value;
+      acc.vegetationCounts[k]++;
+    }
+  }
+};
+
+// 除外した画素（総数にだけ数える）
+export const addExcludedPixel = (acc: Accumulator): void => {
+  acc.totalPixels++;
+  acc.excludedPixels++;
+};
+
+// source（タイルなど一部の画素の集計）を target に加える
+export const mergeAccumulator = (target: Accumulator, source: Accumulator): void => {
+  target.totalPixels += source.totalPixels;
+  target.excludedPixels += source.excludedPixels;
+  target.vegetationPixels += source.vegetationPixels;
+  for (let k = 0; k < target.whole.length; k++) {
+    target.vegetation[k] += source.vegetation[k];
+    target.whole[k] += source.whole[k];
+    target.vegetationCounts[k] += source.vegetationCounts[k];
+    target.wholeCounts[k] += source.wholeCounts[k];
+  }
+};
+
+// 平均値の計算
+export const finalizeAccumulator = (acc: Accumulator, keys: string[]): AccumulatedResult => {
+  const { totalPixels, excludedPixels, vegetationPixels } = acc;
+  const validPixels = totalPixels - excludedPixels;
+  const vegetation: Record<string, number> = {};
+  const whole: Record<string, number> = {};
+  const skippedPixels: Record<string, number> = {};
+  keys.forEach((key, k) => {
+    whole[key] = acc.wholeCounts[k] > 0 ? acc.whole[k] / acc.wholeCounts[k] : 0;
+    vegetation[key] = acc.vegetationCounts[k] > 0 ? acc.vegetation[k] / acc.vegetationCounts[k] : 0;
+    skippedPixels[key] = validPixels - acc.wholeCounts[k];
+  });
+
+  return {
+    vegetationCoverage: validPixels > 0 ? (vegetationPixels / validPixels) * 100 : 0,
+    vegetationPixels,
+    totalPixels,
+    excludedPixels,
+    validPixels,
+    indices: { vegetation, whole },
+    skippedPixels
+  };
+};
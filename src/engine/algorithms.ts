@@ -0,0 +1,146 @@
+import { Algorithm, InputSpace } from './types';
+
+// 植生指数の計算アルゴリズム
+// 入力空間は文献の定義に合わせる（分母が 0 の画素は NaN/±∞ を返し、undefinedPixels に従って扱う）
+export const ALGORITHMS: Record<string, Algorithm> = {
+  INT: {
+    name: "Intensity",
+    input: 'scaled',
+    range: [0, 1],
+    calculate: (r: number, g: number, b: number) => (r + g + b) / 3
+  },
+  NRI: {
+    name: "Normalized Red Index",
+    input: 'scaled',
+    range: [0, 1],
+    vegetationLow: true,
+    calculate: (r: number, g: number, b: number) => r / (r + g + b)
+  },
+  NGI: {
+    name: "Normalized Green Index",
+    input: 'scaled',
+    range: [0, 1],
+    calculate: (r: number, g: number, b: number) => g / (r + g + b)
+  },
+  NBI: {
+    name: "Normalized Blue Index",
+    input: 'scaled',
+    range: [0, 1],
+    vegetationLow: true,
+    calculate: (r: number, g: number, b: number) => b / (r + g + b)
+  },
+  RGRI: {
+    name: "Red Green Ratio Index",
+    input: 'scaled',
+    range: [0, 3],
+    undefinedPixels: 'clamp',
+    vegetationLow: true,
+    calculate: (r: number, g: number, b: number) => r / g
+  },
+  ExR: {
+    name: "Excess Red Index",
+    input: 'chromatic',
+    range: [-1, 1.4],
+    vegetationLow: true,
+    calculate: (r: number, g: number, b: number) => 1.4 * r - g
+  },
+  ExG: {
+    name: "Excess Green Index",
+    input: 'chromatic',
+    range: [-1, 2],
+    calculate: (r: number, g: number, b: number) => 2 * g - r - b
+  },
+  ExB: {
+    name: "Excess Blue Index",
+    input: 'chromatic',
+    range: [-1, 1.4],
+    vegetationLow: true,
+    calculate: (r: number, g: number, b: number) => 1.4 * b - g
+  },
+  ExGR: {
+    name: "Excess Green minus Red Index",
+    input: 'chromatic',
+    range: [-2.4, 3],
+    calculate: (r: number, g: number, b: number) => (2 * g - r - b) - (1.4 * r - g)
+  },
+  GRVI: {
+    name: "Green Red Vegetation Index",
+    input: 'scaled',
+    calculate: (r: number, g: number, b: number) => (g - r) / (g + r)
+  },
+  VARI: {
+    name: "Visible Atmospherically Resistant Index",
+    input: 'scaled',
+    calculate: (r: number, g: number, b: number) => (g - r) / (g + r - b)
+  },
+  GLI: {
+    name: "Green Leaf Index",
+    input: 'scaled',
+    calculate: (r: number, g: number, b: number) => (2 * g - r - b) / (2 * g + r + b)
+  },
+  GLA: {
+    name: "Green Leaf Algorithm",
+    input: 'scaled',
+    calculate: (r: number, g: number, b: number) => (2 * g - r - b) / (2 * g + r + b)
+  },
+  MGRVI: {
+    name: "Modified Green Red Vegetation Index",
+    input: 'scaled',
+    calculate: (r: number, g: number, b: number) => {
+      const g2 = g * g;
+      const r2 = r * r;
+      return (g2 - r2) / (g2 + r2);
+    }
+  },
+  RGBVI: {
+    name: "Red Green Blue Vegetation Index",
+    input: 'scaled',
+    calculate: (r: number, g: number, b: number) => {
+      const g2 = g * g;
+      const rb = r * b;
+      return (g2 - rb) / (g2 + rb);
+    }
+  },
+  VEG: {
+    name: "Vegetativen",
+    input: 'scaled',
+    range: [0, 5],
+    undefinedPixels: 'clamp',
+    calculate: (r: number, g: number, b: number) => {
+      const a = 0.667;
+      return g / (Math.pow(r, a) * Math.pow(b, (1 - a)));
+    }
+  }
+};
+
+// 正規化関数（色度座標）。黒画素の色度は定義されないため NaN を返す
+export const normalizeRGB = (r: number, g: number, b: number): [number, number, number] => {
+  const total = r + g + b;
+  if (total === 0) return [NaN, NaN, NaN];
+  return [r / total, g / total, b / total];
+};
+
+// 画素値（0〜255）を指数の入力空間に変換
+export const toInputSpace = (input: InputSpace, r: number, g: number, b: number): [number, number, number] => {
+  switch (input) {
+    case 'raw':
+      return [r, g, b];
+    case 'scaled':
+      return [r / 255, g / 255, b / 255];
+    default:
+      return normalizeRGB(r, g, b);
+  }
+};
+
+// 指数値に未定義画素の扱いを適用する（戻り値が有限でなければ集計から除外する）
+export const settleValue = (algorithm: Algorithm, value: number): number => {
+  if (algorithm.undefinedPixels !== 'clamp' || Number.isFinite(value) || Number.isNaN(value)) return value;
+  const [min, max] = algorithm.range ?? [-1, 1];
+  return value > 0 ? max : min;
+};
+
+// 画素値から指数値を計算する
+export const evaluateAlgorithm = (algorithm: Algorithm, r: number, g: number, b: number): number => {
+  const [x, y, z] = toInputSpace(algorithm.input ?? 'chromatic', r, g, b);
+  return settleValue(algorithm, algorithm.calculate(x, y, z));
+};
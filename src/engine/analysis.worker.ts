@@ -0,0 +1,23 @@
+import { analyzePixels } from './analyze';
+import { WorkerRequest, WorkerResponse } from './workerPool';
+
+// 解析用Web Worker
+// eslint-disable-next-line no-restricted-globals
+const ctx = self as unknown as Worker;
+
+ctx.onmessage = (event: MessageEvent<WorkerRequest>) => {
+  const { id, buffer, width, height, options } = event.data;
+  try {
+    const { result, mask, objectLabels, classLabels } = analyzePixels(new Uint8ClampedArray(buffer), width, height, options);
+    const response: WorkerResponse = { id, result, mask, objectLabels, classLabels };
+    const transfer = [mask.buffer];
+    if (objectLabels) transfer.push(objectLabels.buffer);
+    if (classLabels) transfer.push(classLabels.buffer);
+    ctx.postMessage(response, transfer);
+  } catch (error) {
+    const response: WorkerResponse = { id, error: error instanceof Error ? error.message : String(error) };
+    ctx.postMessage(response);
+  }
+};
+
+export {};
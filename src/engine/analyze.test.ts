@@ -0,0 +1,139 @@
+import { ALGORITHMS, analyzePixels, maskToRGBA } from '.';
+
+const pixels = (...rgb: Array<[number, number, number]>): Uint8ClampedArray => {
+  const data = new Uint8ClampedArray(rgb.length * 4);
+  rgb.forEach(([r, g, b], p) => data.set([r, g, b, 255], p * 4));
+  return data;
+};
+
+describe('analyzePixels', () => {
+  const data = pixels([40, 160, 40], [30, 120, 20], [150, 120, 90], [200, 180, 160]);
+
+  test('classifies pixels with a manual ExG threshold', () => {
+    const { result, mask } = analyzePixels(data, 2, 2, {
+      segmentationIndex: 'ExG',
+      thresholdMethod: 'manual',
+      threshold: 0.2,
+      selectedIndices: { ExG: true, NGI: false }
+    });
+
+    expect(Array.from(mask)).toEqual([1, 1, 0, 0]);
+    expect(result.vegetationPixels).toBe(2);
+    expect(result.totalPixels).toBe(4);
+    expect(result.vegetationCoverage).toBe(50);
+    expect(Object.keys(result.indices.whole)).toEqual(['ExG']);
+    expect(result.threshold).toBe(0.2);
+  });
+
+  test('computes the Otsu threshold on the scale of the segmentation index', () => {
+    const { result, mask } = analyzePixels(data, 2, 2, {
+      segmentationIndex: 'ExG',
+      thresholdMethod: 'otsu',
+      threshold: 0,
+      selectedIndices: {}
+    });
+
+    // 土壌の最大ExG（≈0）と植生の最小ExG（≈0.53）の間に入る
+    expect(Array.from(mask)).toEqual([1, 1, 0, 0]);
+    expect(result.threshold).toBeGreaterThan(0);
+    expect(result.threshold).toBeLessThan(0.5);
+  });
+
+  test('treats low values as vegetation for indices like ExR', () => {
+    const { mask } = analyzePixels(data, 2, 2, {
+      segmentationIndex: 'ExR',
+      thresholdMethod: 'otsu',
+      threshold: 0,
+      selectedIndices: {}
+    });
+
+    expect(Array.from(mask)).toEqual([1, 1, 0, 0]);
+  });
+
+  test('averages indices over vegetation and the whole image', () => {
+    const { result } = analyzePixels(data, 2, 2, {
+      segmentationIndex: 'ExG',
+      thresholdMethod: 'manual',
+      threshold: 0.2,
+      selectedIndices: { ExG: true }
+    });
+    const exg = (r: number, g: number, b: number) => {
+      const total = r + g + b;
+      return ALGORITHMS.ExG.calculate(r / total, g / total, b / total);
+    };
+    const values = [exg(40, 160, 40), exg(30, 120, 20), exg(150, 120, 90), exg(200, 180, 160)];
+
+    expect(result.indices.vegetation.ExG).toBeCloseTo((values[0] + values[1]) / 2, 10);
+    expect(result.indices.whole.ExG).toBeCloseTo(values.reduce((a, v) => a + v, 0) / 4, 10);
+  });
+
+  test('computes and segments by custom indices on their own input', () => {
+    const { result, mask } = analyzePixels(data, 2, 2, {
+      segmentationIndex: 'GmR',
+      thresholdMethod: 'manual',
+      threshold: 50,
+      selectedIndices: { GmR: true, NG: true },
+      customIndices: [
+        { key: 'GmR', name: 'Green minus Red', formula: 'g - r', input: 'raw', range: [-255, 255] },
+        { key: 'NG', name: 'Normalized Green', formula: 'g', input: 'chromatic' }
+      ]
+    });
+
+    expect(Array.from(mask)).toEqual([1, 1, 0, 0]);
+    expect(result.indices.vegetation.GmR).toBe(105);
+    expect(result.indices.whole.NG).toBeCloseTo((160 / 240 + 120 / 170 + 120 / 360 + 180 / 540) / 4, 6);
+  });
+
+  test('computes each index on its declared input space', () => {
+    const { result } = analyzePixels(pixels([255, 0, 0], [0, 255, 51]), 2, 1, {
+      segmentationIndex: 'ExG',
+      thresholdMethod: 'manual',
+      threshold: 0,
+      selectedIndices: { INT: true, NGI: true }
+    });
+
+    expect(result.indices.whole.INT).toBeCloseTo((1 / 3 + 1.2 / 3) / 2, 10);
+    expect(result.indices.whole.NGI).toBeCloseTo((0 + 255 / 306) / 2, 10);
+  });
+
+  test('skips or clamps pixels where an index is undefined', () => {
+    // 黒画素は色度・比が定義されず、赤の 0 は VEG を +∞ にする
+    const { result, mask } = analyzePixels(pixels([0, 0, 0], [0, 100, 50], [40, 160, 40]), 3, 1, {
+      segmentationIndex: 'ExG',
+      thresholdMethod: 'manual',
+      threshold: 0.2,
+      selectedIndices: { ExG: true, VEG: true, GRVI: true }
+    });
+
+    expect(Array.from(mask)).toEqual([0, 1, 1]);
+    expect(result.skippedPixels).toEqual({ ExG: 1, VEG: 1, GRVI: 1 });
+    expect(Number.isFinite(result.indices.whole.GRVI)).toBe(true);
+    expect(result.indices.whole.GRVI).toBeCloseTo((1 + 0.6) / 2, 10);
+    const veg = 160 / (Math.pow(40, 0.667) * Math.pow(40, 0.333));
+    expect(result.indices.vegetation.VEG).toBeCloseTo((5 + veg) / 2, 10);
+  });
+
+  test('rejects an unknown segmentation index', () => {
+    expect(() => analyzePixels(data, 2, 2, {
+      segmentationIndex: 'NOPE',
+      thresholdMethod: 'otsu',
+      threshold: 0,
+      selectedIndices: {}
+    })).toThrow();
+  });
+
+  test('rejects a buffer smaller than width × height', () => {
+    expect(() => analyzePixels(data, 3, 3, {
+      segmentationIndex: 'ExG',
+      thresholdMethod: 'otsu',
+      threshold: 0,
+      selectedIndices: {}
+    })).toThrow();
+  });
+});
+
+describe('maskToRGBA', () => {
+  test('renders vegetation white and background black', () => {
+    expect(Array.from(maskToRGBA(new Uint8Array([1, 0])))).toEqual([255, 255, 255, 255, 0, 0, 0, 255]);
+  });
+});
@@ -0,0 +1,322 @@
+import { AccumulatedResult, addExcludedPixel, addPixel, createAccumulator, finalizeAccumulator } from './accumulator';
+import { evaluateAlgorithm, normalizeRGB, settleValue } from './algorithms';
+import { applyCalibration, computeCalibration } from './calibration';
+import { CLASSIFIER_INDEX, classifierAlgorithm } from './classifier';
+import { resolveAlgorithms } from './customIndices';
+import { EXCLUDED_NONE, EXCLUSION_REASONS, classifyExclusions } from './exclusion';
+import { MASK_BACKGROUND, MASK_EXCLUDED, MASK_OUTSIDE, MASK_VEGETATION } from './mask';
+import { applyMorphology } from './morphology';
+import { addObjectPixel, createObjectAccumulator, finalizeObjects, findObjects } from './objects';
+import { rasterizePlots, rasterizeRegions } from './roi';
+import { pixelsToArea } from './scale';
+import {
+  addSceneHistogram,
+  addScenePixel,
+  createSceneClassifier,
+  createSceneHistograms,
+  createSceneTally,
+  finalizeScene
+} from './scene';
+import {
+  IndexClassStatistics,
+  addMoment,
+  addToHistogram,
+  createFineHistogram,
+  createMoments,
+  finalizeStatistics
+} from './statistics';
+import { calculateHistogramThreshold } from './threshold';
+import { THRESHOLD_METHODS } from './thresholdMethods';
+import { Algorithm, AnalysisOptions, AnalysisOutput, AnalysisResult, ExclusionReason } from './types';
+
+// 解析に使う指数と閾値の方法（analyzePixels と analyzeTiled で共通）
+export const resolveAnalysis = (options: AnalysisOptions) => {
+  const method = THRESHOLD_METHODS[options.thresholdMethod];
+  if (!method) {
+    throw new Error(`Unknown threshold method: ${options.thresholdMethod}`);
+  }
+  const segmentationIndex = method.fixed?.index ?? options.segmentationIndex;
+  if (segmentationIndex === CLASSIFIER_INDEX && !options.classifier) {
+    throw new Error('The pixel classifier method needs a trained classifier');
+  }
+  const algorithms = options.classifier
+    ? { ...resolveAlgorithms(options.customIndices), [CLASSIFIER_INDEX]: classifierAlgorithm(options.classifier) }
+    : resolveAlgorithms(options.customIndices);
+  const segmentation = algorithms[segmentationIndex];
+  if (!segmentation) {
+    throw new Error(`Unknown segmentation index: ${segmentationIndex}`);
+  }
+  const selectedKeys = Object.keys(options.selectedIndices).filter(key => options.selectedIndices[key] && algorithms[key]);
+  return {
+    method,
+    segmentationIndex,
+    segmentation,
+    strict: method.fixed?.strict ?? false,
+    selectedKeys,
+    selectedAlgorithms: selectedKeys.map(key => algorithms[key]),
+    // 多クラス分類（指定した場合のみ。条件にはユーザー定義指数も使える）
+    classifyScene: options.sceneClasses ? createSceneClassifier(options.sceneClasses, algorithms) : null
+  };
+};
+
+// 2値化に使う指数の値が植生か（値が定義されない画素は非植生）
+export const isVegetationValue = (value: number, threshold: number, segmentation: Algorithm, strict: boolean): boolean =>
+  Number.isFinite(value) && (segmentation.vegetationLow
+    ? value < threshold
+    : (strict ? value > threshold : value >= threshold));
+
+// 選択された指数を各指数の入力空間で計算して values に格納する関数（未定義の値は NaN/±∞ のまま残す）
+export const createIndexEvaluator = (selectedAlgorithms: Algorithm[]) => {
+  const calculators = selectedAlgorithms.map(algorithm => algorithm.calculate);
+  const inputs = selectedAlgorithms.map(algorithm => algorithm.input ?? 'chromatic');
+  const values = new Float64Array(selectedAlgorithms.length);
+  const evaluate = (data: Uint8ClampedArray, pixelIndex: number): void => {
+    const i = pixelIndex * 4;
+    const r = data[i];
+    const g = data[i + 1];
+    const b = data[i + 2];
+    const [chromaticR, chromaticG, chromaticB] = normalizeRGB(r, g, b);
+    for (let k = 0; k < calculators.length; k++) {
+      const input = inputs[k];
+      const value = input === 'raw'
+        ? calculators[k](r, g, b)
+        : input === 'scaled'
+          ? calculators[k](r / 255, g / 255, b / 255)
+          : calculators[k](chromaticR, chromaticG, chromaticB);
+      values[k] = settleValue(selectedAlgorithms[k], value);
+    }
+  };
+  return { values, evaluate };
+};
+
+// メインの画像解析関数（DOMに依存しない）
+// input: RGBA配列（ImageData.data と同じ並び）
+export const analyzePixels = (
+  input: Uint8ClampedArray,
+  width: number,
+  height: number,
+  options: AnalysisOptions
+): AnalysisOutput => {
+  const { thresholdMethod, threshold } = options;
+  const { method, segmentationIndex, segmentation, strict, selectedKeys, selectedAlgorithms, classifyScene } = resolveAnalysis(options);
+  const pixelCount = width * height;
+  if (input.length < pixelCount * 4) {
+    throw new Error(`Pixel buffer too small: expected ${pixelCount * 4} bytes, got ${input.length}`);
+  }
+
+  // 色補正（指数の計算と2値化の前に適用する）
+  const calibration = options.calibrationReference
+    ? computeCalibration(input, width, height, options.calibrationReference)
+    : options.calibration;
+  const data = calibration ? applyCalibration(input, calibration) : input;
+
+  // 解析対象領域（未指定の場合は画像全体）
+  const roi = options.regions && options.regions.length > 0
+    ? rasterizeRegions(options.regions, width, height)
+    : null;
+
+  const mask = new Uint8Array(pixelCount);
+
+  // 白飛び・黒つぶれ・影（センサーの飽和などは補正前の値で判定する）
+  const exclusionReasons = options.exclusions
+    ? classifyExclusions(input, pixelCount, options.exclusions, p => !roi || roi[p] === 1)
+    : null;
+
+  // 2値化に使う指数の値（自動閾値と分類で同じ値を使う）。領域外・除外画素は NaN としてヒストグラムから除く
+  // 値が定義されない画素もヒストグラムから除き、非植生とする
+  const segmentationValues = new Float32Array(pixelCount);
+  for (let pixelIndex = 0; pixelIndex < pixelCount; pixelIndex++) {
+    if (roi && !roi[pixelIndex]) {
+      segmentationValues[pixelIndex] = NaN;
+      mask[pixelIndex] = MASK_OUTSIDE;
+      continue;
+    }
+    if (exclusionReasons && exclusionReasons[pixelIndex] !== EXCLUDED_NONE) {
+      segmentationValues[pixelIndex] = NaN;
+      mask[pixelIndex] = MASK_EXCLUDED;
+      continue;
+    }
+    const i = pixelIndex * 4;
+    segmentationValues[pixelIndex] = evaluateAlgorithm(segmentation, data[i], data[i + 1], data[i + 2]);
+  }
+
+  let currentThreshold = threshold;
+  if (method.fixed) {
+    currentThreshold = method.fixed.threshold;
+  } else if (method.selectBin) {
+    currentThreshold = calculateHistogramThreshold(segmentationValues, method.selectBin);
+  }
+
+  const { values: indexValues, evaluate } = createIndexEvaluator(selectedAlgorithms);
+  const computeIndexValues = (pixelIndex: number) => evaluate(data, pixelIndex);
+  const accumulator = createAccumulator(selectedKeys.length);
+  const vegetationMoments = selectedKeys.map(createMoments);
+  const backgroundMoments = selectedKeys.map(createMoments);
+
+  // 2値化（領域外・除外画素以外）
+  for (let pixelIndex = 0; pixelIndex < pixelCount; pixelIndex++) {
+    if (mask[pixelIndex] === MASK_OUTSIDE || mask[pixelIndex] === MASK_EXCLUDED) continue;
+    if (isVegetationValue(segmentationValues[pixelIndex], currentThreshold, segmentation, strict)) {
+      mask[pixelIndex] = MASK_VEGETATION;
+    }
+  }
+
+  // マスクの後処理。植生にできるのは領域内の除外されていない画素のみ
+  const morphology = options.morphology ?? [];
+  let rawVegetation: Uint8Array | null = null;
+  if (morphology.length > 0) {
+    rawVegetation = mask.map(value => value === MASK_VEGETATION ? 1 : 0);
+    const allowed = mask.map(value => value === MASK_OUTSIDE || value === MASK_EXCLUDED ? 0 : 1);
+    const cleaned = applyMorphology(rawVegetation, width, height, morphology, allowed);
+    for (let pixelIndex = 0; pixelIndex < pixelCount; pixelIndex++) {
+      if (allowed[pixelIndex]) mask[pixelIndex] = cleaned[pixelIndex] ? MASK_VEGETATION : MASK_BACKGROUND;
+    }
+  }
+
+  // 植生の領域（株）
+  const components = options.objects
+    ? findObjects(mask.map(value => value === MASK_VEGETATION ? 1 : 0), width, height, options.objects)
+    : null;
+  const objectAccumulator = createObjectAccumulator(components?.count ?? 0, selectedKeys.length);
+
+  // 区画ごとの集計
+  const plots = options.plots ?? [];
+  const plotLabels = plots.length > 0 ? rasterizePlots(plots, width, height) : null;
+  const plotAccumulators = plots.map(() => createAccumulator(selectedKeys.length));
+  // 後処理前の植生画素数（0: 画像全体、k + 1: plots[k]）
+  const rawVegetationCounts = new Float64Array(plots.length + 1);
+
+  // 多クラス分類
+  const sceneClasses = options.sceneClasses ?? [];
+  const classLabels = classifyScene ? new Uint8Array(pixelCount) : null;
+  const sceneTally = createSceneTally(sceneClasses.length, selectedKeys.length);
+  const plotSceneTallies = classifyScene ? plots.map(() => createSceneTally(sceneClasses.length, selectedKeys.length)) : [];
+
+  // 各ピクセルの処理
+  for (let pixelIndex = 0; pixelIndex < pixelCount; pixelIndex++) {
+    if (mask[pixelIndex] === MASK_OUTSIDE) continue;
+    const label = plotLabels ? plotLabels[pixelIndex] : 0;
+    if (mask[pixelIndex] === MASK_EXCLUDED) {
+      addExcludedPixel(accumulator);
+      if (label > 0) addExcludedPixel(plotAccumulators[label - 1]);
+      continue;
+    }
+    if (rawVegetation && rawVegetation[pixelIndex]) {
+      rawVegetationCounts[0]++;
+      if (label > 0) rawVegetationCounts[label]++;
+    }
+
+    const isVegetation = mask[pixelIndex] === MASK_VEGETATION;
+    computeIndexValues(pixelIndex);
+    addPixel(accumulator, indexValues, isVegetation);
+    const moments = isVegetation ? vegetationMoments : backgroundMoments;
+    for (let k = 0; k < selectedKeys.length; k++) {
+      addMoment(moments[k], indexValues[k]);
+    }
+    if (label > 0) {
+      addPixel(plotAccumulators[label - 1], indexValues, isVegetation);
+    }
+    if (components && components.labels[pixelIndex] > 0) {
+      addObjectPixel(objectAccumulator, components.labels[pixelIndex], indexValues);
+    }
+    if (classifyScene) {
+      const classIndex = classifyScene(data, pixelIndex);
+      classLabels![pixelIndex] = classIndex + 1;
+      addScenePixel(sceneTally, classIndex, indexValues);
+      if (label > 0) addScenePixel(plotSceneTallies[label - 1], classIndex, indexValues);
+    }
+  }
+
+  const found = components ? finalizeObjects(components, width, height, objectAccumulator, selectedKeys, options.objects!) : null;
+  if (found && plotLabels) {
+    found.objects.forEach(object => {
+      const x = Math.min(width - 1, Math.floor(object.centroidX));
+      const y = Math.min(height - 1, Math.floor(object.centroidY));
+      const label = plotLabels[y * width + x];
+      if (label > 0) object.plotId = plots[label - 1].id;
+    });
+  }
+
+  // 2パス目: 百分位点とヒストグラム
+  const vegetationHistograms = selectedKeys.map((_, k) => createFineHistogram(vegetationMoments[k], backgroundMoments[k]));
+  const backgroundHistograms = vegetationHistograms.map(histogram => ({ ...histogram, counts: new Float64Array(histogram.counts.length) }));
+  const sceneHistograms = createSceneHistograms(sceneTally);
+  for (let pixelIndex = 0; pixelIndex < pixelCount && selectedKeys.length > 0; pixelIndex++) {
+    if (mask[pixelIndex] === MASK_OUTSIDE || mask[pixelIndex] === MASK_EXCLUDED) continue;
+    computeIndexValues(pixelIndex);
+    const histograms = mask[pixelIndex] === MASK_VEGETATION ? vegetationHistograms : backgroundHistograms;
+    for (let k = 0; k < selectedKeys.length; k++) {
+      addToHistogram(histograms[k], indexValues[k]);
+    }
+    if (classLabels) addSceneHistogram(sceneHistograms, classLabels[pixelIndex] - 1, indexValues);
+  }
+  const statistics: Record<string, IndexClassStatistics> = {};
+  selectedKeys.forEach((key, k) => {
+    statistics[key] = {
+      vegetation: finalizeStatistics(vegetationMoments[k], vegetationHistograms[k]),
+      background: finalizeStatistics(backgroundMoments[k], backgroundHistograms[k])
+    };
+  });
+
+  const thresholdInfo = { segmentationIndex, thresholdMethod, threshold: currentThreshold };
+  const gsd = options.gsd !== undefined && options.gsd > 0 ? options.gsd : null;
+  const scaled = (accumulated: AccumulatedResult) =>
+    gsd !== null ? { gsd, vegetationArea: pixelsToArea(accumulated.vegetationPixels, gsd) } : {};
+  if (found && gsd !== null) {
+    found.objects.forEach(object => {
+      object.physicalArea = pixelsToArea(object.area, gsd);
+    });
+  }
+  const beforeCleaning = (accumulated: AccumulatedResult, count: number) => rawVegetation
+    ? {
+      beforeCleaning: {
+        vegetationPixels: count,
+        vegetationCoverage: accumulated.validPixels > 0 ? (count / accumulated.validPixels) * 100 : 0
+      }
+    }
+    : {};
+  const accumulated = finalizeAccumulator(accumulator, selectedKeys);
+  const result: AnalysisResult = {
+    ...accumulated,
+    ...beforeCleaning(accumulated, rawVegetationCounts[0]),
+    ...scaled(accumulated),
+    ...thresholdInfo,
+    statistics
+  };
+  if (found) {
+    result.plantCount = found.objects.length;
+    result.objects = found.objects;
+  }
+  if (exclusionReasons) {
+    const counts = EXCLUSION_REASONS.map(() => 0);
+    exclusionReasons.forEach(code => {
+      if (code !== EXCLUDED_NONE) counts[code - 1]++;
+    });
+    result.exclusions = Object.fromEntries(EXCLUSION_REASONS.map((reason, k) => [reason, counts[k]])) as Record<ExclusionReason, number>;
+  }
+  if (calibration) {
+    result.calibration = calibration;
+  }
+  if (classifyScene) {
+    Object.assign(result, finalizeScene(sceneTally, sceneClasses, selectedKeys, accumulated.validPixels, gsd, sceneHistograms));
+  }
+  if (plots.length > 0) {
+    result.plots = plots.map((plot, k) => {
+      const plotAccumulated = finalizeAccumulator(plotAccumulators[k], selectedKeys);
+      return {
+        plotId: plot.id,
+        ...plotAccumulated,
+        ...beforeCleaning(plotAccumulated, rawVegetationCounts[k + 1]),
+        ...scaled(plotAccumulated),
+        ...(found ? { plantCount: found.objects.filter(object => object.plotId === plot.id).length } : {}),
+        ...(classifyScene ? finalizeScene(plotSceneTallies[k], sceneClasses, selectedKeys, plotAccumulated.validPixels, gsd) : {}),
+        ...thresholdInfo
+      };
+    });
+  }
+
+  const output: AnalysisOutput = { result, mask };
+  if (found) output.objectLabels = found.labels;
+  if (classLabels) output.classLabels = classLabels;
+  return output;
+};
@@ -0,0 +1,69 @@
+import { analyzePixels, applyCalibration, computeCalibration, fitColorMatrix } from '.';
+
+describe('computeCalibration', () => {
+  test('white balance makes a tinted grey panel neutral', () => {
+    // 黄色みのある灰色パネル（左半分）
+    const data = new Uint8ClampedArray([
+      150, 140, 100, 255, 150, 140, 100, 255,
+      150, 140, 100, 255, 30, 90, 20, 255
+    ]);
+    const calibration = computeCalibration(data, 2, 2, {
+      method: 'whiteBalance',
+      region: { shape: 'rectangle', points: [[0, 0], [1, 0.5]] }
+    });
+
+    expect(calibration.method).toBe('whiteBalance');
+    const corrected = applyCalibration(data, calibration);
+    expect(Array.from(corrected.slice(0, 4))).toEqual([130, 130, 130, 255]);
+    expect(calibration.rmse).toBeCloseTo(0);
+  });
+
+  test('throws when the reference region is empty', () => {
+    const data = new Uint8ClampedArray(16).fill(100);
+    expect(() => computeCalibration(data, 2, 2, {
+      method: 'whiteBalance',
+      region: { shape: 'rectangle', points: [[0, 0], [0.1, 0.1]] }
+    })).toThrow();
+  });
+});
+
+describe('fitColorMatrix', () => {
+  test('recovers a known colour matrix', () => {
+    const matrix = [1.1, -0.1, 0, 0.05, 0.9, 0.05, 0, -0.2, 1.2];
+    const measured: Array<[number, number, number]> = [[200, 40, 30], [30, 180, 60], [20, 50, 190], [120, 120, 120], [80, 150, 40]];
+    const reference = measured.map(([r, g, b]): [number, number, number] => [
+      matrix[0] * r + matrix[1] * g + matrix[2] * b,
+      matrix[3] * r + matrix[4] * g + matrix[5] * b,
+      matrix[6] * r + matrix[7] * g + matrix[8] * b
+    ]);
+
+    const fit = fitColorMatrix(measured, reference);
+    fit.matrix.forEach((value, i) => expect(value).toBeCloseTo(matrix[i], 6));
+    expect(fit.rmse).toBeCloseTo(0, 6);
+  });
+});
+
+describe('analyzePixels with calibration', () => {
+  test('applies the calibration before computing indices and reports it', () => {
+    // 赤みがかった照明で撮った緑の葉と白いパネル
+    const data = new Uint8ClampedArray([
+      200, 100, 100, 255, 200, 100, 100, 255,
+      80, 60, 30, 255, 80, 60, 30, 255
+    ]);
+    const options = {
+      segmentationIndex: 'ExG',
+      thresholdMethod: 'manual' as const,
+      threshold: 0.1,
+      selectedIndices: { ExG: true }
+    };
+    const { result } = analyzePixels(data, 2, 2, {
+      ...options,
+      calibrationReference: { method: 'whiteBalance', region: { shape: 'rectangle', points: [[0, 0], [1, 0.5]] }, target: 200 }
+    });
+
+    expect(result.calibration?.matrix).toEqual([1, 0, 0, 0, 2, 0, 0, 0, 2]);
+    // 補正後の葉は (80, 120, 60) で植生と判定される
+    expect(result.vegetationCoverage).toBe(50);
+    expect(analyzePixels(data, 2, 2, options).result.vegetationCoverage).toBe(0);
+  });
+});
@@ -0,0 +1,144 @@
+import { RGB } from './colormap';
+import { scanRegion } from './roi';
+import { Calibration, CalibrationReference, Region } from './types';
+
+// ColorChecker Classic（24パッチ）の sRGB 値。暗い肌色から行ごとに6パッチずつ
+export const COLOR_CHECKER_SRGB: RGB[] = [
+  [115, 82, 68], [194, 150, 130], [98, 122, 157], [87, 108, 67], [133, 128, 177], [103, 189, 170],
+  [214, 126, 44], [80, 91, 166], [193, 90, 99], [94, 60, 108], [157, 188, 64], [224, 163, 46],
+  [56, 61, 150], [70, 148, 73], [175, 54, 60], [231, 199, 31], [187, 86, 149], [8, 133, 161],
+  [243, 243, 242], [200, 200, 200], [160, 160, 160], [122, 122, 121], [85, 85, 85], [52, 52, 52]
+];
+
+const CHECKER_COLS = 6;
+const CHECKER_ROWS = 4;
+// パッチの中央のこの割合の範囲だけを測る（境界の影やにじみを避ける）
+const PATCH_SAMPLE = 0.5;
+
+// 領域内の平均 RGB
+export const measureRegion = (data: Uint8ClampedArray, width: number, height: number, region: Region): RGB => {
+  const sum = [0, 0, 0];
+  let count = 0;
+  scanRegion(region, width, height, p => {
+    sum[0] += data[p * 4];
+    sum[1] += data[p * 4 + 1];
+    sum[2] += data[p * 4 + 2];
+    count++;
+  });
+  if (count === 0) throw new Error('The reference region contains no pixels');
+  return [sum[0] / count, sum[1] / count, sum[2] / count];
+};
+
+// 四隅（0〜1 の座標）の双線形補間でチャート上の点 (u, v) を画像座標に変換
+const chartPoint = (corners: Array<[number, number]>, u: number, v: number): [number, number] => {
+  const [p0, p1, p2, p3] = corners;
+  const top = [p0[0] + (p1[0] - p0[0]) * u, p0[1] + (p1[1] - p0[1]) * u];
+  const bottom = [p3[0] + (p2[0] - p3[0]) * u, p3[1] + (p2[1] - p3[1]) * u];
+  return [top[0] + (bottom[0] - top[0]) * v, top[1] + (bottom[1] - top[1]) * v];
+};
+
+// カラーチェッカーの各パッチで測る範囲（表示にも使う）
+export const colorCheckerPatches = (corners: Array<[number, number]>): Region[] => {
+  if (corners.length !== 4) return [];
+  const du = PATCH_SAMPLE / CHECKER_COLS / 2;
+  const dv = PATCH_SAMPLE / CHECKER_ROWS / 2;
+  return COLOR_CHECKER_SRGB.map((_, i) => {
+    const u = (i % CHECKER_COLS + 0.5) / CHECKER_COLS;
+    const v = (Math.floor(i / CHECKER_COLS) + 0.5) / CHECKER_ROWS;
+    return {
+      shape: 'polygon',
+      points: [
+        chartPoint(corners, u - du, v - dv),
+        chartPoint(corners, u + du, v - dv),
+        chartPoint(corners, u + du, v + dv),
+        chartPoint(corners, u - du, v + dv)
+      ]
+    };
+  });
+};
+
+const invert3 = (m: number[]): number[] => {
+  const [a, b, c, d, e, f, g, h, i] = m;
+  const det = a * (e * i - f * h) - b * (d * i - f * g) + c * (d * h - e * g);
+  if (Math.abs(det) < 1e-12) throw new Error('The reference colours are degenerate');
+  return [
+    (e * i - f * h) / det, (c * h - b * i) / det, (b * f - c * e) / det,
+    (f * g - d * i) / det, (a * i - c * g) / det, (c * d - a * f) / det,
+    (d * h - e * g) / det, (b * g - a * h) / det, (a * e - b * d) / det
+  ];
+};
+
+const transform = (matrix: number[], [r, g, b]: RGB): RGB => [
+  matrix[0] * r + matrix[1] * g + matrix[2] * b,
+  matrix[3] * r + matrix[4] * g + matrix[5] * b,
+  matrix[6] * r + matrix[7] * g + matrix[8] * b
+];
+
+const rmse = (matrix: number[], measured: RGB[], reference: RGB[]): number => {
+  let sum = 0;
+  measured.forEach((color, k) => {
+    const corrected = transform(matrix, color);
+    for (let c = 0; c < 3; c++) sum += (corrected[c] - reference[k][c]) ** 2;
+  });
+  return Math.sqrt(sum / (measured.length * 3));
+};
+
+// 最小二乗法で measured → reference の 3×3 行列を求める（M = Bᵀ A (AᵀA)⁻¹）
+export const fitColorMatrix = (measured: RGB[], reference: RGB[]): { matrix: number[]; rmse: number } => {
+  const ata = new Array(9).fill(0);
+  const bta = new Array(9).fill(0);
+  measured.forEach((a, k) => {
+    const b = reference[k];
+    for (let i = 0; i < 3; i++) {
+      for (let j = 0; j < 3; j++) {
+        ata[i * 3 + j] += a[i] * a[j];
+        bta[i * 3 + j] += b[i] * a[j];
+      }
+    }
+  });
+  const inverse = invert3(ata);
+  const matrix = new Array(9).fill(0);
+  for (let i = 0; i < 3; i++) {
+    for (let j = 0; j < 3; j++) {
+      for (let k = 0; k < 3; k++) matrix[i * 3 + j] += bta[i * 3 + k] * inverse[k * 3 + j];
+    }
+  }
+  return { matrix, rmse: rmse(matrix, measured, reference) };
+};
+
+// 参照から色補正を求める
+export const computeCalibration = (
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  reference: CalibrationReference
+): Calibration => {
+  if (reference.method === 'whiteBalance') {
+    const measured = measureRegion(data, width, height, reference.region);
+    if (measured.some(value => value <= 0)) throw new Error('The reference panel is black in at least one channel');
+    const target = reference.target ?? (measured[0] + measured[1] + measured[2]) / 3;
+    const matrix = [target / measured[0], 0, 0, 0, target / measured[1], 0, 0, 0, target / measured[2]];
+    return { method: 'whiteBalance', matrix, rmse: rmse(matrix, [measured], [[target, target, target]]) };
+  }
+
+  const measured = colorCheckerPatches(reference.region.points)
+    .map(patch => measureRegion(data, width, height, patch));
+  if (measured.length !== COLOR_CHECKER_SRGB.length) throw new Error('The colour checker needs four corners');
+  return { method: 'colorChecker', ...fitColorMatrix(measured, COLOR_CHECKER_SRGB) };
+};
+
+// RGBA 配列に色補正を適用した新しい配列を返す（0〜255 に丸める）
+export const applyCalibration = (data: Uint8ClampedArray, calibration: Calibration): Uint8ClampedArray => {
+  const m = calibration.matrix;
+  const output = new Uint8ClampedArray(data.length);
+  for (let i = 0; i < data.length; i += 4) {
+    const r = data[i];
+    const g = data[i + 1];
+    const b = data[i + 2];
+    output[i] = m[0] * r + m[1] * g + m[2] * b;
+    output[i + 1] = m[3] * r + m[4] * g + m[5] * b;
+    output[i + 2] = m[6] * r + m[7] * g + m[8] * b;
+    output[i + 3] = data[i + 3];
+  }
+  return output;
+};
@@ -0,0 +1,144 @@
+import {
+  PixelClassifier,
+  analyzePixels,
+  analyzeTiled,
+  classifierAlgorithm,
+  createClassifierEvaluator,
+  paintStrokes,
+  parseClassifier,
+  pixelSource,
+  trainClassifier
+} from '.';
+
+// 左から紫の葉・湿った土・麦わらの3つの帯（ExG では紫の葉を植生にできず、麦わらの一部を植生にする）
+const width = 30;
+const height = 20;
+const scene = (): Uint8ClampedArray => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  let seed = 3;
+  const jitter = () => {
+    seed = (seed * 1103515245 + 12345) % 2147483648;
+    return (seed / 2147483648 - 0.5) * 20;
+  };
+  for (let p = 0; p < width * height; p++) {
+    const band = Math.floor((p % width) / 10);
+    const base = [[105, 45, 115], [70, 55, 45], [205, 180, 120]][band];
+    data.set([...base.map(value => value + jitter()), 255], p * 4);
+  }
+  return data;
+};
+
+const classes = [
+  { name: 'leaf', vegetation: true, color: [34, 197, 94] as [number, number, number] },
+  { name: 'soil', vegetation: false, color: [120, 72, 36] as [number, number, number] },
+  { name: 'residue', vegetation: false, color: [234, 179, 8] as [number, number, number] }
+];
+const strokes = [
+  { classIndex: 0, size: 3, points: [[2, 3], [7, 15]] as Array<[number, number]> },
+  { classIndex: 1, size: 3, points: [[12, 4], [17, 16]] as Array<[number, number]> },
+  { classIndex: 2, size: 3, points: [[22, 2], [27, 12]] as Array<[number, number]> }
+];
+
+describe('paintStrokes', () => {
+  test('paints pixels within half the brush size of the line', () => {
+    const labels = paintStrokes([{ classIndex: 1, size: 2, points: [[1, 2.5], [6, 2.5]] }], 8, 5);
+    expect(Array.from(labels.subarray(16, 24))).toEqual([2, 2, 2, 2, 2, 2, 2, 0]);
+    expect(Array.from(labels.subarray(8, 16))).toEqual([0, 2, 2, 2, 2, 2, 0, 0]);
+    expect(labels.filter(label => label !== 0).length).toBe(7 + 5 * 2);
+  });
+
+  test('paints a single click as a dot and later strokes over earlier ones', () => {
+    const labels = paintStrokes([
+      { classIndex: 0, size: 3, points: [[2.5, 2.5]] },
+      { classIndex: 2, size: 1, points: [[2.5, 2.5]] }
+    ], 5, 5);
+    expect(labels[12]).toBe(3);
+    expect(labels.filter(label => label === 1).length).toBe(8);
+  });
+});
+
+describe('trainClassifier', () => {
+  const data = scene();
+  const model = trainClassifier(data, width, height, classes, strokes);
+
+  test('separates purple leaves from soil and residue where ExG fails', () => {
+    const expected = Array.from({ length: width * height }, (_, p) => (p % width < 10 ? 1 : 0));
+    const exg = analyzePixels(data.slice(), width, height, {
+      segmentationIndex: 'ExG',
+      thresholdMethod: 'manual',
+      threshold: 0.05,
+      selectedIndices: {}
+    });
+    expect(Array.from(exg.mask).filter((value, p) => value === 1 && expected[p] === 1)).toEqual([]);
+    expect(exg.result.vegetationPixels).toBeGreaterThan(0);
+
+    const { result, mask } = analyzePixels(data.slice(), width, height, {
+      segmentationIndex: 'ExG',
+      thresholdMethod: 'classifier',
+      threshold: 0,
+      selectedIndices: { ExG: true },
+      classifier: model
+    });
+    expect(Array.from(mask)).toEqual(expected);
+    expect(result.segmentationIndex).toBe('Classifier');
+    expect(result.threshold).toBe(0.5);
+  });
+
+  test('gives class probabilities that sum to one', () => {
+    const { predict } = createClassifierEvaluator(model);
+    const probabilities = Array.from(predict(200, 178, 125));
+    expect(probabilities.reduce((sum, value) => sum + value, 0)).toBeCloseTo(1, 12);
+    expect(probabilities.indexOf(Math.max(...probabilities))).toBe(2);
+  });
+
+  test('records sample counts and skips classes without samples', () => {
+    const trained = trainClassifier(data, width, height, [...classes, { name: 'shadow', vegetation: false, color: [0, 0, 0] }], strokes);
+    expect(trained.classes.map(item => item.name)).toEqual(['leaf', 'soil', 'residue']);
+    expect(trained.classes.every(item => item.samples > 20)).toBe(true);
+    expect(trained.features).toContain('H');
+    expect(trained.features).toContain('ExG');
+  });
+
+  test('requires vegetation and non-vegetation samples', () => {
+    expect(() => trainClassifier(data, width, height, classes, strokes.slice(1))).toThrow('vegetation class');
+    expect(() => trainClassifier(data, width, height, classes, strokes, ['R', 'NDVI'])).toThrow('NDVI');
+  });
+
+  test('round-trips through JSON with the same predictions', () => {
+    const loaded: PixelClassifier = parseClassifier(JSON.parse(JSON.stringify(model)));
+    const before = classifierAlgorithm(model);
+    const after = classifierAlgorithm(loaded);
+    [[100, 50, 110], [75, 60, 50], [190, 170, 110]].forEach(([r, g, b]) => {
+      expect(after.calculate(r, g, b)).toBe(before.calculate(r, g, b));
+    });
+    expect(() => parseClassifier({ ...model, type: 'kNN' })).toThrow('Not a pixel classifier');
+    expect(() => parseClassifier({ ...model, classes: model.classes.slice(0, 1) })).toThrow('two classes');
+    expect(() => parseClassifier({ ...model, classes: model.classes.map(item => ({ ...item, variance: [] })) })).toThrow('variances');
+    // プロトタイプのプロパティや文字列でない値は指数として扱わない
+    expect(() => parseClassifier({ ...model, features: ['constructor', ...model.features.slice(1)] })).toThrow('Unknown classifier feature: constructor');
+    expect(() => parseClassifier({ ...model, features: [1, ...model.features.slice(1)] })).toThrow('Unknown classifier feature: 1');
+  });
+
+  test('classifies tile by tile like the untiled analysis', async () => {
+    const options = {
+      segmentationIndex: 'ExG',
+      thresholdMethod: 'classifier' as const,
+      threshold: 0,
+      selectedIndices: { ExG: true },
+      classifier: model
+    };
+    const untiled = analyzePixels(data.slice(), width, height, options);
+    const tiled = await analyzeTiled(pixelSource(data, width, height), options, { tileSize: 16 });
+    expect(tiled.vegetationPixels).toBe(untiled.result.vegetationPixels);
+    expect(tiled.vegetationCoverage).toBe(untiled.result.vegetationCoverage);
+  });
+
+  test('needs a classifier when the method is selected', () => {
+    expect(() => analyzePixels(data.slice(), width, height, {
+      segmentationIndex: 'ExG',
+      thresholdMethod: 'classifier',
+      threshold: 0,
+      selectedIndices: {}
+    })).toThrow('trained classifier');
+  });
+});
@@ -0,0 +1,253 @@
+import { ALGORITHMS, evaluateAlgorithm } from './algorithms';
+import { rgbToLab } from './exclusion';
+import { Algorithm, ClassifierClass, ClassifierStroke, PixelClassifier } from './types';
+
+// 画素分類器の値を2値化の指数として扱うときのキー（値は植生クラスの事後確率）
+export const CLASSIFIER_INDEX = 'Classifier';
+
+// 色空間の特徴量: R, G, B（0〜255）、H（0〜360）、S, V（0〜1）、L, a, b（CIE L*a*b*）
+export const COLOR_FEATURES = ['R', 'G', 'B', 'H', 'S', 'V', 'L', 'a', 'b'];
+
+// 既定の特徴量（色空間の値と組み込みの指数すべて）
+export const CLASSIFIER_FEATURES = [...COLOR_FEATURES, ...Object.keys(ALGORITHMS)];
+
+// 色空間の特徴量か algorithms の指数のキーか（constructor などのプロトタイプのプロパティは除く）
+export const isKnownFeature = (feature: unknown, algorithms: Record<string, Algorithm> = ALGORITHMS): feature is string =>
+  typeof feature === 'string'
+  && (COLOR_FEATURES.includes(feature) || Object.prototype.hasOwnProperty.call(algorithms, feature));
+
+// クラスの分散に全画素の分散のこの割合を加える（塗った画素の少ないクラスで尤度が極端にならないようにする）
+const VARIANCE_SMOOTHING = 0.01;
+
+// 学習するクラス（名前・植生かどうか・表示色）
+export type TrainingClass = Pick<ClassifierClass, 'name' | 'vegetation' | 'color'>;
+
+// 画素値から特徴量を求めて values に格納する関数（未定義の値は NaN/±∞ のまま）
+// 色空間の特徴量以外は algorithms の指数（分類器は組み込みの指数のみ）
+export const createFeatureEvaluator = (features: string[], algorithms: Record<string, Algorithm> = ALGORITHMS) => {
+  const values = new Float64Array(features.length);
+  const indices = features.map(feature => COLOR_FEATURES.indexOf(feature));
+  const featureAlgorithms = features.map(feature => algorithms[feature]);
+  const needsLab = indices.some(index => index >= 6);
+  const evaluate = (r: number, g: number, b: number): Float64Array => {
+    const max = Math.max(r, g, b);
+    const range = max - Math.min(r, g, b);
+    let hue = 0;
+    if (range > 0) {
+      hue = max === r ? ((g - b) / range) % 6 : max === g ? (b - r) / range + 2 : (r - g) / range + 4;
+      hue = hue < 0 ? hue * 60 + 360 : hue * 60;
+    }
+    const lab = needsLab ? rgbToLab(r, g, b) : null;
+    for (let f = 0; f < features.length; f++) {
+      switch (indices[f]) {
+        case 0: values[f] = r; break;
+        case 1: values[f] = g; break;
+        case 2: values[f] = b; break;
+        case 3: values[f] = hue; break;
+        case 4: values[f] = max > 0 ? range / max : 0; break;
+        case 5: values[f] = max / 255; break;
+        case 6:
+        case 7:
+        case 8: values[f] = lab![indices[f] - 6]; break;
+        default: values[f] = evaluateAlgorithm(featureAlgorithms[f], r, g, b);
+      }
+    }
+    return values;
+  };
+  return { values, evaluate };
+};
+
+// 線の太さの範囲（線分からの距離が size / 2 以内の画素中心）を塗る。後の線が前の線を上書きする
+// 戻り値: 画素ごとのクラス（0: 塗っていない、k + 1: classIndex k）
+export const paintStrokes = (strokes: ClassifierStroke[], width: number, height: number): Int16Array => {
+  const labels = new Int16Array(width * height);
+  strokes.forEach(stroke => {
+    const radius = Math.max(0.5, stroke.size / 2);
+    const points = stroke.points.length === 1 ? [stroke.points[0], stroke.points[0]] : stroke.points;
+    for (let s = 1; s < points.length; s++) {
+      const [x0, y0] = points[s - 1];
+      const [x1, y1] = points[s];
+      const dx = x1 - x0;
+      const dy = y1 - y0;
+      const length2 = dx * dx + dy * dy;
+      const left = Math.max(0, Math.floor(Math.min(x0, x1) - radius));
+      const right = Math.min(width - 1, Math.ceil(Math.max(x0, x1) + radius));
+      const top = Math.max(0, Math.floor(Math.min(y0, y1) - radius));
+      const bottom = Math.min(height - 1, Math.ceil(Math.max(y0, y1) + radius));
+      for (let y = top; y <= bottom; y++) {
+        for (let x = left; x <= right; x++) {
+          const px = x + 0.5;
+          const py = y + 0.5;
+          const t = length2 > 0 ? Math.min(1, Math.max(0, ((px - x0) * dx + (py - y0) * dy) / length2)) : 0;
+          const ex = px - (x0 + t * dx);
+          const ey = py - (y0 + t * dy);
+          if (ex * ex + ey * ey <= radius * radius) labels[y * width + x] = stroke.classIndex + 1;
+        }
+      }
+    }
+  });
+  return labels;
+};
+
+// 塗った画素の特徴量から各クラスの平均・分散を求める
+// 塗った画素のないクラスは除き、どのクラスでも値が定義されない特徴量は使わない
+export const trainClassifier = (
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  classes: TrainingClass[],
+  strokes: ClassifierStroke[],
+  features: string[] = CLASSIFIER_FEATURES
+): PixelClassifier => {
+  const unknown = features.find(feature => !isKnownFeature(feature));
+  if (unknown !== undefined) throw new Error(`Unknown classifier feature: ${unknown}`);
+  const labels = paintStrokes(strokes, width, height);
+  const { evaluate } = createFeatureEvaluator(features);
+  const featureCount = features.length;
+  const samples = classes.map(() => 0);
+  const counts = classes.map(() => new Float64Array(featureCount));
+  const sums = classes.map(() => new Float64Array(featureCount));
+  const sumSquares = classes.map(() => new Float64Array(featureCount));
+  for (let p = 0; p < labels.length; p++) {
+    const label = labels[p] - 1;
+    if (label < 0 || label >= classes.length) continue;
+    samples[label]++;
+    const values = evaluate(data[p * 4], data[p * 4 + 1], data[p * 4 + 2]);
+    for (let f = 0; f < featureCount; f++) {
+      const value = values[f];
+      if (!Number.isFinite(value)) continue;
+      counts[label][f]++;
+      sums[label][f] += value;
+      sumSquares[label][f] += value * value;
+    }
+  }
+
+  const trained = classes.map((_, k) => k).filter(k => samples[k] > 0);
+  if (!trained.some(k => classes[k].vegetation) || !trained.some(k => !classes[k].vegetation)) {
+    throw new Error('Paint samples of at least one vegetation class and one non-vegetation class');
+  }
+  const used = features.map((_, f) => f).filter(f => trained.every(k => counts[k][f] > 0));
+  if (used.length === 0) throw new Error('No feature is defined for the painted pixels');
+
+  // 全画素の分散（分散の下限に使う）
+  const smoothing = used.map(f => {
+    let count = 0;
+    let sum = 0;
+    let sumSquare = 0;
+    trained.forEach(k => {
+      count += counts[k][f];
+      sum += sums[k][f];
+      sumSquare += sumSquares[k][f];
+    });
+    const mean = sum / count;
+    return Math.max(1e-9, VARIANCE_SMOOTHING * Math.max(0, sumSquare / count - mean * mean));
+  });
+
+  return {
+    type: 'gaussianNaiveBayes',
+    features: used.map(f => features[f]),
+    classes: trained.map(k => ({
+      name: classes[k].name,
+      vegetation: classes[k].vegetation,
+      color: classes[k].color,
+      samples: samples[k],
+      mean: used.map(f => sums[k][f] / counts[k][f]),
+      variance: used.map((f, u) => {
+        const mean = sums[k][f] / counts[k][f];
+        return Math.max(0, sumSquares[k][f] / counts[k][f] - mean * mean) + smoothing[u];
+      })
+    }))
+  };
+};
+
+// 画素値から各クラスの事後確率を求める関数（事前確率はクラスごとに等しく、塗った量に左右されない）
+// 値が定義されない特徴量は尤度に含めない
+export const createClassifierEvaluator = (classifier: PixelClassifier) => {
+  const { values, evaluate } = createFeatureEvaluator(classifier.features);
+  const classCount = classifier.classes.length;
+  const featureCount = classifier.features.length;
+  const means = classifier.classes.map(item => Float64Array.from(item.mean));
+  const inverse = classifier.classes.map(item => Float64Array.from(item.variance, variance => 1 / (2 * variance)));
+  const logNormalizers = classifier.classes.map(item => item.variance.map(variance => -0.5 * Math.log(2 * Math.PI * variance)));
+  const probabilities = new Float64Array(classCount);
+  const predict = (r: number, g: number, b: number): Float64Array => {
+    evaluate(r, g, b);
+    let best = -Infinity;
+    for (let k = 0; k < classCount; k++) {
+      let logLikelihood = 0;
+      for (let f = 0; f < featureCount; f++) {
+        const value = values[f];
+        if (!Number.isFinite(value)) continue;
+        const d = value - means[k][f];
+        logLikelihood += logNormalizers[k][f] - d * d * inverse[k][f];
+      }
+      probabilities[k] = logLikelihood;
+      if (logLikelihood > best) best = logLikelihood;
+    }
+    let total = 0;
+    for (let k = 0; k < classCount; k++) {
+      probabilities[k] = Math.exp(probabilities[k] - best);
+      total += probabilities[k];
+    }
+    for (let k = 0; k < classCount; k++) {
+      probabilities[k] /= total;
+    }
+    return probabilities;
+  };
+  return { probabilities, predict };
+};
+
+// 植生クラスの事後確率の合計を指数として扱う（0.5 より大きい画素を植生とする）
+export const classifierAlgorithm = (classifier: PixelClassifier): Algorithm => {
+  const { predict } = createClassifierEvaluator(classifier);
+  const vegetation = classifier.classes.map(item => item.vegetation);
+  return {
+    name: "Pixel classifier",
+    input: 'raw',
+    range: [0, 1],
+    calculate: (r, g, b) => {
+      const probabilities = predict(r, g, b);
+      let sum = 0;
+      for (let k = 0; k < probabilities.length; k++) {
+        if (vegetation[k]) sum += probabilities[k];
+      }
+      return sum;
+    }
+  };
+};
+
+const isNumberArray = (value: unknown, length: number): value is number[] =>
+  Array.isArray(value) && value.length === length && value.every(item => typeof item === 'number' && Number.isFinite(item));
+
+// 保存した分類器（JSON）を検証する（形式が違う場合は例外）
+export const parseClassifier = (json: unknown): PixelClassifier => {
+  const model = json as Partial<PixelClassifier>;
+  if (!model || model.type !== 'gaussianNaiveBayes') throw new Error('Not a pixel classifier file');
+  const { features, classes } = model;
+  if (!Array.isArray(features) || features.length === 0) throw new Error('The classifier has no features');
+  const unknown = features.find(feature => !isKnownFeature(feature));
+  if (unknown !== undefined) throw new Error(`Unknown classifier feature: ${unknown}`);
+  if (!Array.isArray(classes) || classes.length < 2) throw new Error('The classifier needs at least two classes');
+  classes.forEach((item, k) => {
+    if (typeof item?.name !== 'string') throw new Error(`Class ${k + 1} has no name`);
+    if (!isNumberArray(item.mean, features.length) || !isNumberArray(item.variance, features.length)
+      || item.variance.some(variance => variance <= 0)) {
+      throw new Error(`Class ${k + 1} has invalid means or variances`);
+    }
+  });
+  if (!classes.some(item => item.vegetation) || !classes.some(item => !item.vegetation)) {
+    throw new Error('The classifier needs a vegetation class and a non-vegetation class');
+  }
+  return {
+    type: 'gaussianNaiveBayes',
+    features,
+    classes: classes.map(item => ({
+      name: item.name,
+      vegetation: Boolean(item.vegetation),
+      color: (isNumberArray(item.color, 3) ? item.color : [128, 128, 128]) as [number, number, number],
+      samples: typeof item.samples === 'number' ? item.samples : 0,
+      mean: item.mean,
+      variance: item.variance
+    }))
+  };
+};
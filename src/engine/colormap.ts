@@ -0,0 +1,42 @@
+// カラーランプ（0〜1 の値を RGB に変換）
+export type RGB = [number, number, number];
+
+export interface ColorRamp {
+  name: string;
+  stops: RGB[];
+}
+
+export const COLOR_RAMPS: Record<string, ColorRamp> = {
+  viridis: {
+    name: "Viridis",
+    stops: [[68, 1, 84], [65, 68, 135], [42, 120, 142], [34, 168, 132], [122, 209, 81], [253, 231, 37]]
+  },
+  RdYlGn: {
+    name: "Red-Yellow-Green",
+    stops: [[165, 0, 38], [244, 109, 67], [254, 224, 139], [217, 239, 139], [102, 189, 99], [0, 104, 55]]
+  },
+  grayscale: {
+    name: "Grayscale",
+    stops: [[0, 0, 0], [255, 255, 255]]
+  }
+};
+
+// 等間隔に並んだ色の間を線形補間する
+export const rampColor = (ramp: ColorRamp, t: number): RGB => {
+  const { stops } = ramp;
+  const x = Math.min(1, Math.max(0, Number.isFinite(t) ? t : 0)) * (stops.length - 1);
+  const i = Math.min(stops.length - 2, Math.floor(x));
+  const f = x - i;
+  const [a, b] = [stops[i], stops[i + 1]];
+  return [
+    Math.round(a[0] + (b[0] - a[0]) * f),
+    Math.round(a[1] + (b[1] - a[1]) * f),
+    Math.round(a[2] + (b[2] - a[2]) * f)
+  ];
+};
+
+export const toCssColor = ([r, g, b]: RGB): string => `rgb(${r}, ${g}, ${b})`;
+
+// 凡例用の CSS グラデーション
+export const rampGradient = (ramp: ColorRamp): string =>
+  `linear-gradient(to right, ${ramp.stops.map(toCssColor).join(', ')})`;
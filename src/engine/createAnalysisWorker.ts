@@ -0,0 +1,5 @@
+// webpack 5 の Worker 構文（Jest では読み込まないよう動的importで使用する）
+const createAnalysisWorker = (): Worker =>
+  new Worker(new URL('./analysis.worker.ts', import.meta.url));
+
+export default createAnalysisWorker;
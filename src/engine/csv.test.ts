@@ -0,0 +1,19 @@
+import { toCSV } from '.';
+
+describe('toCSV', () => {
+  test('quotes fields with commas, quotes and line breaks and keeps full precision', () => {
+    const csv = toCSV({
+      headers: ['Filename', 'Value'],
+      rows: [
+        ['plot 1, "north".jpg', 0.1 + 0.2],
+        ['line\nbreak.jpg', NaN],
+        [undefined, 12]
+      ]
+    });
+    expect(csv).toBe('Filename,Value\r\n"plot 1, ""north"".jpg",0.30000000000000004\r\n"line\nbreak.jpg",\r\n,12\r\n');
+  });
+
+  test('adds a UTF-8 BOM when requested', () => {
+    expect(toCSV({ headers: ['a'], rows: [] }, { bom: true })).toBe('\ufeffa\r\n');
+  });
+});
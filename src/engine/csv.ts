@@ -0,0 +1,21 @@
+import { Cell, Table } from './table';
+
+export interface CsvOptions {
+  // Excel（日本語環境）で UTF-8 として開けるよう先頭に BOM を付ける
+  bom?: boolean;
+}
+
+// RFC 4180 のフィールド（カンマ・引用符・改行を含む場合は引用符で囲み、引用符は二重にする）
+export const csvField = (value: Cell): string => {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'number' && !Number.isFinite(value)) return '';
+  // 数値は丸めずに出力する（String は元の値に戻せる最短の表記）
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// 行の区切りは CRLF
+export const toCSV = (table: Table, options: CsvOptions = {}): string =>
+  (options.bom ? '\ufeff' : '') +
+  [table.headers, ...table.rows].map(row => row.map(csvField).join(',')).join('\r\n') +
+  '\r\n';
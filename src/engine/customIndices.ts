@@ -0,0 +1,51 @@
+import { ALGORITHMS } from './algorithms';
+import { FormulaError, compileFormula, parseFormula } from './formula';
+import { Algorithm, CustomIndex } from './types';
+
+const KEY_PATTERN = /^[A-Za-z][A-Za-z0-9_]*$/;
+
+export type CustomIndexProblem = 'key' | 'duplicateKey' | 'name' | 'formula' | 'range';
+
+export interface CustomIndexValidation {
+  problem: CustomIndexProblem;
+  // 数式の誤りの詳細（problem が formula の場合）
+  message?: string;
+}
+
+// 定義を検査し、問題があれば最初の1件を返す（others は登録済みのユーザー定義指数）
+export const validateCustomIndex = (definition: CustomIndex, others: CustomIndex[] = []): CustomIndexValidation | null => {
+  if (!KEY_PATTERN.test(definition.key)) return { problem: 'key' };
+  if (ALGORITHMS[definition.key] || others.some(other => other.key === definition.key)) {
+    return { problem: 'duplicateKey' };
+  }
+  if (!definition.name.trim()) return { problem: 'name' };
+  try {
+    parseFormula(definition.formula);
+  } catch (error) {
+    if (error instanceof FormulaError) return { problem: 'formula', message: error.message };
+    throw error;
+  }
+  if (definition.range && !(definition.range[0] < definition.range[1])) return { problem: 'range' };
+  return null;
+};
+
+export const compileCustomIndex = (definition: CustomIndex): Algorithm => ({
+  name: definition.name,
+  input: definition.input,
+  undefinedPixels: definition.undefinedPixels,
+  range: definition.range,
+  vegetationLow: definition.vegetationLow,
+  calculate: compileFormula(definition.formula)
+});
+
+// 組み込みの指数にユーザー定義の指数を加えた一覧（組み込みと同じキーは無視する）
+export const resolveAlgorithms = (customIndices: CustomIndex[] = []): Record<string, Algorithm> => {
+  if (customIndices.length === 0) return ALGORITHMS;
+  const algorithms = { ...ALGORITHMS };
+  customIndices.forEach(definition => {
+    if (!ALGORITHMS[definition.key]) {
+      algorithms[definition.key] = compileCustomIndex(definition);
+    }
+  });
+  return algorithms;
+};
@@ -0,0 +1,45 @@
+import { inflateSync } from 'zlib';
+import { deflate, inflate } from '.';
+
+// 繰り返しのある（一致と1バイトずつの符号が混ざる）バイト列
+const sample = (length: number): Uint8Array => {
+  const bytes = new Uint8Array(length);
+  let seed = 1;
+  for (let i = 0; i < length; i++) {
+    seed = (seed * 1103515245 + 12345) % 2147483648;
+    bytes[i] = i % 300 < 200 ? (i % 7) * 30 : seed >> 23;
+  }
+  return bytes;
+};
+
+describe('deflate', () => {
+  test('writes zlib data that zlib and inflate restore', () => {
+    const data = sample(100000);
+    const compressed = deflate(data);
+    expect(compressed.length).toBeLessThan(data.length / 2);
+    expect(Array.from(inflateSync(compressed))).toEqual(Array.from(data));
+    expect(Array.from(inflate(compressed))).toEqual(Array.from(data));
+  });
+
+  test('compresses long runs to under 1% of their size', () => {
+    const zeros = new Uint8Array(512 * 512);
+    const compressed = deflate(zeros);
+    expect(compressed.length).toBeLessThan(zeros.length / 100);
+    expect(inflateSync(compressed).every(value => value === 0)).toBe(true);
+  });
+
+  test('stores data that does not compress and empty input', () => {
+    // xorshift の乱数
+    let seed = 7;
+    const noise = Uint8Array.from({ length: 70000 }, () => {
+      seed ^= seed << 13;
+      seed ^= seed >>> 17;
+      seed ^= seed << 5;
+      return seed & 0xff;
+    });
+    const compressed = deflate(noise);
+    expect(compressed.length).toBe(noise.length + 2 * 5 + 6);
+    expect(Array.from(inflateSync(compressed))).toEqual(Array.from(noise));
+    expect(inflateSync(deflate(new Uint8Array(0))).length).toBe(0);
+  });
+});
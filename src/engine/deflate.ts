@@ -0,0 +1,156 @@
+// DEFLATE（RFC 1951）の圧縮（zlib 形式）。TIFF を Deflate 圧縮で書き出すのに使う
+// 直前 32KB からの一致をハッシュの連鎖で探し、固定ハフマン符号で書く（大きくなる場合は無圧縮のブロックにする）
+import { DISTANCE_BASE, DISTANCE_EXTRA, LENGTH_BASE, LENGTH_EXTRA } from './inflate';
+
+const WINDOW_SIZE = 32768;
+const MIN_MATCH = 3;
+const MAX_MATCH = 258;
+// 一致を探す候補の数の上限（速さと圧縮率の兼ね合い）
+const MAX_CHAIN = 32;
+const HASH_SIZE = 1 << 15;
+// 無圧縮のブロックの最大の大きさ
+const MAX_STORED = 65535;
+
+const reverseBits = (code: number, length: number): number => {
+  let reversed = 0;
+  for (let i = 0; i < length; i++) {
+    reversed = (reversed << 1) | (code & 1);
+    code >>>= 1;
+  }
+  return reversed;
+};
+
+// 固定ハフマン符号（下位ビットから書くため反転しておく）
+const LITERAL_LENGTHS = Array.from({ length: 288 }, (_, i) => (i < 144 ? 8 : i < 256 ? 9 : i < 280 ? 7 : 8));
+const LITERAL_CODES = LITERAL_LENGTHS.map((length, i) =>
+  reverseBits(i < 144 ? 0x30 + i : i < 256 ? 0x190 + i - 144 : i < 280 ? i - 256 : 0xc0 + i - 280, length));
+const DISTANCE_CODES = Array.from({ length: 30 }, (_, i) => reverseBits(i, 5));
+
+// 長さ・距離からその符号の番号を引く表（258 は専用の符号を使う）
+const LENGTH_INDEX = (() => {
+  const table = new Uint8Array(MAX_MATCH + 1);
+  LENGTH_BASE.forEach((base, code) => table.fill(code, base, Math.min(base + (1 << LENGTH_EXTRA[code]), MAX_MATCH + 1)));
+  return table;
+})();
+const DISTANCE_INDEX = (() => {
+  const table = new Uint8Array(WINDOW_SIZE + 1);
+  DISTANCE_BASE.forEach((base, code) => table.fill(code, base, base + (1 << DISTANCE_EXTRA[code])));
+  return table;
+})();
+
+const adler32 = (data: Uint8Array): number => {
+  let a = 1;
+  let b = 0;
+  // 5552 バイトごとに剰余をとれば途中で桁あふれしない
+  for (let start = 0; start < data.length; start += 5552) {
+    const end = Math.min(start + 5552, data.length);
+    for (let i = start; i < end; i++) {
+      a += data[i];
+      b += a;
+    }
+    a %= 65521;
+    b %= 65521;
+  }
+  return (b * 65536 + a) >>> 0;
+};
+
+const compressFixed = (input: Uint8Array): Uint8Array => {
+  // 1バイトあたり最大で約 10.4 ビット（距離の遠い長さ 3 の一致）
+  const output = new Uint8Array(Math.ceil(input.length * 1.3) + 16);
+  let length = 0;
+  let bitBuffer = 0;
+  let bitCount = 0;
+
+  // 下位ビットから書く
+  const write = (value: number, count: number) => {
+    bitBuffer |= value << bitCount;
+    bitCount += count;
+    while (bitCount >= 8) {
+      output[length++] = bitBuffer & 0xff;
+      bitBuffer >>>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  const head = new Int32Array(HASH_SIZE).fill(-1);
+  const previous = new Int32Array(WINDOW_SIZE).fill(-1);
+  const hash = (i: number) => ((input[i] << 10) ^ (input[i + 1] << 5) ^ input[i + 2]) & (HASH_SIZE - 1);
+  const insert = (i: number) => {
+    const h = hash(i);
+    previous[i & (WINDOW_SIZE - 1)] = head[h];
+    head[h] = i;
+  };
+
+  // 最後のブロック、固定ハフマン符号
+  write(1, 1);
+  write(1, 2);
+  let i = 0;
+  while (i < input.length) {
+    let bestLength = 0;
+    let bestDistance = 0;
+    if (i + MIN_MATCH <= input.length) {
+      const limit = Math.min(MAX_MATCH, input.length - i);
+      let candidate = head[hash(i)];
+      // 窓の外の候補（上書きされた連鎖を含む）は使わない
+      for (let chain = 0; candidate >= 0 && candidate < i && i - candidate <= WINDOW_SIZE && chain < MAX_CHAIN; chain++) {
+        if (input[candidate + bestLength] === input[i + bestLength]) {
+          let k = 0;
+          while (k < limit && input[candidate + k] === input[i + k]) k++;
+          if (k > bestLength) {
+            bestLength = k;
+            bestDistance = i - candidate;
+            if (k === limit) break;
+          }
+        }
+        candidate = previous[candidate & (WINDOW_SIZE - 1)];
+      }
+      insert(i);
+    }
+
+    if (bestLength >= MIN_MATCH) {
+      const lengthCode = LENGTH_INDEX[bestLength];
+      write(LITERAL_CODES[257 + lengthCode], LITERAL_LENGTHS[257 + lengthCode]);
+      write(bestLength - LENGTH_BASE[lengthCode], LENGTH_EXTRA[lengthCode]);
+      const distanceCode = DISTANCE_INDEX[bestDistance];
+      write(DISTANCE_CODES[distanceCode], 5);
+      write(bestDistance - DISTANCE_BASE[distanceCode], DISTANCE_EXTRA[distanceCode]);
+      // 一致した範囲の位置も後の一致の候補にする
+      for (let k = 1; k < bestLength && i + k + MIN_MATCH <= input.length; k++) insert(i + k);
+      i += bestLength;
+    } else {
+      write(LITERAL_CODES[input[i]], LITERAL_LENGTHS[input[i]]);
+      i++;
+    }
+  }
+  write(LITERAL_CODES[256], LITERAL_LENGTHS[256]);
+  if (bitCount > 0) write(0, 8 - bitCount);
+  return output.subarray(0, length);
+};
+
+// 無圧縮のブロック（空の入力でも1つは書く）
+const storedBlocks = (input: Uint8Array): Uint8Array => {
+  const blocks = Math.max(1, Math.ceil(input.length / MAX_STORED));
+  const output = new Uint8Array(input.length + blocks * 5);
+  let at = 0;
+  for (let b = 0; b < blocks; b++) {
+    const start = b * MAX_STORED;
+    const size = Math.min(MAX_STORED, input.length - start);
+    output.set([b === blocks - 1 ? 1 : 0, size & 0xff, size >> 8, ~size & 0xff, (~size >> 8) & 0xff], at);
+    output.set(input.subarray(start, start + size), at + 5);
+    at += 5 + size;
+  }
+  return output;
+};
+
+export const deflate = (input: Uint8Array): Uint8Array => {
+  const compressed = compressFixed(input);
+  const data = compressed.length < input.length + 5 * Math.max(1, Math.ceil(input.length / MAX_STORED))
+    ? compressed
+    : storedBlocks(input);
+  // zlib のヘッダー（32KB の窓）とチェックサム
+  const output = new Uint8Array(2 + data.length + 4);
+  output.set([0x78, 0x9c]);
+  output.set(data, 2);
+  new DataView(output.buffer).setUint32(2 + data.length, adler32(input));
+  return output;
+};
@@ -0,0 +1,67 @@
+import { MASK_EXCLUDED, analyzePixels, hsvShadowRatio, labLightness, maskToRGBA } from '.';
+
+const options = {
+  segmentationIndex: 'ExG',
+  thresholdMethod: 'manual' as const,
+  threshold: 0.1,
+  selectedIndices: { ExG: true }
+};
+
+describe('analyzePixels with exclusions', () => {
+  // 葉、土、白飛び、黒い縁
+  const data = new Uint8ClampedArray([
+    40, 160, 40, 255, 150, 120, 90, 255,
+    255, 255, 255, 255, 0, 0, 0, 255
+  ]);
+
+  test('excludes saturated and dark pixels from coverage and indices', () => {
+    const { result, mask } = analyzePixels(data, 2, 2, { ...options, exclusions: { saturated: 250, dark: 10 } });
+
+    expect(result.totalPixels).toBe(4);
+    expect(result.excludedPixels).toBe(2);
+    expect(result.validPixels).toBe(2);
+    expect(result.vegetationCoverage).toBe(50);
+    expect(result.exclusions).toEqual({ saturated: 1, dark: 1, shadow: 0 });
+    // 黒は色度が定義されず除外されていたが、今は除外画素として数える
+    expect(result.skippedPixels.ExG).toBe(0);
+    expect(Array.from(mask)).toEqual([1, 0, MASK_EXCLUDED, MASK_EXCLUDED]);
+  });
+
+  test('keeps every pixel without exclusion options', () => {
+    const { result } = analyzePixels(data, 2, 2, options);
+
+    expect(result.excludedPixels).toBe(0);
+    expect(result.validPixels).toBe(4);
+    expect(result.vegetationCoverage).toBe(25);
+    expect(result.exclusions).toBeUndefined();
+  });
+
+  test('detects shadows relative to the image lightness', () => {
+    const shaded = new Uint8ClampedArray([
+      40, 160, 40, 255, 150, 120, 90, 255,
+      150, 120, 90, 255, 20, 30, 15, 255
+    ]);
+    const { result } = analyzePixels(shaded, 2, 2, { ...options, exclusions: { shadow: { method: 'lab', threshold: 1 } } });
+
+    expect(result.exclusions?.shadow).toBe(1);
+    expect(result.validPixels).toBe(3);
+  });
+});
+
+describe('shadow measures', () => {
+  test('rates dark saturated pixels as shadow', () => {
+    expect(hsvShadowRatio(20, 30, 35)).toBeGreaterThan(0.4);
+    expect(hsvShadowRatio(200, 190, 180)).toBeLessThan(0);
+    expect(hsvShadowRatio(0, 0, 0)).toBe(1);
+  });
+
+  test('computes CIE lightness', () => {
+    expect(labLightness(255, 255, 255)).toBeCloseTo(100);
+    expect(labLightness(0, 0, 0)).toBe(0);
+    expect(labLightness(119, 119, 119)).toBeCloseTo(50, 0);
+  });
+
+  test('shows excluded pixels in a distinct colour', () => {
+    expect(Array.from(maskToRGBA(new Uint8Array([MASK_EXCLUDED])))).toEqual([220, 38, 38, 255]);
+  });
+});
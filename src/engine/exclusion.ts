@@ -0,0 +1,126 @@
+import { ExclusionOptions, ExclusionReason } from './types';
+
+// 除外の理由（判定はこの順に行い、最初に当てはまった理由を使う）
+export const EXCLUSION_REASONS: ExclusionReason[] = ['saturated', 'dark', 'shadow'];
+
+// 画素ごとの除外理由（0: 除外しない、k + 1: EXCLUSION_REASONS[k]）
+export const EXCLUDED_NONE = 0;
+
+const srgbToLinear = (value: number): number => {
+  const c = value / 255;
+  return c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+};
+
+// CIE L*a*b* の明度 L*（sRGB、D65）
+export const labLightness = (r: number, g: number, b: number): number => {
+  const y = 0.2126 * srgbToLinear(r) + 0.7152 * srgbToLinear(g) + 0.0722 * srgbToLinear(b);
+  return y > 216 / 24389 ? 116 * Math.cbrt(y) - 16 : (y * 24389) / 27;
+};
+
+const labF = (t: number): number => t > 216 / 24389 ? Math.cbrt(t) : ((24389 / 27) * t + 16) / 116;
+
+// CIE L*a*b*（sRGB、D65）
+export const rgbToLab = (r: number, g: number, b: number): [number, number, number] => {
+  const lr = srgbToLinear(r);
+  const lg = srgbToLinear(g);
+  const lb = srgbToLinear(b);
+  const fx = labF((0.4124 * lr + 0.3576 * lg + 0.1805 * lb) / 0.95047);
+  const fy = labF(0.2126 * lr + 0.7152 * lg + 0.0722 * lb);
+  const fz = labF((0.0193 * lr + 0.1192 * lg + 0.9505 * lb) / 1.08883);
+  return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+};
+
+// HSV の彩度と明度から求める影の指標 (S − V) / (S + V)（暗く彩度の高い画素ほど大きい、黒は 1）
+export const hsvShadowRatio = (r: number, g: number, b: number): number => {
+  const max = Math.max(r, g, b);
+  if (max === 0) return 1;
+  const v = max / 255;
+  const s = (max - Math.min(r, g, b)) / max;
+  return (s - v) / (s + v);
+};
+
+// 白飛び・黒つぶれの判定（当てはまらなければ EXCLUDED_NONE）
+const brightnessExclusion = (data: Uint8ClampedArray, i: number, options: ExclusionOptions): number => {
+  const { saturated, dark } = options;
+  const max = Math.max(data[i], data[i + 1], data[i + 2]);
+  if (saturated !== undefined && max >= saturated) return EXCLUSION_REASONS.indexOf('saturated') + 1;
+  if (dark !== undefined && max <= dark) return EXCLUSION_REASONS.indexOf('dark') + 1;
+  return EXCLUDED_NONE;
+};
+
+// 影（lab）の閾値を求めるための L* の件数・合計・二乗和
+export interface LightnessMoments {
+  count: number;
+  sum: number;
+  sumSquares: number;
+}
+
+export const createLightnessMoments = (): LightnessMoments => ({ count: 0, sum: 0, sumSquares: 0 });
+
+// 白飛び・黒つぶれ以外の対象画素の L* を加える（タイルごとに加えれば画像全体の値になる）
+export const addLightness = (
+  moments: LightnessMoments,
+  data: Uint8ClampedArray,
+  pixelCount: number,
+  options: ExclusionOptions,
+  include: (pixelIndex: number) => boolean
+): void => {
+  for (let p = 0; p < pixelCount; p++) {
+    if (!include(p) || brightnessExclusion(data, p * 4, options) !== EXCLUDED_NONE) continue;
+    const i = p * 4;
+    const value = labLightness(data[i], data[i + 1], data[i + 2]);
+    moments.count++;
+    moments.sum += value;
+    moments.sumSquares += value * value;
+  }
+};
+
+// L* が「平均 − threshold × 標準偏差」より小さい画素を影とする（対象画素がなければ null）
+export const shadowLightnessLimit = (moments: LightnessMoments, threshold: number): number | null => {
+  if (moments.count === 0) return null;
+  const mean = moments.sum / moments.count;
+  const std = Math.sqrt(Math.max(0, moments.sumSquares / moments.count - mean * mean));
+  return mean - threshold * std;
+};
+
+// 除外する画素を判定する（include が false の画素は判定しない）
+// lightnessLimit: 影（lab）の L* の閾値（省略時は data の画素から求める。タイルごとに判定する場合は画像全体の値を渡す）
+export const classifyExclusions = (
+  data: Uint8ClampedArray,
+  pixelCount: number,
+  options: ExclusionOptions,
+  include: (pixelIndex: number) => boolean,
+  lightnessLimit?: number | null
+): Uint8Array => {
+  const reasons = new Uint8Array(pixelCount);
+  const { shadow } = options;
+  const shadowCode = EXCLUSION_REASONS.indexOf('shadow') + 1;
+
+  for (let p = 0; p < pixelCount; p++) {
+    if (!include(p)) continue;
+    reasons[p] = brightnessExclusion(data, p * 4, options);
+  }
+
+  if (shadow?.method === 'hsv') {
+    for (let p = 0; p < pixelCount; p++) {
+      if (reasons[p] !== EXCLUDED_NONE || !include(p)) continue;
+      const i = p * 4;
+      if (hsvShadowRatio(data[i], data[i + 1], data[i + 2]) > shadow.threshold) reasons[p] = shadowCode;
+    }
+  } else if (shadow?.method === 'lab') {
+    let limit = lightnessLimit;
+    if (limit === undefined) {
+      const moments = createLightnessMoments();
+      addLightness(moments, data, pixelCount, options, include);
+      limit = shadowLightnessLimit(moments, shadow.threshold);
+    }
+    if (limit !== null) {
+      for (let p = 0; p < pixelCount; p++) {
+        if (reasons[p] !== EXCLUDED_NONE || !include(p)) continue;
+        const i = p * 4;
+        if (labLightness(data[i], data[i + 1], data[i + 2]) < limit) reasons[p] = shadowCode;
+      }
+    }
+  }
+  return reasons;
+};
@@ -0,0 +1,123 @@
+import { readExif } from '.';
+
+type Entry = { tag: number; type: number; value: string | number[] | { ifd: number } };
+
+// リトルエンディアンの TIFF を組み立てる（{ ifd: n } は n 番目の IFD へのポインタ）
+const buildTiff = (ifds: Entry[][]): Uint8Array => {
+  const ifdOffsets: number[] = [];
+  let offset = 8;
+  ifds.forEach(entries => {
+    ifdOffsets.push(offset);
+    offset += 2 + entries.length * 12 + 4;
+  });
+  const bytes = new Uint8Array(offset + 256);
+  const view = new DataView(bytes.buffer);
+  bytes.set([0x49, 0x49, 42, 0]);
+  view.setUint32(4, ifdOffsets[0], true);
+
+  let dataOffset = offset;
+  ifds.forEach((entries, i) => {
+    view.setUint16(ifdOffsets[i], entries.length, true);
+    entries.forEach(({ tag, type, value }, e) => {
+      const entry = ifdOffsets[i] + 2 + e * 12;
+      view.setUint16(entry, tag, true);
+      view.setUint16(entry + 2, type, true);
+      if (typeof value === 'string') {
+        // 4バイト以下の値はエントリ内に格納
+        const chars = Array.from(value, c => c.charCodeAt(0));
+        view.setUint32(entry + 4, value.length + 1, true);
+        if (value.length + 1 <= 4) {
+          bytes.set(chars, entry + 8);
+        } else {
+          view.setUint32(entry + 8, dataOffset, true);
+          bytes.set(chars, dataOffset);
+          dataOffset += value.length + 1;
+        }
+      } else if (!Array.isArray(value)) {
+        view.setUint32(entry + 4, 1, true);
+        view.setUint32(entry + 8, ifdOffsets[value.ifd], true);
+      } else if (type === 5) {
+        // 有理数は分母 1000 で格納
+        view.setUint32(entry + 4, value.length, true);
+        view.setUint32(entry + 8, dataOffset, true);
+        value.forEach(v => {
+          view.setUint32(dataOffset, Math.round(v * 1000), true);
+          view.setUint32(dataOffset + 4, 1000, true);
+          dataOffset += 8;
+        });
+      } else {
+        view.setUint32(entry + 4, 1, true);
+        view.setUint16(entry + 8, value[0], true);
+      }
+    });
+  });
+  return bytes;
+};
+
+const asJpeg = (tiff: Uint8Array, xmp = ''): Uint8Array => {
+  const segment = (header: number[], payload: Uint8Array) => {
+    const length = 2 + header.length + payload.length;
+    return [0xff, 0xe1, length >> 8, length & 0xff, ...header, ...Array.from(payload)];
+  };
+  const ascii = (text: string) => Array.from(text, c => c.charCodeAt(0));
+  return new Uint8Array([
+    0xff, 0xd8,
+    ...segment(ascii('Exif\0\0'), tiff),
+    ...(xmp ? segment(ascii('http://ns.adobe.com/xap/1.0/\0'), new Uint8Array(ascii(xmp))) : []),
+    0xff, 0xd9
+  ]);
+};
+
+const sampleTiff = () => buildTiff([
+  [
+    { tag: 0x010f, type: 2, value: 'DJI' },
+    { tag: 0x0110, type: 2, value: 'FC6310' },
+    { tag: 0x8769, type: 4, value: { ifd: 1 } },
+    { tag: 0x8825, type: 4, value: { ifd: 2 } }
+  ],
+  [
+    { tag: 0x829a, type: 5, value: [0.002] },
+    { tag: 0x829d, type: 5, value: [2.8] },
+    { tag: 0x8827, type: 3, value: [100] },
+    { tag: 0x9003, type: 2, value: '2024:05:15 10:30:00' },
+    { tag: 0x920a, type: 5, value: [8.8] }
+  ],
+  [
+    { tag: 0x0001, type: 2, value: 'S' },
+    { tag: 0x0002, type: 5, value: [35, 30, 36] },
+    { tag: 0x0003, type: 2, value: 'E' },
+    { tag: 0x0004, type: 5, value: [139, 45, 0] },
+    { tag: 0x0006, type: 5, value: [123.4] }
+  ]
+]);
+
+describe('readExif', () => {
+  test('reads capture, camera, exposure and GPS tags from a TIFF header', () => {
+    const data = readExif(sampleTiff().buffer);
+    expect(data).toMatchObject({
+      dateTimeOriginal: '2024-05-15T10:30:00',
+      make: 'DJI',
+      model: 'FC6310',
+      exposureTime: 0.002,
+      fNumber: 2.8,
+      iso: 100,
+      focalLength: 8.8,
+      longitude: 139.75
+    });
+    expect(data.latitude).toBeCloseTo(-35.51, 10);
+    expect(data.altitude).toBeCloseTo(123.4, 10);
+  });
+
+  test('finds the Exif and XMP segments in a JPEG', () => {
+    const xmp = '<rdf:Description drone-dji:RelativeAltitude="+30.20" drone-dji:GimbalPitchDegree="-90.0">'
+      + '<drone-dji:GimbalYawDegree>12.5</drone-dji:GimbalYawDegree></rdf:Description>';
+    const data = readExif(asJpeg(sampleTiff(), xmp).buffer);
+    expect(data.dateTimeOriginal).toBe('2024-05-15T10:30:00');
+    expect(data).toMatchObject({ relativeAltitude: 30.2, gimbalPitch: -90, gimbalYaw: 12.5 });
+    expect(data.gimbalRoll).toBeUndefined();
+  });
+
+  test('returns an empty object without EXIF', () => {
+    expect(readExif(new Uint8Array([0xff, 0xd8, 0xff, 0xd9]).buffer)).toEqual({});
+  });
+});
@@ -0,0 +1,234 @@
+// EXIF（JPEG の APP1 または TIFF のヘッダー）と XMP（DJI の雲台角度など）の読み取り
+// IFD のエントリをタグ番号ごとに文字列または数値の配列として返す
+
+export type ExifValue = string | number[];
+export type ExifTags = Map<number, ExifValue>;
+
+// TIFF のデータ型ごとのバイト数
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8 };
+
+const TAG_MAKE = 0x010f;
+const TAG_MODEL = 0x0110;
+const TAG_DATE_TIME = 0x0132;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_EXPOSURE_TIME = 0x829a;
+const TAG_F_NUMBER = 0x829d;
+const TAG_ISO = 0x8827;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+const TAG_EXPOSURE_BIAS = 0x9204;
+const TAG_FOCAL_LENGTH = 0x920a;
+const TAG_FOCAL_LENGTH_35MM = 0xa405;
+const TAG_GPS_LATITUDE_REF = 0x0001;
+const TAG_GPS_LATITUDE = 0x0002;
+const TAG_GPS_LONGITUDE_REF = 0x0003;
+const TAG_GPS_LONGITUDE = 0x0004;
+const TAG_GPS_ALTITUDE_REF = 0x0005;
+const TAG_GPS_ALTITUDE = 0x0006;
+
+export interface ExifData {
+  // 撮影日時（EXIF の "YYYY:MM:DD HH:MM:SS" を ISO 形式 "YYYY-MM-DDTHH:MM:SS" に変換）
+  dateTimeOriginal?: string;
+  make?: string;
+  model?: string;
+  // 焦点距離（mm）と 35mm 判換算
+  focalLength?: number;
+  focalLength35mm?: number;
+  // 露出時間（秒）、F値、ISO感度、露出補正（EV）
+  exposureTime?: number;
+  fNumber?: number;
+  iso?: number;
+  exposureBias?: number;
+  // GPS（度、南緯・西経は負、高度は海抜 m）
+  latitude?: number;
+  longitude?: number;
+  altitude?: number;
+  // DJI の XMP（離陸地点からの高度 m と、雲台・機体の角度 度）
+  relativeAltitude?: number;
+  gimbalPitch?: number;
+  gimbalRoll?: number;
+  gimbalYaw?: number;
+  flightYaw?: number;
+}
+
+// XMP の属性（drone-dji 名前空間）と ExifData の項目
+const DJI_XMP_FIELDS: Array<[string, keyof ExifData]> = [
+  ['RelativeAltitude', 'relativeAltitude'],
+  ['GimbalPitchDegree', 'gimbalPitch'],
+  ['GimbalRollDegree', 'gimbalRoll'],
+  ['GimbalYawDegree', 'gimbalYaw'],
+  ['FlightYawDegree', 'flightYaw']
+];
+
+const XMP_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+
+interface TiffReader {
+  view: DataView;
+  // TIFF ヘッダーの先頭位置（オフセットの基準）
+  base: number;
+  littleEndian: boolean;
+}
+
+const readValue = (reader: TiffReader, type: number, offset: number): number => {
+  const { view, littleEndian } = reader;
+  switch (type) {
+    case 3: return view.getUint16(offset, littleEndian);
+    case 4: return view.getUint32(offset, littleEndian);
+    case 5: return view.getUint32(offset, littleEndian) / view.getUint32(offset + 4, littleEndian);
+    case 6: return view.getInt8(offset);
+    case 8: return view.getInt16(offset, littleEndian);
+    case 9: return view.getInt32(offset, littleEndian);
+    case 10: return view.getInt32(offset, littleEndian) / view.getInt32(offset + 4, littleEndian);
+    case 11: return view.getFloat32(offset, littleEndian);
+    case 12: return view.getFloat64(offset, littleEndian);
+    default: return view.getUint8(offset);
+  }
+};
+
+// offset（TIFF ヘッダー基準）の IFD を読む。範囲外のエントリは無視する
+const readIfd = (reader: TiffReader, offset: number): ExifTags => {
+  const { view, base, littleEndian } = reader;
+  const tags: ExifTags = new Map();
+  const start = base + offset;
+  if (start + 2 > view.byteLength) return tags;
+
+  const count = view.getUint16(start, littleEndian);
+  for (let e = 0; e < count; e++) {
+    const entry = start + 2 + e * 12;
+    if (entry + 12 > view.byteLength) break;
+    const tag = view.getUint16(entry, littleEndian);
+    const type = view.getUint16(entry + 2, littleEndian);
+    const n = view.getUint32(entry + 4, littleEndian);
+    const size = (TYPE_SIZES[type] ?? 1) * n;
+    const valueOffset = size <= 4 ? entry + 8 : base + view.getUint32(entry + 8, littleEndian);
+    if (valueOffset + size > view.byteLength) continue;
+
+    if (type === 2) {
+      let text = '';
+      for (let i = 0; i < n; i++) {
+        const code = view.getUint8(valueOffset + i);
+        if (code === 0) break;
+        text += String.fromCharCode(code);
+      }
+      tags.set(tag, text.trim());
+    } else {
+      const typeSize = TYPE_SIZES[type] ?? 1;
+      tags.set(tag, Array.from({ length: n }, (_, i) => readValue(reader, type, valueOffset + i * typeSize)));
+    }
+  }
+  return tags;
+};
+
+// TIFF ヘッダー（"II*\0" または "MM\0*"）の位置から読み取りの準備をする
+const createTiffReader = (view: DataView, base: number): TiffReader | null => {
+  if (base + 8 > view.byteLength) return null;
+  const order = view.getUint16(base);
+  if (order !== 0x4949 && order !== 0x4d4d) return null;
+  const littleEndian = order === 0x4949;
+  if (view.getUint16(base + 2, littleEndian) !== 42) return null;
+  return { view, base, littleEndian };
+};
+
+const readAscii = (view: DataView, start: number, end: number): string => {
+  let text = '';
+  for (let i = start; i < Math.min(end, view.byteLength); i++) text += String.fromCharCode(view.getUint8(i));
+  return text;
+};
+
+// JPEG の APP1 セグメントから Exif（TIFF ヘッダーの位置）と XMP（文字列）を探す
+const findSegments = (view: DataView): { tiff: number; xmp: string } => {
+  const segments = { tiff: -1, xmp: '' };
+  if (view.byteLength < 4) return segments;
+  if (view.getUint16(0) !== 0xffd8) {
+    if (createTiffReader(view, 0)) segments.tiff = 0;
+    return segments;
+  }
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) break;
+    const length = view.getUint16(offset + 2);
+    if (marker === 0xffe1) {
+      if (segments.tiff < 0 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966) {
+        segments.tiff = offset + 10;
+      } else if (!segments.xmp && readAscii(view, offset + 4, offset + 4 + XMP_HEADER.length) === XMP_HEADER) {
+        segments.xmp = readAscii(view, offset + 4 + XMP_HEADER.length, offset + 2 + length);
+      }
+    }
+    offset += 2 + length;
+  }
+  return segments;
+};
+
+const firstNumber = (value: ExifValue | undefined): number | undefined =>
+  Array.isArray(value) && value.length > 0 && Number.isFinite(value[0]) ? value[0] : undefined;
+
+const asText = (value: ExifValue | undefined): string | undefined =>
+  typeof value === 'string' && value ? value : undefined;
+
+// 度・分・秒の有理数3つを度に変換（参照が S / W の場合は負）
+const toDegrees = (value: ExifValue | undefined, ref: ExifValue | undefined): number | undefined => {
+  if (!Array.isArray(value) || value.length < 3 || !value.every(Number.isFinite)) return undefined;
+  const degrees = value[0] + value[1] / 60 + value[2] / 3600;
+  return ref === 'S' || ref === 'W' ? -degrees : degrees;
+};
+
+// XMP の drone-dji 属性（属性形式 name="…" と要素形式 <name>…</name> の両方）
+const readXmpNumber = (xmp: string, name: string): number | undefined => {
+  const match = new RegExp(`drone-dji:${name}(?:="([^"]*)"|>([^<]*)<)`).exec(xmp);
+  if (!match) return undefined;
+  const value = parseFloat(match[1] ?? match[2]);
+  return Number.isFinite(value) ? value : undefined;
+};
+
+const toIsoDateTime = (value: ExifValue | undefined): string | undefined => {
+  if (typeof value !== 'string') return undefined;
+  const match = /^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/.exec(value);
+  return match ? `${match[1]}-${match[2]}-${match[3]}T${match[4]}:${match[5]}:${match[6]}` : undefined;
+};
+
+// 値のある項目だけを残す
+const compact = (data: ExifData): ExifData =>
+  Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined)) as ExifData;
+
+// 画像ファイルの先頭部分から EXIF と XMP を読む（どちらもなければ空のオブジェクト）
+export const readExif = (buffer: ArrayBuffer): ExifData => {
+  const view = new DataView(buffer);
+  const { tiff, xmp } = findSegments(view);
+  const data: ExifData = {};
+
+  const reader = tiff >= 0 ? createTiffReader(view, tiff) : null;
+  if (reader) {
+    const ifd0 = readIfd(reader, view.getUint32(tiff + 4, reader.littleEndian));
+    const subIfd = (tag: number) => {
+      const pointer = firstNumber(ifd0.get(tag));
+      return pointer !== undefined ? readIfd(reader, pointer) : new Map<number, ExifValue>();
+    };
+    const exifIfd = subIfd(TAG_EXIF_IFD);
+    const gpsIfd = subIfd(TAG_GPS_IFD);
+
+    const altitude = firstNumber(gpsIfd.get(TAG_GPS_ALTITUDE));
+    Object.assign(data, {
+      dateTimeOriginal: toIsoDateTime(exifIfd.get(TAG_DATE_TIME_ORIGINAL) ?? ifd0.get(TAG_DATE_TIME)),
+      make: asText(ifd0.get(TAG_MAKE)),
+      model: asText(ifd0.get(TAG_MODEL)),
+      focalLength: firstNumber(exifIfd.get(TAG_FOCAL_LENGTH)),
+      focalLength35mm: firstNumber(exifIfd.get(TAG_FOCAL_LENGTH_35MM)),
+      exposureTime: firstNumber(exifIfd.get(TAG_EXPOSURE_TIME)),
+      fNumber: firstNumber(exifIfd.get(TAG_F_NUMBER)),
+      iso: firstNumber(exifIfd.get(TAG_ISO)),
+      exposureBias: firstNumber(exifIfd.get(TAG_EXPOSURE_BIAS)),
+      latitude: toDegrees(gpsIfd.get(TAG_GPS_LATITUDE), gpsIfd.get(TAG_GPS_LATITUDE_REF)),
+      longitude: toDegrees(gpsIfd.get(TAG_GPS_LONGITUDE), gpsIfd.get(TAG_GPS_LONGITUDE_REF)),
+      // 高度の参照が 1 の場合は海面下
+      altitude: altitude !== undefined && firstNumber(gpsIfd.get(TAG_GPS_ALTITUDE_REF)) === 1 ? -altitude : altitude
+    });
+  }
+
+  if (xmp) {
+    DJI_XMP_FIELDS.forEach(([name, key]) => {
+      (data as Record<string, number | undefined>)[key] = readXmpNumber(xmp, name);
+    });
+  }
+  return compact(data);
+};
@@ -0,0 +1,56 @@
+import { FormulaError, compileFormula, parseFormula } from './formula';
+import { resolveAlgorithms, validateCustomIndex } from './customIndices';
+
+describe('compileFormula', () => {
+  test('follows operator precedence and associativity', () => {
+    expect(compileFormula('1 + 2 * 3')(0, 0, 0)).toBe(7);
+    expect(compileFormula('(1 + 2) * 3')(0, 0, 0)).toBe(9);
+    expect(compileFormula('2 ^ 3 ^ 2')(0, 0, 0)).toBe(512);
+    expect(compileFormula('-2 ^ 2')(0, 0, 0)).toBe(-4);
+    expect(compileFormula('2 ^ -1')(0, 0, 0)).toBe(0.5);
+    expect(compileFormula('8 / 4 / 2')(0, 0, 0)).toBe(1);
+  });
+
+  test('evaluates r, g, b and functions', () => {
+    const exg = compileFormula('(2*g - r - b) / (r + g + b)');
+    expect(exg(40, 160, 40)).toBeCloseTo(240 / 240, 10);
+    expect(compileFormula('sqrt(G) + max(r, b) + 1e-1')(1, 4, 3)).toBeCloseTo(5.1, 10);
+  });
+});
+
+describe('parseFormula', () => {
+  test.each([
+    ['2 * ', 'Unexpected end of formula'],
+    ['(r + g', 'Expected ")"'],
+    ['r g', 'Unexpected "g"'],
+    ['window', 'Unknown variable "window"'],
+    ['window.alert(1)', 'Unexpected character "."'],
+    ['constructor(r)', 'Unknown function "constructor"'],
+    ['pow(r)', 'pow() takes 2 argument(s)'],
+    ['r; b', 'Unexpected character ";"']
+  ])('rejects %s', (source, message) => {
+    expect(() => parseFormula(source)).toThrow(FormulaError);
+    expect(() => parseFormula(source)).toThrow(message);
+  });
+});
+
+describe('validateCustomIndex', () => {
+  const definition = { key: 'CIVE', name: 'Color Index of Vegetation', formula: '0.441*r - 0.811*g + 0.385*b + 18.787', input: 'raw' as const };
+
+  test('accepts a valid definition and adds it to the algorithms', () => {
+    expect(validateCustomIndex(definition)).toBeNull();
+    const algorithms = resolveAlgorithms([definition]);
+    expect(algorithms.CIVE.input).toBe('raw');
+    expect(algorithms.CIVE.calculate(0, 0, 0)).toBeCloseTo(18.787, 10);
+    expect(algorithms.ExG).toBeDefined();
+  });
+
+  test('reports the first problem', () => {
+    expect(validateCustomIndex({ ...definition, key: '1st' })?.problem).toBe('key');
+    expect(validateCustomIndex({ ...definition, key: 'ExG' })?.problem).toBe('duplicateKey');
+    expect(validateCustomIndex(definition, [definition])?.problem).toBe('duplicateKey');
+    expect(validateCustomIndex({ ...definition, name: ' ' })?.problem).toBe('name');
+    expect(validateCustomIndex({ ...definition, formula: 'r +' })?.problem).toBe('formula');
+    expect(validateCustomIndex({ ...definition, range: [1, 0] })?.problem).toBe('range');
+  });
+});
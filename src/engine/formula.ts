@@ -0,0 +1,195 @@
+// 植生指数の数式（r, g, b の式）の構文解析。eval は使わず、構文木から関数を組み立てる
+//
+//   式     := 項 (('+' | '-') 項)*
+//   項     := 単項 (('*' | '/') 単項)*
+//   単項   := ('-' | '+') 単項 | べき
+//   べき   := 基本 ('^' 単項)?
+//   基本   := 数値 | 変数 | 関数 '(' 式 (',' 式)* ')' | '(' 式 ')'
+
+export type FormulaNode =
+  | { type: 'number'; value: number }
+  | { type: 'variable'; name: 'r' | 'g' | 'b' }
+  | { type: 'unary'; operand: FormulaNode }
+  | { type: 'binary'; operator: '+' | '-' | '*' | '/' | '^'; left: FormulaNode; right: FormulaNode }
+  | { type: 'call'; name: string; args: FormulaNode[] };
+
+export class FormulaError extends Error {
+  position: number;
+
+  constructor(message: string, position: number) {
+    super(`${message} (at ${position + 1})`);
+    this.name = 'FormulaError';
+    this.position = position;
+  }
+}
+
+// 使用できる関数と引数の数
+const FUNCTIONS: Record<string, { arity: number; apply: (...args: number[]) => number }> = {
+  sqrt: { arity: 1, apply: Math.sqrt },
+  abs: { arity: 1, apply: Math.abs },
+  log: { arity: 1, apply: Math.log },
+  exp: { arity: 1, apply: Math.exp },
+  pow: { arity: 2, apply: Math.pow },
+  min: { arity: 2, apply: Math.min },
+  max: { arity: 2, apply: Math.max }
+};
+
+export const FORMULA_FUNCTIONS = Object.keys(FUNCTIONS);
+
+interface Token {
+  kind: 'number' | 'name' | 'symbol';
+  text: string;
+  position: number;
+}
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const ch = source[i];
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (/[0-9.]/.test(ch)) {
+      const match = /^(\d+\.?\d*|\.\d+)(e[+-]?\d+)?/i.exec(source.slice(i));
+      if (!match) throw new FormulaError(`Unexpected character "${ch}"`, i);
+      tokens.push({ kind: 'number', text: match[0], position: i });
+      i += match[0].length;
+    } else if (/[A-Za-z_]/.test(ch)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i))!;
+      tokens.push({ kind: 'name', text: match[0], position: i });
+      i += match[0].length;
+    } else if ('+-*/^(),'.includes(ch)) {
+      tokens.push({ kind: 'symbol', text: ch, position: i });
+      i++;
+    } else {
+      throw new FormulaError(`Unexpected character "${ch}"`, i);
+    }
+  }
+  return tokens;
+};
+
+export const parseFormula = (source: string): FormulaNode => {
+  const tokens = tokenize(source);
+  let index = 0;
+
+  const peek = () => tokens[index];
+  const position = () => (peek() ? peek().position : source.length);
+  const acceptSymbol = (symbol: string) => {
+    const token = peek();
+    if (token && token.kind === 'symbol' && token.text === symbol) {
+      index++;
+      return true;
+    }
+    return false;
+  };
+  const expectSymbol = (symbol: string) => {
+    if (!acceptSymbol(symbol)) throw new FormulaError(`Expected "${symbol}"`, position());
+  };
+
+  const parseExpression = (): FormulaNode => {
+    let node = parseTerm();
+    for (;;) {
+      if (acceptSymbol('+')) node = { type: 'binary', operator: '+', left: node, right: parseTerm() };
+      else if (acceptSymbol('-')) node = { type: 'binary', operator: '-', left: node, right: parseTerm() };
+      else return node;
+    }
+  };
+
+  const parseTerm = (): FormulaNode => {
+    let node = parseUnary();
+    for (;;) {
+      if (acceptSymbol('*')) node = { type: 'binary', operator: '*', left: node, right: parseUnary() };
+      else if (acceptSymbol('/')) node = { type: 'binary', operator: '/', left: node, right: parseUnary() };
+      else return node;
+    }
+  };
+
+  // -2^2 は -(2^2)
+  const parseUnary = (): FormulaNode => {
+    if (acceptSymbol('-')) return { type: 'unary', operand: parseUnary() };
+    if (acceptSymbol('+')) return parseUnary();
+    return parsePower();
+  };
+
+  // べき乗は右結合
+  const parsePower = (): FormulaNode => {
+    const base = parsePrimary();
+    return acceptSymbol('^') ? { type: 'binary', operator: '^', left: base, right: parseUnary() } : base;
+  };
+
+  const parsePrimary = (): FormulaNode => {
+    const token = peek();
+    if (!token) throw new FormulaError('Unexpected end of formula', source.length);
+
+    if (token.kind === 'number') {
+      index++;
+      return { type: 'number', value: parseFloat(token.text) };
+    }
+    if (token.kind === 'name') {
+      index++;
+      const name = token.text.toLowerCase();
+      if (acceptSymbol('(')) {
+        // constructor などのプロトタイプのプロパティは関数として扱わない
+        const fn = Object.prototype.hasOwnProperty.call(FUNCTIONS, name) ? FUNCTIONS[name] : undefined;
+        if (!fn) throw new FormulaError(`Unknown function "${token.text}"`, token.position);
+        const args = [parseExpression()];
+        while (acceptSymbol(',')) args.push(parseExpression());
+        expectSymbol(')');
+        if (args.length !== fn.arity) {
+          throw new FormulaError(`${name}() takes ${fn.arity} argument(s)`, token.position);
+        }
+        return { type: 'call', name, args };
+      }
+      if (name === 'r' || name === 'g' || name === 'b') return { type: 'variable', name };
+      throw new FormulaError(`Unknown variable "${token.text}" (use r, g, b)`, token.position);
+    }
+    if (acceptSymbol('(')) {
+      const node = parseExpression();
+      expectSymbol(')');
+      return node;
+    }
+    throw new FormulaError(`Unexpected "${token.text}"`, token.position);
+  };
+
+  const node = parseExpression();
+  if (index < tokens.length) {
+    throw new FormulaError(`Unexpected "${tokens[index].text}"`, tokens[index].position);
+  }
+  return node;
+};
+
+// 構文木を (r, g, b) => number の関数に変換
+export const compileNode = (node: FormulaNode): ((r: number, g: number, b: number) => number) => {
+  switch (node.type) {
+    case 'number': {
+      const { value } = node;
+      return () => value;
+    }
+    case 'variable':
+      return node.name === 'r' ? (r) => r : node.name === 'g' ? (r, g) => g : (r, g, b) => b;
+    case 'unary': {
+      const operand = compileNode(node.operand);
+      return (r, g, b) => -operand(r, g, b);
+    }
+    case 'binary': {
+      const left = compileNode(node.left);
+      const right = compileNode(node.right);
+      switch (node.operator) {
+        case '+': return (r, g, b) => left(r, g, b) + right(r, g, b);
+        case '-': return (r, g, b) => left(r, g, b) - right(r, g, b);
+        case '*': return (r, g, b) => left(r, g, b) * right(r, g, b);
+        case '/': return (r, g, b) => left(r, g, b) / right(r, g, b);
+        case '^': return (r, g, b) => Math.pow(left(r, g, b), right(r, g, b));
+      }
+      break;
+    }
+    case 'call': {
+      const { apply } = FUNCTIONS[node.name];
+      const args = node.args.map(compileNode);
+      return (r, g, b) => apply(...args.map(arg => arg(r, g, b)));
+    }
+  }
+  throw new Error('Invalid formula node');
+};
+
+export const compileFormula = (source: string) => compileNode(parseFormula(source));
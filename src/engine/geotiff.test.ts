@@ -0,0 +1,325 @@
+import { deflateSync } from 'zlib';
+import { TIFF_TAGS, bytesSource, createTiffWriter, inflate, openGeoTiff, readTiffDirectory, writeTiff } from '.';
+
+// 幅 width・高さ height の RGB の試験画像（画素ごとに異なる値）
+const rgbValues = (width: number, height: number): number[] => {
+  const values: number[] = [];
+  for (let p = 0; p < width * height; p++) values.push((p * 7) % 256, (p * 13 + 50) % 256, (p * 3 + 100) % 256);
+  return values;
+};
+
+// RGBA に並べた期待値
+const toRGBA = (values: number[]): number[] => {
+  const rgba: number[] = [];
+  for (let i = 0; i < values.length; i += 3) {
+    rgba.push(values[i], values[i + 1], values[i + 2], 255);
+  }
+  return rgba;
+};
+
+// 試験用の TIFF を組み立てる（ブロックの後に IFD とタグの値を置く）
+const buildTiff = (
+  fields: Array<[number, number, number[]]>,
+  blocks: Uint8Array[],
+  blockTags: [number, number],
+  { littleEndian = true, bigTiff = false } = {}
+): Uint8Array => {
+  const headerSize = bigTiff ? 16 : 8;
+  const offsets: number[] = [];
+  let position = headerSize;
+  blocks.forEach(block => {
+    offsets.push(position);
+    position += block.length;
+  });
+  const offsetType = bigTiff ? 16 : 4;
+  const all: Array<[number, number, number[]]> = [
+    ...fields,
+    [blockTags[0], offsetType, offsets],
+    [blockTags[1], offsetType, blocks.map(block => block.length)]
+  ];
+  all.sort((a, b) => a[0] - b[0]);
+  const sizes: Record<number, number> = { 3: 2, 4: 4, 12: 8, 16: 8 };
+  const entrySize = bigTiff ? 20 : 12;
+  const valueSize = bigTiff ? 8 : 4;
+  const ifdOffset = position;
+  let valuesOffset = ifdOffset + (bigTiff ? 8 : 2) + all.length * entrySize + valueSize;
+  const total = valuesOffset + all.reduce((sum, [, type, values]) => sum + sizes[type] * values.length, 0);
+  const bytes = new Uint8Array(total);
+  const view = new DataView(bytes.buffer);
+  const le = littleEndian;
+  const setNumber = (at: number, type: number, value: number) => {
+    if (type === 3) view.setUint16(at, value, le);
+    else if (type === 4) view.setUint32(at, value, le);
+    else if (type === 12) view.setFloat64(at, value, le);
+    else view.setBigUint64(at, BigInt(value), le);
+  };
+
+  bytes.set(le ? [0x49, 0x49] : [0x4d, 0x4d]);
+  view.setUint16(2, bigTiff ? 43 : 42, le);
+  if (bigTiff) {
+    view.setUint16(4, 8, le);
+    setNumber(8, 16, ifdOffset);
+  } else {
+    view.setUint32(4, ifdOffset, le);
+  }
+  let at = headerSize;
+  blocks.forEach(block => {
+    bytes.set(block, at);
+    at += block.length;
+  });
+  setNumber(ifdOffset, bigTiff ? 16 : 3, all.length);
+  all.forEach(([tag, type, values], e) => {
+    const entry = ifdOffset + (bigTiff ? 8 : 2) + e * entrySize;
+    view.setUint16(entry, tag, le);
+    view.setUint16(entry + 2, type, le);
+    setNumber(entry + 4, bigTiff ? 16 : 4, values.length);
+    let valueAt = entry + (bigTiff ? 12 : 8);
+    if (sizes[type] * values.length > valueSize) {
+      setNumber(valueAt, bigTiff ? 16 : 4, valuesOffset);
+      valueAt = valuesOffset;
+      valuesOffset += sizes[type] * values.length;
+    }
+    values.forEach((value, k) => setNumber(valueAt + k * sizes[type], type, value));
+  });
+  return bytes;
+};
+
+// TIFF の LZW（上位ビットから、符号長の切り替えは復号側より1つ遅い）
+const lzwEncode = (data: Uint8Array): Uint8Array => {
+  const output: number[] = [];
+  let buffer = 0;
+  let bufferBits = 0;
+  let width = 9;
+  const emit = (code: number) => {
+    buffer = (buffer << width) | code;
+    bufferBits += width;
+    while (bufferBits >= 8) {
+      output.push((buffer >> (bufferBits - 8)) & 0xff);
+      bufferBits -= 8;
+    }
+    buffer &= (1 << bufferBits) - 1;
+  };
+  let dictionary = new Map<string, number>();
+  let next = 258;
+  emit(256);
+  let word = '';
+  data.forEach(byte => {
+    const extended = word + String.fromCharCode(byte);
+    if (word === '' || dictionary.has(extended)) {
+      word = extended;
+      return;
+    }
+    emit(word.length === 1 ? word.charCodeAt(0) : dictionary.get(word)!);
+    dictionary.set(extended, next++);
+    if (next > (1 << width) - 1) width++;
+    if (next === 4093) {
+      emit(256);
+      dictionary = new Map();
+      next = 258;
+      width = 9;
+    }
+    word = String.fromCharCode(byte);
+  });
+  if (word !== '') emit(word.length === 1 ? word.charCodeAt(0) : dictionary.get(word)!);
+  emit(257);
+  if (bufferBits > 0) output.push((buffer << (8 - bufferBits)) & 0xff);
+  return Uint8Array.from(output);
+};
+
+const PACKBITS_BLOCK = (data: Uint8Array): Uint8Array => {
+  // 128 バイトずつのリテラルのみ
+  const output: number[] = [];
+  for (let i = 0; i < data.length; i += 128) {
+    const chunk = Array.from(data.subarray(i, i + 128));
+    output.push(chunk.length - 1, ...chunk);
+  }
+  return Uint8Array.from(output);
+};
+
+// 水平差分（Predictor 2）
+const differences = (data: Uint8Array, rowBytes: number, samples: number): Uint8Array => {
+  const output = data.slice();
+  for (let i = 0; i < data.length; i++) {
+    if (i % rowBytes >= samples) output[i] = (data[i] - data[i - samples]) & 0xff;
+  }
+  return output;
+};
+
+// 行ごとのストリップに分ける
+const strips = (values: number[], rowBytes: number, rowsPerStrip: number): Uint8Array[] => {
+  const result: Uint8Array[] = [];
+  for (let i = 0; i < values.length; i += rowBytes * rowsPerStrip) {
+    result.push(Uint8Array.from(values.slice(i, i + rowBytes * rowsPerStrip)));
+  }
+  return result;
+};
+
+const GEO_FIELDS: Array<[number, number, number[]]> = [
+  [TIFF_TAGS.modelPixelScale, 12, [0.05, 0.05, 0]],
+  [TIFF_TAGS.modelTiepoint, 12, [0, 0, 0, 500000, 4000000, 0]],
+  [TIFF_TAGS.geoKeyDirectory, 3, [1, 1, 0, 2, 1024, 0, 1, 1, 3072, 0, 1, 32654]]
+];
+
+describe('openGeoTiff', () => {
+  const width = 10;
+  const height = 7;
+  const values = rgbValues(width, height);
+  const baseFields = (samples: number): Array<[number, number, number[]]> => [
+    [TIFF_TAGS.imageWidth, 3, [width]],
+    [TIFF_TAGS.imageLength, 3, [height]],
+    [TIFF_TAGS.bitsPerSample, 3, new Array(samples).fill(8)],
+    [TIFF_TAGS.photometric, 3, [2]],
+    [TIFF_TAGS.samplesPerPixel, 3, [samples]]
+  ];
+
+  test('reads strips with each compression and byte order, and the geotransform and CRS', async () => {
+    const rowBytes = width * 3;
+    const cases: Array<{ compression: number; predictor?: number; encode: (block: Uint8Array) => Uint8Array; littleEndian: boolean }> = [
+      { compression: 1, encode: block => block, littleEndian: false },
+      { compression: 5, encode: lzwEncode, littleEndian: true },
+      { compression: 5, predictor: 2, encode: block => lzwEncode(differences(block, rowBytes, 3)), littleEndian: false },
+      { compression: 8, encode: block => deflateSync(block), littleEndian: true },
+      { compression: 32773, encode: PACKBITS_BLOCK, littleEndian: true }
+    ];
+    for (const { compression, predictor, encode, littleEndian } of cases) {
+      const fields: Array<[number, number, number[]]> = [
+        ...baseFields(3),
+        [TIFF_TAGS.compression, 3, [compression]],
+        [TIFF_TAGS.rowsPerStrip, 3, [3]],
+        ...(predictor ? [[TIFF_TAGS.predictor, 3, [predictor]] as [number, number, number[]]] : []),
+        ...GEO_FIELDS
+      ];
+      const tiff = buildTiff(fields, strips(values, rowBytes, 3).map(encode), [TIFF_TAGS.stripOffsets, TIFF_TAGS.stripByteCounts], { littleEndian });
+      const image = await openGeoTiff(bytesSource(tiff));
+      expect([image.width, image.height, image.blockWidth, image.blockHeight]).toEqual([width, height, width, 3]);
+      expect(Array.from(await image.read(0, 0, width, height))).toEqual(toRGBA(values));
+      expect(image.geo.transform).toEqual([500000, 0.05, 0, 4000000, 0, -0.05]);
+      expect(image.geo.epsg).toBe(32654);
+      expect(image.geo.metersPerPixel).toBeCloseTo(0.05, 12);
+    }
+  });
+
+  test('decodes long LZW strips across code width changes and table resets', async () => {
+    const large = rgbValues(120, 80).map((value, i) => (i % 11 === 0 ? (i * 31) % 256 : value));
+    const fields: Array<[number, number, number[]]> = [
+      [TIFF_TAGS.imageWidth, 3, [120]],
+      [TIFF_TAGS.imageLength, 3, [80]],
+      [TIFF_TAGS.bitsPerSample, 3, [8, 8, 8]],
+      [TIFF_TAGS.compression, 3, [5]],
+      [TIFF_TAGS.samplesPerPixel, 3, [3]]
+    ];
+    const tiff = buildTiff(fields, [lzwEncode(Uint8Array.from(large))], [TIFF_TAGS.stripOffsets, TIFF_TAGS.stripByteCounts]);
+    const image = await openGeoTiff(bytesSource(tiff));
+    expect(Array.from(await image.read(0, 0, 120, 80))).toEqual(toRGBA(large));
+  });
+
+  test('reads windows across tiles of a planar BigTIFF with alpha', async () => {
+    const rgba: number[] = [];
+    for (let p = 0; p < width * height; p++) rgba.push(values[p * 3], values[p * 3 + 1], values[p * 3 + 2], p % 2 ? 255 : 0);
+    const smallTile = 4;
+    // 4×4 のタイルを4面（R, G, B, A）に分けて並べる
+    const blocks: Uint8Array[] = [];
+    for (let s = 0; s < 4; s++) {
+      for (let tileY = 0; tileY < height; tileY += smallTile) {
+        for (let tileX = 0; tileX < width; tileX += smallTile) {
+          const block = new Uint8Array(smallTile * smallTile);
+          for (let y = 0; y < smallTile; y++) {
+            for (let x = 0; x < smallTile; x++) {
+              if (tileX + x < width && tileY + y < height) block[y * smallTile + x] = rgba[((tileY + y) * width + tileX + x) * 4 + s];
+            }
+          }
+          blocks.push(block);
+        }
+      }
+    }
+    const fields: Array<[number, number, number[]]> = [
+      ...baseFields(4),
+      [TIFF_TAGS.planarConfiguration, 3, [2]],
+      [TIFF_TAGS.tileWidth, 3, [smallTile]],
+      [TIFF_TAGS.tileLength, 3, [smallTile]],
+      [TIFF_TAGS.extraSamples, 3, [2]]
+    ];
+    const tiff = buildTiff(fields, blocks, [TIFF_TAGS.tileOffsets, TIFF_TAGS.tileByteCounts], { bigTiff: true });
+    const image = await openGeoTiff(bytesSource(tiff));
+    expect(image.bigTiff).toBe(true);
+    const window = await image.read(3, 2, 6, 5);
+    const expected: number[] = [];
+    for (let y = 2; y < 7; y++) {
+      for (let x = 3; x < 9; x++) expected.push(...rgba.slice((y * width + x) * 4, (y * width + x) * 4 + 4));
+    }
+    expect(Array.from(window)).toEqual(expected);
+  });
+
+  test('rejects unsupported images', async () => {
+    const fields: Array<[number, number, number[]]> = [...baseFields(3), [TIFF_TAGS.compression, 3, [7]]];
+    const tiff = buildTiff(fields, strips(values, width * 3, height), [TIFF_TAGS.stripOffsets, TIFF_TAGS.stripByteCounts]);
+    await expect(openGeoTiff(bytesSource(tiff))).rejects.toThrow('Unsupported TIFF compression: 7');
+    await expect(openGeoTiff(bytesSource(new Uint8Array(16)))).rejects.toThrow('Not a TIFF file');
+  });
+});
+
+describe('writeTiff', () => {
+  test('writes tiles that read back with the same geo tags', async () => {
+    const width = 40;
+    const height = 20;
+    const values = rgbValues(width, height);
+    const fields: Array<[number, number, number[]]> = [
+      [TIFF_TAGS.imageWidth, 3, [width]],
+      [TIFF_TAGS.imageLength, 3, [height]],
+      [TIFF_TAGS.bitsPerSample, 3, [8, 8, 8]],
+      [TIFF_TAGS.samplesPerPixel, 3, [3]],
+      ...GEO_FIELDS
+    ];
+    const source = await openGeoTiff(bytesSource(buildTiff(fields, [Uint8Array.from(values)], [TIFF_TAGS.stripOffsets, TIFF_TAGS.stripByteCounts])));
+
+    const rgb = writeTiff({ width, height, samplesPerPixel: 3, sampleType: 'uint8', tileSize: 16, geo: source.geo }, values);
+    const image = await openGeoTiff(bytesSource(rgb));
+    expect([image.blockWidth, image.blockHeight]).toEqual([16, 16]);
+    expect(Array.from(await image.read(0, 0, width, height))).toEqual(toRGBA(values));
+    expect(image.geo).toEqual(source.geo);
+
+    // 単バンドの float32（値はタイルの左上から順に並ぶ）
+    const indexValues = Array.from({ length: width * height }, (_, p) => (p % 5 === 0 ? NaN : p / 10));
+    const float = writeTiff({ width, height, sampleType: 'float32', tileSize: 16, geo: source.geo, noData: 'nan' }, indexValues);
+    const { entries } = await readTiffDirectory(bytesSource(float));
+    expect(entries.get(TIFF_TAGS.bitsPerSample)?.values).toEqual([32]);
+    expect(entries.get(TIFF_TAGS.sampleFormat)?.values).toEqual([3]);
+    expect(entries.get(TIFF_TAGS.gdalNoData)?.values).toBe('nan');
+    expect(entries.get(TIFF_TAGS.geoKeyDirectory)?.values).toEqual(GEO_FIELDS[2][2]);
+    expect(entries.get(TIFF_TAGS.compression)?.values).toEqual([8]);
+    const offsets = entries.get(TIFF_TAGS.tileOffsets)?.values as number[];
+    const counts = entries.get(TIFF_TAGS.tileByteCounts)?.values as number[];
+    expect(offsets).toHaveLength(6);
+    // タイルはヘッダーの直後から隙間なく並ぶ
+    expect(offsets[0]).toBe(8);
+    expect(offsets[5]).toBe(offsets[0] + counts.slice(0, 5).reduce((sum, count) => sum + count, 0));
+    const tile = (i: number) => new DataView(inflate(float.subarray(offsets[i], offsets[i] + counts[i])).slice().buffer);
+    // 2つ目のタイルの (1, 2) は画素 (17, 2)
+    expect(tile(1).getFloat32((2 * 16 + 1) * 4, true)).toBeCloseTo((2 * width + 17) / 10, 5);
+    expect(tile(0).getFloat32(0, true)).toBeNaN();
+    expect(tile(5).byteLength).toBe(16 * 16 * 4);
+  });
+
+  test('writes BigTIFF with 8-byte tile offsets', async () => {
+    const width = 40;
+    const height = 20;
+    const values = rgbValues(width, height);
+    const tiff = writeTiff({ width, height, samplesPerPixel: 3, sampleType: 'uint8', tileSize: 16, bigTiff: true }, values);
+    expect(new DataView(tiff.buffer).getUint16(2, true)).toBe(43);
+    const { entries } = await readTiffDirectory(bytesSource(tiff));
+    expect(entries.get(TIFF_TAGS.tileOffsets)?.type).toBe(16);
+    const image = await openGeoTiff(bytesSource(tiff));
+    expect(image.bigTiff).toBe(true);
+    expect(Array.from(await image.read(0, 0, width, height))).toEqual(toRGBA(values));
+  });
+
+  test('requires every tile before finishing', () => {
+    const writer = createTiffWriter({ width: 40, height: 20, sampleType: 'uint8', tileSize: 16 });
+    writer.addTile(new Array(16 * 16).fill(1), 16, 16);
+    expect(() => writer.finish()).toThrow('Expected 6 TIFF tiles, got 1');
+  });
+
+  test('rejects tile sizes that are not multiples of 16', () => {
+    expect(() => createTiffWriter({ width: 10, height: 10, sampleType: 'uint8', tileSize: 10 })).toThrow('multiple of 16');
+  });
+});
@@ -0,0 +1,677 @@
+import { deflate } from './deflate';
+import { inflate } from './inflate';
+
+// GeoTIFF の読み書き（外部ライブラリを使わない最小限の実装）
+// 読み込み: 8 ビットのグレースケール・RGB(A)、ストリップ・タイル、無圧縮・LZW・Deflate・PackBits、BigTIFF
+// 書き出し: Deflate 圧縮のタイル形式、4GB を超える場合は BigTIFF（位置情報のタグは読み込んだ画像からそのまま写す）
+
+// 読み込み元（File などを必要な範囲だけ読む。DOM に依存しないよう読み方は呼び出し側が渡す）
+export interface ByteSource {
+  size: number;
+  read: (offset: number, length: number) => Promise<Uint8Array>;
+}
+
+export const bytesSource = (bytes: Uint8Array): ByteSource => ({
+  size: bytes.length,
+  read: async (offset, length) => bytes.subarray(offset, offset + length)
+});
+
+// IFD のエントリ（ASCII は文字列、それ以外は数値の配列）
+export interface TiffEntry {
+  tag: number;
+  type: number;
+  values: number[] | string;
+}
+
+export interface TiffDirectory {
+  littleEndian: boolean;
+  bigTiff: boolean;
+  entries: Map<number, TiffEntry>;
+}
+
+// 位置情報: GeoTIFF のタグと、そこから求めた変換係数・座標系
+export interface GeoInfo {
+  // ModelPixelScale, ModelTiepoint, ModelTransformation, GeoKeyDirectory, GeoDoubleParams, GeoAsciiParams
+  tags: TiffEntry[];
+  // GDAL の順の係数 [左上の x, 画素の幅, 行の傾き, 左上の y, 列の傾き, 画素の高さ（北が上なら負）]
+  transform: number[] | null;
+  // EPSG コード（GeoKey から。ユーザー定義の座標系などは null）
+  epsg: number | null;
+  // 地上画素寸法（m）。単位がメートルの投影座標系で、回転のない場合のみ
+  metersPerPixel: number | null;
+}
+
+export const TIFF_TAGS = {
+  imageWidth: 256,
+  imageLength: 257,
+  bitsPerSample: 258,
+  compression: 259,
+  photometric: 262,
+  stripOffsets: 273,
+  samplesPerPixel: 277,
+  rowsPerStrip: 278,
+  stripByteCounts: 279,
+  planarConfiguration: 284,
+  predictor: 317,
+  tileWidth: 322,
+  tileLength: 323,
+  tileOffsets: 324,
+  tileByteCounts: 325,
+  extraSamples: 338,
+  sampleFormat: 339,
+  modelPixelScale: 33550,
+  modelTiepoint: 33922,
+  modelTransformation: 34264,
+  geoKeyDirectory: 34735,
+  geoDoubleParams: 34736,
+  geoAsciiParams: 34737,
+  gdalNoData: 42113
+};
+
+const GEO_TAGS = [
+  TIFF_TAGS.modelPixelScale,
+  TIFF_TAGS.modelTiepoint,
+  TIFF_TAGS.modelTransformation,
+  TIFF_TAGS.geoKeyDirectory,
+  TIFF_TAGS.geoDoubleParams,
+  TIFF_TAGS.geoAsciiParams
+];
+
+const TYPE_ASCII = 2;
+const TYPE_SHORT = 3;
+const TYPE_LONG = 4;
+const TYPE_DOUBLE = 12;
+const TYPE_LONG8 = 16;
+
+const uint64 = (view: DataView, at: number, le: boolean): number => {
+  const low = view.getUint32(at + (le ? 0 : 4), le);
+  const high = view.getUint32(at + (le ? 4 : 0), le);
+  return high * 2 ** 32 + low;
+};
+
+// 型ごとのバイト数と値の読み方（ASCII 以外）
+const TYPES: Record<number, { size: number; read: (view: DataView, at: number, le: boolean) => number }> = {
+  1: { size: 1, read: (view, at) => view.getUint8(at) },
+  3: { size: 2, read: (view, at, le) => view.getUint16(at, le) },
+  4: { size: 4, read: (view, at, le) => view.getUint32(at, le) },
+  5: { size: 8, read: (view, at, le) => view.getUint32(at, le) / view.getUint32(at + 4, le) },
+  6: { size: 1, read: (view, at) => view.getInt8(at) },
+  7: { size: 1, read: (view, at) => view.getUint8(at) },
+  8: { size: 2, read: (view, at, le) => view.getInt16(at, le) },
+  9: { size: 4, read: (view, at, le) => view.getInt32(at, le) },
+  10: { size: 8, read: (view, at, le) => view.getInt32(at, le) / view.getInt32(at + 4, le) },
+  11: { size: 4, read: (view, at, le) => view.getFloat32(at, le) },
+  12: { size: 8, read: (view, at, le) => view.getFloat64(at, le) },
+  16: { size: 8, read: uint64 },
+  17: {
+    size: 8,
+    read: (view, at, le) => view.getInt32(at + (le ? 4 : 0), le) * 2 ** 32 + view.getUint32(at + (le ? 0 : 4), le)
+  },
+  18: { size: 8, read: uint64 }
+};
+
+const typeSize = (type: number): number => (type === TYPE_ASCII ? 1 : TYPES[type]?.size ?? 0);
+
+const toView = (bytes: Uint8Array) => new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+const readValues = (bytes: Uint8Array, type: number, count: number, le: boolean): number[] | string => {
+  if (type === TYPE_ASCII) {
+    let text = '';
+    for (let i = 0; i < count; i++) text += String.fromCharCode(bytes[i]);
+    // 末尾の NUL は書き出すときに付け直す
+    return text.replace(/\0$/, '');
+  }
+  const view = toView(bytes);
+  const { size, read } = TYPES[type];
+  return Array.from({ length: count }, (_, k) => read(view, k * size, le));
+};
+
+// 先頭の IFD（主画像）を読む。縮小画像（オーバービュー）は使わない
+export const readTiffDirectory = async (source: ByteSource): Promise<TiffDirectory> => {
+  const header = await source.read(0, 16);
+  const byteOrder = String.fromCharCode(header[0], header[1]);
+  if (header.length < 8 || (byteOrder !== 'II' && byteOrder !== 'MM')) throw new Error('Not a TIFF file');
+  const le = byteOrder === 'II';
+  const view = toView(header);
+  const version = view.getUint16(2, le);
+  if (version !== 42 && version !== 43) throw new Error('Not a TIFF file');
+  const bigTiff = version === 43;
+  const ifdOffset = bigTiff ? uint64(view, 8, le) : view.getUint32(4, le);
+  const countSize = bigTiff ? 8 : 2;
+  const entrySize = bigTiff ? 20 : 12;
+  const valueSize = bigTiff ? 8 : 4;
+
+  const countBytes = await source.read(ifdOffset, countSize);
+  const count = bigTiff ? uint64(toView(countBytes), 0, le) : toView(countBytes).getUint16(0, le);
+  const entryBytes = await source.read(ifdOffset + countSize, count * entrySize);
+  if (entryBytes.length < count * entrySize) throw new Error('The TIFF directory is truncated');
+  const entryView = toView(entryBytes);
+  const entries = new Map<number, TiffEntry>();
+  for (let e = 0; e < count; e++) {
+    const at = e * entrySize;
+    const tag = entryView.getUint16(at, le);
+    const type = entryView.getUint16(at + 2, le);
+    const valueCount = bigTiff ? uint64(entryView, at + 4, le) : entryView.getUint32(at + 4, le);
+    const size = typeSize(type);
+    // 知らない型のタグは読まない
+    if (size === 0) continue;
+    const valueAt = at + (bigTiff ? 12 : 8);
+    const byteLength = size * valueCount;
+    const bytes = byteLength <= valueSize
+      ? entryBytes.subarray(valueAt, valueAt + byteLength)
+      : await source.read(bigTiff ? uint64(entryView, valueAt, le) : entryView.getUint32(valueAt, le), byteLength);
+    if (bytes.length < byteLength) throw new Error(`The value of TIFF tag ${tag} is truncated`);
+    entries.set(tag, { tag, type, values: readValues(bytes, type, valueCount, le) });
+  }
+  return { littleEndian: le, bigTiff, entries };
+};
+
+const numbers = (entries: Map<number, TiffEntry>, tag: number): number[] | null => {
+  const values = entries.get(tag)?.values;
+  return Array.isArray(values) ? values : null;
+};
+
+// GeoKey の番号と値
+const MODEL_TYPE_KEY = 1024;
+const MODEL_TYPE_PROJECTED = 1;
+const GEOGRAPHIC_TYPE_KEY = 2048;
+const PROJECTED_CS_TYPE_KEY = 3072;
+const PROJ_LINEAR_UNITS_KEY = 3076;
+const LINEAR_METER = 9001;
+const USER_DEFINED = 32767;
+
+export const readGeoInfo = (entries: Map<number, TiffEntry>): GeoInfo => {
+  const tags = GEO_TAGS.map(tag => entries.get(tag)).filter((entry): entry is TiffEntry => entry !== undefined);
+
+  let transform: number[] | null = null;
+  const matrix = numbers(entries, TIFF_TAGS.modelTransformation);
+  const scale = numbers(entries, TIFF_TAGS.modelPixelScale);
+  const tiepoint = numbers(entries, TIFF_TAGS.modelTiepoint);
+  if (matrix && matrix.length >= 16) {
+    transform = [matrix[3], matrix[0], matrix[1], matrix[7], matrix[4], matrix[5]];
+  } else if (scale && scale.length >= 2 && tiepoint && tiepoint.length >= 6) {
+    transform = [tiepoint[3] - tiepoint[0] * scale[0], scale[0], 0, tiepoint[4] + tiepoint[1] * scale[1], 0, -scale[1]];
+  }
+
+  // GeoKeyDirectory: 先頭の4値（版・改訂・キーの数など）の後に [キー, 格納場所, 個数, 値] が並ぶ
+  const keys = numbers(entries, TIFF_TAGS.geoKeyDirectory) ?? [];
+  const keyValue = (id: number): number | null => {
+    for (let k = 4; k + 3 < keys.length; k += 4) {
+      if (keys[k] === id && keys[k + 1] === 0 && keys[k + 3] !== USER_DEFINED) return keys[k + 3];
+    }
+    return null;
+  };
+  const projected = keyValue(PROJECTED_CS_TYPE_KEY);
+  const epsg = projected ?? keyValue(GEOGRAPHIC_TYPE_KEY);
+
+  // 単位の GeoKey がない場合は投影座標系の既定（UTM などのメートル）とみなす
+  const units = keyValue(PROJ_LINEAR_UNITS_KEY);
+  const metric = (projected !== null || keyValue(MODEL_TYPE_KEY) === MODEL_TYPE_PROJECTED) && (units === null || units === LINEAR_METER);
+  const metersPerPixel = metric && transform && transform[2] === 0 && transform[4] === 0
+    ? Math.sqrt(Math.abs(transform[1] * transform[5]))
+    : null;
+  return { tags, transform, epsg, metersPerPixel };
+};
+
+// LZW（TIFF の方式: 上位ビットから、符号長の切り替えは1つ早い）
+const lzwDecode = (input: Uint8Array, expectedSize: number): Uint8Array => {
+  const CLEAR = 256;
+  const END = 257;
+  const prefix = new Int32Array(4096);
+  const suffix = new Uint8Array(4096);
+  const firstByte = new Uint8Array(4096);
+  const lengths = new Int32Array(4096);
+  for (let code = 0; code < 256; code++) {
+    suffix[code] = code;
+    firstByte[code] = code;
+    lengths[code] = 1;
+  }
+  const output = new Uint8Array(expectedSize);
+  let length = 0;
+  // 出力が足りない場合は切り捨てる（壊れたデータで止まらないように）
+  const write = (code: number) => {
+    const end = length + lengths[code];
+    for (let at = end - 1; at >= length; at--) {
+      if (at < output.length) output[at] = suffix[code];
+      code = prefix[code];
+    }
+    length = end;
+  };
+
+  let bitPosition = 0;
+  let width = 9;
+  let next = 258;
+  let previous = -1;
+  while (bitPosition + width <= input.length * 8 && length < output.length) {
+    let code = 0;
+    for (let k = 0; k < width; k++, bitPosition++) {
+      code = (code << 1) | ((input[bitPosition >> 3] >> (7 - (bitPosition & 7))) & 1);
+    }
+    if (code === END) break;
+    if (code === CLEAR) {
+      width = 9;
+      next = 258;
+      previous = -1;
+      continue;
+    }
+    if (previous === -1) {
+      if (code > 255) throw new Error('Invalid LZW data');
+      write(code);
+      previous = code;
+      continue;
+    }
+    if (code > next) throw new Error('Invalid LZW data');
+    if (next < 4096) {
+      prefix[next] = previous;
+      suffix[next] = firstByte[code < next ? code : previous];
+      firstByte[next] = firstByte[previous];
+      lengths[next] = lengths[previous] + 1;
+      next++;
+    }
+    write(code);
+    previous = code;
+    if (next >= (1 << width) - 1 && width < 12) width++;
+  }
+  return output.subarray(0, Math.min(length, output.length));
+};
+
+const packBitsDecode = (input: Uint8Array, expectedSize: number): Uint8Array => {
+  const output = new Uint8Array(expectedSize);
+  let length = 0;
+  for (let i = 0; i < input.length && length < expectedSize;) {
+    const header = (input[i++] << 24) >> 24;
+    if (header >= 0) {
+      output.set(input.subarray(i, i + header + 1).subarray(0, expectedSize - length), length);
+      length += header + 1;
+      i += header + 1;
+    } else if (header !== -128) {
+      output.fill(input[i++], length, Math.min(expectedSize, length + 1 - header));
+      length += 1 - header;
+    }
+  }
+  return output.subarray(0, Math.min(length, expectedSize));
+};
+
+const COMPRESSION_NONE = 1;
+const COMPRESSION_LZW = 5;
+const COMPRESSION_DEFLATE = 8;
+const COMPRESSION_DEFLATE_OLD = 32946;
+const COMPRESSION_PACKBITS = 32773;
+
+const decompress = (compression: number, input: Uint8Array, expectedSize: number): Uint8Array => {
+  switch (compression) {
+    case COMPRESSION_NONE:
+      return input;
+    case COMPRESSION_LZW:
+      return lzwDecode(input, expectedSize);
+    case COMPRESSION_DEFLATE:
+    case COMPRESSION_DEFLATE_OLD:
+      return inflate(input, expectedSize);
+    case COMPRESSION_PACKBITS:
+      return packBitsDecode(input, expectedSize);
+    default:
+      throw new Error(`Unsupported TIFF compression: ${compression}`);
+  }
+};
+
+// 展開したブロック（タイル・ストリップ）を残しておく量
+const CACHE_BYTES = 64 * 1024 * 1024;
+
+export interface GeoTiffImage {
+  width: number;
+  height: number;
+  samplesPerPixel: number;
+  // 格納の単位（タイル、またはストリップの場合は幅が画像の幅）
+  blockWidth: number;
+  blockHeight: number;
+  compression: number;
+  bigTiff: boolean;
+  geo: GeoInfo;
+  // 画素 (x, y) から幅 width・高さ height の範囲を RGBA で読む（グレースケールは3チャンネルに同じ値）
+  read: (x: number, y: number, width: number, height: number) => Promise<Uint8ClampedArray>;
+}
+
+// 8 ビットのグレースケール・RGB(A) の TIFF / GeoTIFF を開く（画素は read で必要な範囲だけ読む）
+export const openGeoTiff = async (source: ByteSource): Promise<GeoTiffImage> => {
+  const { entries, bigTiff } = await readTiffDirectory(source);
+  const value = (tag: number, fallback?: number): number => {
+    const values = numbers(entries, tag);
+    if (values && values.length > 0) return values[0];
+    if (fallback === undefined) throw new Error(`Missing TIFF tag ${tag}`);
+    return fallback;
+  };
+
+  const width = value(TIFF_TAGS.imageWidth);
+  const height = value(TIFF_TAGS.imageLength);
+  const samplesPerPixel = value(TIFF_TAGS.samplesPerPixel, 1);
+  const bits = numbers(entries, TIFF_TAGS.bitsPerSample) ?? [1];
+  if (bits.some(bit => bit !== 8)) throw new Error(`Only 8-bit images are supported (BitsPerSample: ${bits.join(', ')})`);
+  if ((numbers(entries, TIFF_TAGS.sampleFormat) ?? [1]).some(format => format !== 1)) {
+    throw new Error('Only unsigned integer samples are supported');
+  }
+  const compression = value(TIFF_TAGS.compression, COMPRESSION_NONE);
+  if (![COMPRESSION_NONE, COMPRESSION_LZW, COMPRESSION_DEFLATE, COMPRESSION_DEFLATE_OLD, COMPRESSION_PACKBITS].includes(compression)) {
+    throw new Error(`Unsupported TIFF compression: ${compression}`);
+  }
+  // 0: 白が 0、1: 黒が 0、2: RGB
+  const photometric = value(TIFF_TAGS.photometric, samplesPerPixel >= 3 ? 2 : 1);
+  if (photometric > 2) throw new Error(`Unsupported photometric interpretation: ${photometric}`);
+  const colorSamples = photometric === 2 ? 3 : 1;
+  if (samplesPerPixel < colorSamples) throw new Error('Too few samples per pixel');
+  // 追加のサンプルの先頭が不透明度（1: 乗算済み、2: 乗算なし）の場合は RGBA の A にする
+  const extraSamples = numbers(entries, TIFF_TAGS.extraSamples) ?? [];
+  const alphaSample = samplesPerPixel > colorSamples && (extraSamples[0] === 1 || extraSamples[0] === 2) ? colorSamples : -1;
+  const planar = value(TIFF_TAGS.planarConfiguration, 1) === 2;
+  const predictor = value(TIFF_TAGS.predictor, 1);
+  if (predictor !== 1 && predictor !== 2) throw new Error(`Unsupported TIFF predictor: ${predictor}`);
+
+  const tiled = entries.has(TIFF_TAGS.tileWidth);
+  const blockWidth = tiled ? value(TIFF_TAGS.tileWidth) : width;
+  const blockHeight = tiled ? value(TIFF_TAGS.tileLength) : Math.min(value(TIFF_TAGS.rowsPerStrip, height), height);
+  const offsets = numbers(entries, tiled ? TIFF_TAGS.tileOffsets : TIFF_TAGS.stripOffsets);
+  const byteCounts = numbers(entries, tiled ? TIFF_TAGS.tileByteCounts : TIFF_TAGS.stripByteCounts);
+  const blocksAcross = Math.ceil(width / blockWidth);
+  const blocksPerPlane = blocksAcross * Math.ceil(height / blockHeight);
+  const planes = planar ? samplesPerPixel : 1;
+  if (!offsets || !byteCounts || offsets.length < blocksPerPlane * planes || byteCounts.length < offsets.length) {
+    throw new Error('The TIFF block offsets are missing or incomplete');
+  }
+  // 1ブロックの1画素のバイト数
+  const blockSamples = planar ? 1 : samplesPerPixel;
+  const blockBytes = blockWidth * blockHeight * blockSamples;
+
+  const cache = new Map<number, Uint8Array>();
+  let cachedBytes = 0;
+  const readBlock = async (index: number): Promise<Uint8Array> => {
+    const cached = cache.get(index);
+    if (cached) {
+      // 最近使ったものを後ろに回す
+      cache.delete(index);
+      cache.set(index, cached);
+      return cached;
+    }
+    const raw = await source.read(offsets[index], byteCounts[index]);
+    const decoded = decompress(compression, raw, blockBytes);
+    // 末尾のストリップなどは短いことがある（足りない部分は 0）
+    const block = new Uint8Array(blockBytes);
+    block.set(decoded.subarray(0, blockBytes));
+    if (predictor === 2) {
+      const rowBytes = blockWidth * blockSamples;
+      for (let row = 0; row < blockHeight; row++) {
+        for (let i = row * rowBytes + blockSamples; i < (row + 1) * rowBytes; i++) {
+          block[i] = block[i] + block[i - blockSamples];
+        }
+      }
+    }
+    cache.set(index, block);
+    cachedBytes += block.length;
+    cache.forEach((entry, key) => {
+      if (cachedBytes > CACHE_BYTES && key !== index) {
+        cache.delete(key);
+        cachedBytes -= entry.length;
+      }
+    });
+    return block;
+  };
+
+  // 使うサンプル（色と不透明度）
+  const usedSamples = alphaSample >= 0 ? colorSamples + 1 : colorSamples;
+
+  const read = async (x: number, y: number, w: number, h: number): Promise<Uint8ClampedArray> => {
+    if (x < 0 || y < 0 || w <= 0 || h <= 0 || x + w > width || y + h > height) {
+      throw new Error(`The window ${x},${y} ${w}×${h} is outside the ${width}×${height} image`);
+    }
+    const output = new Uint8ClampedArray(w * h * 4);
+    const samples = new Array<Uint8Array>(usedSamples);
+    const sampleOffsets = new Array<number>(usedSamples);
+    for (let blockRow = Math.floor(y / blockHeight); blockRow * blockHeight < y + h; blockRow++) {
+      for (let blockColumn = Math.floor(x / blockWidth); blockColumn * blockWidth < x + w; blockColumn++) {
+        const block = blockRow * blocksAcross + blockColumn;
+        // 画素ごとに並ぶ場合は1ブロック、サンプルごとの面に分かれる場合はサンプルごとのブロック
+        const interleaved = planar ? null : await readBlock(block);
+        for (let s = 0; s < usedSamples; s++) {
+          samples[s] = interleaved ?? await readBlock(s * blocksPerPlane + block);
+          sampleOffsets[s] = planar ? 0 : s;
+        }
+        const left = blockColumn * blockWidth;
+        const top = blockRow * blockHeight;
+        const x1 = Math.min(x + w, left + blockWidth);
+        const y1 = Math.min(y + h, top + blockHeight);
+        for (let row = Math.max(y, top); row < y1; row++) {
+          for (let column = Math.max(x, left); column < x1; column++) {
+            const p = ((row - top) * blockWidth + column - left) * blockSamples;
+            const o = ((row - y) * w + column - x) * 4;
+            if (colorSamples === 3) {
+              output[o] = samples[0][p + sampleOffsets[0]];
+              output[o + 1] = samples[1][p + sampleOffsets[1]];
+              output[o + 2] = samples[2][p + sampleOffsets[2]];
+            } else {
+              const gray = photometric === 0 ? 255 - samples[0][p] : samples[0][p];
+              output[o] = gray;
+              output[o + 1] = gray;
+              output[o + 2] = gray;
+            }
+            output[o + 3] = alphaSample >= 0 ? samples[alphaSample][p + sampleOffsets[alphaSample]] : 255;
+          }
+        }
+      }
+    }
+    return output;
+  };
+
+  return {
+    width,
+    height,
+    samplesPerPixel,
+    blockWidth,
+    blockHeight,
+    compression,
+    bigTiff,
+    geo: readGeoInfo(entries),
+    read
+  };
+};
+
+export type SampleType = 'uint8' | 'float32';
+
+export interface RasterSpec {
+  width: number;
+  height: number;
+  // 1: 単バンド、3: RGB、4: RGBA（省略時は 1）
+  samplesPerPixel?: number;
+  sampleType: SampleType;
+  // タイルの一辺（16 の倍数）
+  tileSize: number;
+  // 写す位置情報（読み込んだ画像の geo）
+  geo?: GeoInfo;
+  // GDAL_NODATA タグの値（例: 'nan'）
+  noData?: string;
+  // true: 4GB 以下でも BigTIFF で書く
+  bigTiff?: boolean;
+}
+
+export interface TiffWriter {
+  tilesAcross: number;
+  tilesDown: number;
+  // タイルの範囲の値（画素ごとに samplesPerPixel 個）をタイルの大きさに詰め（はみ出す部分は 0）、Deflate で圧縮したバイト列にする
+  // タイルは左上から行ごとの順に追加し、返したバイト列をその順に header の後に並べる
+  addTile: (values: ArrayLike<number>, width: number, height: number) => Uint8Array;
+  // すべてのタイルを追加した後に、ファイルの先頭（header）と、タイルの後に置く IFD・タグの値（trailer）を作る
+  finish: () => { header: Uint8Array; trailer: Uint8Array };
+}
+
+const setUint64 = (view: DataView, at: number, value: number) => {
+  view.setUint32(at, value % 2 ** 32, true);
+  view.setUint32(at + 4, Math.floor(value / 2 ** 32), true);
+};
+
+// Deflate 圧縮のタイル形式の TIFF（リトルエンディアン）。タイルの大きさは圧縮するまで決まらないため、IFD はタイルの後に置く
+// 4GB を超える場合（または spec.bigTiff）は BigTIFF にする
+export const createTiffWriter = (spec: RasterSpec): TiffWriter => {
+  const { width, height, sampleType, tileSize } = spec;
+  const samplesPerPixel = spec.samplesPerPixel ?? 1;
+  if (tileSize <= 0 || tileSize % 16 !== 0) throw new Error('The TIFF tile size must be a multiple of 16');
+  const bytesPerSample = sampleType === 'float32' ? 4 : 1;
+  const tileBytes = tileSize * tileSize * samplesPerPixel * bytesPerSample;
+  const tilesAcross = Math.ceil(width / tileSize);
+  const tilesDown = Math.ceil(height / tileSize);
+  const tileCount = tilesAcross * tilesDown;
+  const byteCounts: number[] = [];
+
+  const tileOffsets: TiffEntry = { tag: TIFF_TAGS.tileOffsets, type: TYPE_LONG, values: new Array(tileCount).fill(0) };
+  const tileByteCounts: TiffEntry = { tag: TIFF_TAGS.tileByteCounts, type: TYPE_LONG, values: new Array(tileCount).fill(0) };
+  const entries: TiffEntry[] = [
+    { tag: TIFF_TAGS.imageWidth, type: TYPE_LONG, values: [width] },
+    { tag: TIFF_TAGS.imageLength, type: TYPE_LONG, values: [height] },
+    { tag: TIFF_TAGS.bitsPerSample, type: TYPE_SHORT, values: new Array(samplesPerPixel).fill(bytesPerSample * 8) },
+    { tag: TIFF_TAGS.compression, type: TYPE_SHORT, values: [COMPRESSION_DEFLATE] },
+    { tag: TIFF_TAGS.photometric, type: TYPE_SHORT, values: [samplesPerPixel >= 3 ? 2 : 1] },
+    { tag: TIFF_TAGS.samplesPerPixel, type: TYPE_SHORT, values: [samplesPerPixel] },
+    { tag: TIFF_TAGS.planarConfiguration, type: TYPE_SHORT, values: [1] },
+    { tag: TIFF_TAGS.tileWidth, type: TYPE_LONG, values: [tileSize] },
+    { tag: TIFF_TAGS.tileLength, type: TYPE_LONG, values: [tileSize] },
+    tileOffsets,
+    tileByteCounts,
+    { tag: TIFF_TAGS.sampleFormat, type: TYPE_SHORT, values: new Array(samplesPerPixel).fill(sampleType === 'float32' ? 3 : 1) },
+    ...(spec.geo?.tags ?? []),
+    ...(spec.noData !== undefined ? [{ tag: TIFF_TAGS.gdalNoData, type: TYPE_ASCII, values: spec.noData }] : [])
+  ];
+  if (samplesPerPixel === 4) entries.push({ tag: TIFF_TAGS.extraSamples, type: TYPE_SHORT, values: [2] });
+  entries.sort((a, b) => a.tag - b.tag);
+
+  // 書き出せる型（位置情報のタグの数値は SHORT・LONG 以外を DOUBLE にする）
+  const writeType = (entry: TiffEntry) => (typeof entry.values === 'string' ? TYPE_ASCII
+    : entry.type === TYPE_SHORT || entry.type === TYPE_LONG || entry.type === TYPE_LONG8 ? entry.type : TYPE_DOUBLE);
+  const valueCount = (entry: TiffEntry) => (typeof entry.values === 'string' ? entry.values.length + 1 : entry.values.length);
+  const byteLength = (entry: TiffEntry) => valueCount(entry) * typeSize(writeType(entry));
+
+  // IFD とその後に置くタグの値（ifdOffset はファイル内の IFD の位置）
+  const writeDirectory = (ifdOffset: number, bigTiff: boolean): Uint8Array => {
+    const entrySize = bigTiff ? 20 : 12;
+    const inlineSize = bigTiff ? 8 : 4;
+    const countSize = bigTiff ? 8 : 2;
+    let end = countSize + entries.length * entrySize + inlineSize;
+    const valueOffsets = entries.map(entry => {
+      if (byteLength(entry) <= inlineSize) return -1;
+      const offset = end;
+      end += byteLength(entry) + (byteLength(entry) % 2);
+      return offset;
+    });
+
+    const directory = new Uint8Array(end);
+    const view = toView(directory);
+    if (bigTiff) setUint64(view, 0, entries.length);
+    else view.setUint16(0, entries.length, true);
+    entries.forEach((entry, e) => {
+      const at = countSize + e * entrySize;
+      const type = writeType(entry);
+      const fieldAt = at + (bigTiff ? 12 : 8);
+      view.setUint16(at, entry.tag, true);
+      view.setUint16(at + 2, type, true);
+      if (bigTiff) setUint64(view, at + 4, valueCount(entry));
+      else view.setUint32(at + 4, valueCount(entry), true);
+      const valueAt = valueOffsets[e] >= 0 ? valueOffsets[e] : fieldAt;
+      if (valueOffsets[e] >= 0) {
+        if (bigTiff) setUint64(view, fieldAt, ifdOffset + valueOffsets[e]);
+        else view.setUint32(fieldAt, ifdOffset + valueOffsets[e], true);
+      }
+      if (typeof entry.values === 'string') {
+        for (let i = 0; i < entry.values.length; i++) directory[valueAt + i] = entry.values.charCodeAt(i) & 0xff;
+        return;
+      }
+      entry.values.forEach((value, k) => {
+        if (type === TYPE_SHORT) view.setUint16(valueAt + k * 2, value, true);
+        else if (type === TYPE_LONG) view.setUint32(valueAt + k * 4, value, true);
+        else if (type === TYPE_LONG8) setUint64(view, valueAt + k * 8, value);
+        else view.setFloat64(valueAt + k * 8, value, true);
+      });
+    });
+    return directory;
+  };
+
+  const addTile = (values: ArrayLike<number>, tileWidth: number, tileHeight: number): Uint8Array => {
+    if (byteCounts.length >= tileCount) throw new Error('Too many TIFF tiles');
+    const tile = new Uint8Array(tileBytes);
+    const tileView = toView(tile);
+    const rowSamples = tileWidth * samplesPerPixel;
+    for (let row = 0; row < tileHeight; row++) {
+      for (let s = 0; s < rowSamples; s++) {
+        const value = values[row * rowSamples + s];
+        const at = row * tileSize * samplesPerPixel + s;
+        if (sampleType === 'float32') tileView.setFloat32(at * 4, value, true);
+        else tile[at] = value;
+      }
+    }
+    const compressed = deflate(tile);
+    byteCounts.push(compressed.length);
+    return compressed;
+  };
+
+  const finish = () => {
+    if (byteCounts.length !== tileCount) throw new Error(`Expected ${tileCount} TIFF tiles, got ${byteCounts.length}`);
+    // IFD は偶数の位置から始める
+    const dataLength = byteCounts.reduce((sum, count) => sum + count, 0);
+    const padding = dataLength % 2;
+    const bigTiff = spec.bigTiff === true || 8 + dataLength + padding + writeDirectory(0, false).length > 0xffffffff;
+    const headerLength = bigTiff ? 16 : 8;
+    const ifdOffset = headerLength + dataLength + padding;
+
+    let offset = headerLength;
+    tileOffsets.values = byteCounts.map(count => {
+      const at = offset;
+      offset += count;
+      return at;
+    });
+    tileByteCounts.values = byteCounts;
+    tileOffsets.type = bigTiff ? TYPE_LONG8 : TYPE_LONG;
+    tileByteCounts.type = tileOffsets.type;
+
+    const header = new Uint8Array(headerLength);
+    const view = toView(header);
+    header.set([0x49, 0x49]);
+    if (bigTiff) {
+      view.setUint16(2, 43, true);
+      view.setUint16(4, 8, true);
+      setUint64(view, 8, ifdOffset);
+    } else {
+      view.setUint16(2, 42, true);
+      view.setUint32(4, ifdOffset, true);
+    }
+    const directory = writeDirectory(ifdOffset, bigTiff);
+    const trailer = new Uint8Array(padding + directory.length);
+    trailer.set(directory, padding);
+    return { header, trailer };
+  };
+
+  return { tilesAcross, tilesDown, addTile, finish };
+};
+
+// 画像全体の値（画素ごとに samplesPerPixel 個）を TIFF にする
+export const writeTiff = (spec: RasterSpec, values: ArrayLike<number>): Uint8Array => {
+  const writer = createTiffWriter(spec);
+  const { width, height, tileSize } = spec;
+  const samplesPerPixel = spec.samplesPerPixel ?? 1;
+  const tiles: Uint8Array[] = [];
+  for (let tileY = 0; tileY < height; tileY += tileSize) {
+    for (let tileX = 0; tileX < width; tileX += tileSize) {
+      const w = Math.min(tileSize, width - tileX);
+      const h = Math.min(tileSize, height - tileY);
+      const tileValues = new Array<number>(w * h * samplesPerPixel);
+      for (let row = 0; row < h; row++) {
+        for (let s = 0; s < w * samplesPerPixel; s++) {
+          tileValues[row * w * samplesPerPixel + s] = values[((tileY + row) * width + tileX) * samplesPerPixel + s];
+        }
+      }
+      tiles.push(writer.addTile(tileValues, w, h));
+    }
+  }
+  const { header, trailer } = writer.finish();
+  const parts = [header, ...tiles, trailer];
+  const output = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  parts.forEach(part => {
+    output.set(part, offset);
+    offset += part.length;
+  });
+  return output;
+};
@@ -0,0 +1,18 @@
+import { canonicalJSON, settingsHash, sha256 } from '.';
+
+describe('sha256', () => {
+  test('matches known digests', () => {
+    expect(sha256('')).toBe('e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855');
+    expect(sha256('abc')).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+    expect(sha256('a'.repeat(1000))).toBe('41edece42d63e8d9bf515a9ba6932e1c20cbc9f5a5d134645adb5db1b9737ea3');
+    expect(sha256('植生🌱')).toBe('d62a96e330661a3e364f7a788c152237958f2a56055f09b01ac5e875e2edef9f');
+  });
+});
+
+describe('settingsHash', () => {
+  test('does not depend on key order or undefined fields', () => {
+    expect(canonicalJSON({ b: 1, a: [1, { d: undefined, c: 'x' }] })).toBe('{"a":[1,{"c":"x"}],"b":1}');
+    expect(settingsHash({ threshold: 0.2, method: 'otsu' })).toBe(settingsHash({ method: 'otsu', threshold: 0.2, extra: undefined }));
+    expect(settingsHash({ threshold: 0.2 })).not.toBe(settingsHash({ threshold: 0.21 }));
+  });
+});
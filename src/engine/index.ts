@@ -0,0 +1,58 @@
+export * from './types';
+export { ALGORITHMS, evaluateAlgorithm, normalizeRGB, toInputSpace } from './algorithms';
+export { FORMULA_FUNCTIONS, FormulaError, parseFormula } from './formula';
+export { resolveAlgorithms, validateCustomIndex } from './customIndices';
+export type { CustomIndexProblem, CustomIndexValidation } from './customIndices';
+export { buildHistogram, calculateHistogramThreshold, calculateOtsuThreshold } from './threshold';
+export { THRESHOLD_METHODS } from './thresholdMethods';
+export type { ThresholdMethodDefinition } from './thresholdMethods';
+export { analyzePixels } from './analyze';
+export {
+  CLASSIFIER_FEATURES,
+  CLASSIFIER_INDEX,
+  COLOR_FEATURES,
+  classifierAlgorithm,
+  createClassifierEvaluator,
+  paintStrokes,
+  parseClassifier,
+  trainClassifier
+} from './classifier';
+export type { TrainingClass } from './classifier';
+export { createSceneClassifier, renderSceneClasses } from './scene';
+export { DEFAULT_TILE_SIZE, analyzeTiled, pixelSource } from './tiled';
+export type { TileOutput, TileSource, TilingOptions } from './tiled';
+export { COLOR_CHECKER_SRGB, applyCalibration, colorCheckerPatches, computeCalibration, fitColorMatrix } from './calibration';
+export { EXCLUSION_REASONS, hsvShadowRatio, labLightness, rgbToLab } from './exclusion';
+export { MASK_BACKGROUND, MASK_EXCLUDED, MASK_VEGETATION, MASK_OUTSIDE, maskToRGBA } from './mask';
+export { applyMorphology, dilate, erode, fillHoles, labelComponents, removeSmallObjects } from './morphology';
+export type { Components } from './morphology';
+export { rasterizePlots, rasterizeRegions, regionPolygon } from './roi';
+export { createGridPlots, parsePlotBoundaries, regionsBounds } from './plots';
+export type { GridSpec, PlotIdFormat } from './plots';
+export { createWorkerPool, defaultPoolSize, AnalysisCancelledError } from './workerPool';
+export type { WorkerPool } from './workerPool';
+export { COLOR_RAMPS, rampColor, rampGradient, toCssColor } from './colormap';
+export type { ColorRamp, RGB } from './colormap';
+export { DEFAULT_MIN_DISTANCE, distanceTransform, watershedSplit } from './objects';
+export { gsdFromCamera, gsdFromLine, pixelsToArea } from './scale';
+export type { CameraGeometry } from './scale';
+export { computeIndexMap, labelOutline, maskOutline, percentileRange, renderIndexMap, renderOutlineOverlay } from './render';
+export { DISPLAY_BINS, PERCENTILES } from './statistics';
+export type { IndexClassStatistics, IndexStatistics } from './statistics';
+export { canonicalJSON, settingsHash, sha256 } from './hash';
+export { encodeUTF8 } from './utf8';
+export { crc32, createZip, createZipWriter } from './zip';
+export type { ZipWriter } from './zip';
+export type { Cell, Table } from './table';
+export { csvField, toCSV } from './csv';
+export type { CsvOptions } from './csv';
+export { createXlsx } from './xlsx';
+export type { Sheet } from './xlsx';
+export { deflate } from './deflate';
+export { inflate } from './inflate';
+export { TIFF_TAGS, bytesSource, createTiffWriter, openGeoTiff, readTiffDirectory, writeTiff } from './geotiff';
+export type { ByteSource, GeoInfo, GeoTiffImage, RasterSpec, SampleType, TiffDirectory, TiffEntry, TiffWriter } from './geotiff';
+export { readExif } from './exif';
+export type { ExifData } from './exif';
+export { buildTimeSeries, daysBetween, growthMetrics, isValidDate, parseFilenamePattern } from './timeseries';
+export type { GrowthMetrics, Observation, TimeSeries, TimeSeriesPoint } from './timeseries';
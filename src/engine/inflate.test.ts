@@ -0,0 +1,33 @@
+import { deflateRawSync, deflateSync } from 'zlib';
+import { inflate } from '.';
+
+// 繰り返しのある（符号化の種類が混ざる）バイト列
+const sample = (length: number): Uint8Array => {
+  const bytes = new Uint8Array(length);
+  let seed = 1;
+  for (let i = 0; i < length; i++) {
+    seed = (seed * 1103515245 + 12345) % 2147483648;
+    bytes[i] = i % 300 < 200 ? (i % 7) * 30 : seed >> 23;
+  }
+  return bytes;
+};
+
+describe('inflate', () => {
+  test('restores zlib data at every compression level', () => {
+    const data = sample(20000);
+    [0, 1, 6, 9].forEach(level => {
+      expect(Array.from(inflate(deflateSync(data, { level })))).toEqual(Array.from(data));
+    });
+  });
+
+  test('restores raw deflate data and empty input', () => {
+    const data = sample(3000);
+    expect(Array.from(inflate(deflateRawSync(data), 10))).toEqual(Array.from(data));
+    expect(inflate(deflateSync(new Uint8Array(0))).length).toBe(0);
+  });
+
+  test('rejects truncated data', () => {
+    const compressed = deflateSync(sample(5000));
+    expect(() => inflate(compressed.subarray(0, 40))).toThrow('Unexpected end');
+  });
+});
@@ -0,0 +1,156 @@
+// DEFLATE（RFC 1951）の展開。TIFF の Deflate 圧縮（zlib 形式）に使う
+
+// 長さ・距離の符号の基準値と追加ビット数（圧縮と共通）
+export const LENGTH_BASE = [3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258];
+export const LENGTH_EXTRA = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0];
+export const DISTANCE_BASE = [
+  1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049, 3073,
+  4097, 6145, 8193, 12289, 16385, 24577
+];
+export const DISTANCE_EXTRA = [0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13];
+// 符号長の符号の符号長が並ぶ順序
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+
+// 正準ハフマン符号（符号長ごとの件数と、符号順の記号）
+interface Huffman {
+  counts: Uint16Array;
+  symbols: Uint16Array;
+}
+
+const buildHuffman = (lengths: ArrayLike<number>): Huffman => {
+  const counts = new Uint16Array(16);
+  for (let i = 0; i < lengths.length; i++) counts[lengths[i]]++;
+  counts[0] = 0;
+  const offsets = new Uint16Array(16);
+  for (let length = 1; length < 16; length++) offsets[length] = offsets[length - 1] + counts[length - 1];
+  const symbols = new Uint16Array(lengths.length);
+  for (let i = 0; i < lengths.length; i++) {
+    if (lengths[i] > 0) symbols[offsets[lengths[i]]++] = i;
+  }
+  return { counts, symbols };
+};
+
+const FIXED_LITERALS = buildHuffman(Array.from({ length: 288 }, (_, i) => (i < 144 ? 8 : i < 256 ? 9 : i < 280 ? 7 : 8)));
+const FIXED_DISTANCES = buildHuffman(new Array(30).fill(5));
+
+// 展開する。zlib の2バイトのヘッダーがあれば読み飛ばす（チェックサムは確かめない）
+// expectedSize: 展開後の大きさの見込み（出力の初期容量）
+export const inflate = (input: Uint8Array, expectedSize = input.length * 4): Uint8Array => {
+  let position = 0;
+  if (input.length >= 2 && (input[0] & 0x0f) === 8 && ((input[0] << 8) | input[1]) % 31 === 0) position = 2;
+  let bitBuffer = 0;
+  let bitCount = 0;
+  let output = new Uint8Array(Math.max(expectedSize, 1024));
+  let length = 0;
+
+  const ensure = (extra: number) => {
+    if (length + extra <= output.length) return;
+    const grown = new Uint8Array(Math.max(output.length * 2, length + extra));
+    grown.set(output.subarray(0, length));
+    output = grown;
+  };
+
+  // 下位ビットから読む
+  const bits = (count: number): number => {
+    while (bitCount < count) {
+      if (position >= input.length) throw new Error('Unexpected end of deflate data');
+      bitBuffer |= input[position++] << bitCount;
+      bitCount += 8;
+    }
+    const value = bitBuffer & ((1 << count) - 1);
+    bitBuffer >>>= count;
+    bitCount -= count;
+    return value;
+  };
+
+  const decodeSymbol = (huffman: Huffman): number => {
+    let code = 0;
+    let first = 0;
+    let index = 0;
+    for (let bitLength = 1; bitLength < 16; bitLength++) {
+      code |= bits(1);
+      const count = huffman.counts[bitLength];
+      if (code - first < count) return huffman.symbols[index + code - first];
+      index += count;
+      first = (first + count) << 1;
+      code <<= 1;
+    }
+    throw new Error('Invalid deflate code');
+  };
+
+  const readDynamicTables = (): [Huffman, Huffman] => {
+    const literalCount = bits(5) + 257;
+    const distanceCount = bits(5) + 1;
+    const codeLengthCount = bits(4) + 4;
+    const codeLengths = new Uint8Array(19);
+    for (let i = 0; i < codeLengthCount; i++) codeLengths[CODE_LENGTH_ORDER[i]] = bits(3);
+    const codeLengthHuffman = buildHuffman(codeLengths);
+
+    const lengths = new Uint8Array(literalCount + distanceCount);
+    for (let i = 0; i < lengths.length;) {
+      const symbol = decodeSymbol(codeLengthHuffman);
+      if (symbol < 16) {
+        lengths[i++] = symbol;
+        continue;
+      }
+      let repeat = 0;
+      let value = 0;
+      if (symbol === 16) {
+        if (i === 0) throw new Error('Invalid deflate code lengths');
+        value = lengths[i - 1];
+        repeat = 3 + bits(2);
+      } else if (symbol === 17) {
+        repeat = 3 + bits(3);
+      } else {
+        repeat = 11 + bits(7);
+      }
+      if (i + repeat > lengths.length) throw new Error('Invalid deflate code lengths');
+      lengths.fill(value, i, i + repeat);
+      i += repeat;
+    }
+    return [buildHuffman(lengths.subarray(0, literalCount)), buildHuffman(lengths.subarray(literalCount))];
+  };
+
+  let last = 0;
+  while (!last) {
+    last = bits(1);
+    const type = bits(2);
+    if (type === 0) {
+      // 無圧縮のブロック（バイト境界から）
+      bitBuffer = 0;
+      bitCount = 0;
+      if (position + 4 > input.length) throw new Error('Unexpected end of deflate data');
+      const size = input[position] | (input[position + 1] << 8);
+      position += 4;
+      if (position + size > input.length) throw new Error('Unexpected end of deflate data');
+      ensure(size);
+      output.set(input.subarray(position, position + size), length);
+      length += size;
+      position += size;
+      continue;
+    }
+    if (type === 3) throw new Error('Invalid deflate block type');
+    const [literals, distances] = type === 1 ? [FIXED_LITERALS, FIXED_DISTANCES] : readDynamicTables();
+    for (;;) {
+      const symbol = decodeSymbol(literals);
+      if (symbol < 256) {
+        ensure(1);
+        output[length++] = symbol;
+      } else if (symbol === 256) {
+        break;
+      } else {
+        const lengthCode = symbol - 257;
+        if (lengthCode >= LENGTH_BASE.length) throw new Error('Invalid deflate length');
+        const copyLength = LENGTH_BASE[lengthCode] + bits(LENGTH_EXTRA[lengthCode]);
+        const distanceCode = decodeSymbol(distances);
+        if (distanceCode >= DISTANCE_BASE.length) throw new Error('Invalid deflate distance');
+        const distance = DISTANCE_BASE[distanceCode] + bits(DISTANCE_EXTRA[distanceCode]);
+        if (distance > length) throw new Error('Invalid deflate distance');
+        ensure(copyLength);
+        // 重なる場合があるため1バイトずつ写す
+        for (let k = 0; k < copyLength; k++, length++) output[length] = output[length - distance];
+      }
+    }
+  }
+  return output.subarray(0, length);
+};
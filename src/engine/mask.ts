@@ -0,0 +1,29 @@
+// マスクの値
+export const MASK_BACKGROUND = 0;
+export const MASK_VEGETATION = 1;
+// 解析対象領域（ROI）の外側
+export const MASK_OUTSIDE = 2;
+// 白飛び・黒つぶれ・影として除外した画素
+export const MASK_EXCLUDED = 3;
+
+// マスクの値ごとの表示色
+const MASK_COLORS: Record<number, [number, number, number]> = {
+  [MASK_BACKGROUND]: [0, 0, 0],
+  [MASK_VEGETATION]: [255, 255, 255],
+  [MASK_OUTSIDE]: [64, 64, 64],
+  [MASK_EXCLUDED]: [220, 38, 38]
+};
+
+// マスクをRGBA配列に変換（植生: 白, 非植生: 黒, 領域外: 暗い灰色, 除外: 赤）
+export const maskToRGBA = (mask: Uint8Array): Uint8ClampedArray => {
+  const rgba = new Uint8ClampedArray(mask.length * 4);
+  for (let p = 0; p < mask.length; p++) {
+    const i = p * 4;
+    const [r, g, b] = MASK_COLORS[mask[p]] ?? MASK_COLORS[MASK_BACKGROUND];
+    rgba[i] = r;
+    rgba[i + 1] = g;
+    rgba[i + 2] = b;
+    rgba[i + 3] = 255;
+  }
+  return rgba;
+};
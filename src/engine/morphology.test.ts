@@ -0,0 +1,77 @@
+import { analyzePixels, applyMorphology, fillHoles, labelComponents, removeSmallObjects } from '.';
+
+// 文字列の行から2値画像を作る（'#' が前景）
+const parse = (rows: string[]): Uint8Array => Uint8Array.from(rows.join('').split('').map(c => c === '#' ? 1 : 0));
+const format = (binary: Uint8Array, width: number): string[] =>
+  Array.from({ length: binary.length / width }, (_, y) =>
+    Array.from(binary.slice(y * width, (y + 1) * width)).map(v => v ? '#' : '.').join(''));
+
+describe('morphology', () => {
+  test('opening removes speckle and closing bridges gaps', () => {
+    const image = parse([
+      '#.......',
+      '..###.#.',
+      '..###...',
+      '..###...'
+    ]);
+    expect(format(applyMorphology(image, 8, 4, [{ operation: 'open', size: 3 }]), 8)).toEqual([
+      '........',
+      '..###...',
+      '..###...',
+      '..###...'
+    ]);
+
+    const gap = parse(['##.##']);
+    expect(format(applyMorphology(gap, 5, 1, [{ operation: 'close', size: 3 }]), 5)).toEqual(['#####']);
+  });
+
+  test('fills enclosed holes only', () => {
+    const image = parse([
+      '#####.',
+      '#..#..',
+      '#####.'
+    ]);
+    expect(format(fillHoles(image, 6, 3), 6)).toEqual([
+      '#####.',
+      '####..',
+      '#####.'
+    ]);
+    expect(format(fillHoles(image, 6, 3, 1), 6)).toEqual(format(image, 6));
+  });
+
+  test('labels components and removes small ones', () => {
+    const image = parse([
+      '##..#',
+      '#...#',
+      '...#.'
+    ]);
+    const { count, areas } = labelComponents(image, 5, 3);
+    expect(count).toBe(2);
+    expect(areas).toEqual([3, 3]);
+    expect(labelComponents(image, 5, 3, 4).count).toBe(3);
+    expect(format(removeSmallObjects(image, 5, 3, 3), 5)).toEqual(format(image, 5));
+    expect(format(removeSmallObjects(image, 5, 3, 4), 5)).toEqual(['.....', '.....', '.....']);
+  });
+});
+
+describe('analyzePixels with morphology', () => {
+  test('reports coverage before and after cleaning', () => {
+    // 土の中の1画素の植生ノイズ
+    const leaf = [40, 160, 40, 255];
+    const soil = [150, 120, 90, 255];
+    const data = new Uint8ClampedArray([...soil, ...soil, ...soil, ...soil, ...leaf, ...soil, ...soil, ...soil, ...soil].flat());
+    const { result, mask } = analyzePixels(data, 3, 3, {
+      segmentationIndex: 'ExG',
+      thresholdMethod: 'manual',
+      threshold: 0.1,
+      selectedIndices: { ExG: true },
+      morphology: [{ operation: 'removeSmall', size: 2 }]
+    });
+
+    expect(result.beforeCleaning?.vegetationPixels).toBe(1);
+    expect(result.beforeCleaning?.vegetationCoverage).toBeCloseTo(100 / 9);
+    expect(result.vegetationPixels).toBe(0);
+    expect(result.vegetationCoverage).toBe(0);
+    expect(mask[4]).toBe(0);
+  });
+});
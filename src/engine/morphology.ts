@@ -0,0 +1,151 @@
+import { MorphologyStep } from './types';
+
+// 2値画像（1: 前景）の形態学的処理と連結成分
+
+export interface Components {
+  // 画素ごとの成分番号（0: 背景、1〜count）
+  labels: Int32Array;
+  count: number;
+  // areas[k - 1] は成分 k の画素数
+  areas: number[];
+}
+
+// 前景（value の画素）の連結成分にラベルを付ける
+export const labelComponents = (
+  binary: Uint8Array,
+  width: number,
+  height: number,
+  connectivity: 4 | 8 = 8,
+  value = 1
+): Components => {
+  const labels = new Int32Array(binary.length);
+  const areas: number[] = [];
+  const stack = new Int32Array(binary.length);
+  for (let start = 0; start < binary.length; start++) {
+    if (binary[start] !== value || labels[start] !== 0) continue;
+    const label = areas.length + 1;
+    let area = 0;
+    let top = 0;
+    stack[top++] = start;
+    labels[start] = label;
+    while (top > 0) {
+      const p = stack[--top];
+      area++;
+      const x = p % width;
+      const y = (p - x) / width;
+      for (let dy = -1; dy <= 1; dy++) {
+        const ny = y + dy;
+        if (ny < 0 || ny >= height) continue;
+        for (let dx = -1; dx <= 1; dx++) {
+          if (dx === 0 && dy === 0) continue;
+          if (connectivity === 4 && dx !== 0 && dy !== 0) continue;
+          const nx = x + dx;
+          if (nx < 0 || nx >= width) continue;
+          const q = ny * width + nx;
+          if (binary[q] === value && labels[q] === 0) {
+            labels[q] = label;
+            stack[top++] = q;
+          }
+        }
+      }
+    }
+    areas.push(area);
+  }
+  return { labels, count: areas.length, areas };
+};
+
+// 1行（または1列）の移動窓の最小・最大（窓内の前景の数で判定、画像の外側は無視する）
+const filterLine = (
+  src: Uint8Array,
+  dst: Uint8Array,
+  start: number,
+  step: number,
+  length: number,
+  radius: number,
+  dilate: boolean
+) => {
+  let count = 0;
+  for (let i = 0; i <= Math.min(radius, length - 1); i++) count += src[start + i * step];
+  for (let i = 0; i < length; i++) {
+    const span = Math.min(length - 1, i + radius) - Math.max(0, i - radius) + 1;
+    dst[start + i * step] = dilate ? (count > 0 ? 1 : 0) : (count === span ? 1 : 0);
+    if (i + radius + 1 < length) count += src[start + (i + radius + 1) * step];
+    if (i - radius >= 0) count -= src[start + (i - radius) * step];
+  }
+};
+
+// size × size の正方形の構造要素による収縮・膨張（行と列に分けて処理する）
+const filterSquare = (binary: Uint8Array, width: number, height: number, size: number, dilate: boolean): Uint8Array => {
+  const radius = Math.floor(size / 2);
+  if (radius <= 0) return binary.slice();
+  const rows = new Uint8Array(binary.length);
+  const output = new Uint8Array(binary.length);
+  for (let y = 0; y < height; y++) filterLine(binary, rows, y * width, 1, width, radius, dilate);
+  for (let x = 0; x < width; x++) filterLine(rows, output, x, width, height, radius, dilate);
+  return output;
+};
+
+export const erode = (binary: Uint8Array, width: number, height: number, size: number): Uint8Array =>
+  filterSquare(binary, width, height, size, false);
+
+export const dilate = (binary: Uint8Array, width: number, height: number, size: number): Uint8Array =>
+  filterSquare(binary, width, height, size, true);
+
+// 画像の縁に接しない背景の領域（4近傍）を埋める。maxArea が 0 より大きい場合はその面積以下の穴だけ
+export const fillHoles = (binary: Uint8Array, width: number, height: number, maxArea = 0): Uint8Array => {
+  const { labels, areas } = labelComponents(binary, width, height, 4, 0);
+  const touchesBorder = new Uint8Array(areas.length + 1);
+  for (let x = 0; x < width; x++) {
+    touchesBorder[labels[x]] = 1;
+    touchesBorder[labels[(height - 1) * width + x]] = 1;
+  }
+  for (let y = 0; y < height; y++) {
+    touchesBorder[labels[y * width]] = 1;
+    touchesBorder[labels[y * width + width - 1]] = 1;
+  }
+  const output = binary.slice();
+  for (let p = 0; p < output.length; p++) {
+    const label = labels[p];
+    if (label > 0 && !touchesBorder[label] && (maxArea <= 0 || areas[label - 1] <= maxArea)) output[p] = 1;
+  }
+  return output;
+};
+
+// 面積が minArea 画素未満の前景の連結成分（8近傍）を除く
+export const removeSmallObjects = (binary: Uint8Array, width: number, height: number, minArea: number): Uint8Array => {
+  const { labels, areas } = labelComponents(binary, width, height, 8);
+  const output = binary.slice();
+  for (let p = 0; p < output.length; p++) {
+    if (labels[p] > 0 && areas[labels[p] - 1] < minArea) output[p] = 0;
+  }
+  return output;
+};
+
+const applyStep = (binary: Uint8Array, width: number, height: number, { operation, size }: MorphologyStep): Uint8Array => {
+  switch (operation) {
+    case 'erode': return erode(binary, width, height, size);
+    case 'dilate': return dilate(binary, width, height, size);
+    case 'open': return dilate(erode(binary, width, height, size), width, height, size);
+    case 'close': return erode(dilate(binary, width, height, size), width, height, size);
+    case 'fillHoles': return fillHoles(binary, width, height, size);
+    case 'removeSmall': return removeSmallObjects(binary, width, height, size);
+    default: throw new Error(`Unknown morphology operation: ${operation}`);
+  }
+};
+
+// 処理を順に適用する。allowed を指定した場合、各処理の後に allowed の外の画素を前景から除く
+export const applyMorphology = (
+  binary: Uint8Array,
+  width: number,
+  height: number,
+  steps: MorphologyStep[],
+  allowed?: Uint8Array
+): Uint8Array => steps.reduce((current, step) => {
+  const next = applyStep(current, width, height, step);
+  if (allowed) {
+    for (let p = 0; p < next.length; p++) {
+      if (!allowed[p]) next[p] = 0;
+    }
+  }
+  return next;
+}, binary);
@@ -0,0 +1,84 @@
+import { analyzePixels, distanceTransform, watershedSplit } from '.';
+
+// 中心 (cx, cy)、半径 r の円を描いた2値画像
+const disks = (width: number, height: number, circles: Array<[number, number, number]>): Uint8Array => {
+  const binary = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (circles.some(([cx, cy, r]) => (x - cx) ** 2 + (y - cy) ** 2 <= r * r)) binary[y * width + x] = 1;
+    }
+  }
+  return binary;
+};
+
+const LEAF = [40, 160, 40, 255];
+const SOIL = [150, 120, 90, 255];
+const toPixels = (binary: Uint8Array) => new Uint8ClampedArray(Array.from(binary).flatMap(v => v ? LEAF : SOIL));
+
+const options = {
+  segmentationIndex: 'ExG',
+  thresholdMethod: 'manual' as const,
+  threshold: 0.1,
+  selectedIndices: { ExG: true }
+};
+
+describe('distanceTransform', () => {
+  test('measures the Euclidean distance to the nearest background pixel', () => {
+    const binary = new Uint8Array([
+      0, 0, 0, 0, 0,
+      0, 1, 1, 1, 0,
+      0, 1, 1, 1, 0,
+      0, 1, 1, 1, 0,
+      0, 0, 0, 0, 0
+    ]);
+    const distance = distanceTransform(binary, 5, 5);
+    expect(distance[0]).toBe(0);
+    expect(distance[6]).toBe(1);
+    expect(distance[12]).toBe(2);
+  });
+});
+
+describe('watershedSplit', () => {
+  test('separates two touching disks', () => {
+    const binary = disks(30, 16, [[9, 8, 6], [20, 8, 6]]);
+    const { count, areas } = watershedSplit(binary, 30, 16, 4);
+    expect(count).toBe(2);
+    expect(Math.abs(areas[0] - areas[1])).toBeLessThanOrEqual(2);
+  });
+});
+
+describe('analyzePixels with objects', () => {
+  test('counts and measures separate plants', () => {
+    const binary = disks(20, 10, [[4, 4, 2], [14, 5, 3]]);
+    const { result, objectLabels } = analyzePixels(toPixels(binary), 20, 10, { ...options, objects: {} });
+
+    expect(result.plantCount).toBe(2);
+    const [first, second] = result.objects!;
+    expect(first.area).toBe(13);
+    expect(first.centroidX).toBeCloseTo(4.5);
+    expect(first.centroidY).toBeCloseTo(4.5);
+    expect(first.bbox).toEqual([2, 2, 5, 5]);
+    expect(first.perimeter).toBe(20);
+    expect(first.indices.ExG).toBeGreaterThan(0.3);
+    expect(second.id).toBe(2);
+    expect(objectLabels![4 * 20 + 4]).toBe(1);
+    expect(objectLabels![0]).toBe(0);
+  });
+
+  test('filters objects by area and counts plants per plot', () => {
+    const binary = disks(20, 10, [[4, 4, 2], [14, 5, 3], [10, 1, 0]]);
+    const { result, objectLabels } = analyzePixels(toPixels(binary), 20, 10, {
+      ...options,
+      objects: { minArea: 5 },
+      plots: [
+        { id: 'A', region: { shape: 'rectangle', points: [[0, 0], [0.5, 1]] } },
+        { id: 'B', region: { shape: 'rectangle', points: [[0.5, 0], [1, 1]] } }
+      ]
+    });
+
+    expect(result.plantCount).toBe(2);
+    expect(objectLabels![1 * 20 + 10]).toBe(0);
+    expect(result.objects!.map(object => object.plotId)).toEqual(['A', 'B']);
+    expect(result.plots!.map(plot => plot.plantCount)).toEqual([1, 1]);
+  });
+});
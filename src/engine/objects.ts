@@ -0,0 +1,270 @@
+import { Components, labelComponents } from './morphology';
+import { CanopyObject, ObjectOptions } from './types';
+
+// 植生マスクの連結成分（株・葉群）の検出と計測
+
+const INF = 1e20;
+
+// 1次元の2乗距離変換（Felzenszwalb & Huttenlocher）
+const distanceLine = (f: Float64Array, n: number, d: Float64Array, v: Int32Array, z: Float64Array) => {
+  let k = 0;
+  v[0] = 0;
+  z[0] = -INF;
+  z[1] = INF;
+  for (let q = 1; q < n; q++) {
+    let s = ((f[q] + q * q) - (f[v[k]] + v[k] * v[k])) / (2 * q - 2 * v[k]);
+    while (s <= z[k]) {
+      k--;
+      s = ((f[q] + q * q) - (f[v[k]] + v[k] * v[k])) / (2 * q - 2 * v[k]);
+    }
+    k++;
+    v[k] = q;
+    z[k] = s;
+    z[k + 1] = INF;
+  }
+  k = 0;
+  for (let q = 0; q < n; q++) {
+    while (z[k + 1] < q) k++;
+    d[q] = (q - v[k]) * (q - v[k]) + f[v[k]];
+  }
+};
+
+// 前景の各画素から最も近い背景画素までのユークリッド距離（背景は 0）
+export const distanceTransform = (binary: Uint8Array, width: number, height: number): Float32Array => {
+  const size = Math.max(width, height);
+  const f = new Float64Array(size);
+  const d = new Float64Array(size);
+  const v = new Int32Array(size);
+  const z = new Float64Array(size + 1);
+  const squared = new Float64Array(binary.length);
+  for (let p = 0; p < binary.length; p++) squared[p] = binary[p] ? INF : 0;
+
+  for (let x = 0; x < width; x++) {
+    for (let y = 0; y < height; y++) f[y] = squared[y * width + x];
+    distanceLine(f, height, d, v, z);
+    for (let y = 0; y < height; y++) squared[y * width + x] = d[y];
+  }
+  const distance = new Float32Array(binary.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) f[x] = squared[y * width + x];
+    distanceLine(f, width, d, v, z);
+    for (let x = 0; x < width; x++) distance[y * width + x] = Math.sqrt(d[x]);
+  }
+  return distance;
+};
+
+// (2 × radius + 1) の正方形の窓の最大値（行と列に分けて処理する）
+const maxFilter = (values: Float32Array, width: number, height: number, radius: number): Float32Array => {
+  const rows = new Float32Array(values.length);
+  const output = new Float32Array(values.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let max = -Infinity;
+      for (let i = Math.max(0, x - radius); i <= Math.min(width - 1, x + radius); i++) max = Math.max(max, values[y * width + i]);
+      rows[y * width + x] = max;
+    }
+  }
+  for (let x = 0; x < width; x++) {
+    for (let y = 0; y < height; y++) {
+      let max = -Infinity;
+      for (let i = Math.max(0, y - radius); i <= Math.min(height - 1, y + radius); i++) max = Math.max(max, rows[i * width + x]);
+      output[y * width + x] = max;
+    }
+  }
+  return output;
+};
+
+// 値の大きい順に取り出す優先度付きキュー（画素番号と値）
+const createHeap = (capacity: number) => {
+  const items = new Int32Array(capacity);
+  const keys = new Float32Array(capacity);
+  let size = 0;
+  return {
+    get size() {
+      return size;
+    },
+    push: (item: number, key: number) => {
+      let i = size++;
+      while (i > 0) {
+        const parent = (i - 1) >> 1;
+        if (keys[parent] >= key) break;
+        items[i] = items[parent];
+        keys[i] = keys[parent];
+        i = parent;
+      }
+      items[i] = item;
+      keys[i] = key;
+    },
+    pop: (): number => {
+      const top = items[0];
+      const lastItem = items[--size];
+      const lastKey = keys[size];
+      let i = 0;
+      while (true) {
+        let child = 2 * i + 1;
+        if (child >= size) break;
+        if (child + 1 < size && keys[child + 1] > keys[child]) child++;
+        if (keys[child] <= lastKey) break;
+        items[i] = items[child];
+        keys[i] = keys[child];
+        i = child;
+      }
+      items[i] = lastItem;
+      keys[i] = lastKey;
+      return top;
+    }
+  };
+};
+
+// 距離変換の極大（minDistance 画素以内で最大の点）を種にした watershed で接した領域を分ける
+export const watershedSplit = (binary: Uint8Array, width: number, height: number, minDistance: number): Components => {
+  const distance = distanceTransform(binary, width, height);
+  const localMax = maxFilter(distance, width, height, Math.max(1, Math.round(minDistance)));
+  const peaks = new Uint8Array(binary.length);
+  for (let p = 0; p < binary.length; p++) {
+    if (binary[p] && distance[p] >= localMax[p]) peaks[p] = 1;
+  }
+  const markers = labelComponents(peaks, width, height, 8);
+  const labels = markers.labels;
+  let count = markers.count;
+
+  // 距離の大きい画素から順に、隣接する種のラベルを広げる
+  const heap = createHeap(binary.length);
+  for (let p = 0; p < binary.length; p++) {
+    if (labels[p] > 0) heap.push(p, distance[p]);
+  }
+  while (heap.size > 0) {
+    const p = heap.pop();
+    const x = p % width;
+    const y = (p - x) / width;
+    for (let dy = -1; dy <= 1; dy++) {
+      const ny = y + dy;
+      if (ny < 0 || ny >= height) continue;
+      for (let dx = -1; dx <= 1; dx++) {
+        const nx = x + dx;
+        if (nx < 0 || nx >= width) continue;
+        const q = ny * width + nx;
+        if (binary[q] && labels[q] === 0) {
+          labels[q] = labels[p];
+          heap.push(q, distance[q]);
+        }
+      }
+    }
+  }
+
+  // 種のない領域（近くのより大きな領域に極大を奪われたもの）はそのまま1つの領域にする
+  const rest = new Uint8Array(binary.length);
+  for (let p = 0; p < binary.length; p++) {
+    if (binary[p] && labels[p] === 0) rest[p] = 1;
+  }
+  const remaining = labelComponents(rest, width, height, 8);
+  for (let p = 0; p < binary.length; p++) {
+    if (remaining.labels[p] > 0) labels[p] = count + remaining.labels[p];
+  }
+  count += remaining.count;
+
+  const areas = new Array(count).fill(0);
+  for (let p = 0; p < labels.length; p++) {
+    if (labels[p] > 0) areas[labels[p] - 1]++;
+  }
+  return { labels, count, areas };
+};
+
+// watershed の種の間隔（画素）の初期値
+export const DEFAULT_MIN_DISTANCE = 5;
+
+// 植生の領域を検出する（8近傍の連結成分、または watershed で分割）
+export const findObjects = (binary: Uint8Array, width: number, height: number, options: ObjectOptions): Components =>
+  options.split
+    ? watershedSplit(binary, width, height, options.minDistance ?? DEFAULT_MIN_DISTANCE)
+    : labelComponents(binary, width, height, 8);
+
+// 領域ごとの指数値の合計（平均値の計算用）
+export interface ObjectAccumulator {
+  keyCount: number;
+  sums: Float64Array;
+  counts: Float64Array;
+}
+
+export const createObjectAccumulator = (objectCount: number, keyCount: number): ObjectAccumulator => ({
+  keyCount,
+  sums: new Float64Array(objectCount * keyCount),
+  counts: new Float64Array(objectCount * keyCount)
+});
+
+// label は 1 から
+export const addObjectPixel = (acc: ObjectAccumulator, label: number, values: ArrayLike<number>): void => {
+  const offset = (label - 1) * acc.keyCount;
+  for (let k = 0; k < acc.keyCount; k++) {
+    if (!Number.isFinite(values[k])) continue;
+    acc.sums[offset + k] += values[k];
+    acc.counts[offset + k]++;
+  }
+};
+
+// 面積・重心・外接矩形・周囲長を求め、面積の範囲外の領域を除いて 1 から番号を付け直す
+// labels は番号を付け直した値（除いた領域は 0）
+export const finalizeObjects = (
+  components: Components,
+  width: number,
+  height: number,
+  acc: ObjectAccumulator,
+  keys: string[],
+  options: ObjectOptions
+): { objects: CanopyObject[]; labels: Int32Array } => {
+  const { labels, count } = components;
+  const area = new Float64Array(count);
+  const sumX = new Float64Array(count);
+  const sumY = new Float64Array(count);
+  const minX = new Int32Array(count).fill(width);
+  const minY = new Int32Array(count).fill(height);
+  const maxX = new Int32Array(count).fill(-1);
+  const maxY = new Int32Array(count).fill(-1);
+  const perimeter = new Float64Array(count);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = y * width + x;
+      const label = labels[p];
+      if (label === 0) continue;
+      const k = label - 1;
+      area[k]++;
+      sumX[k] += x + 0.5;
+      sumY[k] += y + 0.5;
+      if (x < minX[k]) minX[k] = x;
+      if (y < minY[k]) minY[k] = y;
+      if (x > maxX[k]) maxX[k] = x;
+      if (y > maxY[k]) maxY[k] = y;
+      // 他の領域・背景・画像の外に接する辺を数える
+      if (x === 0 || labels[p - 1] !== label) perimeter[k]++;
+      if (x === width - 1 || labels[p + 1] !== label) perimeter[k]++;
+      if (y === 0 || labels[p - width] !== label) perimeter[k]++;
+      if (y === height - 1 || labels[p + width] !== label) perimeter[k]++;
+    }
+  }
+
+  const minArea = options.minArea ?? 0;
+  const maxArea = options.maxArea ?? 0;
+  const renumber = new Int32Array(count + 1);
+  const objects: CanopyObject[] = [];
+  for (let k = 0; k < count; k++) {
+    if (area[k] < minArea || (maxArea > 0 && area[k] > maxArea)) continue;
+    const id = objects.length + 1;
+    renumber[k + 1] = id;
+    const indices: Record<string, number> = {};
+    keys.forEach((key, i) => {
+      const n = acc.counts[k * acc.keyCount + i];
+      indices[key] = n > 0 ? acc.sums[k * acc.keyCount + i] / n : 0;
+    });
+    objects.push({
+      id,
+      area: area[k],
+      centroidX: sumX[k] / area[k],
+      centroidY: sumY[k] / area[k],
+      bbox: [minX[k], minY[k], maxX[k] - minX[k] + 1, maxY[k] - minY[k] + 1],
+      perimeter: perimeter[k],
+      indices
+    });
+  }
+  return { objects, labels: labels.map(label => renumber[label]) };
+};
@@ -0,0 +1,71 @@
+import { analyzePixels, createGridPlots, parsePlotBoundaries } from '.';
+
+describe('createGridPlots', () => {
+  test('labels cells row by row', () => {
+    const plots = createGridPlots({ rows: 2, cols: 2, idFormat: 'rowcol', prefix: 'A-' });
+    expect(plots.map(plot => plot.id)).toEqual(['A-R1C1', 'A-R1C2', 'A-R2C1', 'A-R2C2']);
+    expect(plots[3].region.points).toEqual([[0.5, 0.5], [1, 1]]);
+  });
+
+  test('numbers cells sequentially inside the given bounds', () => {
+    const plots = createGridPlots({ rows: 1, cols: 2, idFormat: 'sequential', prefix: '' }, [[0.2, 0.2], [0.6, 0.4]]);
+    expect(plots.map(plot => plot.id)).toEqual(['1', '2']);
+    expect(plots[1].region.points).toEqual([[0.4, 0.2], [0.6, 0.4]]);
+  });
+});
+
+describe('parsePlotBoundaries', () => {
+  test('converts pixel coordinates to normalized ones', () => {
+    const plots = parsePlotBoundaries(JSON.stringify([{ id: 'P101', points: [[0, 0], [50, 0], [50, 20]] }]), 100, 40);
+    expect(plots).toEqual([{ id: 'P101', region: { shape: 'polygon', points: [[0, 0], [0.5, 0], [0.5, 0.5]] } }]);
+  });
+
+  test('reads GeoJSON polygons and drops the closing vertex', () => {
+    const geojson = {
+      type: 'FeatureCollection',
+      features: [{
+        type: 'Feature',
+        properties: { id: 7 },
+        geometry: { type: 'Polygon', coordinates: [[[0, 0], [1, 0], [1, 1], [0, 1], [0, 0]]] }
+      }]
+    };
+    const [plot] = parsePlotBoundaries(JSON.stringify(geojson), 0, 0);
+    expect(plot.id).toBe('7');
+    expect(plot.region.points).toHaveLength(4);
+  });
+
+  test('rejects files without plots', () => {
+    expect(() => parsePlotBoundaries('{}', 10, 10)).toThrow();
+  });
+
+  test('rejects duplicate IDs and plots in map coordinates', () => {
+    const square = [[0, 0], [10, 0], [10, 10]];
+    expect(() => parsePlotBoundaries(JSON.stringify([{ id: 'A', points: square }, { id: 'A', points: square }]), 100, 100))
+      .toThrow('Duplicate plot ID: A');
+    const utm = [[500100, 4100000], [500120, 4100000], [500120, 4100010]];
+    expect(() => parsePlotBoundaries(JSON.stringify([{ id: 'P1', points: utm }]), 4000, 3000)).toThrow('outside the image');
+  });
+});
+
+describe('analyzePixels with plots', () => {
+  test('reports a result per plot', () => {
+    // 左列が植生、右列が土壌
+    const data = new Uint8ClampedArray([
+      40, 160, 40, 255, 150, 120, 90, 255,
+      40, 160, 40, 255, 150, 120, 90, 255
+    ]);
+    const { result } = analyzePixels(data, 2, 2, {
+      segmentationIndex: 'ExG',
+      thresholdMethod: 'manual',
+      threshold: 0.2,
+      selectedIndices: { ExG: true },
+      plots: createGridPlots({ rows: 1, cols: 2, idFormat: 'rowcol', prefix: '' })
+    });
+
+    expect(result.vegetationCoverage).toBe(50);
+    expect(result.plots?.map(plot => [plot.plotId, plot.totalPixels, plot.vegetationCoverage])).toEqual([
+      ['R1C1', 2, 100],
+      ['R1C2', 2, 0]
+    ]);
+  });
+});
@@ -0,0 +1,110 @@
+import { regionPolygon } from './roi';
+import { Plot, Region } from './types';
+
+export type PlotIdFormat = 'rowcol' | 'sequential';
+
+export interface GridSpec {
+  rows: number;
+  cols: number;
+  idFormat: PlotIdFormat;
+  prefix: string;
+}
+
+type Bounds = [[number, number], [number, number]];
+
+// 領域全体を囲む矩形（領域がなければ画像全体）
+export const regionsBounds = (regions: Region[]): Bounds => {
+  const points = regions.flatMap(regionPolygon);
+  if (points.length === 0) return [[0, 0], [1, 1]];
+  const xs = points.map(([x]) => x);
+  const ys = points.map(([, y]) => y);
+  return [[Math.min(...xs), Math.min(...ys)], [Math.max(...xs), Math.max(...ys)]];
+};
+
+// N×M の格子状の区画を作成（行優先で番号付け）
+export const createGridPlots = (spec: GridSpec, bounds: Bounds = [[0, 0], [1, 1]]): Plot[] => {
+  const [[x0, y0], [x1, y1]] = bounds;
+  const cellWidth = (x1 - x0) / spec.cols;
+  const cellHeight = (y1 - y0) / spec.rows;
+  const plots: Plot[] = [];
+
+  for (let r = 0; r < spec.rows; r++) {
+    for (let c = 0; c < spec.cols; c++) {
+      const id = spec.idFormat === 'rowcol'
+        ? `${spec.prefix}R${r + 1}C${c + 1}`
+        : `${spec.prefix}${r * spec.cols + c + 1}`;
+      plots.push({
+        id,
+        region: {
+          shape: 'rectangle',
+          points: [[x0 + c * cellWidth, y0 + r * cellHeight], [x0 + (c + 1) * cellWidth, y0 + (r + 1) * cellHeight]]
+        }
+      });
+    }
+  }
+
+  return plots;
+};
+
+// GeoJSON の Feature（区画の読み込みに使う項目のみ）
+interface PlotFeature {
+  id?: unknown;
+  properties?: { id?: unknown; plot?: unknown } | null;
+  geometry?: { type?: unknown; coordinates?: unknown[] } | null;
+}
+
+const isPoint = (value: unknown): value is [number, number] =>
+  Array.isArray(value) && value.length >= 2 && typeof value[0] === 'number' && typeof value[1] === 'number';
+
+// 区画境界ファイル（JSON）の読み込み
+// 形式: [{ "id": "P101", "points": [[x, y], ...] }, ...] または Polygon の GeoJSON FeatureCollection
+// 座標がすべて 0〜1 の場合は正規化座標、それ以外は画素座標とみなす（地図座標の GeoJSON は画像の外になるため受け付けない）
+// 区画 ID は重複してはならない
+export const parsePlotBoundaries = (text: string, width: number, height: number): Plot[] => {
+  const json = JSON.parse(text);
+  const entries: Array<{ id: unknown; points: unknown }> = Array.isArray(json)
+    ? json
+    : json?.type === 'FeatureCollection' && Array.isArray(json.features)
+      ? (json.features as Array<PlotFeature | null>).map((feature, i) => ({
+        id: feature?.properties?.id ?? feature?.properties?.plot ?? feature?.id ?? String(i + 1),
+        points: feature?.geometry?.type === 'Polygon' ? feature.geometry.coordinates?.[0] : undefined
+      }))
+      : [];
+  if (entries.length === 0) {
+    throw new Error('No plot boundaries found');
+  }
+
+  const plots = entries.map((entry, i) => {
+    if (!Array.isArray(entry.points) || !entry.points.every(isPoint)) {
+      throw new Error(`Plot ${i + 1} has no valid "points"`);
+    }
+    const points = (entry.points as Array<[number, number]>).map(([x, y]) => [x, y] as [number, number]);
+    // GeoJSON の閉じた環の終点を除く
+    const [first, last] = [points[0], points[points.length - 1]];
+    if (points.length > 3 && first[0] === last[0] && first[1] === last[1]) points.pop();
+    if (points.length < 3) {
+      throw new Error(`Plot ${i + 1} needs at least 3 points`);
+    }
+    return { id: String(entry.id ?? i + 1), points };
+  });
+
+  const ids = new Set<string>();
+  plots.forEach(({ id }) => {
+    if (ids.has(id)) throw new Error(`Duplicate plot ID: ${id}`);
+    ids.add(id);
+  });
+
+  const normalized = plots.every(plot => plot.points.every(([x, y]) => x >= 0 && x <= 1 && y >= 0 && y <= 1));
+  if (!normalized && (width <= 0 || height <= 0)) {
+    throw new Error('Pixel coordinates require a loaded image');
+  }
+  return plots.map(({ id, points }) => {
+    const scaled = normalized ? points : points.map(([x, y]) => [x / width, y / height] as [number, number]);
+    const xs = scaled.map(([x]) => x);
+    const ys = scaled.map(([, y]) => y);
+    if (Math.max(...xs) <= 0 || Math.min(...xs) >= 1 || Math.max(...ys) <= 0 || Math.min(...ys) >= 1) {
+      throw new Error(`Plot ${id} lies outside the image (use pixel or normalized coordinates, not map coordinates)`);
+    }
+    return { id, region: { shape: 'polygon' as const, points: scaled } };
+  });
+};
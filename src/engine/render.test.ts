@@ -0,0 +1,33 @@
+import { COLOR_RAMPS, maskOutline, percentileRange, renderIndexMap } from '.';
+
+describe('renderIndexMap', () => {
+  test('stretches values between min and max and leaves non-finite values transparent', () => {
+    expect(Array.from(renderIndexMap(new Float32Array([0, 1, NaN]), COLOR_RAMPS.grayscale, 0, 1))).toEqual([0, 0, 0, 255, 255, 255, 255, 255, 0, 0, 0, 0]);
+  });
+});
+
+describe('percentileRange', () => {
+  test('ignores outliers beyond the requested percentiles', () => {
+    const values = new Float32Array(1000).map((_, i) => i / 1000);
+    values[0] = -100;
+    values[999] = 100;
+    const [min, max] = percentileRange(values);
+    expect(min).toBeGreaterThan(-1);
+    expect(max).toBeLessThan(1);
+  });
+});
+
+describe('maskOutline', () => {
+  test('marks vegetation pixels next to background', () => {
+    const mask = new Uint8Array([
+      1, 1, 1,
+      1, 1, 1,
+      1, 1, 0
+    ]);
+    expect(Array.from(maskOutline(mask, 3, 3))).toEqual([
+      0, 0, 0,
+      0, 0, 1,
+      0, 1, 0
+    ]);
+  });
+});
@@ -0,0 +1,111 @@
+import { evaluateAlgorithm } from './algorithms';
+import { ColorRamp, RGB, rampColor } from './colormap';
+import { resolveAlgorithms } from './customIndices';
+import { MASK_VEGETATION } from './mask';
+import { CustomIndex } from './types';
+
+// 指定した指数の画素ごとの値（解析と同じ入力から計算）
+export const computeIndexMap = (
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  key: string,
+  customIndices: CustomIndex[] = []
+): Float32Array => {
+  const algorithm = resolveAlgorithms(customIndices)[key];
+  if (!algorithm) {
+    throw new Error(`Unknown index: ${key}`);
+  }
+  const values = new Float32Array(width * height);
+  for (let p = 0; p < values.length; p++) {
+    const i = p * 4;
+    values[p] = evaluateAlgorithm(algorithm, data[i], data[i + 1], data[i + 2]);
+  }
+  return values;
+};
+
+// 百分位点の範囲（表示の自動ストレッチ用）。大きな画像は等間隔に間引いて求める
+export const percentileRange = (values: Float32Array, low = 2, high = 98, maxSamples = 100000): [number, number] => {
+  const stride = Math.max(1, Math.floor(values.length / maxSamples));
+  const samples: number[] = [];
+  for (let p = 0; p < values.length; p += stride) {
+    if (Number.isFinite(values[p])) samples.push(values[p]);
+  }
+  if (samples.length === 0) return [0, 1];
+
+  const sorted = Float64Array.from(samples).sort();
+  const at = (pct: number) => sorted[Math.min(sorted.length - 1, Math.max(0, Math.round((pct / 100) * (sorted.length - 1))))];
+  return [at(low), at(high)];
+};
+
+// 指数マップをカラーランプで RGBA に変換（[min, max] で線形ストレッチ、非有限値は透明）
+export const renderIndexMap = (values: Float32Array, ramp: ColorRamp, min: number, max: number): Uint8ClampedArray => {
+  const rgba = new Uint8ClampedArray(values.length * 4);
+  const span = max - min;
+  for (let p = 0; p < values.length; p++) {
+    const v = values[p];
+    if (!Number.isFinite(v)) continue;
+    const [r, g, b] = rampColor(ramp, span !== 0 ? (v - min) / span : 0.5);
+    const i = p * 4;
+    rgba[i] = r;
+    rgba[i + 1] = g;
+    rgba[i + 2] = b;
+    rgba[i + 3] = 255;
+  }
+  return rgba;
+};
+
+// 植生マスクの輪郭（4近傍に非植生を持つ植生画素）
+export const maskOutline = (mask: Uint8Array, width: number, height: number): Uint8Array => {
+  const outline = new Uint8Array(mask.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = y * width + x;
+      if (mask[p] !== MASK_VEGETATION) continue;
+      if (
+        (x > 0 && mask[p - 1] !== MASK_VEGETATION) ||
+        (x < width - 1 && mask[p + 1] !== MASK_VEGETATION) ||
+        (y > 0 && mask[p - width] !== MASK_VEGETATION) ||
+        (y < height - 1 && mask[p + width] !== MASK_VEGETATION)
+      ) {
+        outline[p] = 1;
+      }
+    }
+  }
+  return outline;
+};
+
+// 領域ごとの輪郭（4近傍に別の領域・背景を持つ画素）。接した領域の境界も含む
+export const labelOutline = (labels: Int32Array, width: number, height: number): Uint8Array => {
+  const outline = new Uint8Array(labels.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = y * width + x;
+      const label = labels[p];
+      if (label === 0) continue;
+      if (
+        (x > 0 && labels[p - 1] !== label) ||
+        (x < width - 1 && labels[p + 1] !== label) ||
+        (y > 0 && labels[p - width] !== label) ||
+        (y < height - 1 && labels[p + width] !== label)
+      ) {
+        outline[p] = 1;
+      }
+    }
+  }
+  return outline;
+};
+
+// 元画像に輪郭を重ねた RGBA を返す
+export const renderOutlineOverlay = (data: Uint8ClampedArray, outline: Uint8Array, color: RGB): Uint8ClampedArray => {
+  const rgba = new Uint8ClampedArray(data);
+  for (let p = 0; p < outline.length; p++) {
+    if (!outline[p]) continue;
+    const i = p * 4;
+    rgba[i] = color[0];
+    rgba[i + 1] = color[1];
+    rgba[i + 2] = color[2];
+    rgba[i + 3] = 255;
+  }
+  return rgba;
+};
@@ -0,0 +1,44 @@
+import { MASK_OUTSIDE, analyzePixels, rasterizeRegions } from '.';
+
+describe('rasterizeRegions', () => {
+  test('fills pixels whose centres lie inside a rectangle', () => {
+    const inside = rasterizeRegions([{ shape: 'rectangle', points: [[0.25, 0.25], [0.75, 0.75]] }], 4, 4);
+    expect(Array.from(inside)).toEqual([
+      0, 0, 0, 0,
+      0, 1, 1, 0,
+      0, 1, 1, 0,
+      0, 0, 0, 0
+    ]);
+  });
+
+  test('unions several regions including polygons', () => {
+    const inside = rasterizeRegions([
+      { shape: 'rectangle', points: [[0, 0], [0.5, 0.5]] },
+      { shape: 'polygon', points: [[1, 1], [1, 0.4], [0.4, 1]] }
+    ], 4, 4);
+    expect(inside.reduce((a, v) => a + v, 0)).toBe(4 + 3);
+    expect(inside[15]).toBe(1);
+  });
+});
+
+describe('analyzePixels with regions', () => {
+  test('computes coverage and indices only inside the ROI', () => {
+    // 左半分が植生、右半分が土壌
+    const data = new Uint8ClampedArray([
+      40, 160, 40, 255, 150, 120, 90, 255,
+      40, 160, 40, 255, 150, 120, 90, 255
+    ]);
+    const { result, mask } = analyzePixels(data, 2, 2, {
+      segmentationIndex: 'ExG',
+      thresholdMethod: 'manual',
+      threshold: 0.2,
+      selectedIndices: { ExG: true },
+      regions: [{ shape: 'rectangle', points: [[0, 0], [0.5, 1]] }]
+    });
+
+    expect(result.totalPixels).toBe(2);
+    expect(result.vegetationCoverage).toBe(100);
+    expect(result.indices.whole.ExG).toBeCloseTo(result.indices.vegetation.ExG, 10);
+    expect(mask[1]).toBe(MASK_OUTSIDE);
+  });
+});
@@ -0,0 +1,73 @@
+import { PixelWindow, Plot, Region } from './types';
+
+// 矩形は2頂点（対角）、多角形は頂点列で表す
+export const regionPolygon = (region: Region): Array<[number, number]> => {
+  if (region.shape === 'rectangle') {
+    const [[x0, y0], [x1, y1]] = region.points;
+    return [[x0, y0], [x1, y0], [x1, y1], [x0, y1]];
+  }
+  return region.points;
+};
+
+// 画像全体
+const fullWindow = (width: number, height: number): PixelWindow => ({ x: 0, y: 0, width, height });
+
+// 画素中心が多角形の内側にある画素ごとに fill を呼ぶ（走査線法）
+// window を指定した場合はその範囲の画素だけを、範囲内の番号で返す
+export const scanRegion = (
+  region: Region,
+  width: number,
+  height: number,
+  fill: (pixelIndex: number) => void,
+  window = fullWindow(width, height)
+) => {
+  const polygon = regionPolygon(region).map(([x, y]) => [x * width, y * height]);
+  if (polygon.length < 3) return;
+
+  const bottom = Math.min(height, window.y + window.height);
+  for (let y = Math.max(0, window.y); y < bottom; y++) {
+    const cy = y + 0.5;
+    // 走査線と辺の交点
+    const crossings: number[] = [];
+    for (let i = 0; i < polygon.length; i++) {
+      const [x0, y0] = polygon[i];
+      const [x1, y1] = polygon[(i + 1) % polygon.length];
+      if ((y0 <= cy && y1 > cy) || (y1 <= cy && y0 > cy)) {
+        crossings.push(x0 + ((cy - y0) / (y1 - y0)) * (x1 - x0));
+      }
+    }
+    crossings.sort((a, b) => a - b);
+
+    for (let k = 0; k + 1 < crossings.length; k += 2) {
+      const start = Math.max(0, window.x, Math.ceil(crossings[k] - 0.5));
+      const end = Math.min(width - 1, window.x + window.width - 1, Math.ceil(crossings[k + 1] - 0.5) - 1);
+      for (let x = start; x <= end; x++) {
+        fill((y - window.y) * window.width + x - window.x);
+      }
+    }
+  }
+};
+
+// 領域をピクセル単位のマスクに変換（1: いずれかの領域内）。window を指定した場合はその範囲のマスク
+export const rasterizeRegions = (
+  regions: Region[],
+  width: number,
+  height: number,
+  window = fullWindow(width, height)
+): Uint8Array => {
+  const inside = new Uint8Array(window.width * window.height);
+  regions.forEach(region => scanRegion(region, width, height, p => { inside[p] = 1; }, window));
+  return inside;
+};
+
+// 区画をラベル画像に変換（0: 区画外, k+1: plots[k]）。重なる部分は後の区画を優先する
+export const rasterizePlots = (
+  plots: Plot[],
+  width: number,
+  height: number,
+  window = fullWindow(width, height)
+): Int32Array => {
+  const labels = new Int32Array(window.width * window.height);
+  plots.forEach((plot, k) => scanRegion(plot.region, width, height, p => { labels[p] = k + 1; }, window));
+  return labels;
+};
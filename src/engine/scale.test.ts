@@ -0,0 +1,42 @@
+import { analyzePixels, gsdFromCamera, gsdFromLine } from '.';
+
+describe('ground sampling distance', () => {
+  test('follows from focal length, sensor width and altitude', () => {
+    // 1インチ（13.2 mm）センサー、8.8 mm、5472 画素、高度 30 m で約 0.82 cm/画素
+    const gsd = gsdFromCamera({ imageWidth: 5472, imageHeight: 3648, altitude: 30, focalLength: 8.8, sensorWidth: 13.2 });
+    expect(gsd).toBeCloseTo(0.822, 3);
+  });
+
+  test('falls back to the 35mm equivalent focal length', () => {
+    // 3:2 のフルサイズでは横幅から求めた値と一致する
+    const fromSensor = gsdFromCamera({ imageWidth: 6000, imageHeight: 4000, altitude: 10, focalLength: 24, sensorWidth: 36 });
+    const fromEquivalent = gsdFromCamera({ imageWidth: 6000, imageHeight: 4000, altitude: 10, focalLength35mm: 24 });
+    expect(fromEquivalent).toBeCloseTo(fromSensor!, 6);
+    expect(gsdFromCamera({ imageWidth: 6000, imageHeight: 4000, altitude: 10 })).toBeNull();
+  });
+
+  test('follows from a line of known length', () => {
+    expect(gsdFromLine([[0, 0.5], [0.5, 0.5]], 200, 100, 50)).toBeCloseTo(0.5);
+    expect(gsdFromLine([[0.2, 0.2], [0.2, 0.2]], 200, 100, 50)).toBeNull();
+  });
+});
+
+describe('analyzePixels with a GSD', () => {
+  test('reports vegetation and object areas in square centimetres', () => {
+    const leaf = [40, 160, 40, 255];
+    const soil = [150, 120, 90, 255];
+    const data = new Uint8ClampedArray([...leaf, ...leaf, ...soil, ...soil]);
+    const { result } = analyzePixels(data, 2, 2, {
+      segmentationIndex: 'ExG',
+      thresholdMethod: 'manual',
+      threshold: 0.1,
+      selectedIndices: { ExG: true },
+      gsd: 0.5,
+      objects: {}
+    });
+
+    expect(result.gsd).toBe(0.5);
+    expect(result.vegetationArea).toBeCloseTo(0.5);
+    expect(result.objects?.[0].physicalArea).toBeCloseTo(0.5);
+  });
+});
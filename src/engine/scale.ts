@@ -0,0 +1,45 @@
+// 地上画素寸法（GSD、cm/画素）と面積の換算
+
+// 35mm 判の対角長（mm）
+const FULL_FRAME_DIAGONAL = Math.hypot(36, 24);
+
+export interface CameraGeometry {
+  // 画像の大きさ（画素）
+  imageWidth: number;
+  imageHeight: number;
+  // 撮影高度（m、地面から）
+  altitude: number;
+  // 焦点距離とセンサーの横幅（mm）
+  focalLength?: number;
+  sensorWidth?: number;
+  // 35mm 判換算の焦点距離（mm、センサーの横幅がわからない場合に対角の画角から求める）
+  focalLength35mm?: number;
+}
+
+// カメラの焦点距離・センサーの大きさ・高度から GSD を求める（情報が足りない場合は null）
+export const gsdFromCamera = (camera: CameraGeometry): number | null => {
+  const { imageWidth, imageHeight, altitude, focalLength, sensorWidth, focalLength35mm } = camera;
+  if (!(altitude > 0) || !(imageWidth > 0)) return null;
+  if (focalLength && focalLength > 0 && sensorWidth && sensorWidth > 0) {
+    return (sensorWidth * altitude * 100) / (focalLength * imageWidth);
+  }
+  if (focalLength35mm && focalLength35mm > 0 && imageHeight > 0) {
+    return (FULL_FRAME_DIAGONAL * altitude * 100) / (focalLength35mm * Math.hypot(imageWidth, imageHeight));
+  }
+  return null;
+};
+
+// 画像上の線分（0〜1 の座標）とその実際の長さ（cm）から GSD を求める
+export const gsdFromLine = (
+  line: [[number, number], [number, number]],
+  imageWidth: number,
+  imageHeight: number,
+  length: number
+): number | null => {
+  const [[x0, y0], [x1, y1]] = line;
+  const pixels = Math.hypot((x1 - x0) * imageWidth, (y1 - y0) * imageHeight);
+  return pixels > 0 && length > 0 ? length / pixels : null;
+};
+
+// 画素数を面積（cm²）に換算
+export const pixelsToArea = (pixels: number, gsd: number): number => pixels * gsd * gsd;
@@ -0,0 +1,91 @@
+import { SceneClass, analyzePixels, analyzeTiled, createSceneClassifier, pixelSource, renderSceneClasses, resolveAlgorithms } from '.';
+
+// 左から緑の葉・枯れた葉・土・影の4つの帯（各 5 列）
+const width = 20;
+const height = 10;
+const colors = [[60, 160, 50], [190, 160, 60], [120, 90, 70], [15, 15, 20]];
+const scene = (): Uint8ClampedArray => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let p = 0; p < width * height; p++) {
+    data.set([...colors[Math.floor((p % width) / 5)], 255], p * 4);
+  }
+  return data;
+};
+
+const classes: SceneClass[] = [
+  { name: 'shadow', color: [30, 41, 59], conditions: [{ feature: 'V', max: 0.2 }] },
+  { name: 'green', color: [34, 197, 94], conditions: [{ feature: 'H', min: 65, max: 170 }, { feature: 'ExG', min: 0.05 }] },
+  { name: 'senescent', color: [234, 179, 8], conditions: [{ feature: 'H', min: 35, max: 65 }, { feature: 'S', min: 0.3 }] },
+  { name: 'soil', color: [146, 64, 14], conditions: [] }
+];
+
+const options = {
+  segmentationIndex: 'ExG',
+  thresholdMethod: 'manual' as const,
+  threshold: 0.05,
+  selectedIndices: { ExG: true },
+  sceneClasses: classes
+};
+
+describe('createSceneClassifier', () => {
+  test('assigns each pixel to the first class whose conditions all hold', () => {
+    const classify = createSceneClassifier(classes, resolveAlgorithms());
+    const data = scene();
+    expect([0, 5, 10, 15].map(x => classify(data, x))).toEqual([1, 2, 3, 0]);
+  });
+
+  test('leaves pixels unclassified without a catch-all class and rejects unknown features', () => {
+    const classify = createSceneClassifier(classes.slice(0, 3), resolveAlgorithms());
+    expect(classify(scene(), 10)).toBe(-1);
+    expect(() => createSceneClassifier([{ name: 'x', color: [0, 0, 0], conditions: [{ feature: 'NDVI', min: 0 }] }], resolveAlgorithms()))
+      .toThrow('Unknown scene class feature: NDVI');
+    expect(() => createSceneClassifier([{ name: 'x', color: [0, 0, 0], conditions: [{ feature: 'constructor', min: 0 }] }], resolveAlgorithms()))
+      .toThrow('Unknown scene class feature: constructor');
+  });
+});
+
+describe('scene classes in the analysis', () => {
+  test('counts pixels, percentages and index means per class', () => {
+    const { result, classLabels } = analyzePixels(scene(), width, height, { ...options, gsd: 0.5 });
+    expect(result.sceneClasses!.map(item => item.name)).toEqual(['shadow', 'green', 'senescent', 'soil']);
+    expect(result.sceneClasses!.map(item => item.pixels)).toEqual([50, 50, 50, 50]);
+    expect(result.sceneClasses!.map(item => item.percentage)).toEqual([25, 25, 25, 25]);
+    expect(result.sceneClasses![1].area).toBe(12.5);
+    expect(result.unclassifiedPixels).toBe(0);
+    expect(result.sceneClasses![1].indices.ExG).toBeCloseTo((2 * 160 - 60 - 50) / 270, 12);
+    expect(result.sceneClasses![1].statistics!.ExG.median).toBeCloseTo(result.sceneClasses![1].indices.ExG, 3);
+    expect(classLabels![0]).toBe(2);
+    expect(classLabels![19]).toBe(1);
+  });
+
+  test('skips pixels outside the regions and gives per-plot classes', () => {
+    const { result, classLabels } = analyzePixels(scene(), width, height, {
+      ...options,
+      regions: [{ shape: 'rectangle', points: [[0, 0], [0.5, 1]] }],
+      plots: [{ id: 'left', region: { shape: 'rectangle', points: [[0, 0], [0.25, 1]] } }]
+    });
+    expect(result.sceneClasses!.map(item => item.pixels)).toEqual([0, 50, 50, 0]);
+    expect(result.sceneClasses![1].percentage).toBe(50);
+    expect(classLabels![15]).toBe(0);
+    const plot = result.plots![0].sceneClasses!;
+    expect(plot.map(item => item.percentage)).toEqual([0, 100, 0, 0]);
+    expect(plot[1].statistics).toBeUndefined();
+  });
+
+  test('classifies tile by tile like the untiled analysis', async () => {
+    const untiled = analyzePixels(scene(), width, height, options).result;
+    const tiled = await analyzeTiled(pixelSource(scene(), width, height), options, { tileSize: 6 });
+    expect(tiled.sceneClasses!.map(item => item.pixels)).toEqual(untiled.sceneClasses!.map(item => item.pixels));
+    tiled.sceneClasses!.forEach((item, k) => {
+      expect(item.indices.ExG).toBeCloseTo(untiled.sceneClasses![k].indices.ExG, 12);
+      expect(item.statistics!.ExG.median).toBe(untiled.sceneClasses![k].statistics!.ExG.median);
+    });
+  });
+
+  test('draws each class in its own colour', () => {
+    const { mask, classLabels } = analyzePixels(scene(), width, height, options);
+    const pixels = Array.from(renderSceneClasses(mask, classLabels!, classes));
+    expect(pixels.slice(0, 4)).toEqual([34, 197, 94, 255]);
+    expect(pixels.slice(15 * 4, 16 * 4)).toEqual([30, 41, 59, 255]);
+  });
+});
@@ -0,0 +1,144 @@
+import { createFeatureEvaluator, isKnownFeature } from './classifier';
+import { maskToRGBA } from './mask';
+import { pixelsToArea } from './scale';
+import {
+  FineHistogram,
+  IndexStatistics,
+  MomentAccumulator,
+  addMoment,
+  addToHistogram,
+  createFineHistogram,
+  createMoments,
+  finalizeStatistics,
+  mergeHistograms,
+  mergeMoments
+} from './statistics';
+import { Algorithm, AnalysisResult, SceneClass, SceneClassResult } from './types';
+
+// クラスの番号は Uint8Array に入れる（0 は分類なし）
+const MAX_SCENE_CLASSES = 255;
+
+// 画素を分類する関数（戻り値はクラスの番号、どのクラスにも当てはまらなければ -1）
+// 値が定義されない特徴量の条件は満たさないものとする
+export const createSceneClassifier = (classes: SceneClass[], algorithms: Record<string, Algorithm>) => {
+  if (classes.length > MAX_SCENE_CLASSES) throw new Error(`Too many scene classes (up to ${MAX_SCENE_CLASSES})`);
+  const features = Array.from(new Set(classes.flatMap(item => item.conditions.map(condition => condition.feature))));
+  const unknown = features.find(feature => !isKnownFeature(feature, algorithms));
+  if (unknown !== undefined) throw new Error(`Unknown scene class feature: ${unknown}`);
+  const { evaluate } = createFeatureEvaluator(features, algorithms);
+  const rules = classes.map(item => item.conditions.map(condition => ({
+    feature: features.indexOf(condition.feature),
+    min: condition.min ?? -Infinity,
+    max: condition.max ?? Infinity
+  })));
+  return (data: Uint8ClampedArray, pixelIndex: number): number => {
+    const i = pixelIndex * 4;
+    const values = evaluate(data[i], data[i + 1], data[i + 2]);
+    for (let k = 0; k < rules.length; k++) {
+      const conditions = rules[k];
+      let matched = true;
+      for (let c = 0; c < conditions.length && matched; c++) {
+        const value = values[conditions[c].feature];
+        matched = value >= conditions[c].min && value <= conditions[c].max;
+      }
+      if (matched) return k;
+    }
+    return -1;
+  };
+};
+
+// クラスごとの画素数と指数の件数・合計（moments[クラス][指数]）
+export interface SceneTally {
+  pixels: Float64Array;
+  unclassified: number;
+  moments: MomentAccumulator[][];
+}
+
+export const createSceneTally = (classCount: number, keyCount: number): SceneTally => ({
+  pixels: new Float64Array(classCount),
+  unclassified: 0,
+  moments: Array.from({ length: classCount }, () => Array.from({ length: keyCount }, createMoments))
+});
+
+// values は指数のキーと同じ順序の指数値
+export const addScenePixel = (tally: SceneTally, classIndex: number, values: ArrayLike<number>): void => {
+  if (classIndex < 0) {
+    tally.unclassified++;
+    return;
+  }
+  tally.pixels[classIndex]++;
+  const moments = tally.moments[classIndex];
+  for (let k = 0; k < moments.length; k++) {
+    addMoment(moments[k], values[k]);
+  }
+};
+
+// source（タイルなど一部の画素の集計）を target に加える
+export const mergeSceneTally = (target: SceneTally, source: SceneTally): void => {
+  target.unclassified += source.unclassified;
+  target.moments.forEach((moments, c) => {
+    target.pixels[c] += source.pixels[c];
+    moments.forEach((moment, k) => mergeMoments(moment, source.moments[c][k]));
+  });
+};
+
+// 百分位点を求めるためのクラスごとのヒストグラム（値域はそのクラスの最小・最大）
+export const createSceneHistograms = (tally: SceneTally): FineHistogram[][] =>
+  tally.moments.map(moments => moments.map(moment => createFineHistogram(moment, moment)));
+
+export const addSceneHistogram = (histograms: FineHistogram[][], classIndex: number, values: ArrayLike<number>): void => {
+  if (classIndex < 0) return;
+  const row = histograms[classIndex];
+  for (let k = 0; k < row.length; k++) {
+    addToHistogram(row[k], values[k]);
+  }
+};
+
+export const mergeSceneHistograms = (target: FineHistogram[][], source: FineHistogram[][]): void => {
+  target.forEach((row, c) => row.forEach((histogram, k) => mergeHistograms(histogram, source[c][k])));
+};
+
+// クラスごとの結果（割合の分母は有効画素数。ヒストグラムを渡した場合は詳細統計も求める）
+export const finalizeScene = (
+  tally: SceneTally,
+  classes: SceneClass[],
+  keys: string[],
+  validPixels: number,
+  gsd: number | null,
+  histograms?: FineHistogram[][]
+): Pick<AnalysisResult, 'sceneClasses' | 'unclassifiedPixels'> => ({
+  sceneClasses: classes.map((item, c): SceneClassResult => {
+    const pixels = tally.pixels[c];
+    const indices: Record<string, number> = {};
+    keys.forEach((key, k) => {
+      const { count, sum } = tally.moments[c][k];
+      indices[key] = count > 0 ? sum / count : 0;
+    });
+    const result: SceneClassResult = {
+      name: item.name,
+      pixels,
+      percentage: validPixels > 0 ? (pixels / validPixels) * 100 : 0,
+      indices
+    };
+    if (gsd !== null) result.area = pixelsToArea(pixels, gsd);
+    if (histograms) {
+      const statistics: Record<string, IndexStatistics> = {};
+      keys.forEach((key, k) => {
+        statistics[key] = finalizeStatistics(tally.moments[c][k], histograms[c][k]);
+      });
+      result.statistics = statistics;
+    }
+    return result;
+  }),
+  unclassifiedPixels: tally.unclassified
+});
+
+// クラスごとの色で塗った処理画像（分類なしの画素・領域外・除外画素は maskToRGBA と同じ色）
+export const renderSceneClasses = (mask: Uint8Array, classLabels: Uint8Array, classes: SceneClass[]): Uint8ClampedArray => {
+  const rgba = maskToRGBA(mask);
+  for (let p = 0; p < classLabels.length; p++) {
+    const label = classLabels[p];
+    if (label > 0 && label <= classes.length) rgba.set(classes[label - 1].color, p * 4);
+  }
+  return rgba;
+};
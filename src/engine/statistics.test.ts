@@ -0,0 +1,51 @@
+import { analyzePixels } from '.';
+import { addMoment, addToHistogram, createFineHistogram, createMoments, finalizeStatistics } from './statistics';
+
+describe('finalizeStatistics', () => {
+  test('computes moments and percentiles of a uniform sample', () => {
+    const moments = createMoments();
+    const values = Array.from({ length: 1001 }, (_, i) => i / 1000);
+    values.forEach(value => addMoment(moments, value));
+    const histogram = createFineHistogram(moments, createMoments());
+    values.forEach(value => addToHistogram(histogram, value));
+
+    const stats = finalizeStatistics(moments, histogram);
+    expect(stats.count).toBe(1001);
+    expect(stats.mean).toBeCloseTo(0.5, 10);
+    expect(stats.std).toBeCloseTo(Math.sqrt(1 / 12), 2);
+    expect(stats.min).toBe(0);
+    expect(stats.max).toBe(1);
+    expect(stats.median).toBeCloseTo(0.5, 2);
+    expect(stats.p5).toBeCloseTo(0.05, 2);
+    expect(stats.p95).toBeCloseTo(0.95, 2);
+    expect(stats.histogram.counts.reduce((a, v) => a + v, 0)).toBe(1001);
+  });
+
+  test('ignores non-finite values', () => {
+    const moments = createMoments();
+    [1, NaN, Infinity, 3].forEach(value => addMoment(moments, value));
+    const histogram = createFineHistogram(moments, createMoments());
+    const stats = finalizeStatistics(moments, histogram);
+    expect(stats.count).toBe(2);
+    expect(stats.mean).toBe(2);
+  });
+});
+
+describe('analyzePixels statistics', () => {
+  test('reports statistics for vegetation and non-vegetation pixels', () => {
+    const data = new Uint8ClampedArray([40, 160, 40, 255, 30, 120, 20, 255, 150, 120, 90, 255, 200, 180, 160, 255]);
+    const { result } = analyzePixels(data, 2, 2, {
+      segmentationIndex: 'ExG',
+      thresholdMethod: 'manual',
+      threshold: 0.2,
+      selectedIndices: { NGI: true }
+    });
+    const stats = result.statistics!.NGI;
+
+    expect(stats.vegetation.count).toBe(2);
+    expect(stats.background.count).toBe(2);
+    expect(stats.vegetation.mean).toBeCloseTo(result.indices.vegetation.NGI, 10);
+    expect(stats.vegetation.min).toBeCloseTo(160 / 240, 6);
+    expect(stats.vegetation.max).toBeCloseTo(120 / 170, 6);
+  });
+});
@@ -0,0 +1,131 @@
+// 指数ごとの詳細統計（植生・非植生それぞれ）
+export interface IndexStatistics {
+  count: number;
+  mean: number;
+  std: number;
+  min: number;
+  max: number;
+  median: number;
+  p5: number;
+  p25: number;
+  p75: number;
+  p95: number;
+  // 表示用のヒストグラム（植生・非植生で同じ範囲のビンを使う）
+  histogram: {
+    min: number;
+    max: number;
+    counts: number[];
+  };
+}
+
+export interface IndexClassStatistics {
+  vegetation: IndexStatistics;
+  background: IndexStatistics;
+}
+
+export const PERCENTILES = ['p5', 'p25', 'median', 'p75', 'p95'] as const;
+const PERCENTILE_VALUES: Record<typeof PERCENTILES[number], number> = { p5: 5, p25: 25, median: 50, p75: 75, p95: 95 };
+
+// 百分位点を求めるための細かいビン数と、表示用のビン数
+const FINE_BINS = 1024;
+export const DISPLAY_BINS = 32;
+
+// 1パス目: 件数・合計・二乗和・最小・最大
+export interface MomentAccumulator {
+  count: number;
+  sum: number;
+  sumSq: number;
+  min: number;
+  max: number;
+}
+
+export const createMoments = (): MomentAccumulator => ({ count: 0, sum: 0, sumSq: 0, min: Infinity, max: -Infinity });
+
+export const addMoment = (acc: MomentAccumulator, value: number): void => {
+  if (!Number.isFinite(value)) return;
+  acc.count++;
+  acc.sum += value;
+  acc.sumSq += value * value;
+  if (value < acc.min) acc.min = value;
+  if (value > acc.max) acc.max = value;
+};
+
+export const mergeMoments = (target: MomentAccumulator, source: MomentAccumulator): void => {
+  target.count += source.count;
+  target.sum += source.sum;
+  target.sumSq += source.sumSq;
+  target.min = Math.min(target.min, source.min);
+  target.max = Math.max(target.max, source.max);
+};
+
+// 2パス目: 共通の範囲 [min, max] での細かいヒストグラム
+export interface FineHistogram {
+  min: number;
+  max: number;
+  counts: Float64Array;
+}
+
+export const createFineHistogram = (vegetation: MomentAccumulator, background: MomentAccumulator): FineHistogram => {
+  const min = Math.min(vegetation.min, background.min);
+  const max = Math.max(vegetation.max, background.max);
+  return Number.isFinite(min)
+    ? { min, max, counts: new Float64Array(FINE_BINS) }
+    : { min: 0, max: 0, counts: new Float64Array(FINE_BINS) };
+};
+
+export const addToHistogram = (histogram: FineHistogram, value: number): void => {
+  if (!Number.isFinite(value)) return;
+  const span = histogram.max - histogram.min;
+  const bin = span > 0 ? Math.min(FINE_BINS - 1, Math.floor(((value - histogram.min) / span) * FINE_BINS)) : 0;
+  histogram.counts[bin]++;
+};
+
+export const mergeHistograms = (target: FineHistogram, source: FineHistogram): void => {
+  for (let t = 0; t < FINE_BINS; t++) target.counts[t] += source.counts[t];
+};
+
+// ビン内を線形補間して百分位点を求める
+const percentile = (histogram: FineHistogram, total: number, pct: number): number => {
+  const binWidth = (histogram.max - histogram.min) / FINE_BINS;
+  if (binWidth === 0) return histogram.min;
+  const target = (total * pct) / 100;
+  let cumulative = 0;
+  for (let t = 0; t < FINE_BINS; t++) {
+    const count = histogram.counts[t];
+    if (count > 0 && cumulative + count >= target) {
+      return histogram.min + (t + (target - cumulative) / count) * binWidth;
+    }
+    cumulative += count;
+  }
+  return histogram.max;
+};
+
+export const finalizeStatistics = (moments: MomentAccumulator, histogram: FineHistogram): IndexStatistics => {
+  const { count } = moments;
+  const mean = count > 0 ? moments.sum / count : 0;
+  const variance = count > 1 ? Math.max(0, (moments.sumSq - count * mean * mean) / (count - 1)) : 0;
+
+  const displayCounts = new Array(DISPLAY_BINS).fill(0);
+  const group = FINE_BINS / DISPLAY_BINS;
+  for (let t = 0; t < FINE_BINS; t++) displayCounts[Math.floor(t / group)] += histogram.counts[t];
+
+  const stats: IndexStatistics = {
+    count,
+    mean,
+    std: Math.sqrt(variance),
+    min: count > 0 ? moments.min : 0,
+    max: count > 0 ? moments.max : 0,
+    median: 0,
+    p5: 0,
+    p25: 0,
+    p75: 0,
+    p95: 0,
+    histogram: { min: histogram.min, max: histogram.max, counts: displayCounts }
+  };
+  if (count > 0) {
+    PERCENTILES.forEach(key => {
+      stats[key] = Math.min(moments.max, Math.max(moments.min, percentile(histogram, count, PERCENTILE_VALUES[key])));
+    });
+  }
+  return stats;
+};
@@ -0,0 +1,9 @@
+// 表形式の出力（CSV・XLSX）に共通の型
+
+// undefined・null・非有限の数値は空欄
+export type Cell = string | number | boolean | null | undefined;
+
+export interface Table {
+  headers: string[];
+  rows: Cell[][];
+}
@@ -0,0 +1,57 @@
+import { isodataBin, kapurBin, kmeansBin, otsuBin, triangleBin } from './threshold';
+import { analyzePixels } from './analyze';
+
+// 2つの山（ビン 40 付近と 180 付近）を持つヒストグラム
+const bimodal = (): Float64Array => {
+  const counts = new Float64Array(256);
+  for (let t = 0; t < 256; t++) {
+    counts[t] = 1000 * Math.exp(-((t - 40) ** 2) / 200) + 400 * Math.exp(-((t - 180) ** 2) / 300);
+  }
+  return counts;
+};
+
+describe('histogram threshold methods', () => {
+  test.each([
+    ['otsu', otsuBin],
+    ['kapur', kapurBin],
+    ['isodata', isodataBin],
+    ['kmeans', kmeansBin]
+  ])('%s splits a bimodal histogram between the modes', (_, selectBin) => {
+    const bin = selectBin(bimodal());
+    expect(bin).toBeGreaterThan(45);
+    expect(bin).toBeLessThan(175);
+  });
+
+  test('triangle places the threshold on the long tail of a skewed histogram', () => {
+    const counts = new Float64Array(256);
+    for (let t = 0; t < 256; t++) {
+      counts[t] = t < 30 ? 0 : 1000 * Math.exp(-(t - 30) / 25);
+    }
+    const bin = triangleBin(counts);
+    expect(bin).toBeGreaterThan(30);
+    expect(bin).toBeLessThan(150);
+  });
+
+  test('methods handle an empty histogram', () => {
+    const counts = new Float64Array(256);
+    [otsuBin, triangleBin, kapurBin, isodataBin, kmeansBin].forEach(selectBin => {
+      expect(selectBin(counts)).toBe(0);
+    });
+  });
+});
+
+describe('ExG−ExR zero-crossing', () => {
+  test('uses ExGR > 0 and keeps black pixels out of the vegetation', () => {
+    const data = new Uint8ClampedArray([40, 160, 40, 255, 150, 120, 90, 255, 0, 0, 0, 255]);
+    const { result, mask } = analyzePixels(data, 3, 1, {
+      segmentationIndex: 'GLI',
+      thresholdMethod: 'exgr',
+      threshold: 0.5,
+      selectedIndices: {}
+    });
+
+    expect(Array.from(mask)).toEqual([1, 0, 0]);
+    expect(result.segmentationIndex).toBe('ExGR');
+    expect(result.threshold).toBe(0);
+  });
+});
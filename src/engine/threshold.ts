@@ -0,0 +1,218 @@
+// 指数値のヒストグラム
+export interface Histogram {
+  counts: Float64Array;
+  min: number;
+  max: number;
+  // 1ビンあたりの幅
+  binWidth: number;
+}
+
+export const HISTOGRAM_BINS = 256;
+
+// 値域 [min, max] を等分した空のヒストグラム（有限値がない場合は min > max を渡す）
+export const createHistogram = (min: number, max: number, bins = HISTOGRAM_BINS): Histogram => {
+  const counts = new Float64Array(bins);
+  if (min > max) return { counts, min: 0, max: 0, binWidth: 0 };
+  return { counts, min, max, binWidth: (max - min) / bins };
+};
+
+// 有限値を1件数える（値は作成時の値域内であること）
+export const countValue = (histogram: Histogram, v: number): void => {
+  if (!Number.isFinite(v)) return;
+  const bins = histogram.counts.length;
+  const bin = histogram.binWidth > 0 ? Math.min(bins - 1, Math.floor((v - histogram.min) / histogram.binWidth)) : 0;
+  histogram.counts[bin]++;
+};
+
+// 有限値のみを対象に、値域 [min, max] を等分したヒストグラムを作成
+export const buildHistogram = (values: Float32Array, bins = HISTOGRAM_BINS): Histogram => {
+  let min = Infinity;
+  let max = -Infinity;
+  for (let i = 0; i < values.length; i++) {
+    const v = values[i];
+    if (!Number.isFinite(v)) continue;
+    if (v < min) min = v;
+    if (v > max) max = v;
+  }
+
+  const histogram = createHistogram(min, max, bins);
+  if (min > max) return histogram;
+  for (let i = 0; i < values.length; i++) {
+    countValue(histogram, values[i]);
+  }
+  return histogram;
+};
+
+// ビン t とビン t+1 の境界値
+export const binEdge = (histogram: Histogram, t: number): number =>
+  histogram.min + (t + 1) * histogram.binWidth;
+
+// 大津の方法: クラス間分散が最大となるビンを返す
+export const otsuBin = (counts: ArrayLike<number>): number => {
+  let sumB = 0;
+  let wB = 0;
+  let wF = 0;
+  let maxVar = 0;
+  let threshold = 0;
+  let total = 0;
+  let sum = 0;
+  for (let t = 0; t < counts.length; t++) {
+    total += counts[t];
+    sum += t * counts[t];
+  }
+
+  for (let t = 0; t < counts.length; t++) {
+    wB += counts[t];
+    if (wB === 0) continue;
+    wF = total - wB;
+    if (wF === 0) break;
+
+    sumB += t * counts[t];
+    const mB = sumB / wB;
+    const mF = (sum - sumB) / wF;
+    const variance = wB * wF * Math.pow(mB - mF, 2);
+
+    if (variance > maxVar) {
+      maxVar = variance;
+      threshold = t;
+    }
+  }
+
+  return threshold;
+};
+
+// 三角法（Zack）: ピークから長い裾の端へ引いた直線から最も離れたビンを返す
+export const triangleBin = (counts: ArrayLike<number>): number => {
+  let first = -1;
+  let last = -1;
+  let peak = 0;
+  for (let t = 0; t < counts.length; t++) {
+    if (counts[t] > 0) {
+      if (first < 0) first = t;
+      last = t;
+    }
+    if (counts[t] > counts[peak]) peak = t;
+  }
+  if (first < 0 || first === last) return Math.max(first, 0);
+
+  // 裾の長い側を探索する
+  const end = peak - first > last - peak ? first : last;
+  const step = end > peak ? 1 : -1;
+  const dx = end - peak;
+  const dy = counts[end] - counts[peak];
+  let best = peak;
+  let maxDistance = -1;
+  for (let t = peak; t !== end + step; t += step) {
+    const distance = Math.abs(dy * (t - peak) - dx * (counts[t] - counts[peak]));
+    if (distance > maxDistance) {
+      maxDistance = distance;
+      best = t;
+    }
+  }
+
+  return step > 0 ? best : Math.max(best - 1, 0);
+};
+
+// Kapur のエントロピー最大化法
+export const kapurBin = (counts: ArrayLike<number>): number => {
+  let total = 0;
+  for (let t = 0; t < counts.length; t++) total += counts[t];
+  if (total === 0) return 0;
+
+  const p = Array.from(counts, c => c / total);
+  let threshold = 0;
+  let maxEntropy = -Infinity;
+  let wB = 0;
+  for (let t = 0; t < p.length - 1; t++) {
+    wB += p[t];
+    const wF = 1 - wB;
+    if (wB <= 0 || wF <= 1e-12) continue;
+
+    let hB = 0;
+    for (let i = 0; i <= t; i++) {
+      if (p[i] > 0) hB -= (p[i] / wB) * Math.log(p[i] / wB);
+    }
+    let hF = 0;
+    for (let i = t + 1; i < p.length; i++) {
+      if (p[i] > 0) hF -= (p[i] / wF) * Math.log(p[i] / wF);
+    }
+
+    if (hB + hF > maxEntropy) {
+      maxEntropy = hB + hF;
+      threshold = t;
+    }
+  }
+
+  return threshold;
+};
+
+// 2クラスの平均値の中点が収束するまで反復する（初期値 init）
+const iterateMeans = (counts: ArrayLike<number>, init: number): number => {
+  let threshold = init;
+  for (let iteration = 0; iteration < 100; iteration++) {
+    let wB = 0;
+    let sumB = 0;
+    let wF = 0;
+    let sumF = 0;
+    for (let t = 0; t < counts.length; t++) {
+      if (t <= threshold) {
+        wB += counts[t];
+        sumB += t * counts[t];
+      } else {
+        wF += counts[t];
+        sumF += t * counts[t];
+      }
+    }
+    if (wB === 0 || wF === 0) break;
+    const next = (sumB / wB + sumF / wF) / 2;
+    if (Math.abs(next - threshold) < 0.5) {
+      threshold = next;
+      break;
+    }
+    threshold = next;
+  }
+  return Math.floor(threshold);
+};
+
+// ISODATA（Ridler & Calvard）: 全体の平均値から反復を開始する
+export const isodataBin = (counts: ArrayLike<number>): number => {
+  let total = 0;
+  let sum = 0;
+  for (let t = 0; t < counts.length; t++) {
+    total += counts[t];
+    sum += t * counts[t];
+  }
+  return total > 0 ? iterateMeans(counts, sum / total) : 0;
+};
+
+// 1次元 k-means（k=2）: 値域の両端を初期重心として Lloyd 法で反復する
+export const kmeansBin = (counts: ArrayLike<number>): number => {
+  let first = -1;
+  let last = -1;
+  for (let t = 0; t < counts.length; t++) {
+    if (counts[t] > 0) {
+      if (first < 0) first = t;
+      last = t;
+    }
+  }
+  if (first < 0) return 0;
+  return iterateMeans(counts, (first + last) / 2);
+};
+
+// ヒストグラムから選んだビンの境界値を閾値として返す（指数値と同じスケール）
+export const histogramThreshold = (
+  histogram: Histogram,
+  selectBin: (counts: ArrayLike<number>) => number
+): number => {
+  if (histogram.binWidth === 0) return histogram.min;
+  return binEdge(histogram, selectBin(histogram.counts));
+};
+
+export const calculateHistogramThreshold = (
+  values: Float32Array,
+  selectBin: (counts: ArrayLike<number>) => number
+): number => histogramThreshold(buildHistogram(values), selectBin);
+
+// 大津の方法による閾値計算
+export const calculateOtsuThreshold = (values: Float32Array): number =>
+  calculateHistogramThreshold(values, otsuBin);
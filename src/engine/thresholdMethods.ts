@@ -0,0 +1,48 @@
+import { CLASSIFIER_INDEX } from './classifier';
+import { isodataBin, kapurBin, kmeansBin, otsuBin, triangleBin } from './threshold';
+import { ThresholdMethod } from './types';
+
+export interface ThresholdMethodDefinition {
+  name: string;
+  // ヒストグラムから閾値ビンを選ぶ（自動閾値の方法）
+  selectBin?: (counts: ArrayLike<number>) => number;
+  // 指数と閾値が固定されている方法（strict: 閾値と等しい値は植生に含めない）
+  fixed?: { index: string; threshold: number; strict: boolean };
+}
+
+// 2値化方法の一覧（selectBin も fixed も持たないものは手動閾値）
+export const THRESHOLD_METHODS: Record<ThresholdMethod, ThresholdMethodDefinition> = {
+  otsu: {
+    name: "Otsu",
+    selectBin: otsuBin
+  },
+  triangle: {
+    name: "Triangle",
+    selectBin: triangleBin
+  },
+  kapur: {
+    name: "Kapur Entropy",
+    selectBin: kapurBin
+  },
+  isodata: {
+    name: "IsoData",
+    selectBin: isodataBin
+  },
+  kmeans: {
+    name: "k-means (k=2)",
+    selectBin: kmeansBin
+  },
+  // Meyer & Neto (2008): ExG − ExR > 0
+  exgr: {
+    name: "ExG−ExR > 0",
+    fixed: { index: 'ExGR', threshold: 0, strict: true }
+  },
+  // 塗った画素から学習した分類器で、植生クラスの確率が 0.5 より大きい画素
+  classifier: {
+    name: "Pixel classifier",
+    fixed: { index: CLASSIFIER_INDEX, threshold: 0.5, strict: true }
+  },
+  manual: {
+    name: "Manual"
+  }
+};
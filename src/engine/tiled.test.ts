@@ -0,0 +1,141 @@
+import {
+  AnalysisOptions,
+  AnalysisResult,
+  analyzePixels,
+  analyzeTiled,
+  bytesSource,
+  computeIndexMap,
+  openGeoTiff,
+  pixelSource,
+  writeTiff
+} from '.';
+
+// 植生・土壌・白飛び・暗い画素が混ざった試験画像
+const testImage = (width: number, height: number): Uint8ClampedArray => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  let seed = 7;
+  const random = () => {
+    seed = (seed * 1103515245 + 12345) % 2147483648;
+    return seed / 2147483648;
+  };
+  for (let p = 0; p < width * height; p++) {
+    const x = p % width;
+    const y = Math.floor(p / width);
+    const plant = Math.hypot(x - width / 3, y - height / 2) < width / 5 || (x + y) % 9 === 0;
+    const shade = 0.4 + 0.6 * random();
+    const rgb = plant
+      ? [40 + 40 * random(), 120 + 100 * random(), 30 + 30 * random()]
+      : [140 + 60 * random(), 110 + 50 * random(), 80 + 40 * random()];
+    data.set(rgb.map(value => value * shade), p * 4);
+    if (p % 53 === 0) data.set([255, 255, 255], p * 4);
+    if (p % 61 === 0) data.set([5, 8, 4], p * 4);
+    data[p * 4 + 3] = 255;
+  }
+  return data;
+};
+
+// 数値は相対誤差 1e-9 以内、それ以外は一致（合計の順序の違いによる末尾の桁の違いを許す）
+const expectClose = (actual: unknown, expected: unknown, path = 'result'): void => {
+  if (typeof expected === 'number' && typeof actual === 'number') {
+    if (Number.isNaN(expected)) {
+      expect(actual).toBeNaN();
+    } else if (Math.abs(actual - expected) > 1e-9 * Math.max(1, Math.abs(expected))) {
+      throw new Error(`${path}: expected ${expected}, got ${actual}`);
+    }
+  } else if (expected && typeof expected === 'object') {
+    expect(Object.keys(actual as object).sort()).toEqual(Object.keys(expected).sort());
+    Object.entries(expected).forEach(([key, value]) => expectClose((actual as Record<string, unknown>)[key], value, `${path}.${key}`));
+  } else {
+    expect(actual).toEqual(expected);
+  }
+};
+
+describe('analyzeTiled', () => {
+  const width = 45;
+  const height = 38;
+  const data = testImage(width, height);
+  const base: AnalysisOptions = {
+    segmentationIndex: 'ExG',
+    thresholdMethod: 'otsu',
+    threshold: 0,
+    selectedIndices: { ExG: true, GRVI: true, VARI: true },
+    exclusions: { saturated: 250, dark: 20, shadow: { method: 'lab', threshold: 1.5 } },
+    regions: [{ shape: 'polygon', points: [[0.05, 0.1], [0.95, 0.02], [0.9, 0.97], [0.1, 0.85]] }],
+    plots: [
+      { id: 'A', region: { shape: 'rectangle', points: [[0, 0], [0.5, 1]] } },
+      { id: 'B', region: { shape: 'rectangle', points: [[0.5, 0], [1, 1]] } }
+    ],
+    calibration: { method: 'whiteBalance', matrix: [1.1, 0, 0, 0, 0.95, 0, 0, 0, 1.05], rmse: 0 },
+    gsd: 0.5
+  };
+
+  // タイルのマスクをつなげて画像全体のマスクにする
+  const runTiled = async (options: AnalysisOptions, tileSize: number, indexKey?: string) => {
+    const mask = new Uint8Array(width * height);
+    const index = new Float32Array(width * height);
+    const result = await analyzeTiled(pixelSource(data, width, height), options, {
+      tileSize,
+      indexKey,
+      onTile: tile => {
+        for (let row = 0; row < tile.height; row++) {
+          mask.set(tile.mask.subarray(row * tile.width, (row + 1) * tile.width), (tile.y + row) * width + tile.x);
+          if (tile.index) index.set(tile.index.subarray(row * tile.width, (row + 1) * tile.width), (tile.y + row) * width + tile.x);
+        }
+      }
+    });
+    return { result, mask, index };
+  };
+
+  test('matches the untiled analysis for each threshold method and tile size', async () => {
+    const methods: Array<Pick<AnalysisOptions, 'thresholdMethod' | 'segmentationIndex'>> = [
+      { thresholdMethod: 'otsu', segmentationIndex: 'ExG' },
+      { thresholdMethod: 'triangle', segmentationIndex: 'GRVI' },
+      { thresholdMethod: 'manual', segmentationIndex: 'ExG' },
+      { thresholdMethod: 'exgr', segmentationIndex: 'ExG' }
+    ];
+    for (const method of methods) {
+      const options = { ...base, ...method, threshold: 0.1 };
+      const untiled = analyzePixels(data.slice(), width, height, options);
+      for (const tileSize of [7, 16, 40]) {
+        const tiled = await runTiled(options, tileSize);
+        expect(Array.from(tiled.mask)).toEqual(Array.from(untiled.mask));
+        expect(tiled.result.threshold).toBe(untiled.result.threshold);
+        expect(tiled.result.vegetationPixels).toBe(untiled.result.vegetationPixels);
+        expect(tiled.result.exclusions).toEqual(untiled.result.exclusions);
+        expectClose(tiled.result, untiled.result);
+      }
+    }
+  });
+
+  test('is identical to the untiled analysis when the image fits in one tile', async () => {
+    const untiled = analyzePixels(data.slice(), width, height, base);
+    const tiled: AnalysisResult = (await runTiled(base, 64)).result;
+    expect(tiled).toEqual(untiled.result);
+  });
+
+  test('passes index values computed from the calibrated pixels', async () => {
+    const { index } = await runTiled(base, 16, 'VARI');
+    const calibrated = new Uint8ClampedArray(data.length);
+    for (let i = 0; i < data.length; i += 4) {
+      calibrated.set([data[i] * 1.1, data[i + 1] * 0.95, data[i + 2] * 1.05, 255], i);
+    }
+    expect(Array.from(index)).toEqual(Array.from(computeIndexMap(calibrated, width, height, 'VARI')));
+  });
+
+  test('analyses a GeoTIFF read tile by tile', async () => {
+    const rgb: number[] = [];
+    for (let i = 0; i < data.length; i += 4) rgb.push(data[i], data[i + 1], data[i + 2]);
+    const image = await openGeoTiff(bytesSource(writeTiff({ width, height, samplesPerPixel: 3, sampleType: 'uint8', tileSize: 16 }, rgb)));
+    const progress: number[] = [];
+    const result = await analyzeTiled(image, base, { tileSize: 32, onProgress: done => progress.push(done) });
+    expectClose(result, analyzePixels(data.slice(), width, height, base).result);
+    // 影・自動閾値（2回）・集計・統計でそれぞれ4タイル
+    expect(progress).toEqual(Array.from({ length: 20 }, (_, i) => i + 1));
+  });
+
+  test('rejects options that need neighbouring pixels', async () => {
+    const source = pixelSource(data, width, height);
+    await expect(analyzeTiled(source, { ...base, morphology: [{ operation: 'open', size: 3 }] })).rejects.toThrow('morphology');
+    await expect(analyzeTiled(source, { ...base, objects: {} })).rejects.toThrow('Object detection');
+  });
+});
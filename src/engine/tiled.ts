@@ -0,0 +1,316 @@
+import { AccumulatedResult, addExcludedPixel, addPixel, createAccumulator, finalizeAccumulator, mergeAccumulator } from './accumulator';
+import { evaluateAlgorithm } from './algorithms';
+import { createIndexEvaluator, isVegetationValue, resolveAnalysis } from './analyze';
+import { applyCalibration } from './calibration';
+import {
+  EXCLUDED_NONE,
+  EXCLUSION_REASONS,
+  addLightness,
+  classifyExclusions,
+  createLightnessMoments,
+  shadowLightnessLimit
+} from './exclusion';
+import { MASK_BACKGROUND, MASK_EXCLUDED, MASK_OUTSIDE, MASK_VEGETATION } from './mask';
+import { computeIndexMap } from './render';
+import { rasterizePlots, rasterizeRegions } from './roi';
+import { pixelsToArea } from './scale';
+import {
+  addSceneHistogram,
+  addScenePixel,
+  createSceneHistograms,
+  createSceneTally,
+  finalizeScene,
+  mergeSceneTally
+} from './scene';
+import {
+  IndexClassStatistics,
+  addMoment,
+  addToHistogram,
+  createFineHistogram,
+  createMoments,
+  finalizeStatistics,
+  mergeMoments
+} from './statistics';
+import { countValue, createHistogram, histogramThreshold } from './threshold';
+import { AnalysisOptions, AnalysisResult, ExclusionReason, PixelWindow } from './types';
+
+// タイルごとに画素を読む元（GeoTIFF など）
+export interface TileSource {
+  width: number;
+  height: number;
+  // 画素 (x, y) から幅 width・高さ height の範囲の RGBA
+  read: (x: number, y: number, width: number, height: number) => Promise<Uint8ClampedArray>;
+}
+
+// RGBA 配列をタイルの読み込み元にする
+export const pixelSource = (data: Uint8ClampedArray, width: number, height: number): TileSource => ({
+  width,
+  height,
+  read: async (x, y, w, h) => {
+    const output = new Uint8ClampedArray(w * h * 4);
+    for (let row = 0; row < h; row++) {
+      output.set(data.subarray(((y + row) * width + x) * 4, ((y + row) * width + x + w) * 4), row * w * 4);
+    }
+    return output;
+  }
+});
+
+export interface TileOutput extends PixelWindow {
+  // タイルのマスク（値は mask.ts の MASK_*）
+  mask: Uint8Array;
+  // indexKey の指数の値（色補正後の画素から。値が定義されない画素は NaN）
+  index?: Float32Array;
+  // 画素ごとのクラス（AnalysisOutput.classLabels と同じ。多クラス分類を指定した場合のみ）
+  classes?: Uint8Array;
+}
+
+export interface TilingOptions {
+  // タイルの一辺（画素）
+  tileSize?: number;
+  // 指定した場合は onTile にこの指数の値も渡す
+  indexKey?: string;
+  // マスクが決まったタイルごとに、左上から行ごとの順に呼ぶ
+  onTile?: (tile: TileOutput) => void | Promise<void>;
+  // 読んだタイルの数と全体の数（自動閾値・影の判定・統計のために同じタイルを何度か読む）
+  onProgress?: (done: number, total: number) => void;
+}
+
+export const DEFAULT_TILE_SIZE = 512;
+
+// 読んだタイル
+interface Tile {
+  window: PixelWindow;
+  // 補正前の画素（除外の判定に使う）と補正後の画素
+  input: Uint8ClampedArray;
+  data: Uint8ClampedArray;
+  pixelCount: number;
+  include: (pixelIndex: number) => boolean;
+}
+
+// 大きな画像をタイルごとに読んで解析する（メモリに載るのはタイルと集計だけ）
+// 自動閾値はタイルごとのヒストグラムを合わせて画像全体で求め、集計はタイルごとに求めて合わせる
+// 結果は analyzePixels と同じ（平均などの合計の順序が違うため、小数点以下の末尾の桁は異なることがある）
+// マスクの後処理・領域の検出・画像ごとの色補正の参照は近傍や画像全体の画素が必要なため使えない
+export const analyzeTiled = async (
+  source: TileSource,
+  options: AnalysisOptions,
+  tiling: TilingOptions = {}
+): Promise<AnalysisResult> => {
+  if (options.morphology && options.morphology.length > 0) throw new Error('Mask morphology is not supported in tiled analysis');
+  if (options.objects) throw new Error('Object detection is not supported in tiled analysis');
+  if (options.calibrationReference) throw new Error('A per-image calibration reference is not supported in tiled analysis');
+  const { method, segmentationIndex, segmentation, strict, selectedKeys, selectedAlgorithms, classifyScene } = resolveAnalysis(options);
+  const { width, height } = source;
+  const { calibration, exclusions } = options;
+  const tileSize = tiling.tileSize ?? DEFAULT_TILE_SIZE;
+  const regions = options.regions && options.regions.length > 0 ? options.regions : null;
+  const plots = options.plots ?? [];
+
+  const windows: PixelWindow[] = [];
+  for (let y = 0; y < height; y += tileSize) {
+    for (let x = 0; x < width; x += tileSize) {
+      windows.push({ x, y, width: Math.min(tileSize, width - x), height: Math.min(tileSize, height - y) });
+    }
+  }
+  const shadowLab = exclusions?.shadow?.method === 'lab';
+  const passes = 1 + (shadowLab ? 1 : 0) + (!method.fixed && method.selectBin ? 2 : 0) + (selectedKeys.length > 0 ? 1 : 0);
+  let done = 0;
+
+  // すべてのタイルを順に読んで visit を呼ぶ
+  const eachTile = async (visit: (tile: Tile) => void | Promise<void>) => {
+    for (const window of windows) {
+      const input = await source.read(window.x, window.y, window.width, window.height);
+      const roi = regions ? rasterizeRegions(regions, width, height, window) : null;
+      await visit({
+        window,
+        input,
+        data: calibration ? applyCalibration(input, calibration) : input,
+        pixelCount: window.width * window.height,
+        include: p => !roi || roi[p] === 1
+      });
+      done++;
+      tiling.onProgress?.(done, passes * windows.length);
+    }
+  };
+
+  // 影（lab）の閾値は画像全体の L* から求める
+  let lightnessLimit: number | null | undefined;
+  if (exclusions && shadowLab) {
+    const moments = createLightnessMoments();
+    await eachTile(tile => addLightness(moments, tile.input, tile.pixelCount, exclusions, tile.include));
+    lightnessLimit = shadowLightnessLimit(moments, exclusions.shadow!.threshold);
+  }
+
+  const exclusionReasons = (tile: Tile) => exclusions
+    ? classifyExclusions(tile.input, tile.pixelCount, exclusions, tile.include, lightnessLimit)
+    : null;
+
+  // 2値化に使う指数の値（analyzePixels と同じく Float32 に丸める）。領域外・除外画素は NaN
+  const segmentationValues = (tile: Tile, reasons: Uint8Array | null): Float32Array => {
+    const values = new Float32Array(tile.pixelCount);
+    for (let p = 0; p < tile.pixelCount; p++) {
+      if (!tile.include(p) || (reasons && reasons[p] !== EXCLUDED_NONE)) {
+        values[p] = NaN;
+        continue;
+      }
+      const i = p * 4;
+      values[p] = evaluateAlgorithm(segmentation, tile.data[i], tile.data[i + 1], tile.data[i + 2]);
+    }
+    return values;
+  };
+
+  // 自動閾値: 1回目で値域、2回目でヒストグラムを求める
+  let currentThreshold = options.threshold;
+  if (method.fixed) {
+    currentThreshold = method.fixed.threshold;
+  } else if (method.selectBin) {
+    let min = Infinity;
+    let max = -Infinity;
+    await eachTile(tile => {
+      segmentationValues(tile, exclusionReasons(tile)).forEach(v => {
+        if (!Number.isFinite(v)) return;
+        if (v < min) min = v;
+        if (v > max) max = v;
+      });
+    });
+    const histogram = createHistogram(min, max);
+    await eachTile(tile => {
+      segmentationValues(tile, exclusionReasons(tile)).forEach(v => countValue(histogram, v));
+    });
+    currentThreshold = histogramThreshold(histogram, method.selectBin);
+  }
+
+  const classify = (tile: Tile) => {
+    const reasons = exclusionReasons(tile);
+    const values = segmentationValues(tile, reasons);
+    const mask = new Uint8Array(tile.pixelCount);
+    for (let p = 0; p < tile.pixelCount; p++) {
+      if (!tile.include(p)) {
+        mask[p] = MASK_OUTSIDE;
+      } else if (reasons && reasons[p] !== EXCLUDED_NONE) {
+        mask[p] = MASK_EXCLUDED;
+      } else {
+        mask[p] = isVegetationValue(values[p], currentThreshold, segmentation, strict) ? MASK_VEGETATION : MASK_BACKGROUND;
+      }
+    }
+    return { mask, reasons };
+  };
+
+  const { values: indexValues, evaluate } = createIndexEvaluator(selectedAlgorithms);
+  const accumulator = createAccumulator(selectedKeys.length);
+  const plotAccumulators = plots.map(() => createAccumulator(selectedKeys.length));
+  const vegetationMoments = selectedKeys.map(createMoments);
+  const backgroundMoments = selectedKeys.map(createMoments);
+  const exclusionCounts = EXCLUSION_REASONS.map(() => 0);
+  const sceneClasses = options.sceneClasses ?? [];
+  const sceneTally = createSceneTally(sceneClasses.length, selectedKeys.length);
+  const plotSceneTallies = classifyScene ? plots.map(() => createSceneTally(sceneClasses.length, selectedKeys.length)) : [];
+
+  // 集計はタイルごとに求めて画像全体の集計に加える
+  await eachTile(async tile => {
+    const { mask, reasons } = classify(tile);
+    const plotLabels = plots.length > 0 ? rasterizePlots(plots, width, height, tile.window) : null;
+    const tileAccumulator = createAccumulator(selectedKeys.length);
+    const tilePlotAccumulators = plots.map(() => createAccumulator(selectedKeys.length));
+    const tileVegetationMoments = selectedKeys.map(createMoments);
+    const tileBackgroundMoments = selectedKeys.map(createMoments);
+    const classes = classifyScene ? new Uint8Array(tile.pixelCount) : undefined;
+    const tileSceneTally = createSceneTally(sceneClasses.length, selectedKeys.length);
+    const tilePlotSceneTallies = plotSceneTallies.map(() => createSceneTally(sceneClasses.length, selectedKeys.length));
+    for (let p = 0; p < tile.pixelCount; p++) {
+      if (mask[p] === MASK_OUTSIDE) continue;
+      const label = plotLabels ? plotLabels[p] : 0;
+      if (mask[p] === MASK_EXCLUDED) {
+        exclusionCounts[reasons![p] - 1]++;
+        addExcludedPixel(tileAccumulator);
+        if (label > 0) addExcludedPixel(tilePlotAccumulators[label - 1]);
+        continue;
+      }
+      const isVegetation = mask[p] === MASK_VEGETATION;
+      evaluate(tile.data, p);
+      addPixel(tileAccumulator, indexValues, isVegetation);
+      const moments = isVegetation ? tileVegetationMoments : tileBackgroundMoments;
+      for (let k = 0; k < selectedKeys.length; k++) {
+        addMoment(moments[k], indexValues[k]);
+      }
+      if (label > 0) addPixel(tilePlotAccumulators[label - 1], indexValues, isVegetation);
+      if (classifyScene) {
+        const classIndex = classifyScene(tile.data, p);
+        classes![p] = classIndex + 1;
+        addScenePixel(tileSceneTally, classIndex, indexValues);
+        if (label > 0) addScenePixel(tilePlotSceneTallies[label - 1], classIndex, indexValues);
+      }
+    }
+    mergeAccumulator(accumulator, tileAccumulator);
+    mergeSceneTally(sceneTally, tileSceneTally);
+    plotSceneTallies.forEach((tally, k) => mergeSceneTally(tally, tilePlotSceneTallies[k]));
+    plotAccumulators.forEach((plotAccumulator, k) => mergeAccumulator(plotAccumulator, tilePlotAccumulators[k]));
+    selectedKeys.forEach((_, k) => {
+      mergeMoments(vegetationMoments[k], tileVegetationMoments[k]);
+      mergeMoments(backgroundMoments[k], tileBackgroundMoments[k]);
+    });
+
+    if (tiling.onTile) {
+      const { x, y, width: tileWidth, height: tileHeight } = tile.window;
+      const index = tiling.indexKey
+        ? computeIndexMap(tile.data, tileWidth, tileHeight, tiling.indexKey, options.customIndices)
+        : undefined;
+      await tiling.onTile({ x, y, width: tileWidth, height: tileHeight, mask, index, classes });
+    }
+  });
+
+  // 百分位点とヒストグラム（値域は画像全体の最小・最大）
+  const vegetationHistograms = selectedKeys.map((_, k) => createFineHistogram(vegetationMoments[k], backgroundMoments[k]));
+  const backgroundHistograms = vegetationHistograms.map(histogram => ({ ...histogram, counts: new Float64Array(histogram.counts.length) }));
+  const sceneHistograms = createSceneHistograms(sceneTally);
+  if (selectedKeys.length > 0) {
+    await eachTile(tile => {
+      const { mask } = classify(tile);
+      for (let p = 0; p < tile.pixelCount; p++) {
+        if (mask[p] === MASK_OUTSIDE || mask[p] === MASK_EXCLUDED) continue;
+        evaluate(tile.data, p);
+        const histograms = mask[p] === MASK_VEGETATION ? vegetationHistograms : backgroundHistograms;
+        for (let k = 0; k < selectedKeys.length; k++) {
+          addToHistogram(histograms[k], indexValues[k]);
+        }
+        if (classifyScene) addSceneHistogram(sceneHistograms, classifyScene(tile.data, p), indexValues);
+      }
+    });
+  }
+  const statistics: Record<string, IndexClassStatistics> = {};
+  selectedKeys.forEach((key, k) => {
+    statistics[key] = {
+      vegetation: finalizeStatistics(vegetationMoments[k], vegetationHistograms[k]),
+      background: finalizeStatistics(backgroundMoments[k], backgroundHistograms[k])
+    };
+  });
+
+  const thresholdInfo = { segmentationIndex, thresholdMethod: options.thresholdMethod, threshold: currentThreshold };
+  const gsd = options.gsd !== undefined && options.gsd > 0 ? options.gsd : null;
+  const scaled = (accumulated: AccumulatedResult) =>
+    gsd !== null ? { gsd, vegetationArea: pixelsToArea(accumulated.vegetationPixels, gsd) } : {};
+  const accumulated = finalizeAccumulator(accumulator, selectedKeys);
+  const result: AnalysisResult = { ...accumulated, ...scaled(accumulated), ...thresholdInfo, statistics };
+  if (exclusions) {
+    result.exclusions = Object.fromEntries(EXCLUSION_REASONS.map((reason, k) => [reason, exclusionCounts[k]])) as Record<ExclusionReason, number>;
+  }
+  if (calibration) {
+    result.calibration = calibration;
+  }
+  if (classifyScene) {
+    Object.assign(result, finalizeScene(sceneTally, sceneClasses, selectedKeys, accumulated.validPixels, gsd, sceneHistograms));
+  }
+  if (plots.length > 0) {
+    result.plots = plots.map((plot, k) => {
+      const plotAccumulated = finalizeAccumulator(plotAccumulators[k], selectedKeys);
+      return {
+        plotId: plot.id,
+        ...plotAccumulated,
+        ...scaled(plotAccumulated),
+        ...(classifyScene ? finalizeScene(plotSceneTallies[k], sceneClasses, selectedKeys, plotAccumulated.validPixels, gsd) : {}),
+        ...thresholdInfo
+      };
+    });
+  }
+  return result;
+};
@@ -0,0 +1,59 @@
+import { buildTimeSeries, growthMetrics, isValidDate, parseFilenamePattern } from '.';
+
+describe('buildTimeSeries', () => {
+  test('groups by plot, sorts by date and averages repeated dates', () => {
+    const series = buildTimeSeries([
+      { plotId: 'A', date: '2024-05-11', value: 30 },
+      { plotId: 'B', date: '2024-05-01', value: 5 },
+      { plotId: 'A', date: '2024-05-01', value: 10 },
+      { plotId: 'A', date: '2024-05-11T09:00:00', value: 40 },
+      { plotId: 'A', date: 'unknown', value: 99 }
+    ]);
+
+    expect(series.map(s => s.plotId)).toEqual(['A', 'B']);
+    expect(series[0].points).toEqual([
+      { date: '2024-05-01', day: 0, value: 10, count: 1 },
+      { date: '2024-05-11', day: 10, value: 35, count: 2 }
+    ]);
+  });
+});
+
+describe('growthMetrics', () => {
+  test('interpolates the days to 50% cover', () => {
+    const [series] = buildTimeSeries([
+      { plotId: 'A', date: '2024-05-01', value: 10 },
+      { plotId: 'A', date: '2024-05-11', value: 30 },
+      { plotId: 'A', date: '2024-05-21', value: 70 }
+    ]);
+    const metrics = growthMetrics(series);
+
+    expect(metrics.maxGrowthRate).toBeCloseTo(4, 10);
+    expect(metrics.meanGrowthRate).toBeCloseTo(3, 10);
+    expect(metrics.daysToLevel).toBeCloseTo(15, 10);
+    expect(metrics.dateAtLevel).toBe('2024-05-16');
+  });
+
+  test('returns null when the level is never reached', () => {
+    const [series] = buildTimeSeries([{ plotId: 'A', date: '2024-05-01', value: 10 }]);
+    expect(growthMetrics(series)).toMatchObject({ maxGrowthRate: null, meanGrowthRate: null, daysToLevel: null });
+  });
+});
+
+describe('parseFilenamePattern', () => {
+  test('reads the plot and date from a file name', () => {
+    expect(parseFilenamePattern('{plot}_{yyyy}{mm}{dd}*', 'P101_20240515_DJI.JPG')).toEqual({ plotId: 'P101', date: '2024-05-15' });
+    expect(parseFilenamePattern('{yy}-{mm}-{dd}', '24-5-3.jpg')).toEqual({ date: '2024-05-03' });
+  });
+
+  test('drops dates that do not exist instead of rolling them over', () => {
+    expect(parseFilenamePattern('{plot}_{yyyy}{mm}{dd}', 'P1_20240231.jpg')).toEqual({ plotId: 'P1' });
+    expect(parseFilenamePattern('{plot}_{yyyy}{mm}{dd}', 'P1_20241305.jpg')).toEqual({ plotId: 'P1' });
+    expect(isValidDate('2024-02-29')).toBe(true);
+    expect(isValidDate('2023-02-29')).toBe(false);
+    expect(isValidDate('2024-04-31')).toBe(false);
+  });
+
+  test('returns null when the name does not match', () => {
+    expect(parseFilenamePattern('{plot}_{yyyy}{mm}{dd}', 'IMG_0001.jpg')).toBeNull();
+  });
+});
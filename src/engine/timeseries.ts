@@ -0,0 +1,152 @@
+// 区画・撮影日ごとの時系列と生育指標
+
+// 1回の観測（date は "YYYY-MM-DD"）
+export interface Observation {
+  plotId: string;
+  date: string;
+  value: number;
+}
+
+export interface TimeSeriesPoint {
+  date: string;
+  // 最初の観測日からの日数
+  day: number;
+  value: number;
+  // 同じ区画・日付の画像の枚数（値はその平均）
+  count: number;
+}
+
+export interface TimeSeries {
+  plotId: string;
+  points: TimeSeriesPoint[];
+}
+
+export interface GrowthMetrics {
+  plotId: string;
+  observations: number;
+  firstDate: string;
+  lastDate: string;
+  // 観測間の変化速度（値/日）の最大値と、最初から最後までの平均
+  maxGrowthRate: number | null;
+  meanGrowthRate: number | null;
+  // 値が level に初めて達するまでの日数（観測間は線形補間、達しない場合は null）
+  daysToLevel: number | null;
+  dateAtLevel: string | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Date.UTC は 2月31日などを翌月に繰り越すため、年月日が変わった日付は無効とする
+const parseDate = (date: string): number => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(date);
+  if (!match) return NaN;
+  const [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  const time = Date.UTC(year, month - 1, day);
+  const parsed = new Date(time);
+  return parsed.getUTCFullYear() === year && parsed.getUTCMonth() === month - 1 && parsed.getUTCDate() === day ? time : NaN;
+};
+
+export const isValidDate = (date: string): boolean => Number.isFinite(parseDate(date));
+
+export const daysBetween = (from: string, to: string): number => Math.round((parseDate(to) - parseDate(from)) / DAY_MS);
+
+export const addDays = (date: string, days: number): string =>
+  new Date(parseDate(date) + Math.round(days) * DAY_MS).toISOString().slice(0, 10);
+
+// 観測を区画ごとにまとめ、日付順に並べる（区画は最初に現れた順、同じ日付は平均）
+export const buildTimeSeries = (observations: Observation[]): TimeSeries[] => {
+  const byPlot = new Map<string, Map<string, { sum: number; count: number }>>();
+  observations.forEach(({ plotId, date, value }) => {
+    if (!isValidDate(date) || !Number.isFinite(value)) return;
+    const day = date.slice(0, 10);
+    if (!byPlot.has(plotId)) byPlot.set(plotId, new Map());
+    const dates = byPlot.get(plotId)!;
+    const entry = dates.get(day) ?? { sum: 0, count: 0 };
+    entry.sum += value;
+    entry.count++;
+    dates.set(day, entry);
+  });
+
+  return Array.from(byPlot, ([plotId, dates]) => {
+    const sorted = Array.from(dates.keys()).sort();
+    return {
+      plotId,
+      points: sorted.map(date => {
+        const { sum, count } = dates.get(date)!;
+        return { date, day: daysBetween(sorted[0], date), value: sum / count, count };
+      })
+    };
+  });
+};
+
+export const growthMetrics = (series: TimeSeries, level = 50): GrowthMetrics => {
+  const { points } = series;
+  const first = points[0];
+  const last = points[points.length - 1];
+
+  let maxGrowthRate: number | null = null;
+  for (let i = 1; i < points.length; i++) {
+    const rate = (points[i].value - points[i - 1].value) / (points[i].day - points[i - 1].day);
+    if (maxGrowthRate === null || rate > maxGrowthRate) maxGrowthRate = rate;
+  }
+
+  let daysToLevel: number | null = null;
+  if (first && first.value >= level) {
+    daysToLevel = 0;
+  } else {
+    for (let i = 1; i < points.length && daysToLevel === null; i++) {
+      const a = points[i - 1];
+      const b = points[i];
+      if (b.value >= level) {
+        daysToLevel = a.day + ((level - a.value) / (b.value - a.value)) * (b.day - a.day);
+      }
+    }
+  }
+
+  return {
+    plotId: series.plotId,
+    observations: points.length,
+    firstDate: first?.date ?? '',
+    lastDate: last?.date ?? '',
+    maxGrowthRate,
+    meanGrowthRate: points.length > 1 ? (last.value - first.value) / last.day : null,
+    daysToLevel,
+    dateAtLevel: daysToLevel !== null ? addDays(first.date, daysToLevel) : null
+  };
+};
+
+// ファイル名のパターン（{plot} と {yyyy} {mm} {dd} {yy}、* は任意の文字列）から区画と日付を読み取る
+export const parseFilenamePattern = (pattern: string, filename: string): { plotId?: string; date?: string } | null => {
+  const groups: string[] = [];
+  const source = pattern.split(/(\{plot\}|\{yyyy\}|\{yy\}|\{mm\}|\{dd\}|\*)/).map(part => {
+    switch (part) {
+      case '{plot}': groups.push('plot'); return '(.+?)';
+      case '{yyyy}': groups.push('yyyy'); return '(\\d{4})';
+      case '{yy}': groups.push('yy'); return '(\\d{2})';
+      case '{mm}': groups.push('mm'); return '(\\d{1,2})';
+      case '{dd}': groups.push('dd'); return '(\\d{1,2})';
+      case '*': return '.*?';
+      default: return part.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+    }
+  }).join('');
+
+  // 拡張子は省略してもよい
+  const match = new RegExp(`^${source}(?:\\.[^.]*)?$`).exec(filename);
+  if (!match) return null;
+
+  const value = (name: string) => {
+    const index = groups.indexOf(name);
+    return index >= 0 ? match[index + 1] : undefined;
+  };
+  const result: { plotId?: string; date?: string } = {};
+  const plot = value('plot');
+  if (plot) result.plotId = plot;
+  const year = value('yyyy') ?? (value('yy') !== undefined ? `20${value('yy')}` : undefined);
+  const month = value('mm');
+  const day = value('dd');
+  if (year && month && day) {
+    const date = `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+    if (isValidDate(date)) result.date = date;
+  }
+  return result;
+};
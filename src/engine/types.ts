@@ -0,0 +1,283 @@
+import { IndexClassStatistics, IndexStatistics } from './statistics';
+
+// types
+export interface SelectedIndices {
+  [key: string]: boolean;
+}
+
+export interface AnalysisResult {
+  // 被覆率の分母は有効画素数（totalPixels から除外した画素を除いた数）
+  vegetationCoverage: number;
+  vegetationPixels: number;
+  totalPixels: number;
+  // 白飛び・黒つぶれ・影として除外した画素数と、それ以外の有効画素数
+  excludedPixels: number;
+  validPixels: number;
+  segmentationIndex: string;
+  thresholdMethod: ThresholdMethod;
+  // 実際に適用した閾値（自動の場合は計算値）
+  threshold: number;
+  indices: {
+    vegetation: Record<string, number>;
+    whole: Record<string, number>;
+  };
+  // 指数ごとに、値が定義されず平均・統計から除外した画素数
+  skippedPixels: Record<string, number>;
+  // マスクの後処理（morphology）をする前の植生画素数と被覆率（後処理を指定した場合）
+  beforeCleaning?: {
+    vegetationPixels: number;
+    vegetationCoverage: number;
+  };
+  // 地上画素寸法（cm/画素）と植生の面積（cm²）。GSD を指定した場合のみ
+  gsd?: number;
+  vegetationArea?: number;
+  // 植生の領域（株）の数（領域の検出を指定した場合、区画の結果は重心が区画内にある数）
+  plantCount?: number;
+  // 領域ごとの計測値（画像全体の結果のみ）
+  objects?: CanopyObject[];
+  // 除外の理由ごとの画素数（除外を指定した場合、画像全体の結果のみ）
+  exclusions?: Record<ExclusionReason, number>;
+  // 適用した色補正（補正した場合のみ）
+  calibration?: Calibration;
+  // 指数ごとの詳細統計（画像全体の結果のみ）
+  statistics?: Record<string, IndexClassStatistics>;
+  // 区画ごとの結果（区画を指定した場合）
+  plots?: PlotResult[];
+  // 多クラス分類のクラスごとの結果と、どのクラスにも当てはまらなかった画素数（クラスを指定した場合）
+  sceneClasses?: SceneClassResult[];
+  unclassifiedPixels?: number;
+}
+
+export interface SceneClassResult {
+  name: string;
+  pixels: number;
+  // 有効画素数に対する割合（%）
+  percentage: number;
+  // 面積（cm²、GSD を指定した場合）
+  area?: number;
+  // 指数ごとの平均値
+  indices: Record<string, number>;
+  // 指数ごとの詳細統計（画像全体の結果のみ）
+  statistics?: Record<string, IndexStatistics>;
+}
+
+export interface PlotResult extends AnalysisResult {
+  plotId: string;
+}
+
+// 指数の入力: raw は 0〜255 の画素値、scaled は 0〜1 に換算した値、chromatic は色度座標（r+g+b=1）
+export type InputSpace = 'raw' | 'scaled' | 'chromatic';
+
+// 0除算などで値が定義されない画素の扱い
+// skip: その指数の集計から除外する
+// clamp: ±∞ を値域（range）の端に置き換える（0/0 などの NaN は除外する）
+export type UndefinedPixelHandling = 'skip' | 'clamp';
+
+export interface Algorithm {
+  name: string;
+  calculate: (r: number, g: number, b: number) => number;
+  // 省略時は chromatic
+  input?: InputSpace;
+  // 省略時は skip
+  undefinedPixels?: UndefinedPixelHandling;
+  // 手動閾値スライダーの範囲（省略時は -1〜1）
+  range?: [number, number];
+  // true の場合、閾値より小さい値を植生とみなす
+  vegetationLow?: boolean;
+}
+
+// ユーザー定義の植生指数（数式は formula.ts の構文）
+export interface CustomIndex {
+  // 略称（ALGORITHMS のキーと同様に使う）
+  key: string;
+  name: string;
+  formula: string;
+  input: InputSpace;
+  undefinedPixels?: UndefinedPixelHandling;
+  range?: [number, number];
+  vegetationLow?: boolean;
+}
+
+export type ThresholdMethod = 'otsu' | 'triangle' | 'kapur' | 'isodata' | 'kmeans' | 'exgr' | 'classifier' | 'manual';
+
+// 解析対象領域（座標は画像の幅・高さで正規化した 0〜1 の値）
+export interface Region {
+  shape: 'rectangle' | 'polygon';
+  points: Array<[number, number]>;
+}
+
+// 画像の一部の範囲（画素。タイルごとの解析などに使う）
+export interface PixelWindow {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// 区画（試験区など）
+export interface Plot {
+  id: string;
+  region: Region;
+}
+
+export type CalibrationMethod = 'whiteBalance' | 'colorChecker';
+
+// 色補正: 画素値 [r, g, b]（0〜255）に 3×3 行列（行優先）を掛ける。白バランスは対角行列
+export interface Calibration {
+  method: CalibrationMethod;
+  matrix: number[];
+  // 参照色との残差（RMS、0〜255 の尺度）
+  rmse: number;
+}
+
+// 色補正の参照: 白・灰色板の領域、またはカラーチェッカーの四隅（暗い肌色のパッチの角から6パッチの辺に沿って順に）
+export interface CalibrationReference {
+  method: CalibrationMethod;
+  region: Region;
+  // 白バランス後の灰色板の値（省略時は補正前の3チャンネルの平均）
+  target?: number;
+}
+
+export type ExclusionReason = 'saturated' | 'dark' | 'shadow';
+
+// 影の検出
+// hsv: (S − V) / (S + V) が threshold より大きい画素（S, V は 0〜1）
+// lab: L* が「平均 − threshold × 標準偏差」より小さい画素（平均・標準偏差は白飛び・黒つぶれ以外の対象画素から求める）
+export type ShadowMethod = 'hsv' | 'lab';
+
+// 解析から除外する画素（判定は色補正前の画素値で行う）
+export interface ExclusionOptions {
+  // いずれかのチャンネルがこの値以上の画素（白飛び・鏡面反射）
+  saturated?: number;
+  // 最大のチャンネル（HSV の V）がこの値以下の画素（黒つぶれ・黒い縁）
+  dark?: number;
+  shadow?: {
+    method: ShadowMethod;
+    threshold: number;
+  };
+}
+
+export type MorphologyOperation = 'erode' | 'dilate' | 'open' | 'close' | 'fillHoles' | 'removeSmall';
+
+// マスクの後処理の1ステップ
+// size: erode / dilate / open / close は正方形の構造要素の一辺（画素）、
+// fillHoles は埋める穴の最大面積（画素、0 はすべて）、removeSmall は残す領域の最小面積（画素）
+export interface MorphologyStep {
+  operation: MorphologyOperation;
+  size: number;
+}
+
+// 植生の領域（株・葉群）の検出
+export interface ObjectOptions {
+  // 距離変換の watershed で接した株を分ける
+  split?: boolean;
+  // watershed の種の最小間隔（画素）
+  minDistance?: number;
+  // 面積（画素）の範囲。範囲外の領域は数えない（maxArea が 0 または省略時は上限なし）
+  minArea?: number;
+  maxArea?: number;
+}
+
+export interface CanopyObject {
+  // 1 から（objectLabels の値と同じ）
+  id: number;
+  area: number;
+  // 面積（cm²、GSD を指定した場合）
+  physicalArea?: number;
+  // 重心（画素座標）
+  centroidX: number;
+  centroidY: number;
+  // 外接矩形 [x, y, 幅, 高さ]（画素）
+  bbox: [number, number, number, number];
+  // 周囲長（他の領域・背景に接する画素の辺の数）
+  perimeter: number;
+  // 指数ごとの平均値
+  indices: Record<string, number>;
+  // 重心を含む区画
+  plotId?: string;
+}
+
+// 画素分類器の1クラス（特徴量ごとの正規分布）
+export interface ClassifierClass {
+  name: string;
+  // 植生として数えるクラス
+  vegetation: boolean;
+  // 表示色 [r, g, b]
+  color: [number, number, number];
+  // 学習に使った画素数
+  samples: number;
+  // 特徴量ごとの平均と分散（PixelClassifier.features の順）
+  mean: number[];
+  variance: number[];
+}
+
+// 塗った画素から学習した画素分類器（ガウシアン・ナイーブベイズ、JSON で保存できる）
+export interface PixelClassifier {
+  type: 'gaussianNaiveBayes';
+  // 特徴量: R, G, B（0〜255）、H（0〜360）、S, V（0〜1）、L, a, b（CIE L*a*b*）、ALGORITHMS のキー
+  features: string[];
+  classes: ClassifierClass[];
+}
+
+// 多クラス分類の条件: 特徴量（PixelClassifier.features と同じ名前、またはユーザー定義指数のキー）が min 以上 max 以下
+// （省略した側は制限しない。H は 0〜360 の色相）
+export interface ClassCondition {
+  feature: string;
+  min?: number;
+  max?: number;
+}
+
+// 多クラス分類のクラス（画素はすべての条件を満たす最初のクラスに分類する。条件のないクラスは残りすべて）
+export interface SceneClass {
+  name: string;
+  // 処理画像での表示色 [r, g, b]
+  color: [number, number, number];
+  conditions: ClassCondition[];
+}
+
+// 学習用に元画像の上に塗った線（座標は画素、size は線の太さ）
+export interface ClassifierStroke {
+  classIndex: number;
+  size: number;
+  points: Array<[number, number]>;
+}
+
+// 解析オプション
+export interface AnalysisOptions {
+  // 2値化に使う指数（ALGORITHMS またはユーザー定義指数のキー、固定指数の方法では無視）
+  segmentationIndex: string;
+  thresholdMethod: ThresholdMethod;
+  threshold: number;
+  selectedIndices: SelectedIndices;
+  // 色補正（calibrationReference を指定した場合は画像ごとに参照から求める）
+  calibration?: Calibration;
+  calibrationReference?: CalibrationReference;
+  // 指定した場合は白飛び・黒つぶれ・影の画素を除外する
+  exclusions?: ExclusionOptions;
+  // 2値化の後、集計の前にマスクに順に適用する処理
+  morphology?: MorphologyStep[];
+  // 地上画素寸法（cm/画素）。指定した場合は面積を cm² でも求める
+  gsd?: number;
+  // 指定した場合は植生の領域を検出して計測する
+  objects?: ObjectOptions;
+  // 画素分類器（thresholdMethod が classifier の場合に閾値の代わりに使う）
+  classifier?: PixelClassifier;
+  // 指定した場合は領域内の有効画素を多クラス（緑の植生・枯れた植生・土・残渣・影など）に分類して集計する
+  sceneClasses?: SceneClass[];
+  // ユーザー定義の指数（Worker に渡せるよう数式のまま渡す）
+  customIndices?: CustomIndex[];
+  // 指定した場合は領域内の画素のみを解析する
+  regions?: Region[];
+  // 指定した場合は区画ごとの結果も求める
+  plots?: Plot[];
+}
+
+// 解析結果とマスク（値は mask.ts の MASK_* を参照）
+export interface AnalysisOutput {
+  result: AnalysisResult;
+  mask: Uint8Array;
+  // 画素ごとの領域番号（0: 領域外、CanopyObject.id）。領域の検出を指定した場合のみ
+  objectLabels?: Int32Array;
+  // 画素ごとのクラス（0: 領域外・除外・分類なし、k + 1: sceneClasses[k]）。多クラス分類を指定した場合のみ
+  classLabels?: Uint8Array;
+}
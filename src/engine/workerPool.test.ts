@@ -0,0 +1,22 @@
+import { AnalysisCancelledError, createWorkerPool } from './workerPool';
+
+const options = { segmentationIndex: 'ExG', thresholdMethod: 'manual' as const, threshold: 0.2, selectedIndices: { ExG: true } };
+
+describe('createWorkerPool without Worker support', () => {
+  test('analyzes on the main thread', async () => {
+    const pool = createWorkerPool();
+    const data = new Uint8ClampedArray([40, 160, 40, 255, 150, 120, 90, 255]);
+    const { result, mask } = await pool.analyze(data, 2, 1, options);
+
+    expect(result.vegetationPixels).toBe(1);
+    expect(Array.from(mask)).toEqual([1, 0]);
+  });
+
+  test('rejects pending jobs on cancel', async () => {
+    const pool = createWorkerPool();
+    const pending = pool.analyze(new Uint8ClampedArray(4), 1, 1, options);
+    pool.cancel();
+
+    await expect(pending).rejects.toBeInstanceOf(AnalysisCancelledError);
+  });
+});
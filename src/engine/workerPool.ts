@@ -0,0 +1,191 @@
+import { analyzePixels } from './analyze';
+import { AnalysisOptions, AnalysisOutput, AnalysisResult } from './types';
+
+// Worker とのメッセージ形式
+export interface WorkerRequest {
+  id: number;
+  buffer: ArrayBuffer;
+  width: number;
+  height: number;
+  options: AnalysisOptions;
+}
+
+export type WorkerResponse =
+  | { id: number; result: AnalysisResult; mask: Uint8Array; objectLabels?: Int32Array; classLabels?: Uint8Array }
+  | { id: number; error: string };
+
+export interface WorkerPool {
+  size: number;
+  // data のバッファは Worker へ転送されるため、呼び出し後は使用できない
+  analyze: (data: Uint8ClampedArray, width: number, height: number, options: AnalysisOptions) => Promise<AnalysisOutput>;
+  // 待機中・処理中のジョブをすべて中止する
+  cancel: () => void;
+  terminate: () => void;
+}
+
+export class AnalysisCancelledError extends Error {
+  constructor() {
+    super('Analysis cancelled');
+    this.name = 'AnalysisCancelledError';
+  }
+}
+
+interface Job {
+  id: number;
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+  options: AnalysisOptions;
+  resolve: (output: AnalysisOutput) => void;
+  reject: (error: Error) => void;
+}
+
+interface Slot {
+  worker: Worker;
+  job: Job | null;
+}
+
+export const defaultPoolSize = (): number => {
+  const cores = typeof navigator !== 'undefined' && navigator.hardwareConcurrency ? navigator.hardwareConcurrency : 2;
+  return Math.max(1, Math.min(4, cores - 1));
+};
+
+// 転送可能な（ビューと同じ長さの）バッファを取り出す
+const transferableBuffer = (data: Uint8ClampedArray): ArrayBuffer =>
+  data.byteOffset === 0 && data.byteLength === data.buffer.byteLength
+    ? data.buffer as ArrayBuffer
+    : data.slice().buffer;
+
+// Worker が使えない環境（テストなど）ではメインスレッドで逐次処理する
+const createInlinePool = (): WorkerPool => {
+  let generation = 0;
+  return {
+    size: 1,
+    analyze: (data, width, height, options) => {
+      const started = generation;
+      return new Promise((resolve, reject) => {
+        setTimeout(() => {
+          if (started !== generation) {
+            reject(new AnalysisCancelledError());
+            return;
+          }
+          try {
+            resolve(analyzePixels(data, width, height, options));
+          } catch (error) {
+            reject(error);
+          }
+        }, 0);
+      });
+    },
+    cancel: () => {
+      generation++;
+    },
+    terminate: () => {
+      generation++;
+    }
+  };
+};
+
+export const createWorkerPool = (size = defaultPoolSize()): WorkerPool => {
+  if (typeof Worker === 'undefined') return createInlinePool();
+
+  const queue: Job[] = [];
+  let slots: Slot[] = [];
+  let nextId = 0;
+  let generation = 0;
+  let factory: (() => Worker) | null = null;
+  let factoryPromise: Promise<() => Worker> | null = null;
+
+  const loadFactory = (): Promise<() => Worker> => {
+    if (!factoryPromise) {
+      factoryPromise = import('./createAnalysisWorker').then(module => {
+        factory = module.default;
+        return factory;
+      });
+    }
+    return factoryPromise;
+  };
+
+  const release = (slot: Slot) => {
+    slot.job = null;
+    pump();
+  };
+
+  const discard = (slot: Slot) => {
+    slot.worker.terminate();
+    slots = slots.filter(s => s !== slot);
+  };
+
+  const spawn = (): Slot => {
+    const slot: Slot = { worker: factory!(), job: null };
+    slot.worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+      const job = slot.job;
+      if (!job || job.id !== event.data.id) return;
+      if ('error' in event.data) {
+        job.reject(new Error(event.data.error));
+      } else {
+        const { result, mask, objectLabels, classLabels } = event.data;
+        const output: AnalysisOutput = { result, mask };
+        if (objectLabels) output.objectLabels = objectLabels;
+        if (classLabels) output.classLabels = classLabels;
+        job.resolve(output);
+      }
+      release(slot);
+    };
+    slot.worker.onerror = (event: ErrorEvent) => {
+      slot.job?.reject(new Error(event.message || 'Worker error'));
+      discard(slot);
+      pump();
+    };
+    slots.push(slot);
+    return slot;
+  };
+
+  const pump = () => {
+    while (queue.length > 0) {
+      const slot = slots.find(s => !s.job) ?? (slots.length < size ? spawn() : null);
+      if (!slot) return;
+      const job = queue.shift()!;
+      slot.job = job;
+      const request: WorkerRequest = {
+        id: job.id,
+        buffer: transferableBuffer(job.data),
+        width: job.width,
+        height: job.height,
+        options: job.options
+      };
+      slot.worker.postMessage(request, [request.buffer]);
+    }
+  };
+
+  const cancel = () => {
+    generation++;
+    const error = new AnalysisCancelledError();
+    queue.splice(0).forEach(job => job.reject(error));
+    slots.filter(slot => slot.job).forEach(slot => {
+      slot.job!.reject(error);
+      discard(slot);
+    });
+  };
+
+  return {
+    size,
+    analyze: (data, width, height, options) => {
+      const started = generation;
+      return loadFactory().then(() => new Promise<AnalysisOutput>((resolve, reject) => {
+        if (started !== generation) {
+          reject(new AnalysisCancelledError());
+          return;
+        }
+        queue.push({ id: nextId++, data, width, height, options, resolve, reject });
+        pump();
+      }));
+    },
+    cancel,
+    terminate: () => {
+      cancel();
+      slots.forEach(slot => slot.worker.terminate());
+      slots = [];
+    }
+  };
+};
@@ -0,0 +1,18 @@
+import { createXlsx } from '.';
+
+// 無圧縮の ZIP なので XML をそのまま読める
+const contents = (data: Uint8Array) => Buffer.from(data).toString('utf8');
+
+describe('createXlsx', () => {
+  test('writes one worksheet per sheet with numbers, booleans and escaped strings', () => {
+    const xlsx = contents(createXlsx([
+      { name: 'Results', table: { headers: ['File', 'Coverage'], rows: [['a<b>&.jpg', 12.5], ['c.jpg', Infinity]] } },
+      { name: 'Settings/Used', table: { headers: ['Setting', 'Value'], rows: [['split', true]] } }
+    ]));
+    expect(xlsx).toContain('<sheet name="Results" sheetId="1" r:id="rId1"/>');
+    expect(xlsx).toContain('<sheet name="Settings_Used" sheetId="2" r:id="rId2"/>');
+    expect(xlsx).toContain('<c r="A2" t="inlineStr"><is><t xml:space="preserve">a&lt;b&gt;&amp;.jpg</t></is></c><c r="B2"><v>12.5</v></c>');
+    expect(xlsx).toContain('<row r="3"><c r="A3" t="inlineStr"><is><t xml:space="preserve">c.jpg</t></is></c></row>');
+    expect(xlsx).toContain('<c r="B2" t="b"><v>1</v></c>');
+  });
+});
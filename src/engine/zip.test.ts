@@ -0,0 +1,36 @@
+import { crc32, createZip, encodeUTF8 } from '.';
+
+describe('crc32', () => {
+  test('matches the standard check value', () => {
+    expect(crc32(encodeUTF8('123456789'))).toBe(0xcbf43926);
+  });
+});
+
+describe('createZip', () => {
+  test('stores files with local headers and a central directory', () => {
+    const files = [
+      { name: 'results.csv', data: encodeUTF8('a,b\n1,2\n') },
+      { name: 'masks/植生.png', data: new Uint8Array([1, 2, 3]) }
+    ];
+    const zip = createZip(files, new Date(2024, 5, 1, 12, 30, 10));
+    const view = new DataView(zip.buffer);
+
+    // 1つ目のローカルヘッダーとデータ
+    expect(view.getUint32(0, true)).toBe(0x04034b50);
+    expect(view.getUint32(14, true)).toBe(crc32(files[0].data));
+    expect(view.getUint32(18, true)).toBe(files[0].data.length);
+    const nameLength = view.getUint16(26, true);
+    expect(Array.from(zip.slice(30 + nameLength, 30 + nameLength + files[0].data.length))).toEqual(Array.from(files[0].data));
+
+    // 終端レコード
+    const end = zip.length - 22;
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+    expect(view.getUint16(end + 10, true)).toBe(2);
+    const directoryOffset = view.getUint32(end + 16, true);
+    expect(view.getUint32(directoryOffset, true)).toBe(0x02014b50);
+    // 2つ目のファイルのオフセット
+    const secondOffset = view.getUint32(directoryOffset + 46 + nameLength + 42, true);
+    expect(view.getUint32(secondOffset, true)).toBe(0x04034b50);
+    expect(view.getUint32(secondOffset + 18, true)).toBe(3);
+  });
+});
@@ -0,0 +1,121 @@
+// ZIP アーカイブの作成（無圧縮。PNG は圧縮済みのため圧縮しない）
+import { encodeUTF8 } from './utf8';
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export const crc32 = (data: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// ZIP64 は使わないため、アーカイブ全体で 4GB、65535 ファイルまで
+const MAX_OFFSET = 0xffffffff;
+const MAX_ENTRIES = 0xffff;
+// ファイル名を UTF-8 で記録するフラグ
+const UTF8_FLAG = 0x0800;
+
+// MS-DOS 形式の日時（ローカル時刻、2秒単位）
+const dosDateTime = (date: Date): [number, number] => [
+  (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  ((Math.max(1980, date.getFullYear()) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+];
+
+interface CentralEntry {
+  name: Uint8Array;
+  crc: number;
+  size: number;
+  offset: number;
+}
+
+export interface ZipWriter {
+  // ファイルを追加し、データの直前に書くローカルヘッダーを返す
+  add: (name: string, data: Uint8Array) => Uint8Array;
+  // 中央ディレクトリと終端レコード
+  finish: () => Uint8Array;
+}
+
+// データ本体は呼び出し側が保持する（Blob のまま連結できるよう、ヘッダーだけを作る）
+export const createZipWriter = (date = new Date()): ZipWriter => {
+  const [time, day] = dosDateTime(date);
+  const entries: CentralEntry[] = [];
+  let offset = 0;
+
+  const add = (name: string, data: Uint8Array): Uint8Array => {
+    if (entries.length >= MAX_ENTRIES) throw new Error('Too many files for a ZIP archive');
+    const entry = { name: encodeUTF8(name), crc: crc32(data), size: data.length, offset };
+    const header = new Uint8Array(30 + entry.name.length);
+    const view = new DataView(header.buffer);
+    view.setUint32(0, 0x04034b50, true);
+    view.setUint16(4, 20, true);
+    view.setUint16(6, UTF8_FLAG, true);
+    view.setUint16(8, 0, true);
+    view.setUint16(10, time, true);
+    view.setUint16(12, day, true);
+    view.setUint32(14, entry.crc, true);
+    view.setUint32(18, entry.size, true);
+    view.setUint32(22, entry.size, true);
+    view.setUint16(26, entry.name.length, true);
+    view.setUint16(28, 0, true);
+    header.set(entry.name, 30);
+    offset += header.length + entry.size;
+    if (offset > MAX_OFFSET) throw new Error('ZIP archives larger than 4 GB are not supported');
+    entries.push(entry);
+    return header;
+  };
+
+  const finish = (): Uint8Array => {
+    const directorySize = entries.reduce((sum, entry) => sum + 46 + entry.name.length, 0);
+    const output = new Uint8Array(directorySize + 22);
+    const view = new DataView(output.buffer);
+    let p = 0;
+    entries.forEach(entry => {
+      view.setUint32(p, 0x02014b50, true);
+      view.setUint16(p + 4, 20, true);
+      view.setUint16(p + 6, 20, true);
+      view.setUint16(p + 8, UTF8_FLAG, true);
+      view.setUint16(p + 10, 0, true);
+      view.setUint16(p + 12, time, true);
+      view.setUint16(p + 14, day, true);
+      view.setUint32(p + 16, entry.crc, true);
+      view.setUint32(p + 20, entry.size, true);
+      view.setUint32(p + 24, entry.size, true);
+      view.setUint16(p + 28, entry.name.length, true);
+      // 拡張フィールド・コメント・ディスク番号・属性は 0
+      view.setUint32(p + 42, entry.offset, true);
+      output.set(entry.name, p + 46);
+      p += 46 + entry.name.length;
+    });
+    view.setUint32(p, 0x06054b50, true);
+    view.setUint16(p + 8, entries.length, true);
+    view.setUint16(p + 10, entries.length, true);
+    view.setUint32(p + 12, directorySize, true);
+    view.setUint32(p + 16, offset, true);
+    return output;
+  };
+
+  return { add, finish };
+};
+
+// メモリ上のファイルから ZIP を作る
+export const createZip = (files: Array<{ name: string; data: Uint8Array }>, date = new Date()): Uint8Array => {
+  const writer = createZipWriter(date);
+  const parts: Uint8Array[] = [];
+  files.forEach(file => parts.push(writer.add(file.name, file.data), file.data));
+  parts.push(writer.finish());
+  const output = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  parts.forEach(part => {
+    output.set(part, offset);
+    offset += part.length;
+  });
+  return output;
+};
@@ -0,0 +1,38 @@
+import {
+  COLOR_RAMPS,
+  Calibration,
+  CustomIndex,
+  RGB,
+  applyCalibration,
+  computeIndexMap,
+  maskOutline,
+  percentileRange,
+  renderIndexMap,
+  renderOutlineOverlay
+} from '../engine';
+import { rgbaToBlob } from './image';
+
+// 表示（IndexMapViewer）と同じ色
+const OUTLINE_COLOR: RGB = [255, 0, 255];
+const INDEX_MAP_RAMP = 'RdYlGn';
+
+// 解析に使った画素（色補正した場合は補正後）
+export const analyzedPixels = (imageData: ImageData, calibration?: Calibration): Uint8ClampedArray =>
+  calibration ? applyCalibration(imageData.data, calibration) : imageData.data;
+
+// 元画像に植生の輪郭を重ねた PNG
+export const overlayBlob = (pixels: Uint8ClampedArray, mask: Uint8Array, width: number, height: number): Promise<Blob> =>
+  rgbaToBlob(renderOutlineOverlay(pixels, maskOutline(mask, width, height), OUTLINE_COLOR), width, height);
+
+// 指数マップの PNG（2〜98 パーセンタイルで伸長）
+export const indexMapBlob = (
+  pixels: Uint8ClampedArray,
+  width: number,
+  height: number,
+  key: string,
+  customIndices: CustomIndex[]
+): Promise<Blob> => {
+  const values = computeIndexMap(pixels, width, height, key, customIndices);
+  const [min, max] = percentileRange(values);
+  return rgbaToBlob(renderIndexMap(values, COLOR_RAMPS[INDEX_MAP_RAMP], min, max), width, height);
+};
@@ -0,0 +1,19 @@
+import { baseName, uniqueBaseNames } from './download';
+
+describe('uniqueBaseNames', () => {
+  test('drops the extension when the names do not collide', () => {
+    expect(uniqueBaseNames(['plot1.jpg', 'plot2.jpg', 'field.v2.png'])).toEqual(['plot1', 'plot2', 'field.v2']);
+    expect(baseName('plot1.tar.gz')).toBe('plot1.tar');
+  });
+
+  test('keeps the extension of images whose names differ only by it', () => {
+    expect(uniqueBaseNames(['plot1.jpg', 'plot1.png', 'plot2.jpg'])).toEqual(['plot1.jpg', 'plot1.png', 'plot2']);
+    expect(uniqueBaseNames(['Plot1.JPG', 'plot1.jpg'])).toEqual(['Plot1.JPG', 'plot1.jpg_2']);
+  });
+
+  test('numbers repeated names', () => {
+    expect(uniqueBaseNames(['a.jpg', 'a.jpg', 'a.jpg'])).toEqual(['a.jpg', 'a.jpg_2', 'a.jpg_3']);
+    // 拡張子を残した名前が別の画像の名前と重なる場合
+    expect(uniqueBaseNames(['a.jpg', 'a.png', 'a.jpg.tif'])).toEqual(['a.jpg', 'a.png', 'a.jpg_2']);
+  });
+});
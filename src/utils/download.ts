@@ -0,0 +1,33 @@
+// Blob をファイルとしてダウンロード
+export const downloadBlob = (blob: Blob, filename: string): void => {
+  const link = document.createElement('a');
+  const url = URL.createObjectURL(blob);
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// 拡張子を除いたファイル名
+export const baseName = (filename: string): string => filename.replace(/\.[^./\\]+$/, '');
+
+// バッチの出力（ZIP の画像など）に使うファイルごとの名前
+// 拡張子を除いた名前が重なる場合は拡張子を残し（plot1.jpg・plot1.png）、それでも重なる場合は _2 などを付ける
+// 大文字・小文字だけが違う名前も重なるとみなす（展開先によっては区別しないため）
+export const uniqueBaseNames = (filenames: string[]): string[] => {
+  const key = (name: string) => name.toLowerCase();
+  const counts = new Map<string, number>();
+  filenames.forEach(filename => {
+    const base = key(baseName(filename));
+    counts.set(base, (counts.get(base) ?? 0) + 1);
+  });
+  const used = new Set<string>();
+  return filenames.map(filename => {
+    const base = baseName(filename);
+    const candidate = counts.get(key(base))! > 1 ? filename : base;
+    let name = candidate;
+    for (let n = 2; used.has(key(name)); n++) name = `${candidate}_${n}`;
+    used.add(key(name));
+    return name;
+  });
+};
@@ -0,0 +1,177 @@
+import { Cell, SceneClass, Table, analyzePixels, resolveAlgorithms } from '../engine';
+import { ExportInput, ExportResult, longTable, objectsTable, settingsTable, wideTable } from './export';
+import { completeSettings } from './project';
+
+// 土の上に2株（左右の区画に1株ずつ）
+const width = 20;
+const height = 10;
+const LEAF = [40, 160, 40, 255];
+const SOIL = [150, 120, 90, 255];
+const pixels = (): Uint8ClampedArray => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let p = 0; p < width * height; p++) {
+    const [x, y] = [p % width, Math.floor(p / width)];
+    const leaf = [[4, 4, 2], [14, 5, 3]].some(([cx, cy, r]) => (x - cx) ** 2 + (y - cy) ** 2 <= r * r);
+    data.set(leaf ? LEAF : SOIL, p * 4);
+  }
+  return data;
+};
+
+const sceneClasses: SceneClass[] = [
+  { name: 'green', color: [34, 197, 94], conditions: [{ feature: 'ExG', min: 0.05 }] },
+  { name: 'soil', color: [146, 64, 14], conditions: [] }
+];
+
+const options = {
+  segmentationIndex: 'ExG',
+  thresholdMethod: 'manual' as const,
+  threshold: 0.1,
+  selectedIndices: { ExG: true, GLI: true }
+};
+
+// 区画・領域・多クラス分類・GSD ありの画像と、区画を割り当てただけの画像
+const results = (): ExportResult[] => [
+  {
+    filename: 'field.jpg',
+    ...analyzePixels(pixels(), width, height, {
+      ...options,
+      gsd: 0.5,
+      objects: {},
+      sceneClasses,
+      plots: [
+        { id: 'left', region: { shape: 'rectangle', points: [[0, 0], [0.5, 1]] } },
+        { id: 'right', region: { shape: 'rectangle', points: [[0.5, 0], [1, 1]] } }
+      ]
+    }).result,
+    preset: 'Field',
+    settingsHash: 'hash-a'
+  },
+  {
+    filename: 'P9_20240601.jpg',
+    ...analyzePixels(pixels(), width, height, options).result,
+    plot: 'P9',
+    date: '2024-06-01',
+    preset: '',
+    settingsHash: 'hash-b'
+  }
+];
+
+// 列・変数の名前は指数の表示名
+const algorithms = resolveAlgorithms();
+const EXG = algorithms.ExG.name;
+const GLI = algorithms.GLI.name;
+
+const input = (precision: 'full' | 'rounded' = 'full'): ExportInput => ({
+  results: results(),
+  indexKeys: ['ExG', 'GLI'],
+  algorithms,
+  settings: [],
+  options: { bom: false, precision }
+});
+
+// 見出しの名前で列の値を取り出す
+const column = (table: Table, header: string): Cell[] => {
+  const index = table.headers.indexOf(header);
+  expect(index).toBeGreaterThanOrEqual(0);
+  return table.rows.map(row => row[index]);
+};
+
+describe('wideTable', () => {
+  test('writes one row per plot, or per image without plots', () => {
+    const [field, single] = results();
+    const table = wideTable(input());
+    expect(column(table, 'Filename')).toEqual(['field.jpg', 'field.jpg', 'P9_20240601.jpg']);
+    expect(column(table, 'Plot ID')).toEqual(['left', 'right', 'P9']);
+    expect(column(table, 'Date')).toEqual([undefined, undefined, '2024-06-01']);
+    expect(column(table, 'Vegetation Pixels')).toEqual([...field.plots!.map(plot => plot.vegetationPixels), single.vegetationPixels]);
+    expect(column(table, 'Plant Count')).toEqual([1, 1, undefined]);
+    expect(column(table, 'Settings Hash')).toEqual(['hash-a', 'hash-a', 'hash-b']);
+  });
+
+  test('adds scene class columns and leaves them empty for images without classes', () => {
+    const [field] = results();
+    const table = wideTable(input());
+    const share = field.plots!.map(plot => plot.sceneClasses![0].percentage);
+    expect(column(table, 'green (%)')).toEqual([...share, undefined]);
+    expect(column(table, 'soil Pixels')).toEqual([...field.plots!.map(plot => plot.sceneClasses![1].pixels), undefined]);
+    expect(column(table, `${EXG} (green)`)[0]).toBeCloseTo(1, 12);
+    expect(column(table, 'green Area (cm2)')[0]).toBe(field.plots![0].sceneClasses![0].area);
+    expect(column(table, 'Unclassified Pixels')).toEqual([0, 0, undefined]);
+  });
+
+  test('rounds values only when asked to', () => {
+    const [field] = results();
+    const gli = field.plots![0].indices.vegetation.GLI;
+    expect(column(wideTable(input('full')), `${GLI} (Vegetation)`)[0]).toBe(gli);
+    expect(column(wideTable(input('rounded')), `${GLI} (Vegetation)`)[0]).toBe(Number(gli.toFixed(4)));
+    expect(column(wideTable(input('rounded')), 'Vegetation Coverage (%)')[0])
+      .toBe(Number(field.plots![0].vegetationCoverage.toFixed(2)));
+  });
+});
+
+describe('longTable', () => {
+  test('writes one row per file, region, variable, class and statistic', () => {
+    const table = longTable(input());
+    const keys = table.rows.map(row => JSON.stringify([0, 1, 7, 8, 9].map(i => row[i])));
+    expect(new Set(keys).size).toBe(keys.length);
+    expect(table.headers.slice(5, 10)).toEqual(['Segmentation Index', 'Threshold Method', 'Variable', 'Class', 'Statistic']);
+
+    // 画像全体の行（Plot ID は割り当てた区画）と区画ごとの行に、指数ごとの平均が1行ずつ
+    const means = table.rows.filter(row => row[7] === EXG && row[8] === 'vegetation' && row[9] === 'mean');
+    expect(means.map(row => [row[0], row[1]])).toEqual([
+      ['field.jpg', undefined], ['field.jpg', 'left'], ['field.jpg', 'right'], ['P9_20240601.jpg', 'P9']
+    ]);
+    expect(table.rows.filter(row => row[7] === GLI && row[8] === 'whole' && row[9] === 'mean')).toHaveLength(4);
+  });
+
+  test('keeps the threshold variable name fixed and the method in its own columns', () => {
+    const table = longTable(input());
+    const thresholds = table.rows.filter(row => row[7] === 'Threshold');
+    expect(thresholds).toHaveLength(4);
+    thresholds.forEach(row => expect([row[5], row[6], row[10]]).toEqual(['ExG', 'manual', 0.1]));
+  });
+
+  test('writes scene classes per class name and does not round', () => {
+    const [field] = results();
+    const table = longTable(input('rounded'));
+    const shares = table.rows.filter(row => row[7] === 'Class Share (%)');
+    expect(shares.map(row => [row[1], row[8]])).toEqual([
+      [undefined, 'green'], [undefined, 'soil'], ['left', 'green'], ['left', 'soil'], ['right', 'green'], ['right', 'soil']
+    ]);
+    expect(shares[0][10]).toBe(field.sceneClasses![0].percentage);
+    const gli = table.rows.find(row => row[1] === 'left' && row[7] === GLI && row[8] === 'vegetation' && row[9] === 'mean');
+    expect(gli?.[10]).toBe(field.plots![0].indices.vegetation.GLI);
+  });
+});
+
+describe('objectsTable', () => {
+  test('writes one row per object with its plot', () => {
+    const [field] = results();
+    const table = objectsTable(input());
+    expect(column(table, 'Filename')).toEqual(['field.jpg', 'field.jpg']);
+    expect(column(table, 'Object ID')).toEqual([1, 2]);
+    expect(column(table, 'Plot ID')).toEqual(['left', 'right']);
+    expect(column(table, 'Area (px)')).toEqual(field.objects!.map(object => object.area));
+    expect(column(table, 'Area (cm2)')).toEqual(field.objects!.map(object => object.physicalArea));
+    expect(column(table, 'Settings Hash')).toEqual(['hash-a', 'hash-a']);
+  });
+});
+
+describe('settingsTable', () => {
+  test('splits values longer than an Excel cell into numbered rows', () => {
+    // 取り込んだ区画の多角形は JSON にすると長くなる
+    const points = Array.from({ length: 4000 }, (_, i): [number, number] => [i / 4000, 0.123456789]);
+    const settings = completeSettings({
+      importedPlots: [{ id: '区画🌱', region: { shape: 'polygon', points } }],
+      filenamePattern: '{plot}_{yyyy}{mm}{dd}'
+    });
+    const { rows } = settingsTable([{ preset: 'Field', settingsHash: 'abc', settings }]);
+    const parts = rows.filter(row => String(row[0]).startsWith('importedPlots ('));
+    expect(parts.length).toBeGreaterThan(1);
+    expect(parts[0][0]).toBe(`importedPlots (1/${parts.length})`);
+    parts.forEach(row => expect(String(row[1]).length).toBeLessThanOrEqual(32767));
+    expect(JSON.parse(parts.map(row => row[1]).join(''))).toEqual(settings.importedPlots);
+    expect(rows.find(row => row[0] === 'filenamePattern')?.[1]).toBe('{plot}_{yyyy}{mm}{dd}');
+    expect(rows.slice(0, 2)).toEqual([['Preset', 'Field'], ['Settings Hash', 'abc']]);
+  });
+});
@@ -0,0 +1,443 @@
+import {
+  Algorithm,
+  AnalysisResult,
+  Cell,
+  EXCLUSION_REASONS,
+  ExclusionReason,
+  ExifData,
+  IndexStatistics,
+  Table,
+  createXlsx,
+  toCSV
+} from '../engine';
+import type { ProjectSettings } from './project';
+
+// plot・date はバッチ画像に割り当てた区画と撮影日（時系列用）、metadata は EXIF / XMP、
+// preset・settingsHash は解析に使った設定のプリセット名（一致するプリセットがない場合は空）とハッシュ
+export type ExportResult = AnalysisResult & {
+  filename: string;
+  plot?: string;
+  date?: string;
+  metadata?: ExifData;
+  preset?: string;
+  settingsHash?: string;
+};
+
+// 結果に使った設定（ハッシュごと）
+export interface SettingsRecord {
+  preset: string;
+  settingsHash: string;
+  settings: ProjectSettings;
+}
+
+// full: 丸めない値、rounded: 従来の桁数に丸めた値
+export type Precision = 'full' | 'rounded';
+
+export interface ExportOptions {
+  // CSV の先頭に UTF-8 の BOM を付ける（日本語環境の Excel 用）
+  bom: boolean;
+  precision: Precision;
+}
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = { bom: false, precision: 'full' };
+
+export interface ExportInput {
+  results: ExportResult[];
+  // 出力する指数のキー
+  indexKeys: string[];
+  algorithms: Record<string, Algorithm>;
+  settings: SettingsRecord[];
+  options: ExportOptions;
+}
+
+// 出力する詳細統計の列
+const STAT_COLUMNS: Array<[keyof IndexStatistics, string]> = [
+  ['std', 'SD'], ['min', 'Min'], ['p5', 'P5'], ['p25', 'P25'], ['median', 'Median'], ['p75', 'P75'], ['p95', 'P95'], ['max', 'Max']
+];
+
+// 出力する撮影情報の列
+const METADATA_COLUMNS: Array<[keyof ExifData, string]> = [
+  ['dateTimeOriginal', 'Capture Time'], ['make', 'Camera Make'], ['model', 'Camera Model'],
+  ['focalLength', 'Focal Length (mm)'], ['focalLength35mm', 'Focal Length 35mm (mm)'],
+  ['exposureTime', 'Exposure Time (s)'], ['fNumber', 'F-Number'], ['iso', 'ISO'], ['exposureBias', 'Exposure Bias (EV)'],
+  ['latitude', 'Latitude'], ['longitude', 'Longitude'], ['altitude', 'Altitude (m)'], ['relativeAltitude', 'Relative Altitude (m)'],
+  ['gimbalPitch', 'Gimbal Pitch (deg)'], ['gimbalRoll', 'Gimbal Roll (deg)'], ['gimbalYaw', 'Gimbal Yaw (deg)'], ['flightYaw', 'Flight Yaw (deg)']
+];
+
+// 除外の理由ごとの列
+const EXCLUSION_COLUMNS: Record<ExclusionReason, string> = {
+  saturated: 'Saturated Pixels',
+  dark: 'Dark Pixels',
+  shadow: 'Shadow Pixels'
+};
+
+// 色補正の列
+const CALIBRATION_COLUMNS = [
+  'Calibration Method',
+  ...[1, 2, 3].flatMap(row => [1, 2, 3].map(col => `Calibration M${row}${col}`)),
+  'Calibration RMSE'
+];
+
+// 丸める場合も数値のまま（XLSX で数値として扱えるように）
+const numberFormatter = (precision: Precision) => (value: number | undefined, digits: number): Cell =>
+  value === undefined ? undefined : precision === 'rounded' ? Number(value.toFixed(digits)) : value;
+
+// 区画ごとの結果がある画像は区画ごとの行にする（画像に割り当てた区画も同じ列に出力）
+const resultRows = (results: ExportResult[]) => results.flatMap(source =>
+  source.plots && source.plots.length > 0
+    ? source.plots.map(plot => ({ source, plotId: plot.plotId as string | undefined, result: plot as AnalysisResult }))
+    : [{ source, plotId: source.plot, result: source as AnalysisResult }]
+);
+
+// 横長の表（画像・区画ごとに1行）
+export const wideTable = ({ results, indexKeys, algorithms, options }: ExportInput): Table => {
+  const format = numberFormatter(options.precision);
+  const keys = indexKeys.filter(key => algorithms[key]);
+  const hasPlots = results.some(result => result.plot || (result.plots && result.plots.length > 0));
+  const hasDates = results.some(result => result.date);
+  const hasMetadata = results.some(result => result.metadata && Object.keys(result.metadata).length > 0);
+  const hasCalibration = results.some(result => result.calibration);
+  const hasExclusions = results.some(result => result.exclusions);
+  const hasCleaning = results.some(result => result.beforeCleaning);
+  const hasPlantCount = results.some(result => result.plantCount !== undefined);
+  const hasArea = results.some(result => result.gsd !== undefined);
+  const hasSettings = results.some(result => result.settingsHash);
+  // 多クラス分類のクラス（結果ごとに設定が違う場合は現れた順にすべて）
+  const sceneClasses: string[] = [];
+  resultRows(results).forEach(({ result }) => result.sceneClasses?.forEach(({ name }) => {
+    if (!sceneClasses.includes(name)) sceneClasses.push(name);
+  }));
+  const hasScene = sceneClasses.length > 0;
+
+  const headers = [
+    'Filename',
+    ...(hasPlots ? ['Plot ID'] : []),
+    ...(hasDates ? ['Date'] : []),
+    'Total Pixels',
+    'Excluded Pixels',
+    'Valid Pixels',
+    'Vegetation Pixels',
+    'Vegetation Coverage (%)',
+    // マスクの後処理前の値
+    ...(hasCleaning ? ['Vegetation Pixels Before Cleaning', 'Vegetation Coverage Before Cleaning (%)'] : []),
+    ...(hasPlantCount ? ['Plant Count'] : []),
+    // 実面積（GSD を指定した場合）
+    ...(hasArea ? ['GSD (cm/px)', 'Vegetation Area (cm2)', 'Vegetation Area (m2)'] : []),
+    'Segmentation Index',
+    'Threshold Method',
+    'Threshold Value',
+    // 解析に使った設定（プリセット名とハッシュ）
+    ...(hasSettings ? ['Preset', 'Settings Hash'] : []),
+    // 植生部分の指数
+    ...keys.map(key => `${algorithms[key].name} (Vegetation)`),
+    // 画像全体の指数
+    ...keys.map(key => `${algorithms[key].name} (Whole)`),
+    // 値が定義されず除外した画素数
+    ...keys.map(key => `${algorithms[key].name} Skipped Pixels`),
+    // 詳細統計（植生・非植生）
+    ...keys.flatMap(key => {
+      const name = algorithms[key].name;
+      return [
+        ...STAT_COLUMNS.map(([, label]) => `${name} (Vegetation) ${label}`),
+        `${name} (Non-vegetation)`,
+        ...STAT_COLUMNS.map(([, label]) => `${name} (Non-vegetation) ${label}`)
+      ];
+    }),
+    // 多クラス分類のクラスごとの画素数・割合・面積・指数の平均
+    ...sceneClasses.flatMap(cls => [
+      `${cls} Pixels`,
+      `${cls} (%)`,
+      ...(hasArea ? [`${cls} Area (cm2)`] : []),
+      ...keys.map(key => `${algorithms[key].name} (${cls})`)
+    ]),
+    ...(hasScene ? ['Unclassified Pixels'] : []),
+    // 撮影情報（EXIF / XMP）
+    ...(hasMetadata ? METADATA_COLUMNS.map(([, label]) => label) : []),
+    // 除外の理由ごとの画素数
+    ...(hasExclusions ? EXCLUSION_REASONS.map(reason => EXCLUSION_COLUMNS[reason]) : []),
+    // 色補正の係数（3×3 行列は行ごと）
+    ...(hasCalibration ? CALIBRATION_COLUMNS : [])
+  ];
+
+  const rows = resultRows(results).map(({ source, plotId, result }): Cell[] => [
+    source.filename,
+    ...(hasPlots ? [plotId] : []),
+    ...(hasDates ? [source.date] : []),
+    result.totalPixels,
+    result.excludedPixels,
+    result.validPixels,
+    result.vegetationPixels,
+    format(result.vegetationCoverage, 2),
+    ...(hasCleaning ? [result.beforeCleaning?.vegetationPixels, format(result.beforeCleaning?.vegetationCoverage, 2)] : []),
+    ...(hasPlantCount ? [result.plantCount] : []),
+    ...(hasArea ? [
+      format(result.gsd, 4),
+      format(result.vegetationArea, 2),
+      format(result.vegetationArea !== undefined ? result.vegetationArea / 10000 : undefined, 6)
+    ] : []),
+    result.segmentationIndex,
+    result.thresholdMethod,
+    format(result.threshold, 4),
+    ...(hasSettings ? [source.preset, source.settingsHash] : []),
+    // 植生部分の指数値（後から追加した指数など、結果にない場合は空欄）
+    ...keys.map(key => format(result.indices.vegetation[key], 4)),
+    // 画像全体の指数値
+    ...keys.map(key => format(result.indices.whole[key], 4)),
+    // 除外した画素数
+    ...keys.map(key => result.skippedPixels[key]),
+    // 詳細統計（区画の行では空欄）
+    ...keys.flatMap(key => {
+      const stats = result.statistics?.[key];
+      return [
+        ...STAT_COLUMNS.map(([stat]) => format(stats?.vegetation[stat] as number | undefined, 4)),
+        format(stats?.background.mean, 4),
+        ...STAT_COLUMNS.map(([stat]) => format(stats?.background[stat] as number | undefined, 4))
+      ];
+    }),
+    // クラスごとの値（そのクラスのない結果では空欄）
+    ...sceneClasses.flatMap(cls => {
+      const sceneClass = result.sceneClasses?.find(item => item.name === cls);
+      return [
+        sceneClass?.pixels,
+        format(sceneClass?.percentage, 2),
+        ...(hasArea ? [format(sceneClass?.area, 2)] : []),
+        ...keys.map(key => format(sceneClass?.indices[key], 4))
+      ];
+    }),
+    ...(hasScene ? [result.unclassifiedPixels] : []),
+    // 撮影情報（区画の行にも画像の値を出力）
+    ...(hasMetadata ? METADATA_COLUMNS.map(([key]) => source.metadata?.[key]) : []),
+    // 除外の理由ごとの画素数（区画の行では空欄）
+    ...(hasExclusions ? EXCLUSION_REASONS.map(reason => result.exclusions?.[reason]) : []),
+    // 色補正（区画の行にも画像の値を出力）
+    ...(hasCalibration ? [
+      source.calibration?.method,
+      ...(source.calibration?.matrix.map(value => format(value, 6)) ?? new Array(9).fill(undefined)),
+      format(source.calibration?.rmse, 4)
+    ] : [])
+  ]);
+
+  return { headers, rows };
+};
+
+// 縦長（tidy）の表: 画像・区画 × 変数 × クラス × 統計量ごとに1行
+// 画像全体の行（Plot ID は画像に割り当てた区画）と区画ごとの行の両方を出力する
+export const longTable = ({ results, indexKeys, algorithms }: ExportInput): Table => {
+  const keys = indexKeys.filter(key => algorithms[key]);
+  // 閾値を求めた指数と方法は設定と同じく行ごとの列にする（Variable に値を含めない）
+  const headers = [
+    'Filename', 'Plot ID', 'Date', 'Preset', 'Settings Hash', 'Segmentation Index', 'Threshold Method', 'Variable', 'Class', 'Statistic', 'Value'
+  ];
+  const rows: Cell[][] = [];
+  results.forEach(source => {
+    const regions = [
+      { plotId: source.plot, result: source as AnalysisResult },
+      ...(source.plots ?? []).map(plot => ({ plotId: plot.plotId as string | undefined, result: plot as AnalysisResult }))
+    ];
+    regions.forEach(({ plotId, result }) => {
+      const push = (variable: string, cls: string, statistic: string, value: Cell) => {
+        if (value === undefined) return;
+        rows.push([
+          source.filename, plotId, source.date, source.preset, source.settingsHash, result.segmentationIndex, result.thresholdMethod,
+          variable, cls, statistic, value
+        ]);
+      };
+      push('Total Pixels', '', 'count', result.totalPixels);
+      push('Excluded Pixels', '', 'count', result.excludedPixels);
+      push('Valid Pixels', '', 'count', result.validPixels);
+      push('Vegetation Pixels', 'vegetation', 'count', result.vegetationPixels);
+      push('Vegetation Coverage (%)', 'vegetation', 'value', result.vegetationCoverage);
+      push('Vegetation Pixels Before Cleaning', 'vegetation', 'count', result.beforeCleaning?.vegetationPixels);
+      push('Vegetation Coverage Before Cleaning (%)', 'vegetation', 'value', result.beforeCleaning?.vegetationCoverage);
+      push('Plant Count', 'vegetation', 'count', result.plantCount);
+      push('GSD (cm/px)', '', 'value', result.gsd);
+      push('Vegetation Area (cm2)', 'vegetation', 'value', result.vegetationArea);
+      push('Threshold', '', 'value', result.threshold);
+      keys.forEach(key => {
+        const name = algorithms[key].name;
+        push(name, 'vegetation', 'mean', result.indices.vegetation[key]);
+        push(name, 'whole', 'mean', result.indices.whole[key]);
+        push(name, 'whole', 'skipped pixels', result.skippedPixels[key]);
+        const stats = result.statistics?.[key];
+        if (stats) {
+          push(name, 'non-vegetation', 'mean', stats.background.mean);
+          STAT_COLUMNS.forEach(([stat]) => {
+            push(name, 'vegetation', String(stat), stats.vegetation[stat] as number | undefined);
+            push(name, 'non-vegetation', String(stat), stats.background[stat] as number | undefined);
+          });
+        }
+      });
+      // 多クラス分類のクラスごとの値（Class はクラス名）
+      result.sceneClasses?.forEach(sceneClass => {
+        push('Class Pixels', sceneClass.name, 'count', sceneClass.pixels);
+        push('Class Share (%)', sceneClass.name, 'value', sceneClass.percentage);
+        push('Class Area (cm2)', sceneClass.name, 'value', sceneClass.area);
+        keys.forEach(key => {
+          const name = algorithms[key].name;
+          push(name, sceneClass.name, 'mean', sceneClass.indices[key]);
+          const stats = sceneClass.statistics?.[key];
+          if (stats) STAT_COLUMNS.forEach(([stat]) => push(name, sceneClass.name, String(stat), stats[stat] as number | undefined));
+        });
+      });
+      push('Unclassified Pixels', '', 'count', result.unclassifiedPixels);
+    });
+  });
+  return { headers, rows };
+};
+
+// 領域（株）ごとの表
+export const objectsTable = ({ results, indexKeys, algorithms, options }: ExportInput): Table => {
+  const format = numberFormatter(options.precision);
+  const keys = indexKeys.filter(key => algorithms[key]);
+  const hasPlots = results.some(result => result.objects?.some(object => object.plotId));
+  const hasArea = results.some(result => result.objects?.some(object => object.physicalArea !== undefined));
+  const hasSettings = results.some(result => result.settingsHash);
+  const headers = [
+    'Filename',
+    'Object ID',
+    ...(hasPlots ? ['Plot ID'] : []),
+    'Area (px)',
+    ...(hasArea ? ['Area (cm2)'] : []),
+    'Centroid X (px)',
+    'Centroid Y (px)',
+    'BBox X (px)',
+    'BBox Y (px)',
+    'BBox Width (px)',
+    'BBox Height (px)',
+    'Perimeter (px)',
+    ...keys.map(key => `${algorithms[key].name} (Mean)`),
+    ...(hasSettings ? ['Preset', 'Settings Hash'] : [])
+  ];
+  const rows = results.flatMap(result => (result.objects ?? []).map((object): Cell[] => [
+    result.filename,
+    object.id,
+    ...(hasPlots ? [object.plotId] : []),
+    object.area,
+    ...(hasArea ? [format(object.physicalArea, 2)] : []),
+    format(object.centroidX, 2),
+    format(object.centroidY, 2),
+    ...object.bbox,
+    object.perimeter,
+    ...keys.map(key => format(object.indices[key], 4)),
+    ...(hasSettings ? [result.preset, result.settingsHash] : [])
+  ]));
+  return { headers, rows };
+};
+
+// Excel のセルに入る文字数の上限
+const MAX_CELL_LENGTH = 32767;
+
+// 長い文字列（区画の多角形の JSON など）は上限ごとに分けて「項目 (1/3)」などの行にする（つなげると元の値になる）
+const setSetting = (name: string, value: Cell, output: Map<string, Cell>) => {
+  if (typeof value !== 'string' || value.length <= MAX_CELL_LENGTH) {
+    output.set(name, value);
+    return;
+  }
+  const parts: string[] = [];
+  for (let start = 0; start < value.length;) {
+    let end = Math.min(start + MAX_CELL_LENGTH, value.length);
+    // サロゲートペアの途中では分けない
+    if (end < value.length && /[\uD800-\uDBFF]/.test(value[end - 1])) end--;
+    parts.push(value.slice(start, end));
+    start = end;
+  }
+  parts.forEach((part, k) => output.set(`${name} (${k + 1}/${parts.length})`, part));
+};
+
+// 設定を「項目 = 値」の行に展開する（オブジェクトは . で連結、配列は JSON）
+const flattenSettings = (value: unknown, prefix: string, output: Map<string, Cell>) => {
+  if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+    Object.entries(value as Record<string, unknown>).forEach(([key, child]) =>
+      flattenSettings(child, prefix ? `${prefix}.${key}` : key, output));
+  } else if (Array.isArray(value)) {
+    setSetting(prefix, JSON.stringify(value), output);
+  } else {
+    setSetting(prefix, value as Cell, output);
+  }
+};
+
+// 設定の表（設定ごとに1列）
+export const settingsTable = (settings: SettingsRecord[]): Table => {
+  const columns = settings.map(record => {
+    const values = new Map<string, Cell>();
+    flattenSettings(record.settings, '', values);
+    return values;
+  });
+  const names: string[] = [];
+  columns.forEach(values => values.forEach((_, name) => {
+    if (!names.includes(name)) names.push(name);
+  }));
+  return {
+    headers: ['Setting', ...settings.map((_, i) => `Settings ${i + 1}`)],
+    rows: [
+      ['Preset', ...settings.map(record => record.preset)],
+      ['Settings Hash', ...settings.map(record => record.settingsHash)],
+      ...names.map(name => [name, ...columns.map(values => values.get(name))])
+    ]
+  };
+};
+
+interface Exporter {
+  extension: string;
+  // ファイル名に付ける種類（縦長の CSV など）
+  suffix: string;
+  type: string;
+  build: (input: ExportInput) => BlobPart;
+}
+
+export type ExportFormat = 'csv' | 'csvLong' | 'json' | 'xlsx';
+
+export const EXPORTERS: Record<ExportFormat, Exporter> = {
+  csv: {
+    extension: 'csv',
+    suffix: '',
+    type: 'text/csv;charset=utf-8',
+    build: input => toCSV(wideTable(input), input.options)
+  },
+  csvLong: {
+    extension: 'csv',
+    suffix: '_long',
+    type: 'text/csv;charset=utf-8',
+    build: input => toCSV(longTable(input), input.options)
+  },
+  // AnalysisResult をそのまま（丸めない）
+  json: {
+    extension: 'json',
+    suffix: '',
+    type: 'application/json',
+    build: ({ results, settings }) => JSON.stringify({
+      format: 'vegetation-analysis-results',
+      version: 1,
+      exportedAt: new Date().toISOString(),
+      settings,
+      results
+    }, null, 2)
+  },
+  xlsx: {
+    extension: 'xlsx',
+    suffix: '',
+    type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    build: input => createXlsx([
+      { name: 'Results', table: wideTable(input) },
+      { name: 'Long', table: longTable(input) },
+      ...(input.results.some(result => result.objects) ? [{ name: 'Objects', table: objectsTable(input) }] : []),
+      { name: 'Settings', table: settingsTable(input.settings) }
+    ])
+  }
+};
+
+// 出力するファイル（名前は「接頭辞_種類_日付.拡張子」）
+export const exportFile = (format: ExportFormat, input: ExportInput, prefix = 'vegetation_analysis'): { blob: Blob; filename: string } => {
+  const exporter = EXPORTERS[format];
+  const date = new Date().toISOString().slice(0, 10);
+  return {
+    blob: new Blob([exporter.build(input)], { type: exporter.type }),
+    filename: `${prefix}${exporter.suffix}_${date}.${exporter.extension}`
+  };
+};
+
+// 領域（株）ごとの CSV
+export const objectsFile = (input: ExportInput): { blob: Blob; filename: string } => ({
+  blob: new Blob([toCSV(objectsTable(input), input.options)], { type: 'text/csv;charset=utf-8' }),
+  filename: `vegetation_objects_${new Date().toISOString().slice(0, 10)}.csv`
+});
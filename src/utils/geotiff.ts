@@ -0,0 +1,29 @@
+import { ByteSource, RasterSpec, createTiffWriter } from '../engine';
+
+// File・Blob を必要な範囲だけ読む（大きなオルソ画像を丸ごとメモリに読み込まない）
+export const blobSource = (blob: Blob): ByteSource => ({
+  size: blob.size,
+  read: async (offset, length) => new Uint8Array(await blob.slice(offset, offset + length).arrayBuffer())
+});
+
+export interface GeoTiffBuilder {
+  // タイルを左上から行ごとの順に追加する
+  add: (values: ArrayLike<number>, width: number, height: number) => void;
+  toBlob: () => Blob;
+}
+
+// タイルごとに受け取って GeoTIFF の Blob を作る
+// 圧縮したタイルはすぐに Blob にする（ブラウザーは大きな Blob をディスクに置けるため、出力全体をメモリに持たずに済む）
+export const createGeoTiffBuilder = (spec: RasterSpec): GeoTiffBuilder => {
+  const writer = createTiffWriter(spec);
+  const tiles: Blob[] = [];
+  return {
+    add: (values, width, height) => {
+      tiles.push(new Blob([writer.addTile(values, width, height)]));
+    },
+    toBlob: () => {
+      const { header, trailer } = writer.finish();
+      return new Blob([header, ...tiles, trailer], { type: 'image/tiff' });
+    }
+  };
+};
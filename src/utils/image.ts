@@ -0,0 +1,72 @@
+import { ExifData, readExif } from '../engine';
+
+// 画像読み込みヘルパー関数
+export const loadImage = (file: File): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      const img = new Image();
+      img.onload = () => resolve(img);
+      img.onerror = reject;
+      img.src = e.target?.result as string;
+    };
+    reader.onerror = reject;
+    reader.readAsDataURL(file);
+  });
+};
+
+// 画像のピクセルデータを取得（作業用キャンバスを使用）
+export const getImageData = (img: HTMLImageElement): ImageData => {
+  const canvas = document.createElement('canvas');
+  canvas.width = img.width;
+  canvas.height = img.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context is not available');
+  ctx.drawImage(img, 0, 0);
+  return ctx.getImageData(0, 0, img.width, img.height);
+};
+
+// EXIF と XMP は JPEG の先頭の APP1（各最大 64KB）にあるため、ファイルの先頭だけを読む
+const EXIF_BYTES = 256 * 1024;
+
+export const readImageExif = async (file: File): Promise<ExifData> =>
+  readExif(await file.slice(0, EXIF_BYTES).arrayBuffer());
+
+// キャンバスの内容を画像ファイル（Blob）にする
+export const canvasToBlob = (canvas: HTMLCanvasElement, type = 'image/png', quality?: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Failed to encode the canvas')), type, quality);
+  });
+
+// RGBA 配列を PNG にする
+export const rgbaToBlob = (rgba: Uint8ClampedArray, width: number, height: number): Promise<Blob> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context is not available');
+  const imageData = ctx.createImageData(width, height);
+  imageData.data.set(rgba);
+  ctx.putImageData(imageData, 0, 0);
+  return canvasToBlob(canvas);
+};
+
+// 長辺を maxSize 画素以下に縮小した JPEG
+export const thumbnailBlob = (img: HTMLImageElement, maxSize = 320): Promise<Blob> => {
+  const scale = Math.min(1, maxSize / Math.max(img.width, img.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(img.width * scale));
+  canvas.height = Math.max(1, Math.round(img.height * scale));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context is not available');
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return canvasToBlob(canvas, 'image/jpeg', 0.8);
+};
+
+export const blobToDataURL = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
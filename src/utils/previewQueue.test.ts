@@ -0,0 +1,112 @@
+import { createPreviewQueue } from './previewQueue';
+
+// 呼び出しごとに手動で終わらせる解析
+const controllable = () => {
+  const finishers: Array<() => void> = [];
+  const run = jest.fn(() => new Promise<void>(resolve => finishers.push(resolve)));
+  const finish = async () => {
+    finishers.shift()!();
+    // 完了の後に続く処理（次の解析の開始）を進める
+    await Promise.resolve();
+    await Promise.resolve();
+  };
+  return { run, finish };
+};
+
+beforeEach(() => {
+  jest.useFakeTimers();
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('createPreviewQueue', () => {
+  test('waits for the settings to stop changing', () => {
+    const { run } = controllable();
+    const queue = createPreviewQueue(run, 300);
+    queue.schedule();
+    jest.advanceTimersByTime(200);
+    queue.schedule();
+    jest.advanceTimersByTime(200);
+    expect(run).not.toHaveBeenCalled();
+    jest.advanceTimersByTime(100);
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  test('runs once more after an analysis during which the settings changed repeatedly', async () => {
+    const { run, finish } = controllable();
+    const queue = createPreviewQueue(run, 300);
+    queue.schedule();
+    jest.advanceTimersByTime(300);
+    expect(run).toHaveBeenCalledTimes(1);
+
+    // 解析中の変更は何度あっても1回にまとめる
+    for (let i = 0; i < 5; i++) {
+      queue.schedule();
+      jest.advanceTimersByTime(300);
+    }
+    expect(run).toHaveBeenCalledTimes(1);
+    await finish();
+    expect(run).toHaveBeenCalledTimes(2);
+    await finish();
+    expect(run).toHaveBeenCalledTimes(2);
+  });
+
+  test('holds changes made during an upload until it has finished', async () => {
+    const { run, finish } = controllable();
+    const queue = createPreviewQueue(run, 300);
+    let finishUpload = () => {};
+    const upload = queue.hold(() => new Promise<string>(resolve => {
+      finishUpload = () => resolve('stored');
+    }));
+
+    queue.schedule();
+    jest.advanceTimersByTime(300);
+    queue.schedule();
+    jest.advanceTimersByTime(300);
+    expect(run).not.toHaveBeenCalled();
+
+    finishUpload();
+    await expect(upload).resolves.toBe('stored');
+    expect(run).toHaveBeenCalledTimes(1);
+    await finish();
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  test('does not run after an upload without changes, even if it failed', async () => {
+    const { run } = controllable();
+    const queue = createPreviewQueue(run, 300);
+    await expect(queue.hold(() => Promise.reject(new Error('broken image')))).rejects.toThrow('broken image');
+    expect(run).not.toHaveBeenCalled();
+  });
+
+  test('stops repeating an analysis when an upload starts and resumes after it', async () => {
+    const { run, finish } = controllable();
+    const queue = createPreviewQueue(run, 300);
+    queue.schedule();
+    jest.advanceTimersByTime(300);
+    queue.schedule();
+    jest.advanceTimersByTime(300);
+
+    let finishUpload = () => {};
+    const upload = queue.hold(() => new Promise<void>(resolve => {
+      finishUpload = resolve;
+    }));
+    await finish();
+    expect(run).toHaveBeenCalledTimes(1);
+
+    finishUpload();
+    await upload;
+    expect(run).toHaveBeenCalledTimes(2);
+  });
+
+  test('cancels a scheduled analysis', () => {
+    const { run } = controllable();
+    const queue = createPreviewQueue(run, 300);
+    queue.schedule();
+    queue.cancel();
+    jest.advanceTimersByTime(1000);
+    expect(run).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,60 @@
+// 設定の変更による再解析を1つずつ行う
+// 解析中に変更した場合は、終わってから最新の設定でもう一度だけ解析する
+// 画像の読み込み中（hold）は解析しない（再解析が読み込んだ画像の解析を置き換えると、その結果が保存されないため）
+export interface PreviewQueue {
+  // 設定の変更を知らせる（delay ミリ秒の間に次の変更がなければ解析する）
+  schedule: () => void;
+  // task の間は解析を保留し、その間に変更があれば終わってから解析する
+  hold: <T>(task: () => Promise<T>) => Promise<T>;
+  // 待っている変更の通知を取り消す（実行中・保留中の解析はそのまま）
+  cancel: () => void;
+}
+
+// run は例外を投げないこと（エラーの表示は run の中で行う）
+export const createPreviewQueue = (run: () => Promise<void>, delay: number): PreviewQueue => {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let running = false;
+  let pending = false;
+  let holding = 0;
+
+  const request = async () => {
+    if (running || holding > 0) {
+      pending = true;
+      return;
+    }
+    running = true;
+    try {
+      do {
+        pending = false;
+        await run();
+      } while (pending && holding === 0);
+    } finally {
+      running = false;
+    }
+  };
+
+  const cancel = () => {
+    if (timer !== null) clearTimeout(timer);
+    timer = null;
+  };
+
+  return {
+    schedule: () => {
+      cancel();
+      timer = setTimeout(() => {
+        timer = null;
+        request();
+      }, delay);
+    },
+    hold: async task => {
+      holding++;
+      try {
+        return await task();
+      } finally {
+        holding--;
+        if (holding === 0 && pending) request();
+      }
+    },
+    cancel
+  };
+};
@@ -0,0 +1,39 @@
+import { createProjectFile, parseProjectFile, restoreSettings } from './project';
+
+const projectText = (settings: object) => JSON.stringify({ ...createProjectFile('Field', restoreSettings({}), 'hash'), settings });
+
+const customIndex = { key: 'NGIx', name: 'NGI copy', formula: 'g/(r+g+b)', input: 'raw' as const };
+
+describe('parseProjectFile', () => {
+  test('reads a file and fills in missing fields with the defaults', () => {
+    const { name, settings } = parseProjectFile(projectText({ threshold: 0.3, customIndices: [customIndex], segmentationIndex: 'NGIx' }));
+    expect(name).toBe('Field');
+    expect(settings.threshold).toBe(0.3);
+    expect(settings.thresholdMethod).toBe('otsu');
+    expect(settings.selectedIndices.NGIx).toBe(true);
+    expect(settings.regions).toEqual([]);
+  });
+
+  test('rejects custom indices that cannot be compiled, naming the index', () => {
+    expect(() => parseProjectFile(projectText({ customIndices: [{ ...customIndex, formula: 'NGI/' }] })))
+      .toThrow(/^Invalid custom index NGIx: /);
+    expect(() => parseProjectFile(projectText({ customIndices: [customIndex, { ...customIndex, name: 'again' }] })))
+      .toThrow('Invalid custom index NGIx: duplicateKey');
+    expect(() => parseProjectFile(projectText({ customIndices: [{ key: 'X', name: 'X' }] })))
+      .toThrow('Invalid custom index X: key, name and formula must be text');
+  });
+
+  test('rejects unknown indices and threshold methods', () => {
+    expect(() => parseProjectFile(projectText({ thresholdMethod: 'magic' }))).toThrow('Unknown threshold method: magic');
+    expect(() => parseProjectFile(projectText({ thresholdMethod: 'constructor' }))).toThrow('Unknown threshold method');
+    expect(() => parseProjectFile(projectText({ segmentationIndex: 'NDVI' }))).toThrow('Unknown segmentation index: NDVI');
+    expect(() => parseProjectFile(projectText({ selectedIndices: { ExG: true, NGIx: true } }))).toThrow('Unknown index: NGIx');
+  });
+
+  test('rejects files without settings or of another format', () => {
+    const file = createProjectFile('Field', restoreSettings({}), 'hash');
+    expect(() => parseProjectFile(JSON.stringify({ ...file, settings: undefined }))).toThrow('The project file has no settings');
+    expect(() => parseProjectFile(JSON.stringify({ ...file, format: 'other' }))).toThrow('Not a vegetation analysis project file');
+    expect(() => parseProjectFile(JSON.stringify({ ...file, version: 99 }))).toThrow('Unsupported project file version: 99');
+  });
+});
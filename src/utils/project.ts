@@ -0,0 +1,195 @@
+import {
+  ALGORITHMS,
+  Calibration,
+  CalibrationMethod,
+  CustomIndex,
+  ExclusionOptions,
+  GridSpec,
+  MorphologyStep,
+  ObjectOptions,
+  PixelClassifier,
+  Plot,
+  Region,
+  SceneClass,
+  SelectedIndices,
+  THRESHOLD_METHODS,
+  ThresholdMethod,
+  parseClassifier,
+  validateCustomIndex
+} from '../engine';
+
+// 区画の指定方法（なし・グリッド・境界ファイル）
+export type PlotMode = 'none' | 'grid' | 'import';
+
+// バッチ画像の撮影日の取得元
+export type DateSource = 'exif' | 'filename' | 'manual';
+
+// 色補正の設定
+export type CalibrationMode = 'none' | CalibrationMethod;
+
+export interface CalibrationSettings {
+  mode: CalibrationMode;
+  // 参照パネルの矩形、またはカラーチェッカーの四隅（0〜1 の座標）
+  region: Region | null;
+  // true: 画像ごとに同じ位置の参照から補正を求める、false: calibration をすべての画像に適用
+  perImage: boolean;
+  // 現在の画像から求めた補正
+  calibration: Calibration | null;
+}
+
+// 面積の換算の設定
+export type ScaleMode = 'none' | 'gsd' | 'camera' | 'line';
+
+export interface ScaleSettings {
+  mode: ScaleMode;
+  // 直接入力の GSD（cm/画素）
+  gsd: number;
+  // センサーの横幅（mm、0 の場合は EXIF の 35mm 判換算の焦点距離を使う）
+  sensorWidth: number;
+  // 撮影高度（m、0 の場合は XMP の離陸地点からの高度を使う）
+  altitude: number;
+  // 画像上の基準線（0〜1 の座標）とその実際の長さ（cm）
+  line: [[number, number], [number, number]] | null;
+  lineLength: number;
+}
+
+export const DEFAULT_SCALE_SETTINGS: ScaleSettings = {
+  mode: 'none',
+  gsd: 0.5,
+  sensorWidth: 0,
+  altitude: 0,
+  line: null,
+  lineLength: 100
+};
+
+// 解析結果に影響する設定（プリセット・プロジェクトファイルに保存し、ハッシュを CSV に出力する）
+export interface ProjectSettings {
+  selectedIndices: SelectedIndices;
+  customIndices: CustomIndex[];
+  segmentationIndex: string;
+  thresholdMethod: ThresholdMethod;
+  threshold: number;
+  // 閾値の代わりに使う画素分類器（学習前は null）
+  classifier: PixelClassifier | null;
+  // 多クラス分類のクラス（分類しない場合は null）
+  sceneClasses: SceneClass[] | null;
+  regions: Region[];
+  plotMode: PlotMode;
+  gridSpec: GridSpec;
+  importedPlots: Plot[];
+  exclusions: ExclusionOptions;
+  morphology: MorphologyStep[];
+  objects: ObjectOptions | null;
+  scale: ScaleSettings;
+  calibration: CalibrationSettings;
+  dateSource: DateSource;
+  filenamePattern: string;
+}
+
+export interface Preset {
+  name: string;
+  settings: ProjectSettings;
+}
+
+// プロジェクトファイル（JSON）
+export interface ProjectFile {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+  name: string;
+  savedAt: string;
+  settingsHash: string;
+  settings: ProjectSettings;
+}
+
+const PROJECT_FORMAT = 'vegetation-analysis-project';
+const PROJECT_VERSION = 1;
+
+const DEFAULT_SETTINGS: Omit<ProjectSettings, 'selectedIndices' | 'customIndices'> = {
+  segmentationIndex: 'ExG',
+  thresholdMethod: 'otsu',
+  threshold: 0.2,
+  classifier: null,
+  sceneClasses: null,
+  regions: [],
+  plotMode: 'none',
+  gridSpec: { rows: 2, cols: 3, idFormat: 'rowcol', prefix: '' },
+  importedPlots: [],
+  exclusions: {},
+  morphology: [],
+  objects: null,
+  scale: DEFAULT_SCALE_SETTINGS,
+  calibration: { mode: 'none', region: null, perImage: false, calibration: null },
+  dateSource: 'exif',
+  filenamePattern: ''
+};
+
+// 足りない項目を既定値で補う（古いファイルや項目を省いたファイルも読めるようにする。指数の既定はすべて選択）
+export const completeSettings = (settings: Partial<ProjectSettings>): ProjectSettings => {
+  const customIndices = settings.customIndices ?? [];
+  return {
+    ...DEFAULT_SETTINGS,
+    ...settings,
+    customIndices,
+    selectedIndices: settings.selectedIndices
+      ?? Object.fromEntries([...Object.keys(ALGORITHMS), ...customIndices.map(index => index.key)].map(key => [key, true])),
+    scale: { ...DEFAULT_SCALE_SETTINGS, ...settings.scale }
+  };
+};
+
+// タイルごとの解析（GeoTIFF）で実際に使われる設定（形態学的処理・個体の検出・画像ごとの補正は使わない）
+export const tiledSettings = (settings: ProjectSettings): ProjectSettings => ({
+  ...settings,
+  morphology: [],
+  objects: null,
+  calibration: settings.calibration.perImage ? DEFAULT_SETTINGS.calibration : settings.calibration
+});
+
+export const createProjectFile = (name: string, settings: ProjectSettings, hash: string): ProjectFile => ({
+  format: PROJECT_FORMAT,
+  version: PROJECT_VERSION,
+  name,
+  savedAt: new Date().toISOString(),
+  settingsHash: hash,
+  settings
+});
+
+const hasOwn = (object: object, key: string) => Object.prototype.hasOwnProperty.call(object, key);
+
+// 保存した設定（プロジェクトファイル・プリセット・前回の設定）を補って検査する
+// 解析できない設定（数式の誤ったユーザー定義指数、未知の指数・閾値の方法）は例外
+export const restoreSettings = (saved: Partial<ProjectSettings>): ProjectSettings => {
+  const settings = completeSettings(saved);
+  if (!Array.isArray(settings.customIndices)) throw new Error('customIndices must be a list');
+  settings.customIndices.forEach((definition, i) => {
+    const label = typeof definition?.key === 'string' ? definition.key : `#${i + 1}`;
+    if (!definition || typeof definition.key !== 'string' || typeof definition.name !== 'string' || typeof definition.formula !== 'string') {
+      throw new Error(`Invalid custom index ${label}: key, name and formula must be text`);
+    }
+    const problem = validateCustomIndex(definition, settings.customIndices.slice(0, i));
+    if (problem) throw new Error(`Invalid custom index ${label}: ${problem.message ?? problem.problem}`);
+  });
+
+  const known = (key: string) => hasOwn(ALGORITHMS, key) || settings.customIndices.some(definition => definition.key === key);
+  if (!settings.selectedIndices || typeof settings.selectedIndices !== 'object') throw new Error('selectedIndices must be an object');
+  const unknown = Object.keys(settings.selectedIndices).find(key => !known(key));
+  if (unknown !== undefined) throw new Error(`Unknown index: ${unknown}`);
+  if (typeof settings.segmentationIndex !== 'string' || !known(settings.segmentationIndex)) {
+    throw new Error(`Unknown segmentation index: ${settings.segmentationIndex}`);
+  }
+  if (typeof settings.thresholdMethod !== 'string' || !hasOwn(THRESHOLD_METHODS, settings.thresholdMethod)) {
+    throw new Error(`Unknown threshold method: ${settings.thresholdMethod}`);
+  }
+  if (settings.classifier) settings.classifier = parseClassifier(settings.classifier);
+  return settings;
+};
+
+// プロジェクトファイルを読む（形式が違う場合は例外）
+export const parseProjectFile = (text: string): Preset => {
+  const file = JSON.parse(text) as Partial<ProjectFile>;
+  if (!file || file.format !== PROJECT_FORMAT) throw new Error('Not a vegetation analysis project file');
+  if (typeof file.version !== 'number' || file.version > PROJECT_VERSION) {
+    throw new Error(`Unsupported project file version: ${file.version}`);
+  }
+  if (!file.settings || typeof file.settings !== 'object') throw new Error('The project file has no settings');
+  return { name: typeof file.name === 'string' ? file.name : '', settings: restoreSettings(file.settings) };
+};
@@ -0,0 +1,52 @@
+import { AnalysisResult } from '../engine';
+import { compareValues, visibleResults } from './resultList';
+import { StoredResult } from './resultStore';
+
+const record = (id: number, fields: Partial<StoredResult>, coverage = 0): StoredResult => ({
+  id,
+  savedAt: `2024-06-0${id}T00:00:00.000Z`,
+  filename: `img${id}.jpg`,
+  result: { vegetationCoverage: coverage } as AnalysisResult,
+  preset: '',
+  settingsHash: 'abc',
+  settings: {} as StoredResult['settings'],
+  plots: [],
+  thumbnail: new Blob(),
+  mask: new Blob(),
+  ...fields
+});
+
+const records = [
+  record(1, { plot: 'P10', date: '2024-06-10' }, 30),
+  record(2, {}, 10),
+  record(3, { plot: 'P2', date: '2024-05-01', preset: 'Field' }, 20)
+];
+const ids = (list: StoredResult[]) => list.map(item => item.id);
+
+describe('compareValues', () => {
+  test('orders numbers and text naturally and puts blanks last in both directions', () => {
+    expect(compareValues('P2', 'P10')).toBeLessThan(0);
+    expect(compareValues(2, 10, true)).toBeGreaterThan(0);
+    expect(compareValues(undefined, 'P2')).toBeGreaterThan(0);
+    expect(compareValues(undefined, 'P2', true)).toBeGreaterThan(0);
+    expect(compareValues('P2', undefined, true)).toBeLessThan(0);
+    expect(compareValues(undefined, undefined, true)).toBe(0);
+  });
+});
+
+describe('visibleResults', () => {
+  test('sorts by the chosen column with blank values last', () => {
+    expect(ids(visibleResults(records, '', 'plot', false))).toEqual([3, 1, 2]);
+    expect(ids(visibleResults(records, '', 'plot', true))).toEqual([1, 3, 2]);
+    expect(ids(visibleResults(records, '', 'date', true))).toEqual([1, 3, 2]);
+    expect(ids(visibleResults(records, '', 'preset', true))).toEqual([3, 1, 2]);
+    expect(ids(visibleResults(records, '', 'coverage', true))).toEqual([1, 3, 2]);
+  });
+
+  test('filters by filename, plot, date, preset and settings hash ignoring case', () => {
+    expect(ids(visibleResults(records, ' field ', 'savedAt', false))).toEqual([3]);
+    expect(ids(visibleResults(records, 'p1', 'savedAt', false))).toEqual([1]);
+    expect(ids(visibleResults(records, 'IMG2', 'savedAt', false))).toEqual([2]);
+    expect(ids(visibleResults(records, 'ABC', 'savedAt', true))).toEqual([3, 2, 1]);
+  });
+});
@@ -0,0 +1,35 @@
+import { StoredResult } from './resultStore';
+
+export type SortKey = 'savedAt' | 'filename' | 'plot' | 'date' | 'coverage' | 'plantCount' | 'preset';
+
+type SortValue = string | number | undefined;
+
+// 並べ替えに使う値（空欄は undefined）
+const SORT_VALUES: Record<SortKey, (record: StoredResult) => SortValue> = {
+  savedAt: record => record.savedAt,
+  filename: record => record.filename,
+  plot: record => record.plot,
+  date: record => record.date,
+  coverage: record => record.result.vegetationCoverage,
+  plantCount: record => record.result.plantCount,
+  preset: record => record.preset || undefined
+};
+
+// 空欄は並べ替えの向きにかかわらず末尾
+export const compareValues = (a: SortValue, b: SortValue, descending = false): number => {
+  if (a === undefined || b === undefined) return a === b ? 0 : a === undefined ? 1 : -1;
+  const order = typeof a === 'number' && typeof b === 'number'
+    ? a - b
+    : String(a).localeCompare(String(b), undefined, { numeric: true });
+  return descending ? -order : order;
+};
+
+// ファイル名・区画・撮影日・プリセット名・設定ハッシュで絞り込み、並べ替える
+export const visibleResults = (records: StoredResult[], filter: string, sortKey: SortKey, descending: boolean): StoredResult[] => {
+  const query = filter.trim().toLowerCase();
+  const value = SORT_VALUES[sortKey];
+  return records
+    .filter(record => !query || [record.filename, record.plot, record.date, record.preset, record.settingsHash]
+      .some(text => text?.toLowerCase().includes(query)))
+    .sort((a, b) => compareValues(value(a), value(b), descending));
+};
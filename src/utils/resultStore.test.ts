@@ -0,0 +1,108 @@
+import { AnalysisResult } from '../engine';
+import { StoredResult, deleteResults, listResults, saveResult } from './resultStore';
+import { restoreSettings } from './project';
+
+// 最小限の IndexedDB の代わり（1つのストア、イベントは実物と同じく非同期に発生させる）
+type Handler = (() => void) | null;
+interface FakeRequest {
+  result?: unknown;
+  error?: unknown;
+  onsuccess: Handler;
+  onerror: Handler;
+  onupgradeneeded?: Handler;
+}
+
+const rows = new Map<number, unknown>();
+let nextId = 1;
+// 次の add を失敗させる（容量の超過など）
+let addError: Error | null = null;
+
+const createTransaction = () => {
+  const tx = { error: null as unknown, oncomplete: null as Handler, onerror: null as Handler, onabort: null as Handler, objectStore: () => store };
+  let failed = false;
+  const request = (run: () => unknown): FakeRequest => {
+    const req: FakeRequest = { onsuccess: null, onerror: null };
+    setTimeout(() => {
+      try {
+        req.result = run();
+        req.onsuccess?.();
+      } catch (error) {
+        failed = true;
+        req.error = error;
+        tx.error = error;
+        req.onerror?.();
+        tx.onerror?.();
+        tx.onabort?.();
+      }
+    });
+    return req;
+  };
+  const store = {
+    add: (value: object) => request(() => {
+      if (addError) throw addError;
+      const id = nextId++;
+      rows.set(id, { ...value, id });
+      return id;
+    }),
+    getAll: () => request(() => Array.from(rows.values())),
+    delete: (id: number) => request(() => rows.delete(id))
+  };
+  // 同期的に作られた要求をすべて処理してから完了する
+  Promise.resolve().then(() => setTimeout(() => {
+    if (!failed) tx.oncomplete?.();
+  }));
+  return tx;
+};
+
+const fakeIndexedDB = {
+  open: () => {
+    const request: FakeRequest = { onsuccess: null, onerror: null, onupgradeneeded: null };
+    setTimeout(() => {
+      request.result = { createObjectStore: () => undefined, transaction: createTransaction };
+      request.onupgradeneeded?.();
+      request.onsuccess?.();
+    });
+    return request;
+  }
+};
+
+beforeAll(() => {
+  Object.defineProperty(window, 'indexedDB', { value: fakeIndexedDB, configurable: true });
+});
+
+const record = (filename: string): Omit<StoredResult, 'id'> => ({
+  savedAt: '2024-06-01T00:00:00.000Z',
+  filename,
+  result: { vegetationCoverage: 12.5 } as AnalysisResult,
+  preset: '',
+  settingsHash: 'abc',
+  settings: restoreSettings({}),
+  plots: [],
+  thumbnail: new Blob(['thumbnail']),
+  mask: new Blob(['mask'])
+});
+
+describe('resultStore', () => {
+  test('saves, lists and deletes results', async () => {
+    const first = await saveResult(record('a.jpg'));
+    const second = await saveResult(record('b.jpg'));
+    expect(second.id).toBe(first.id + 1);
+    expect((await listResults()).map(item => item.filename)).toEqual(['a.jpg', 'b.jpg']);
+    await deleteResults([first.id]);
+    expect((await listResults()).map(item => item.id)).toEqual([second.id]);
+  });
+
+  test('rejects a failed save without leaving the request rejection unhandled', async () => {
+    const unhandled = jest.fn();
+    process.on('unhandledRejection', unhandled);
+    addError = new Error('QuotaExceededError');
+    try {
+      await expect(saveResult(record('c.jpg'))).rejects.toThrow('QuotaExceededError');
+      await new Promise(resolve => setTimeout(resolve, 10));
+      expect(unhandled).not.toHaveBeenCalled();
+    } finally {
+      addError = null;
+      process.off('unhandledRejection', unhandled);
+    }
+  });
+});
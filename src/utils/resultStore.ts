@@ -0,0 +1,90 @@
+import { AnalysisResult, ExifData, Plot } from '../engine';
+import type { ProjectSettings } from './project';
+
+// 解析結果の保存先（IndexedDB）
+const DB_NAME = 'vegetation-analysis';
+const DB_VERSION = 1;
+const STORE_NAME = 'results';
+
+export interface StoredResult {
+  id: number;
+  savedAt: string;
+  filename: string;
+  result: AnalysisResult;
+  // バッチ画像に割り当てた区画と撮影日、EXIF / XMP
+  plot?: string;
+  date?: string;
+  metadata?: ExifData;
+  // 解析に使った設定とそのプリセット名・ハッシュ
+  preset: string;
+  settingsHash: string;
+  settings: ProjectSettings;
+  // 区画ごとの結果の表示に使う区画
+  plots: Plot[];
+  thumbnail: Blob;
+  // 2値化画像（PNG）
+  mask: Blob;
+}
+
+const requestPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'id', autoIncrement: true });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // 失敗した場合は次の呼び出しで開き直す
+    databasePromise.catch(() => {
+      databasePromise = null;
+    });
+  }
+  return databasePromise;
+};
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+// トランザクションが完了してから結果を返す（要求の失敗でトランザクションも失敗するため、両方を同時に待つ）
+const transaction = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORE_NAME, mode);
+  const [result] = await Promise.all([requestPromise(run(tx.objectStore(STORE_NAME))), transactionDone(tx)]);
+  return result;
+};
+
+// 結果を保存して id を付けたものを返す
+export const saveResult = async (record: Omit<StoredResult, 'id'>): Promise<StoredResult> => {
+  const id = await transaction('readwrite', store => store.add(record));
+  return { ...record, id: id as number };
+};
+
+// 保存順（id 順）
+export const listResults = (): Promise<StoredResult[]> =>
+  transaction('readonly', store => store.getAll() as IDBRequest<StoredResult[]>);
+
+export const deleteResults = async (ids: number[]): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORE_NAME, 'readwrite');
+  const store = tx.objectStore(STORE_NAME);
+  ids.forEach(id => store.delete(id));
+  await transactionDone(tx);
+};
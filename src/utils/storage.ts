@@ -0,0 +1,27 @@
+// localStorage の読み書き（利用できない・壊れている場合は既定値を返す）
+export const loadJSON = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = window.localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : fallback;
+  } catch (error) {
+    console.error(`Failed to read ${key} from localStorage:`, error);
+    return fallback;
+  }
+};
+
+export const saveJSON = (key: string, value: unknown): void => {
+  try {
+    window.localStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    console.error(`Failed to write ${key} to localStorage:`, error);
+  }
+};
+
+export const STORAGE_KEYS = {
+  roiTemplates: 'vegetation-analysis.roiTemplates',
+  customIndices: 'vegetation-analysis.customIndices',
+  presets: 'vegetation-analysis.presets',
+  exportSettings: 'vegetation-analysis.exportSettings',
+  // 前回の設定・表示言語（再読み込み後に復元する）
+  session: 'vegetation-analysis.session'
+};
@@ -0,0 +1,21 @@
+import { createZipWriter } from '../engine';
+
+export interface ZipBuilder {
+  add: (name: string, content: Blob | string) => Promise<void>;
+  toBlob: () => Blob;
+}
+
+// Blob のまま連結して ZIP を作る（大きなバッチでも画像をまとめてメモリに読み込まない）
+export const createZipBuilder = (): ZipBuilder => {
+  const writer = createZipWriter();
+  const parts: BlobPart[] = [];
+  return {
+    add: async (name, content) => {
+      const blob = typeof content === 'string' ? new Blob([content]) : content;
+      // CRC の計算のために一度だけ読む（ヘッダーとデータは同時に追加するため並行して呼んでもよい）
+      const header = writer.add(name, new Uint8Array(await blob.arrayBuffer()));
+      parts.push(header, blob);
+    },
+    toBlob: () => new Blob([...parts, writer.finish()], { type: 'application/zip' })
+  };
+};